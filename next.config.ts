@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Read from disk by the route rather than imported, so trace them explicitly
+  outputFileTracingIncludes: {
+    "/api/typescript-lib/[file]": ["./node_modules/typescript/lib/lib.*.d.ts"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import type { UpdateArticleInput } from '@/lib/cms';
+import {
+  ARTICLE_UPDATE_FIELDS,
+  errorResponse,
+  findVisibleArticle,
+  invalidBody,
+  notFound,
+  pickFields,
+  readJsonObject,
+  readRevisionInfo,
+  requireWriteAccess,
+} from '@/lib/cms/api';
+
+interface ArticleRouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+// GET /api/articles/:slug
+export async function GET(request: Request, { params }: ArticleRouteContext) {
+  const { slug } = await params;
+  const article = findVisibleArticle(request, slug);
+
+  return article ? NextResponse.json(article) : notFound('Article', slug);
+}
+
+// PATCH /api/articles/:slug
+export async function PATCH(request: Request, { params }: ArticleRouteContext) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { slug } = await params;
+  const service = getInitializedContentService();
+  const article = service.getArticleBySlug(slug);
+  if (!article) return notFound('Article', slug);
+
+  const body = await readJsonObject(request);
+  if (!body) return invalidBody();
+
+  const { value: input, errors } = pickFields<UpdateArticleInput>(body, ARTICLE_UPDATE_FIELDS);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  const validation = service.validateUpdate(article.id, input);
+  if (!validation.valid) return errorResponse(400, validation.errors);
+
+  return NextResponse.json(service.updateArticle(article.id, input, readRevisionInfo(body)));
+}
+
+// DELETE /api/articles/:slug
+export async function DELETE(request: Request, { params }: ArticleRouteContext) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { slug } = await params;
+  const service = getInitializedContentService();
+  const article = service.getArticleBySlug(slug);
+  if (!article) return notFound('Article', slug);
+
+  service.deleteArticle(article.id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import {
+  errorResponse,
+  invalidBody,
+  notFound,
+  pickFields,
+  readJsonObject,
+  readRevisionInfo,
+  requireWriteAccess,
+} from '@/lib/cms/api';
+
+// POST /api/articles/:slug/schedule  { publishAt, unpublishAt? }; without
+// unpublishAt, an earlier unpublish date is dropped
+export async function POST(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { slug } = await params;
+  const service = getInitializedContentService();
+  const article = service.getArticleBySlug(slug);
+  if (!article) return notFound('Article', slug);
+
+  const body = await readJsonObject(request);
+  if (!body) return invalidBody();
+
+  const { value, errors } = pickFields<{ publishAt: Date; unpublishAt?: Date | null }>(
+    body,
+    { publishAt: 'date', unpublishAt: 'date | null' },
+    ['publishAt']
+  );
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  const update = { status: 'scheduled' as const, publishAt: value.publishAt, unpublishAt: value.unpublishAt ?? null };
+  const validation = service.validateUpdate(article.id, update);
+  if (!validation.valid) return errorResponse(400, validation.errors);
+
+  return NextResponse.json(
+    service.scheduleArticle(article.id, value.publishAt, value.unpublishAt, readRevisionInfo(body))
+  );
+}
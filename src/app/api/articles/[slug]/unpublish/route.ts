@@ -0,0 +1,7 @@
+import { changeArticleStatus } from '@/lib/cms/api';
+
+// POST /api/articles/:slug/unpublish
+export async function POST(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  return changeArticleStatus(request, slug, 'draft');
+}
@@ -0,0 +1,161 @@
+/**
+ * Tests for the CMS article routes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GET, POST } from './route';
+import { GET as getArticle, PATCH } from './[slug]/route';
+import { POST as publish } from './[slug]/publish/route';
+import { POST as schedule } from './[slug]/schedule/route';
+import { initializeContentFromWikiData, MemoryStorageAdapter, resetContentService } from '@/lib/cms';
+import type { Article, PaginatedResult, ValidationError } from '@/lib/cms';
+
+const TOKEN = 'test-token';
+const BASE_URL = 'http://localhost/api/articles';
+
+function request(path = '', init: RequestInit & { token?: string } = {}) {
+  const headers = new Headers(init.headers);
+  if (init.token) headers.set('authorization', `Bearer ${init.token}`);
+  return new Request(`${BASE_URL}${path}`, { ...init, headers });
+}
+
+function jsonRequest(method: string, path: string, body: unknown) {
+  return request(path, { method, body: JSON.stringify(body), token: TOKEN });
+}
+
+const params = (slug: string) => ({ params: Promise.resolve({ slug }) });
+
+const draftInput = {
+  slug: 'api-draft',
+  title: 'Draft from the API',
+  content: 'Written through the REST API.',
+  section: 'API',
+  categoryId: 'cat-api',
+};
+
+describe('CMS article routes', () => {
+  beforeEach(() => {
+    vi.stubEnv('CMS_API_TOKEN', TOKEN);
+    resetContentService();
+    initializeContentFromWikiData(new MemoryStorageAdapter());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetContentService();
+  });
+
+  it('lists published articles as a PaginatedResult', async () => {
+    const response = GET(request('?limit=5&offset=5&orderBy=title'));
+    const page = (await response.json()) as PaginatedResult<Article>;
+
+    expect(response.status).toBe(200);
+    expect(page.items).toHaveLength(5);
+    expect(page).toMatchObject({ limit: 5, offset: 5, hasMore: true });
+    expect(page.items.every((article) => article.status === 'published')).toBe(true);
+  });
+
+  it('rejects invalid query parameters with ValidationError[]', async () => {
+    const response = GET(request('?status=deleted&limit=0'));
+    const { errors } = (await response.json()) as { errors: ValidationError[] };
+
+    expect(response.status).toBe(400);
+    expect(errors.map((error) => error.field).sort()).toEqual(['limit', 'status']);
+  });
+
+  it('creates, updates and publishes articles with a token', async () => {
+    const created = await POST(jsonRequest('POST', '', draftInput));
+    expect(created.status).toBe(201);
+    expect(((await created.json()) as Article).status).toBe('draft');
+
+    const hidden = await getArticle(request('/api-draft'), params('api-draft'));
+    expect(hidden.status).toBe(404);
+
+    const updated = await PATCH(jsonRequest('PATCH', '/api-draft', { title: 'Renamed' }), params('api-draft'));
+    expect(((await updated.json()) as Article).title).toBe('Renamed');
+
+    const published = await publish(request('/api-draft/publish', { method: 'POST', token: TOKEN }), params('api-draft'));
+    expect(((await published.json()) as Article).status).toBe('published');
+
+    const visible = await getArticle(request('/api-draft'), params('api-draft'));
+    expect(visible.status).toBe(200);
+  });
+
+  it('returns validateArticle errors as a 400 body', async () => {
+    const response = await POST(jsonRequest('POST', '', { ...draftInput, slug: 'Not A Slug', featured: 'yes' }));
+    const { errors } = (await response.json()) as { errors: ValidationError[] };
+
+    expect(response.status).toBe(400);
+    expect(errors).toEqual([{ field: 'featured', message: 'featured must be of type boolean', code: 'INVALID_TYPE' }]);
+
+    const invalidSlug = await POST(jsonRequest('POST', '', { ...draftInput, slug: 'Not A Slug' }));
+    const body = (await invalidSlug.json()) as { errors: ValidationError[] };
+    expect(invalidSlug.status).toBe(400);
+    expect(body.errors[0]).toMatchObject({ field: 'slug', code: 'INVALID_FORMAT' });
+  });
+
+  it('rejects duplicate slugs', async () => {
+    await POST(jsonRequest('POST', '', draftInput));
+    const response = await POST(jsonRequest('POST', '', draftInput));
+    const { errors } = (await response.json()) as { errors: ValidationError[] };
+
+    expect(response.status).toBe(400);
+    expect(errors[0].code).toBe('DUPLICATE');
+  });
+
+  it('schedules articles and hides them until they are due', async () => {
+    await POST(jsonRequest('POST', '', draftInput));
+
+    const invalid = await schedule(jsonRequest('POST', '/api-draft/schedule', { publishAt: 'tomorrow' }), params('api-draft'));
+    expect(invalid.status).toBe(400);
+
+    const response = await schedule(
+      jsonRequest('POST', '/api-draft/schedule', { publishAt: '2999-01-01T00:00:00Z' }),
+      params('api-draft')
+    );
+    const scheduled = (await response.json()) as Article & { publishAt: string };
+    expect(scheduled.status).toBe('scheduled');
+    expect(scheduled.publishAt).toBe('2999-01-01T00:00:00.000Z');
+
+    expect((await getArticle(request('/api-draft'), params('api-draft'))).status).toBe(404);
+    const page = (await GET(request('?search=REST&limit=100')).json()) as PaginatedResult<Article>;
+    expect(page.items.map((article) => article.slug)).not.toContain('api-draft');
+  });
+
+  it('clears schedule dates sent as null and drops them when rescheduling or publishing', async () => {
+    await POST(jsonRequest('POST', '', draftInput));
+    await schedule(
+      jsonRequest('POST', '/api-draft/schedule', { publishAt: '2999-01-01T00:00:00Z', unpublishAt: '2999-02-01T00:00:00Z' }),
+      params('api-draft')
+    );
+
+    const rescheduled = await schedule(
+      jsonRequest('POST', '/api-draft/schedule', { publishAt: '2999-03-01T00:00:00Z' }),
+      params('api-draft')
+    );
+    expect(await rescheduled.json()).not.toHaveProperty('unpublishAt');
+
+    const invalid = await PATCH(jsonRequest('PATCH', '/api-draft', { publishAt: null }), params('api-draft'));
+    const { errors } = (await invalid.json()) as { errors: ValidationError[] };
+    expect(errors[0]).toMatchObject({ field: 'publishAt', code: 'REQUIRED' });
+
+    const cleared = await PATCH(
+      jsonRequest('PATCH', '/api-draft', { status: 'draft', publishAt: null, unpublishAt: null }),
+      params('api-draft')
+    );
+    expect(await cleared.json()).not.toHaveProperty('publishAt');
+
+    await schedule(jsonRequest('POST', '/api-draft/schedule', { publishAt: '2999-01-01T00:00:00Z' }), params('api-draft'));
+    const published = await publish(request('/api-draft/publish', { method: 'POST', token: TOKEN }), params('api-draft'));
+    expect(await published.json()).not.toHaveProperty('publishAt');
+    expect((await getArticle(request('/api-draft'), params('api-draft'))).status).toBe(200);
+  });
+
+  it('requires the bearer token for writes and unpublished reads', async () => {
+    expect((await POST(request('', { method: 'POST', body: JSON.stringify(draftInput) }))).status).toBe(401);
+    expect(GET(request('?status=draft')).status).toBe(403);
+
+    vi.stubEnv('CMS_API_TOKEN', '');
+    expect((await POST(jsonRequest('POST', '', draftInput))).status).toBe(403);
+  });
+});
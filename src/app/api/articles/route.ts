@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import type { CreateArticleInput } from '@/lib/cms';
+import {
+  ARTICLE_FIELDS,
+  errorResponse,
+  hasWriteAccess,
+  invalidBody,
+  parseArticleQuery,
+  pickFields,
+  readJsonObject,
+  readRevisionInfo,
+  requireWriteAccess,
+} from '@/lib/cms/api';
+
+const REQUIRED_FIELDS = ['slug', 'title', 'content', 'section', 'categoryId'];
+
+// GET /api/articles?status=&categoryId=&tags=&authorId=&featured=&difficulty=&search=&orderBy=&orderDirection=&limit=&offset=
+export function GET(request: Request) {
+  const { options, errors } = parseArticleQuery(new URL(request.url).searchParams);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  if (!hasWriteAccess(request)) {
+    if (options.status && options.status !== 'published') {
+      return errorResponse(403, [
+        { field: 'status', message: 'Only published articles can be listed without a token', code: 'FORBIDDEN' },
+      ]);
+    }
+    options.status = 'published';
+  }
+
+  return NextResponse.json(getInitializedContentService().queryArticles(options));
+}
+
+// POST /api/articles
+export async function POST(request: Request) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const body = await readJsonObject(request);
+  if (!body) return invalidBody();
+
+  const { value: input, errors } = pickFields<CreateArticleInput>(body, ARTICLE_FIELDS, REQUIRED_FIELDS);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  const service = getInitializedContentService();
+  const validation = service.validateCreate(input);
+  if (!validation.valid) return errorResponse(400, validation.errors);
+
+  return NextResponse.json(service.createArticle(input, readRevisionInfo(body)), { status: 201 });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import { errorResponse, notFound, requireWriteAccess } from '@/lib/cms/api';
+
+interface AuthorRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/authors/:id
+export async function GET(_request: Request, { params }: AuthorRouteContext) {
+  const { id } = await params;
+  const author = getInitializedContentService().getAuthor(id);
+
+  return author ? NextResponse.json(author) : notFound('Author', id);
+}
+
+// DELETE /api/authors/:id
+export async function DELETE(request: Request, { params }: AuthorRouteContext) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const service = getInitializedContentService();
+  if (!service.getAuthor(id)) return notFound('Author', id);
+
+  if (service.getAllArticles().some(article => article.authorId === id)) {
+    return errorResponse(409, [
+      { field: 'id', message: 'Cannot delete author with associated articles', code: 'HAS_ARTICLES' },
+    ]);
+  }
+
+  service.deleteAuthor(id);
+  return new NextResponse(null, { status: 204 });
+}
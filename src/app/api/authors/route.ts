@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import type { Author, ValidationError } from '@/lib/cms';
+import {
+  AUTHOR_FIELDS,
+  errorResponse,
+  invalidBody,
+  paginate,
+  parsePagination,
+  pickFields,
+  readJsonObject,
+  requireWriteAccess,
+} from '@/lib/cms/api';
+
+// GET /api/authors?limit=&offset=
+export function GET(request: Request) {
+  const errors: ValidationError[] = [];
+  const page = parsePagination(new URL(request.url).searchParams, errors);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  return NextResponse.json(paginate(getInitializedContentService().getAllAuthors(), page));
+}
+
+// POST /api/authors
+export async function POST(request: Request) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const body = await readJsonObject(request);
+  if (!body) return invalidBody();
+
+  const { value, errors } = pickFields<Omit<Author, 'id'>>(body, AUTHOR_FIELDS, ['name']);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  return NextResponse.json(getInitializedContentService().createAuthor(value), { status: 201 });
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import type { Category } from '@/lib/cms';
+import {
+  CATEGORY_FIELDS,
+  errorResponse,
+  invalidBody,
+  notFound,
+  pickFields,
+  readJsonObject,
+  requireWriteAccess,
+} from '@/lib/cms/api';
+
+interface CategoryRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/categories/:id
+export async function GET(_request: Request, { params }: CategoryRouteContext) {
+  const { id } = await params;
+  const category = getInitializedContentService().getCategory(id);
+
+  return category ? NextResponse.json(category) : notFound('Category', id);
+}
+
+// PATCH /api/categories/:id
+export async function PATCH(request: Request, { params }: CategoryRouteContext) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const service = getInitializedContentService();
+  if (!service.getCategory(id)) return notFound('Category', id);
+
+  const body = await readJsonObject(request);
+  if (!body) return invalidBody();
+
+  const { value, errors } = pickFields<Partial<Omit<Category, 'id'>>>(body, CATEGORY_FIELDS);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  return NextResponse.json(service.updateCategory(id, value));
+}
+
+// DELETE /api/categories/:id
+export async function DELETE(request: Request, { params }: CategoryRouteContext) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const service = getInitializedContentService();
+  if (!service.getCategory(id)) return notFound('Category', id);
+
+  if (service.getAllArticles().some(article => article.categoryId === id)) {
+    return errorResponse(409, [
+      { field: 'id', message: 'Cannot delete category with associated articles', code: 'HAS_ARTICLES' },
+    ]);
+  }
+
+  service.deleteCategory(id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import type { Category, ValidationError } from '@/lib/cms';
+import {
+  CATEGORY_FIELDS,
+  errorResponse,
+  invalidBody,
+  paginate,
+  parsePagination,
+  pickFields,
+  readJsonObject,
+  requireWriteAccess,
+} from '@/lib/cms/api';
+
+// GET /api/categories?limit=&offset=
+export function GET(request: Request) {
+  const errors: ValidationError[] = [];
+  const page = parsePagination(new URL(request.url).searchParams, errors);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  return NextResponse.json(paginate(getInitializedContentService().getAllCategories(), page));
+}
+
+// POST /api/categories
+export async function POST(request: Request) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const body = await readJsonObject(request);
+  if (!body) return invalidBody();
+
+  const { value, errors } = pickFields<Omit<Category, 'id'>>(body, CATEGORY_FIELDS, ['name', 'slug', 'order']);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  return NextResponse.json(getInitializedContentService().createCategory(value), { status: 201 });
+}
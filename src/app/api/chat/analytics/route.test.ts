@@ -0,0 +1,51 @@
+/**
+ * Tests for the chat analytics route
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from './route';
+import { getChatLogStore, resetChatLogStore } from '@/lib/chat-log';
+
+const TOKEN = 'test-token';
+
+function analyticsRequest(token?: string) {
+  return new Request('http://localhost/api/chat/analytics', {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('GET /api/chat/analytics', () => {
+  beforeEach(() => {
+    vi.stubEnv('CHAT_LOG_FILE', '');
+    vi.stubEnv('CMS_API_TOKEN', TOKEN);
+    resetChatLogStore();
+  });
+
+  it('aggregates the chat log', async () => {
+    getChatLogStore().recordQuery({
+      id: 'q1',
+      conversationId: 'c1',
+      query: 'What is Zed?',
+      intent: 'explanation',
+      topics: [],
+      language: 'en',
+      resultCount: 0,
+      timestamp: new Date('2026-01-01T10:00:00Z'),
+    });
+
+    const response = GET(analyticsRequest(TOKEN));
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.totalMessages).toBe(1);
+    expect(body.unansweredQueries).toEqual([{ query: 'What is Zed?', count: 1, lastAskedAt: '2026-01-01T10:00:00.000Z' }]);
+  });
+
+  it('requires the CMS token', async () => {
+    expect(GET(analyticsRequest()).status).toBe(401);
+    expect(GET(analyticsRequest('wrong')).status).toBe(401);
+
+    vi.stubEnv('CMS_API_TOKEN', '');
+    expect(GET(analyticsRequest(TOKEN)).status).toBe(403);
+  });
+});
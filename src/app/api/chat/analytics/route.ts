@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getChatLogStore } from '@/lib/chat-log';
+import { aggregateChatbotAnalytics } from '@/lib/chatbot-analytics';
+import { requireWriteAccess } from '@/lib/cms/api';
+
+// GET /api/chat/analytics. Readers' questions are private, so this needs
+// the same bearer token as the CMS write API.
+export function GET(request: Request) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  return NextResponse.json(aggregateChatbotAnalytics(getChatLogStore().snapshot()));
+}
@@ -0,0 +1,45 @@
+/**
+ * Tests for the chat feedback route
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST } from './route';
+import { getChatLogStore, resetChatLogStore } from '@/lib/chat-log';
+
+function feedbackRequest(body: unknown) {
+  return new Request('http://localhost/api/chat/feedback', { method: 'POST', body: JSON.stringify(body) });
+}
+
+describe('POST /api/chat/feedback', () => {
+  beforeEach(() => {
+    vi.stubEnv('CHAT_LOG_FILE', '');
+    resetChatLogStore();
+  });
+
+  it('stores the rating', async () => {
+    const response = await POST(
+      feedbackRequest({ conversationId: 'c1', messageId: 'm1', rating: 1, helpful: false, issue: 'missing_source', comment: ' No link ' })
+    );
+
+    expect(response.status).toBe(201);
+    const [stored] = getChatLogStore().snapshot().feedback;
+    expect(stored).toMatchObject({ conversationId: 'c1', messageId: 'm1', rating: 1, helpful: false, issue: 'missing_source', comment: 'No link' });
+    expect(stored.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('rejects incomplete or out-of-range feedback', async () => {
+    const response = await POST(feedbackRequest({ messageId: 'm1', rating: 6, helpful: 'yes', issue: 'boring' }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.errors.map((error: { field: string }) => error.field)).toEqual(['conversationId', 'rating', 'helpful', 'issue']);
+    expect(getChatLogStore().snapshot().feedback).toEqual([]);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await POST(new Request('http://localhost/api/chat/feedback', { method: 'POST', body: '{' }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors[0].code).toBe('INVALID_JSON');
+  });
+});
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getChatLogStore } from '@/lib/chat-log';
+import type { ChatbotFeedback } from '@/types/wiki-chatbot';
+
+const MAX_COMMENT_LENGTH = 1000;
+
+const ISSUES: NonNullable<ChatbotFeedback['issue']>[] = ['inaccurate', 'unclear', 'missing_source', 'irrelevant', 'other'];
+
+interface FieldError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+function errorResponse(status: number, errors: FieldError[]): NextResponse {
+  return NextResponse.json({ errors }, { status });
+}
+
+function parseFeedback(body: unknown): { value: ChatbotFeedback; errors: FieldError[] } {
+  const data = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  for (const field of ['conversationId', 'messageId']) {
+    if (typeof data[field] !== 'string' || !data[field]) {
+      errors.push({ field, message: `${field} is required`, code: 'REQUIRED' });
+    }
+  }
+
+  const rating = data.rating;
+  if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.push({ field: 'rating', message: 'Rating must be a whole number from 1 to 5', code: 'INVALID_VALUE' });
+  }
+
+  if (typeof data.helpful !== 'boolean') {
+    errors.push({ field: 'helpful', message: 'Helpful must be true or false', code: 'INVALID_TYPE' });
+  }
+
+  const issue = data.issue;
+  if (issue !== undefined && !ISSUES.includes(issue as (typeof ISSUES)[number])) {
+    errors.push({ field: 'issue', message: `Issue must be one of: ${ISSUES.join(', ')}`, code: 'INVALID_VALUE' });
+  }
+
+  const comment = data.comment;
+  if (comment !== undefined && typeof comment !== 'string') {
+    errors.push({ field: 'comment', message: 'Comment must be a string', code: 'INVALID_TYPE' });
+  } else if (typeof comment === 'string' && comment.length > MAX_COMMENT_LENGTH) {
+    errors.push({ field: 'comment', message: `Comment must be at most ${MAX_COMMENT_LENGTH} characters`, code: 'TOO_LONG' });
+  }
+
+  return {
+    value: {
+      conversationId: data.conversationId as string,
+      messageId: data.messageId as string,
+      rating: rating as ChatbotFeedback['rating'],
+      helpful: data.helpful as boolean,
+      ...(issue !== undefined && { issue: issue as ChatbotFeedback['issue'] }),
+      ...(typeof comment === 'string' && comment.trim() && { comment: comment.trim() }),
+      timestamp: new Date(),
+    },
+    errors,
+  };
+}
+
+/**
+ * POST /api/chat/feedback with a `ChatbotFeedback` minus its timestamp.
+ * Rating the same message again replaces the earlier rating.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, [{ field: 'body', message: 'Request body must be JSON', code: 'INVALID_JSON' }]);
+  }
+
+  const { value, errors } = parseFeedback(body);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  getChatLogStore().recordFeedback(value);
+  return NextResponse.json(value, { status: 201 });
+}
@@ -0,0 +1,140 @@
+/**
+ * Tests for the chat route, answered by the mock provider
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { POST } from './route';
+import { MockLLMProvider, readServerSentEvents, type ServerSentEvent } from '@/lib/llm';
+import { getChatLogStore, resetChatLogStore } from '@/lib/chat-log';
+import { initializeContentFromWikiData, MemoryStorageAdapter, resetContentService } from '@/lib/cms';
+import type { ChatSource } from '@/types/wiki-chatbot';
+
+function chatRequest(body: unknown) {
+  return new Request('http://localhost/api/chat', { method: 'POST', body: JSON.stringify(body) });
+}
+
+async function readEvents(response: Response): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(response.body!)) events.push(event);
+  return events;
+}
+
+describe('POST /api/chat', () => {
+  vi.stubEnv('LLM_BASE_URL', '');
+  vi.stubEnv('CHAT_LOG_FILE', '');
+
+  it('streams sources, tokens and the cited sources', async () => {
+    const response = await POST(chatRequest({ message: 'ما هو Vibe Coding؟' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const events = await readEvents(response);
+    expect(events[0].event).toBe('sources');
+    expect(events.at(-1)?.event).toBe('done');
+
+    const sources = JSON.parse(events[0].data) as ChatSource[];
+    expect(sources.length).toBeGreaterThan(0);
+
+    const answer = events.filter(event => event.event === 'token').map(event => JSON.parse(event.data)).join('');
+    const heading = sources[0].heading ? ` › ${sources[0].heading}` : '';
+    expect(answer).toContain(`${sources[0].title}${heading} [1]`);
+
+    const done = JSON.parse(events.at(-1)!.data) as { sources: ChatSource[] };
+    expect(done.sources.map(source => source.slug)).toEqual(sources.map(source => source.slug));
+  });
+
+  it('accepts the reader context', async () => {
+    const response = await POST(
+      chatRequest({
+        message: 'How do I commit?',
+        language: 'en',
+        context: { userLevel: 'beginner', completedTutorials: [], viewedArticles: ['unknown-page'], recentTopics: ['Git'] },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect((await readEvents(response)).at(-1)?.event).toBe('done');
+  });
+
+  it('logs the question for the analytics', async () => {
+    resetChatLogStore();
+    const response = await POST(chatRequest({ message: 'ما هو Vibe Coding؟', conversationId: 'c1' }));
+    await readEvents(response);
+
+    const [record] = getChatLogStore().snapshot().queries;
+    expect(record).toMatchObject({ conversationId: 'c1', query: 'ما هو Vibe Coding؟', language: 'ar' });
+    expect(record.resultCount).toBeGreaterThan(0);
+  });
+
+  it('logs a question asked on an article page that matches nothing as unanswered', async () => {
+    resetChatLogStore();
+    const response = await POST(chatRequest({ message: 'xyzzy plugh', context: { viewedArticles: ['what-is-vibe-coding'] } }));
+    const events = await readEvents(response);
+
+    expect(JSON.parse(events[0].data).length).toBeGreaterThan(0);
+    const [record] = getChatLogStore().snapshot().queries;
+    expect(record).toMatchObject({ query: 'xyzzy plugh', resultCount: 0 });
+  });
+
+  it('leaves articles the CMS does not publish out of the sources', async () => {
+    const slug = 'what-is-vibe-coding';
+    const sourceSlugs = async () => {
+      const events = await readEvents(await POST(chatRequest({ message: 'ما هو Vibe Coding؟' })));
+      return (JSON.parse(events[0].data) as ChatSource[]).map(source => source.slug);
+    };
+
+    resetContentService();
+    const service = initializeContentFromWikiData(new MemoryStorageAdapter());
+    try {
+      expect(await sourceSlugs()).toContain(slug);
+
+      service.unpublishArticle(service.getArticleBySlug(slug)!.id);
+      expect(await sourceSlugs()).not.toContain(slug);
+    } finally {
+      resetContentService();
+    }
+  });
+
+  it('logs provider errors and sends the browser a generic one', async () => {
+    const failure = new Error('LLM request failed with status 500: upstream secret');
+    const stream = vi.spyOn(MockLLMProvider.prototype, 'stream').mockImplementation(async function* () {
+      yield* [];
+      throw failure;
+    });
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const events = await readEvents(await POST(chatRequest({ message: 'ما هو Vibe Coding؟' })));
+
+      expect(events.at(-1)).toEqual({ event: 'error', data: JSON.stringify({ message: 'The answer could not be generated' }) });
+      expect(log).toHaveBeenCalledWith('Chat answer failed:', failure);
+    } finally {
+      stream.mockRestore();
+      log.mockRestore();
+    }
+  });
+
+  it('rejects history messages longer than a message may be', async () => {
+    const response = await POST(chatRequest({ message: 'hi', history: [{ role: 'user', content: 'x'.repeat(2001) }] }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.errors).toEqual([{ field: 'history', message: 'History messages must be at most 2000 characters', code: 'TOO_LONG' }]);
+  });
+
+  it('rejects an empty message', async () => {
+    const response = await POST(chatRequest({ message: '  ' }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.errors).toEqual([{ field: 'message', message: 'Message is required', code: 'REQUIRED' }]);
+  });
+
+  it('rejects malformed history, language and context', async () => {
+    const response = await POST(chatRequest({ message: 'hi', history: [{ role: 'system', content: 'x' }], language: 'fr', context: { userLevel: 'expert' }, conversationId: 7 }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.errors.map((error: { field: string }) => error.field)).toEqual(['history', 'language', 'context', 'conversationId']);
+  });
+});
@@ -0,0 +1,262 @@
+import { NextResponse } from 'next/server';
+import { getLiveArticles } from '@/lib/article-utils';
+import { learningPaths, tutorials } from '@/data/wiki-content';
+import { DEFAULT_CONFIG, parseQuery, searchWikiContent } from '@/lib/wiki-chatbot-utils';
+import { rerankWithEmbeddings } from '@/lib/retrieval';
+import { getChatLogStore } from '@/lib/chat-log';
+import type { ChatContext, ParsedQuery, QueryEntity, WikiSearchResult } from '@/types/wiki-chatbot';
+import type { WikiArticle } from '@/types';
+import {
+  buildChatPrompt,
+  createDefaultEmbeddingProvider,
+  createDefaultProvider,
+  formatServerSentEvent,
+  getCitedSources,
+  type ChatReader,
+  type EmbeddingProvider,
+  type LLMMessage,
+  type LLMProvider,
+} from '@/lib/llm';
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+const USER_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+/** The parts of the client's `ChatContext` the answer is tailored to. */
+type ReaderContext = Partial<Pick<ChatContext, 'userLevel' | 'completedTutorials' | 'viewedArticles' | 'recentTopics'>>;
+
+interface ChatRequest {
+  message: string;
+  history: LLMMessage[];
+  language?: 'ar' | 'en';
+  context: ReaderContext;
+  conversationId?: string;
+}
+
+interface FieldError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+// Entities that name what a question is about, for the top topics
+const TOPIC_ENTITY_TYPES: QueryEntity['type'][] = ['tool', 'concept', 'section', 'topic', 'feature'];
+
+// Passages fetched for the embedding model to choose from
+const RERANK_CANDIDATES = DEFAULT_CONFIG.maxSources * 3;
+
+let provider: LLMProvider | null = null;
+let embeddings: EmbeddingProvider | null | undefined;
+
+function errorResponse(status: number, errors: FieldError[]): NextResponse {
+  return NextResponse.json({ errors }, { status });
+}
+
+function isTurn(value: unknown): value is LLMMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const { role, content } = value as Record<string, unknown>;
+  return (role === 'user' || role === 'assistant') && typeof content === 'string';
+}
+
+const isStringList = (value: unknown) =>
+  value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+
+function isReaderContext(value: unknown): value is ReaderContext {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const context = value as Record<string, unknown>;
+  return (
+    (context.userLevel === undefined || USER_LEVELS.includes(context.userLevel as string)) &&
+    isStringList(context.completedTutorials) &&
+    isStringList(context.viewedArticles) &&
+    isStringList(context.recentTopics)
+  );
+}
+
+function parseChatRequest(body: unknown): { value: ChatRequest; errors: FieldError[] } {
+  const data = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const message = typeof data.message === 'string' ? data.message.trim() : '';
+  if (!message) {
+    errors.push({ field: 'message', message: 'Message is required', code: 'REQUIRED' });
+  } else if (message.length > MAX_MESSAGE_LENGTH) {
+    errors.push({ field: 'message', message: `Message must be at most ${MAX_MESSAGE_LENGTH} characters`, code: 'TOO_LONG' });
+  }
+
+  const history = data.history ?? [];
+  if (!Array.isArray(history) || !history.every(isTurn)) {
+    errors.push({ field: 'history', message: 'History must be a list of user and assistant messages', code: 'INVALID_TYPE' });
+  } else if (history.some((turn) => turn.content.length > MAX_MESSAGE_LENGTH)) {
+    errors.push({ field: 'history', message: `History messages must be at most ${MAX_MESSAGE_LENGTH} characters`, code: 'TOO_LONG' });
+  }
+
+  const language = data.language;
+  if (language !== undefined && language !== 'ar' && language !== 'en') {
+    errors.push({ field: 'language', message: 'Language must be "ar" or "en"', code: 'INVALID_VALUE' });
+  }
+
+  const context = data.context ?? {};
+  if (!isReaderContext(context)) {
+    errors.push({ field: 'context', message: 'Context has an unknown level or a list that is not text', code: 'INVALID_TYPE' });
+  }
+
+  const conversationId = data.conversationId;
+  if (conversationId !== undefined && typeof conversationId !== 'string') {
+    errors.push({ field: 'conversationId', message: 'Conversation id must be a string', code: 'INVALID_TYPE' });
+  }
+
+  return {
+    value: {
+      message,
+      history: Array.isArray(history) ? history : [],
+      language: language as ChatRequest['language'],
+      context: isReaderContext(context) ? context : {},
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+    },
+    errors,
+  };
+}
+
+/**
+ * Describe the reader for the prompt, with titles in place of slugs and ids.
+ */
+function toReader(context: ReaderContext, articles: WikiArticle[]): ChatReader {
+  const currentPage = articles.find((article) => article.slug === context.viewedArticles?.[0]);
+  return {
+    level: context.userLevel,
+    currentPage: currentPage?.title,
+    completedTutorials: tutorials
+      .filter((tutorial) => context.completedTutorials?.includes(tutorial.id))
+      .map((tutorial) => tutorial.title),
+    recentTopics: context.recentTopics,
+  };
+}
+
+/**
+ * Log the question for the chatbot analytics. The log is best-effort: a
+ * failure to write it never fails the answer.
+ */
+function logQuery(query: ParsedQuery, conversationId: string | undefined, resultCount: number) {
+  try {
+    getChatLogStore().recordQuery({
+      id: `query-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      conversationId,
+      query: query.originalText,
+      intent: query.intent,
+      topics: Array.from(
+        new Set(query.entities.filter((entity) => TOPIC_ENTITY_TYPES.includes(entity.type)).map((entity) => entity.value))
+      ),
+      language: query.language,
+      resultCount,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    console.error('Failed to log chat query:', error);
+  }
+}
+
+/**
+ * Keyword retrieval, re-ranked by embedding similarity when
+ * `LLM_EMBEDDING_MODEL` is set. A failing embedding model falls back to
+ * the keyword order.
+ */
+async function retrieve(query: ParsedQuery, articles: WikiArticle[], signal: AbortSignal): Promise<WikiSearchResult[]> {
+  if (embeddings === undefined) embeddings = createDefaultEmbeddingProvider();
+  if (!embeddings) {
+    return searchWikiContent(query, articles, tutorials, learningPaths, DEFAULT_CONFIG.maxSources);
+  }
+
+  const candidates = searchWikiContent(query, articles, tutorials, learningPaths, RERANK_CANDIDATES);
+  try {
+    const reranked = await rerankWithEmbeddings(query.originalText, candidates, embeddings, { signal });
+    return reranked.slice(0, DEFAULT_CONFIG.maxSources);
+  } catch (error) {
+    console.error('Embedding re-ranking failed, using keyword ranking:', error);
+    return candidates.slice(0, DEFAULT_CONFIG.maxSources);
+  }
+}
+
+/**
+ * POST /api/chat with `{ message, history?, language?, context?, conversationId? }`,
+ * where `context` is the client's `ChatContext`. Every question is logged
+ * for `/api/chat/analytics`. Responds with
+ * server-sent events: `sources` (the passages in the prompt), a `token`
+ * per chunk of the answer, then `done` with the sources the answer cites,
+ * or `error`.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, [{ field: 'body', message: 'Request body must be JSON', code: 'INVALID_JSON' }]);
+  }
+
+  const { value, errors } = parseChatRequest(body);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  // Drafts, archived articles and ones scheduled for later are never quoted
+  const articles = getLiveArticles();
+  const query = parseQuery(value.message, articles, tutorials, learningPaths);
+  const reader = toReader(value.context, articles);
+  // Questions asked on an article page ("what does this step do?") search that article too
+  const searchQuery = reader.currentPage
+    ? { ...query, entities: [...query.entities, { type: 'topic' as const, value: reader.currentPage, confidence: 0.5 }] }
+    : query;
+  const results = await retrieve(searchQuery, articles, request.signal);
+  // Count what the question finds on its own, so one asked on an article
+  // page that matches nothing still shows up as unanswered
+  const questionResultCount = reader.currentPage
+    ? searchWikiContent(query, articles, tutorials, learningPaths, DEFAULT_CONFIG.maxSources).length
+    : results.length;
+  logQuery(query, value.conversationId, questionResultCount);
+  const prompt = buildChatPrompt({
+    question: value.message,
+    results,
+    history: value.history.slice(-DEFAULT_CONFIG.maxMessages),
+    config: DEFAULT_CONFIG,
+    language: value.language ?? query.language,
+    reader,
+  });
+
+  provider ??= createDefaultProvider();
+  const model = provider;
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!cancelled) controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      send('sources', prompt.sources);
+      let answer = '';
+      try {
+        for await (const chunk of model.stream({ messages: prompt.messages, signal: request.signal })) {
+          if (cancelled) break;
+          answer += chunk;
+          send('token', chunk);
+        }
+        // An answer that cites nothing still lists what it was given
+        const cited = getCitedSources(answer, prompt.sources);
+        send('done', { sources: cited.length > 0 ? cited : prompt.sources });
+      } catch (error) {
+        // Provider errors can quote the upstream response; keep that in the server log
+        console.error('Chat answer failed:', error);
+        send('error', { message: 'The answer could not be generated' });
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import { requireWriteAccess } from '@/lib/cms/api';
+
+// POST /api/scheduler — meant for a cron job; publishes and unpublishes
+// every article whose schedule is due.
+export function POST(request: Request) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { published, unpublished } = getInitializedContentService().runScheduler();
+
+  return NextResponse.json({
+    published: published.map(article => article.slug),
+    unpublished: unpublished.map(article => article.slug),
+  });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import { notFound, requireWriteAccess } from '@/lib/cms/api';
+
+interface TagRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/tags/:id
+export async function GET(_request: Request, { params }: TagRouteContext) {
+  const { id } = await params;
+  const tag = getInitializedContentService().getTag(id);
+
+  return tag ? NextResponse.json(tag) : notFound('Tag', id);
+}
+
+// DELETE /api/tags/:id
+export async function DELETE(request: Request, { params }: TagRouteContext) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!getInitializedContentService().deleteTag(id)) return notFound('Tag', id);
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getInitializedContentService } from '@/lib/cms';
+import type { Tag, ValidationError } from '@/lib/cms';
+import {
+  TAG_FIELDS,
+  errorResponse,
+  invalidBody,
+  paginate,
+  parsePagination,
+  pickFields,
+  readJsonObject,
+  requireWriteAccess,
+} from '@/lib/cms/api';
+
+// GET /api/tags?limit=&offset=
+export function GET(request: Request) {
+  const errors: ValidationError[] = [];
+  const page = parsePagination(new URL(request.url).searchParams, errors);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  return NextResponse.json(paginate(getInitializedContentService().getAllTags(), page));
+}
+
+// POST /api/tags
+export async function POST(request: Request) {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const body = await readJsonObject(request);
+  if (!body) return invalidBody();
+
+  const { value, errors } = pickFields<Omit<Tag, 'id'>>(body, TAG_FIELDS, ['name', 'slug']);
+  if (errors.length > 0) return errorResponse(400, errors);
+
+  return NextResponse.json(getInitializedContentService().createTag(value), { status: 201 });
+}
@@ -0,0 +1,25 @@
+/**
+ * Tests for the TypeScript library route
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GET } from './route';
+
+const get = (file: string) =>
+  GET(new Request(`http://localhost/api/typescript-lib/${file}`), { params: Promise.resolve({ file }) });
+
+describe('TypeScript library route', () => {
+  it('serves standard library declarations', async () => {
+    const response = await get('lib.es2015.promise.d.ts');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toContain('max-age');
+    expect(await response.text()).toContain('interface PromiseConstructor');
+  });
+
+  it('refuses other files and paths', async () => {
+    expect((await get('typescript.js')).status).toBe(404);
+    expect((await get('..%2Fpackage.json')).status).toBe(404);
+    expect((await get('lib.nope.d.ts')).status).toBe(404);
+  });
+});
@@ -0,0 +1,30 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { notFound } from '@/lib/cms/api';
+
+interface TypeScriptLibRouteContext {
+  params: Promise<{ file: string }>;
+}
+
+// Only the standard library declarations, e.g. lib.es2022.d.ts
+const LIB_FILE = /^lib(\.[a-z0-9]+)*\.d\.ts$/;
+
+const LIB_DIR = path.join(process.cwd(), 'node_modules', 'typescript', 'lib');
+
+// GET /api/typescript-lib/:file — used by in-browser type checking
+export async function GET(_request: Request, { params }: TypeScriptLibRouteContext) {
+  const { file } = await params;
+  if (!LIB_FILE.test(file)) return notFound('TypeScript library', file);
+
+  try {
+    const source = await readFile(path.join(LIB_DIR, file), 'utf8');
+    return new Response(source, {
+      headers: {
+        'content-type': 'text/plain; charset=utf-8',
+        'cache-control': 'public, max-age=86400',
+      },
+    });
+  } catch {
+    return notFound('TypeScript library', file);
+  }
+}
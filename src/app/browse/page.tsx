@@ -1,4 +1,4 @@
-import { allArticles } from "@/lib/article-utils";
+import { allArticles, isArticleLive } from "@/lib/article-utils";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -16,7 +16,8 @@ function getArticlesBySection(articles: typeof allArticles, section: string) {
 }
 
 export default function BrowsePage() {
-  const sections = getUniqueSections(allArticles);
+  const articles = allArticles.filter(a => isArticleLive(a.slug));
+  const sections = getUniqueSections(articles);
 
   return (
     <div className="min-h-screen">
@@ -25,7 +26,7 @@ export default function BrowsePage() {
         <div className="mx-auto max-w-7xl px-6 py-8 lg:px-8">
           <h1 className="text-4xl font-bold tracking-tight">Browse All Content</h1>
           <p className="mt-2 text-lg text-muted-foreground">
-            Explore {allArticles.length} articles across {sections.length} categories
+            Explore {articles.length} articles across {sections.length} categories
           </p>
         </div>
       </div>
@@ -43,7 +44,7 @@ export default function BrowsePage() {
       {/* Content by section */}
       <div className="mx-auto max-w-7xl px-6 py-8 lg:px-8 space-y-16">
         {sections.map((section) => {
-          const sectionArticles = getArticlesBySection(allArticles, section);
+          const sectionArticles = getArticlesBySection(articles, section);
           return (
             <section key={section}>
               <div className="mb-6">
@@ -0,0 +1,11 @@
+import { Metadata } from "next";
+import { ChatAnalyticsDashboard } from "@/components/wiki/ChatAnalyticsDashboard";
+
+export const metadata: Metadata = {
+  title: "تحليلات المساعد",
+  robots: { index: false },
+};
+
+export default function ChatAnalyticsPage() {
+  return <ChatAnalyticsDashboard />;
+}
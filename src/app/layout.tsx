@@ -3,9 +3,13 @@ import { Geist_Mono } from "next/font/google";
 import { Cairo } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/providers/ThemeProvider";
+import { ProgressProvider } from "@/components/providers/ProgressProvider";
 import { Sidebar } from "@/components/Sidebar";
 import { MobileNav } from "@/components/layout/MobileNav";
 import CommandMenu from "@/components/search/CommandMenu";
+import { ChatBot } from "@/components/ChatBot";
+import { getNavSections } from "@/lib/article-utils";
+import { getAvailableSections } from "@/lib/enhanced-search";
 
 const cairo = Cairo({
   variable: "--font-arabic",
@@ -45,6 +49,8 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const navSections = getNavSections();
+
   return (
     <html lang="ar" dir="rtl" suppressHydrationWarning>
       <body
@@ -56,28 +62,31 @@ export default function RootLayout({
           enableSystem={false}
           disableTransitionOnChange
         >
-          <CommandMenu />
+          <ProgressProvider>
+            <CommandMenu sections={navSections} searchSections={getAvailableSections()} />
           
-          <div className="relative min-h-screen">
-            {/* Sidebar - Fixed on Right */}
-            <Sidebar />
+            <div className="relative min-h-screen">
+              {/* Sidebar - Fixed on Right */}
+              <Sidebar sections={navSections} />
             
-            {/* Main Content Area */}
-            <div className="lg:mr-80 min-h-screen flex flex-col transition-[margin] duration-300 ease-in-out">
-              {/* Background Effects */}
-              <div className="fixed inset-0 z-0 pointer-events-none overflow-hidden">
-                <div className="absolute top-0 right-0 w-[500px] h-[500px] bg-neon-purple/10 rounded-full blur-[120px] mix-blend-screen" />
-                <div className="absolute bottom-0 left-0 w-[500px] h-[500px] bg-neon-cyan/10 rounded-full blur-[120px] mix-blend-screen" />
-                <div className="absolute inset-0 bg-[url('/noise.svg')] opacity-20 mix-blend-overlay" />
-              </div>
+              {/* Main Content Area */}
+              <div className="lg:mr-80 min-h-screen flex flex-col transition-[margin] duration-300 ease-in-out">
+                {/* Background Effects */}
+                <div className="fixed inset-0 z-0 pointer-events-none overflow-hidden">
+                  <div className="absolute top-0 right-0 w-[500px] h-[500px] bg-neon-purple/10 rounded-full blur-[120px] mix-blend-screen" />
+                  <div className="absolute bottom-0 left-0 w-[500px] h-[500px] bg-neon-cyan/10 rounded-full blur-[120px] mix-blend-screen" />
+                  <div className="absolute inset-0 bg-[url('/noise.svg')] opacity-20 mix-blend-overlay" />
+                </div>
 
-              <main className="relative z-10 flex-1 px-4 py-8 md:px-8 lg:px-12 max-w-7xl mx-auto w-full">
-                {children}
-              </main>
+                <main className="relative z-10 flex-1 px-4 py-8 md:px-8 lg:px-12 max-w-7xl mx-auto w-full">
+                  {children}
+                </main>
+              </div>
             </div>
-          </div>
 
-          <MobileNav />
+            <MobileNav sections={navSections} />
+            <ChatBot pages={navSections} />
+          </ProgressProvider>
         </ThemeProvider>
       </body>
     </html>
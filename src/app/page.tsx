@@ -1,11 +1,12 @@
 import { Hero } from "@/components/home/Hero";
 import { LearningPaths } from "@/components/home/LearningPaths";
+import { learningPaths } from "@/data/wiki-content";
 
 export default function Home() {
   return (
     <div className="flex flex-col min-h-screen">
       <Hero />
-      <LearningPaths />
+      <LearningPaths paths={learningPaths} />
     </div>
   );
 }
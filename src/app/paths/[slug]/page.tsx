@@ -0,0 +1,56 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { allArticles } from "@/lib/article-utils";
+import { learningPaths, tutorials } from "@/data/wiki-content";
+import { getPathItemHref } from "@/lib/learning-path-utils";
+import { LearningPathPlayer } from "@/components/wiki/LearningPathPlayer";
+
+interface PathPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+export async function generateStaticParams() {
+  return learningPaths.map((path) => ({
+    slug: path.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: PathPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const path = learningPaths.find((candidate) => candidate.slug === slug);
+
+  if (!path) {
+    return {
+      title: "الصفحة غير موجودة",
+    };
+  }
+
+  return {
+    title: path.title,
+    description: path.description,
+  };
+}
+
+export default async function PathPage({ params }: PathPageProps) {
+  const { slug } = await params;
+  const path = learningPaths.find((candidate) => candidate.slug === slug);
+
+  if (!path) {
+    notFound();
+  }
+
+  const content = { articleSlugs: allArticles.map((article) => article.slug), tutorials };
+  const itemHrefs: Record<string, string> = {};
+  for (const item of path.items) {
+    const href = getPathItemHref(item, content);
+    if (href) itemHrefs[item.id] = href;
+  }
+
+  return (
+    <div className="pb-20">
+      <LearningPathPlayer path={path} itemHrefs={itemHrefs} />
+    </div>
+  );
+}
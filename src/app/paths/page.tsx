@@ -0,0 +1,11 @@
+import { Metadata } from "next";
+import { learningPaths } from "@/data/wiki-content";
+import { LearningPaths } from "@/components/home/LearningPaths";
+
+export const metadata: Metadata = {
+  title: "مسارات التعلم",
+};
+
+export default function PathsPage() {
+  return <LearningPaths paths={learningPaths} isPage />;
+}
@@ -0,0 +1,31 @@
+/**
+ * Tests for the prebuilt search index route
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET } from './route';
+import { initializeContentFromWikiData, MemoryStorageAdapter, resetContentService } from '@/lib/cms';
+import type { PrebuiltSearchIndex } from '@/types/search';
+
+describe('GET /search-index.json', () => {
+  beforeEach(() => {
+    resetContentService();
+    initializeContentFromWikiData(new MemoryStorageAdapter());
+  });
+
+  afterEach(() => {
+    resetContentService();
+  });
+
+  it('indexes only articles the CMS has published', async () => {
+    const slug = 'what-is-vibe-coding';
+    const indexedSlugs = async () =>
+      ((await GET().json()) as PrebuiltSearchIndex).documents.map((document) => document.slug);
+
+    expect(await indexedSlugs()).toContain(slug);
+
+    const service = initializeContentFromWikiData();
+    service.scheduleArticle(service.getArticleBySlug(slug)!.id, new Date('2999-01-01T00:00:00Z'));
+    expect(await indexedSlugs()).not.toContain(slug);
+  });
+});
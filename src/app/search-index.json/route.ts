@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getLiveArticles } from "@/lib/article-utils";
+import { buildSearchIndex } from "@/lib/search-index-builder";
+
+// Rendered once at build time and served as a static file; the client
+// search module (src/lib/search-client.ts) fetches it on demand. Only live
+// articles are indexed, so drafts and scheduled articles stay out of search.
+export const dynamic = "force-static";
+
+export function GET() {
+  return NextResponse.json(buildSearchIndex(getLiveArticles()));
+}
@@ -0,0 +1,51 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { tutorials } from "@/data/wiki-content";
+import { hasPrerequisite } from "@/lib/tutorial-utils";
+import { TutorialPlayer } from "@/components/wiki/TutorialPlayer";
+
+interface TutorialPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+export async function generateStaticParams() {
+  return tutorials.map((tutorial) => ({
+    slug: tutorial.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: TutorialPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const tutorial = tutorials.find((candidate) => candidate.slug === slug);
+
+  if (!tutorial) {
+    return {
+      title: "الصفحة غير موجودة",
+    };
+  }
+
+  return {
+    title: tutorial.title,
+    description: tutorial.description,
+  };
+}
+
+export default async function TutorialPage({ params }: TutorialPageProps) {
+  const { slug } = await params;
+  const tutorial = tutorials.find((candidate) => candidate.slug === slug);
+
+  if (!tutorial) {
+    notFound();
+  }
+
+  // Only the prerequisites go to the client, not the whole catalog
+  const prerequisites = tutorials.filter((candidate) => hasPrerequisite(tutorial, candidate.slug));
+
+  return (
+    <div className="pb-20">
+      <TutorialPlayer tutorial={tutorial} prerequisites={prerequisites} />
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
 import { notFound } from "next/navigation";
 import { Metadata } from "next";
-import { getArticleBySlug, allArticles, calculateReadingTime, getPrevNextArticles } from "@/lib/article-utils";
-import { MarkdownRenderer } from "@/components/wiki/MarkdownRenderer";
+import {
+  getArticleBySlug,
+  allArticles,
+  calculateReadingTime,
+  isArticleLive,
+  getPrevNextArticles,
+  getScenariosForArticle,
+  resolveArticleDiagrams,
+} from "@/lib/article-utils";
+import { assertDiagramFilesExist } from "@/lib/content-loader";
+import { ArticleRenderer } from "@/components/wiki/ArticleRenderer";
 import { PrevNextNav } from "@/components/wiki/PrevNextNav";
+import { ScenarioPlayground } from "@/components/wiki/ScenarioPlayground";
 import { Clock } from "lucide-react";
 
 interface WikiPageProps {
@@ -12,9 +22,16 @@ interface WikiPageProps {
 }
 
 export async function generateStaticParams() {
-  return allArticles.map((article) => ({
-    slug: article.slug,
-  }));
+  // Fail the build when an article (or its registry fallback) references an SVG that does not exist
+  assertDiagramFilesExist(
+    allArticles.flatMap((article) => resolveArticleDiagrams(article).map((diagram) => diagram.filename))
+  );
+
+  return allArticles
+    .filter((article) => isArticleLive(article.slug))
+    .map((article) => ({
+      slug: article.slug,
+    }));
 }
 
 export async function generateMetadata({ params }: WikiPageProps): Promise<Metadata> {
@@ -29,7 +46,7 @@ export async function generateMetadata({ params }: WikiPageProps): Promise<Metad
 
   return {
     title: article.title,
-    description: article.content.substring(0, 160).replace(/[#*`]/g, ""),
+    description: article.description || article.content.substring(0, 160).replace(/[#*`]/g, ""),
   };
 }
 
@@ -42,7 +59,9 @@ export default async function WikiPage({ params }: WikiPageProps) {
   }
 
   const readingTime = calculateReadingTime(article.content);
+  const diagrams = resolveArticleDiagrams(article);
   const { prev, next } = getPrevNextArticles(slug);
+  const scenarios = getScenariosForArticle(slug);
 
   return (
     <article className="max-w-4xl mx-auto pb-20">
@@ -63,8 +82,15 @@ export default async function WikiPage({ params }: WikiPageProps) {
       </header>
 
       {/* Content */}
-      <MarkdownRenderer content={article.content} />
-      
+      <ArticleRenderer content={article.content} diagrams={diagrams} />
+
+      {/* Hands-on CLI scenarios */}
+      {scenarios.map((scenario) => (
+        <section key={scenario.id} className="my-12" dir="ltr">
+          <ScenarioPlayground scenario={scenario} />
+        </section>
+      ))}
+
       {/* Navigation */}
       <PrevNextNav prev={prev} next={next} />
     </article>
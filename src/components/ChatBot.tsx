@@ -6,47 +6,123 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { m, useAnimation } from 'framer-motion';
+import { usePathname } from 'next/navigation';
+import { motion } from 'framer-motion';
+import type { Components } from 'react-markdown';
+import { Download, History, Plus, RotateCcw, Square, ThumbsDown, ThumbsUp, Trash2 } from 'lucide-react';
 import {
   createConversation,
   addMessage,
   updateContext,
   trimConversation,
-  parseQuery,
-  searchWikiContent,
-  generateResponse,
+  detectLanguage,
+  getChatSourceHref,
   extractTopics,
   DEFAULT_CONFIG,
 } from '../lib/wiki-chatbot-utils';
-import type { WikiArticle, Tutorial, LearningPath } from '../types';
-import type { ChatConversation, ChatbotConfig } from '../types/wiki-chatbot';
+import { requestChatAnswer, sendChatFeedback, type ChatAnswer } from '../lib/chat-client';
+import { closeOpenFence, linkCitations } from '../lib/chat-markdown';
+import { exportConversation, getConversationTitle } from '../lib/chat-history';
+import { getSkillLevel } from '../lib/progress-utils';
+import { useProgress } from '../hooks/use-progress';
+import { useChatHistory } from '../hooks/use-chat-history';
+import { MarkdownRenderer } from './wiki/MarkdownRenderer';
+import type { NavSection } from '../types';
+import type { ChatConversation, ChatMessage, ChatbotConfig, ChatbotFeedback } from '../types/wiki-chatbot';
+
+// How many recently viewed articles are kept in the conversation context
+const MAX_VIEWED_ARTICLES = 10;
+
+// Thumbs are stored on the 1-5 rating scale
+const HELPFUL: NonNullable<ChatMessage['feedback']> = { rating: 5, helpful: true };
+const NOT_HELPFUL: NonNullable<ChatMessage['feedback']> = { rating: 1, helpful: false };
+
+const ISSUE_LABELS: Record<NonNullable<ChatbotFeedback['issue']>, { ar: string; en: string }> = {
+  inaccurate: { ar: 'غير دقيقة', en: 'Inaccurate' },
+  unclear: { ar: 'غير واضحة', en: 'Unclear' },
+  missing_source: { ar: 'بلا مصدر', en: 'No source' },
+  irrelevant: { ar: 'خارج الموضوع', en: 'Off topic' },
+  other: { ar: 'أخرى', en: 'Other' },
+};
+
+// `[n]` markers become small links to the cited passage; other links stay as written
+const ANSWER_COMPONENTS: Components = {
+  a: ({ href, title, children }) =>
+    typeof children === 'string' && /^\[\d+\]$/.test(children) ? (
+      <a
+        href={href}
+        title={title}
+        className="not-prose align-super text-[10px] font-semibold px-0.5 text-purple-600 dark:text-purple-300 hover:underline"
+      >
+        {children}
+      </a>
+    ) : (
+      <a href={href} title={title}>
+        {children}
+      </a>
+    ),
+};
 
 interface ChatBotProps {
-  wikiArticles: WikiArticle[];
-  tutorials: Tutorial[];
-  learningPaths: LearningPath[];
+  /** Article titles by section, to name the page being read. */
+  pages?: NavSection[];
   config?: Partial<ChatbotConfig>;
   className?: string;
 }
 
-export function ChatBot({
-  wikiArticles,
-  tutorials,
-  learningPaths,
-  config: userConfig = {},
-  className = '',
-}: ChatBotProps) {
-  const [conversation, setConversation] = useState<ChatConversation>(() =>
-    createConversation('default', { languagePreference: 'ar' })
-  );
+function newConversation(): ChatConversation {
+  return createConversation(`chat-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, {
+    languagePreference: 'ar',
+  });
+}
+
+function downloadConversation(conversation: ChatConversation) {
+  const blob = new Blob([exportConversation(conversation, window.location.origin)], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vibe-wiki-chat-${conversation.startedAt.toISOString().slice(0, 10)}.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ChatBot({ pages = [], config: userConfig = {}, className = '' }: ChatBotProps) {
+  const pathname = usePathname();
+  const { progress } = useProgress();
+  const { conversations, activeConversation, saveConversation, deleteConversation } = useChatHistory(progress.userId);
+  const [conversation, setConversation] = useState<ChatConversation>(() => activeConversation ?? newConversation());
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const config: ChatbotConfig = { ...DEFAULT_CONFIG, ...userConfig };
-  const controls = useAnimation();
+
+  // Keep the context in step with the page being read and the user's progress
+  const articleSlug = pathname?.match(/^\/wiki\/([^/?#]+)/)?.[1];
+  const articleTitle = pages.flatMap((section) => section.articles).find((a) => a.slug === articleSlug)?.title;
+  const userLevel = getSkillLevel(progress);
+  const completedTutorials = progress.completedTutorials;
+  useEffect(() => {
+    setConversation((current) =>
+      updateContext(current, {
+        userLevel,
+        completedTutorials,
+        ...(articleSlug && {
+          viewedArticles: [articleSlug, ...current.context.viewedArticles.filter((slug) => slug !== articleSlug)].slice(
+            0,
+            MAX_VIEWED_ARTICLES
+          ),
+        }),
+        ...(articleTitle && {
+          recentTopics: [articleTitle, ...current.context.recentTopics.filter((topic) => topic !== articleTitle)].slice(0, 5),
+        }),
+      })
+    );
+  }, [articleSlug, articleTitle, userLevel, completedTutorials]);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -60,58 +136,129 @@ export function ChatBot({
     }
   }, [isExpanded]);
 
-  const handleSendMessage = async (text?: string) => {
-    const messageToSend = text ?? inputText;
-    if (!messageToSend.trim()) return;
-
-    // Add user message
-    let updatedConversation = addMessage(conversation, 'user', messageToSend);
-    setInputText('');
-
-    // Parse query
-    const parsedQuery = parseQuery(messageToSend, wikiArticles, tutorials, learningPaths);
+  /**
+   * Stream the answer to the question that ends `asked` into a new
+   * assistant message. Stopping keeps what has arrived so far.
+   */
+  const streamAnswer = async (asked: ChatConversation, question: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    // Search wiki content
-    const searchResults = searchWikiContent(
-      parsedQuery,
-      wikiArticles,
-      tutorials,
-      learningPaths,
-      config.maxSources
-    );
+    let updatedConversation = addMessage(asked, 'assistant', '');
+    const answerId = updatedConversation.messages[updatedConversation.messages.length - 1].id;
+    let answer: ChatAnswer = { content: '', sources: [] };
+    const showAnswer = (partial: ChatAnswer) => {
+      answer = partial;
+      setConversation((current) => ({
+        ...current,
+        messages: current.messages.map((m) => (m.id === answerId ? { ...m, ...partial } : m)),
+      }));
+    };
 
-    // Simulate typing delay
+    setConversation(updatedConversation);
     setIsTyping(true);
-    await new Promise((resolve) => setTimeout(resolve, 1000 + Math.random() * 1000));
-    setIsTyping(false);
-
-    // Generate response
-    const response = generateResponse(
-      parsedQuery,
-      searchResults,
-      updatedConversation.context,
-      config,
-      parsedQuery.language
-    );
 
-    // Add assistant message
-    updatedConversation = addMessage(
-      updatedConversation,
-      'assistant',
-      response.message,
-      response.sources
-    );
+    const language = detectLanguage(question);
+    try {
+      answer = await requestChatAnswer({
+        message: question,
+        history: asked.messages.slice(0, -1),
+        language,
+        context: asked.context,
+        conversationId: asked.id,
+        signal: controller.signal,
+        onUpdate: showAnswer,
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Failed to get a chat answer:', error);
+        answer = {
+          content:
+            language === 'ar'
+              ? 'عذراً، تعذّر الحصول على إجابة الآن. حاول مرة أخرى بعد قليل.'
+              : "Sorry, I couldn't get an answer right now. Please try again in a moment.",
+          sources: [],
+        };
+      }
+    } finally {
+      abortRef.current = null;
+      setIsTyping(false);
+    }
+
+    updatedConversation = {
+      ...updatedConversation,
+      messages: answer.content
+        ? updatedConversation.messages.map((m) => (m.id === answerId ? { ...m, ...answer } : m))
+        : updatedConversation.messages.filter((m) => m.id !== answerId),
+    };
 
     // Update context with extracted topics
     const topics = extractTopics(updatedConversation);
     updatedConversation = updateContext(updatedConversation, {
-      recentTopics: topics.slice(-5),
+      recentTopics: Array.from(new Set([...topics.slice(-5), ...updatedConversation.context.recentTopics])).slice(0, 5),
     });
 
     // Trim conversation if needed
     updatedConversation = trimConversation(updatedConversation, config.maxMessages);
 
-    setConversation(updatedConversation);
+    // The reader may have moved to another conversation meanwhile
+    const finished = updatedConversation;
+    setConversation((current) => (current.id === finished.id ? finished : current));
+    saveConversation(finished);
+  };
+
+  const handleSendMessage = (text?: string) => {
+    const messageToSend = (text ?? inputText).trim();
+    if (!messageToSend || isTyping) return;
+
+    setInputText('');
+    streamAnswer(addMessage(conversation, 'user', messageToSend), messageToSend);
+  };
+
+  const stopAnswer = () => {
+    abortRef.current?.abort();
+  };
+
+  // Ask the last question again in place of its answer
+  const regenerateAnswer = () => {
+    const lastQuestion = conversation.messages.findLastIndex((m) => m.role === 'user');
+    if (lastQuestion < 0 || isTyping) return;
+
+    streamAnswer(
+      { ...conversation, messages: conversation.messages.slice(0, lastQuestion + 1) },
+      conversation.messages[lastQuestion].content
+    );
+  };
+
+  const rateMessage = (messageId: string, feedback: NonNullable<ChatMessage['feedback']>) => {
+    const rated = {
+      ...conversation,
+      messages: conversation.messages.map((message) => (message.id === messageId ? { ...message, feedback } : message)),
+    };
+    setConversation(rated);
+    saveConversation(rated);
+    sendChatFeedback({ conversationId: conversation.id, messageId, ...feedback }).catch((error) =>
+      console.error('Failed to send chat feedback:', error)
+    );
+  };
+
+  const startNewConversation = () => {
+    stopAnswer();
+    setConversation((current) => ({ ...newConversation(), context: current.context }));
+    setShowHistory(false);
+  };
+
+  const openConversation = (saved: ChatConversation) => {
+    stopAnswer();
+    // Saved messages are kept, but the context reflects the reader now
+    setConversation({ ...saved, context: conversation.context });
+    saveConversation({ ...saved, context: conversation.context });
+    setShowHistory(false);
+  };
+
+  const clearConversation = () => {
+    deleteConversation(conversation.id);
+    startNewConversation();
   };
 
   const handleSuggestedResponse = (suggestedText: string) => {
@@ -129,12 +276,14 @@ export function ChatBot({
     setIsExpanded(!isExpanded);
   };
 
+  const headerButtonClass = 'p-2 rounded-full hover:bg-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
   const currentLanguage = conversation.context.languagePreference;
 
   return (
-    <div className={`fixed bottom-6 left-6 z-50 ${className}`}>
+    <div className={`fixed bottom-20 lg:bottom-6 left-6 z-50 ${className}`}>
       {/* Chat Button */}
-      <m.button
+      <motion.button
         onClick={toggleChat}
         className="flex items-center gap-2 px-4 py-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-full shadow-lg hover:shadow-xl transition-shadow"
         whileHover={{ scale: 1.05 }}
@@ -168,11 +317,11 @@ export function ChatBot({
             {currentLanguage === 'ar' ? 'مساعد Vibe Wiki' : 'Vibe Wiki Assistant'}
           </span>
         )}
-      </m.button>
+      </motion.button>
 
       {/* Chat Window */}
       {isExpanded && (
-        <m.div
+        <motion.div
           initial={{ opacity: 0, y: 20, scale: 0.95 }}
           animate={{ opacity: 1, y: 0, scale: 1 }}
           exit={{ opacity: 0, y: 20, scale: 0.95 }}
@@ -196,98 +345,230 @@ export function ChatBot({
                 </p>
               </div>
             </div>
+            <div className="flex items-center">
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={headerButtonClass}
+                aria-label={currentLanguage === 'ar' ? 'المحادثات السابقة' : 'Conversation history'}
+                aria-pressed={showHistory}
+              >
+                <History className="w-4 h-4" />
+              </button>
+              <button
+                onClick={startNewConversation}
+                className={headerButtonClass}
+                aria-label={currentLanguage === 'ar' ? 'محادثة جديدة' : 'New conversation'}
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => downloadConversation(conversation)}
+                disabled={conversation.messages.length === 0}
+                className={headerButtonClass}
+                aria-label={currentLanguage === 'ar' ? 'تصدير المحادثة' : 'Export conversation'}
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button
+                onClick={clearConversation}
+                disabled={conversation.messages.length === 0}
+                className={headerButtonClass}
+                aria-label={currentLanguage === 'ar' ? 'مسح المحادثة' : 'Clear conversation'}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
           </div>
 
-          {/* Messages */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {conversation.messages.length === 0 && (
-              <div className="text-center text-gray-500 dark:text-gray-400 mt-8">
-                <svg
-                  className="w-16 h-16 mx-auto mb-4 text-purple-500"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={1.5}
-                    d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
-                  />
-                </svg>
-                <p className="text-lg font-medium mb-2">
-                  {currentLanguage === 'ar' ? 'مرحباً بك!' : 'Hello!'}
-                </p>
-                <p className="text-sm">
-                  {currentLanguage === 'ar'
-                    ? 'اسألني عن أدوات البرمجة بالذكاء الاصطناعي'
-                    : 'Ask me about AI programming tools'}
+          {/* History */}
+          {showHistory ? (
+            <div className="flex-1 overflow-y-auto p-2">
+              {conversations.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400 mt-8">
+                  {currentLanguage === 'ar' ? 'لا توجد محادثات محفوظة بعد.' : 'No saved conversations yet.'}
                 </p>
-              </div>
-            )}
-
-            {conversation.messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`max-w-[80%] rounded-2xl px-4 py-2 ${
-                    message.role === 'user'
-                      ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white'
-                      : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
-                  }`}
-                >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-
-                  {message.sources && message.sources.length > 0 && (
-                    <div className="mt-2 pt-2 border-t border-black/10 dark:border-white/10">
-                      <p className="text-xs opacity-75 mb-1">
-                        {currentLanguage === 'ar' ? 'المصادر:' : 'Sources:'}
-                      </p>
-                      {message.sources.map((source, idx) => (
-                        <a
-                          key={idx}
-                          href={`/wiki/${source.slug}`}
-                          className="block text-xs underline opacity-90 hover:opacity-100"
-                          onClick={(e) => {
-                            e.preventDefault();
-                            window.location.href = `/wiki/${source.slug}`;
-                          }}
-                        >
-                          {source.title}
-                        </a>
-                      ))}
-                    </div>
-                  )}
-
-                  <p className="text-[10px] opacity-60 mt-1">
-                    {new Date(message.timestamp).toLocaleTimeString(
-                      currentLanguage === 'ar' ? 'ar-SA' : 'en-US',
-                      { hour: '2-digit', minute: '2-digit' }
-                    )}
+              ) : (
+                <ul className="space-y-1">
+                  {conversations.map((saved) => (
+                    <li key={saved.id} className="flex items-center gap-1">
+                      <button
+                        onClick={() => openConversation(saved)}
+                        className={`flex-1 min-w-0 text-start px-3 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                          saved.id === conversation.id ? 'bg-purple-100 dark:bg-purple-900/30' : ''
+                        }`}
+                      >
+                        <span className="block truncate text-sm text-gray-900 dark:text-gray-100">
+                          {getConversationTitle(saved)}
+                        </span>
+                        <span className="block text-[10px] text-gray-500 dark:text-gray-400">
+                          {saved.lastActivity.toLocaleString(currentLanguage === 'ar' ? 'ar-SA' : 'en-US', {
+                            dateStyle: 'medium',
+                            timeStyle: 'short',
+                          })}
+                        </span>
+                      </button>
+                      <button
+                        onClick={() => (saved.id === conversation.id ? clearConversation() : deleteConversation(saved.id))}
+                        className="p-2 rounded-full text-gray-500 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                        aria-label={`${currentLanguage === 'ar' ? 'حذف' : 'Delete'} ${getConversationTitle(saved)}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            /* Messages */
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {conversation.messages.length === 0 && (
+                <div className="text-center text-gray-500 dark:text-gray-400 mt-8">
+                  <svg
+                    className="w-16 h-16 mx-auto mb-4 text-purple-500"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={1.5}
+                      d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+                    />
+                  </svg>
+                  <p className="text-lg font-medium mb-2">
+                    {currentLanguage === 'ar' ? 'مرحباً بك!' : 'Hello!'}
+                  </p>
+                  <p className="text-sm">
+                    {currentLanguage === 'ar'
+                      ? 'اسألني عن أدوات البرمجة بالذكاء الاصطناعي'
+                      : 'Ask me about AI programming tools'}
                   </p>
                 </div>
-              </div>
-            ))}
-
-            {isTyping && (
-              <div className="flex justify-start">
-                <div className="bg-gray-100 dark:bg-gray-800 rounded-2xl px-4 py-2">
-                  <div className="flex gap-1">
-                    <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
-                    <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100" />
-                    <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200" />
+              )}
+
+              {conversation.messages.map((message, index) => {
+                const isStreaming = isTyping && index === conversation.messages.length - 1;
+                return (
+                  <div
+                    key={message.id}
+                    className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div
+                      className={`max-w-[80%] rounded-2xl px-4 py-2 ${
+                        message.role === 'user'
+                          ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                      }`}
+                    >
+                      {message.role === 'user' ? (
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      ) : message.content ? (
+                        <MarkdownRenderer
+                          variant="chat"
+                          content={linkCitations(closeOpenFence(message.content), message.sources ?? [])}
+                          components={ANSWER_COMPONENTS}
+                        />
+                      ) : (
+                        <div className="flex gap-1 py-1" aria-label={currentLanguage === 'ar' ? 'جارٍ الكتابة' : 'Typing'}>
+                          <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                          <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100" />
+                          <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200" />
+                        </div>
+                      )}
+
+                      {message.sources && message.sources.length > 0 && (
+                        <div className="mt-2 pt-2 border-t border-black/10 dark:border-white/10">
+                          <p className="text-xs opacity-75 mb-1">
+                            {currentLanguage === 'ar' ? 'المصادر:' : 'Sources:'}
+                          </p>
+                          {message.sources.map((source, idx) => (
+                            <a
+                              key={idx}
+                              href={getChatSourceHref(source)}
+                              className="block text-xs underline opacity-90 hover:opacity-100"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                window.location.href = getChatSourceHref(source);
+                              }}
+                            >
+                              [{idx + 1}] {source.title}
+                              {source.heading && ` › ${source.heading}`}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between gap-2 mt-1">
+                        <p className="text-[10px] opacity-60">
+                          {new Date(message.timestamp).toLocaleTimeString(
+                            currentLanguage === 'ar' ? 'ar-SA' : 'en-US',
+                            { hour: '2-digit', minute: '2-digit' }
+                          )}
+                        </p>
+
+                        {message.role === 'assistant' && !isStreaming && (
+                          <div className="flex items-center gap-1">
+                            {index === conversation.messages.length - 1 && (
+                              <button
+                                onClick={regenerateAnswer}
+                                disabled={isTyping}
+                                className="p-1 rounded opacity-60 hover:opacity-100"
+                                aria-label={currentLanguage === 'ar' ? 'إعادة توليد الإجابة' : 'Regenerate answer'}
+                              >
+                                <RotateCcw className="w-3 h-3" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => rateMessage(message.id, HELPFUL)}
+                              className={`p-1 rounded hover:text-green-600 ${message.feedback?.helpful ? 'text-green-600' : 'opacity-60'}`}
+                              aria-label={currentLanguage === 'ar' ? 'إجابة مفيدة' : 'Helpful answer'}
+                              aria-pressed={message.feedback?.helpful === true}
+                            >
+                              <ThumbsUp className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={() => rateMessage(message.id, NOT_HELPFUL)}
+                              className={`p-1 rounded hover:text-red-500 ${message.feedback?.helpful === false ? 'text-red-500' : 'opacity-60'}`}
+                              aria-label={currentLanguage === 'ar' ? 'إجابة غير مفيدة' : 'Unhelpful answer'}
+                              aria-pressed={message.feedback?.helpful === false}
+                            >
+                              <ThumbsDown className="w-3 h-3" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+
+                      {message.feedback?.helpful === false && (
+                        <div className="flex flex-wrap gap-1 mt-2" role="group" aria-label={currentLanguage === 'ar' ? 'ما المشكلة؟' : "What's wrong?"}>
+                          {(Object.keys(ISSUE_LABELS) as NonNullable<ChatbotFeedback['issue']>[]).map((issue) => (
+                            <button
+                              key={issue}
+                              onClick={() => rateMessage(message.id, { ...NOT_HELPFUL, issue })}
+                              className={`text-[10px] px-2 py-0.5 rounded-full border border-black/10 dark:border-white/10 ${
+                                message.feedback?.issue === issue ? 'bg-red-500 text-white' : 'hover:bg-black/5 dark:hover:bg-white/10'
+                              }`}
+                              aria-pressed={message.feedback?.issue === issue}
+                            >
+                              {ISSUE_LABELS[issue][currentLanguage === 'ar' ? 'ar' : 'en']}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </div>
-            )}
+                );
+              })}
 
-            <div ref={messagesEndRef} />
-          </div>
+              <div ref={messagesEndRef} />
+            </div>
+          )}
 
           {/* Suggested Responses */}
-          {config.enableSuggestions &&
+          {!showHistory &&
+            !isTyping &&
+            config.enableSuggestions &&
             conversation.messages.length > 0 &&
             conversation.messages[conversation.messages.length - 1].role ===
               'assistant' && (
@@ -331,28 +612,39 @@ export function ChatBot({
                 className="flex-1 px-4 py-2 bg-gray-100 dark:bg-gray-800 rounded-full focus:outline-none focus:ring-2 focus:ring-purple-500 text-gray-900 dark:text-gray-100"
                 dir={currentLanguage === 'ar' ? 'rtl' : 'ltr'}
               />
-              <button
-                onClick={() => handleSendMessage()}
-                disabled={!inputText.trim()}
-                className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-full hover:shadow-lg transition-shadow disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <svg
-                  className="w-5 h-5"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              {isTyping ? (
+                <button
+                  onClick={stopAnswer}
+                  className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-full hover:shadow-lg transition-shadow"
+                  aria-label={currentLanguage === 'ar' ? 'إيقاف الإجابة' : 'Stop answering'}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-                  />
-                </svg>
-              </button>
+                  <Square className="w-5 h-5" fill="currentColor" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleSendMessage()}
+                  disabled={!inputText.trim()}
+                  className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-full hover:shadow-lg transition-shadow disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label={currentLanguage === 'ar' ? 'إرسال' : 'Send'}
+                >
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                    />
+                  </svg>
+                </button>
+              )}
             </div>
           </div>
-        </m.div>
+        </motion.div>
       )}
     </div>
   );
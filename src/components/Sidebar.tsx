@@ -4,17 +4,23 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { wikiContent } from "@/data/wiki-content";
 import { ChevronDown, Sparkles } from "lucide-react";
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import type { NavSection } from "@/types";
 
-export function SidebarContent({ onLinkClick }: { onLinkClick?: () => void }) {
+export function SidebarContent({
+  sections,
+  onLinkClick,
+}: {
+  sections: NavSection[];
+  onLinkClick?: () => void;
+}) {
   const pathname = usePathname();
   // Default all sections to open for better discovery, or keep specific ones open
   const [openSections, setOpenSections] = useState<Record<string, boolean>>(() => {
     const initialState: Record<string, boolean> = {};
-    wikiContent.forEach(section => {
+    sections.forEach(section => {
       initialState[section.name] = true;
     });
     return initialState;
@@ -48,7 +54,7 @@ export function SidebarContent({ onLinkClick }: { onLinkClick?: () => void }) {
       {/* Content */}
       <ScrollArea className="flex-1 px-4">
         <nav className="space-y-6 pb-8">
-          {wikiContent.map((section, index) => (
+          {sections.map((section, index) => (
             <div key={section.name} className="space-y-2">
               {/* Section Header */}
               <button
@@ -150,10 +156,10 @@ export function SidebarContent({ onLinkClick }: { onLinkClick?: () => void }) {
   );
 }
 
-export function Sidebar() {
+export function Sidebar({ sections }: { sections: NavSection[] }) {
   return (
     <aside className="fixed top-0 right-0 z-40 h-screen w-80 border-l border-white/10 bg-slate-950/80 backdrop-blur-2xl hidden lg:block shadow-2xl">
-      <SidebarContent />
+      <SidebarContent sections={sections} />
     </aside>
   );
 }
@@ -7,8 +7,9 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
+import type { NavSection } from "@/types";
 
-export function MobileNav() {
+export function MobileNav({ sections }: { sections: NavSection[] }) {
   const pathname = usePathname();
   const [isOpen, setIsOpen] = useState(false);
 
@@ -90,7 +91,7 @@ export function MobileNav() {
 
             {/* Content */}
             <div className="flex-1 overflow-hidden pt-12">
-               <SidebarContent onLinkClick={() => setIsOpen(false)} />
+               <SidebarContent sections={sections} onLinkClick={() => setIsOpen(false)} />
             </div>
           </motion.div>
         )}
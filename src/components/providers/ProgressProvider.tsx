@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useSyncExternalStore, ReactNode } from 'react';
 import type { UserProgress, ProgressStats, ProgressActivity, WikiArticle, Tutorial, LearningPath } from '@/types';
 import {
   loadProgress,
@@ -53,6 +53,8 @@ interface ProgressProviderProps {
 }
 
 const loadActivities = (): ProgressActivity[] => {
+  if (typeof window === 'undefined') return [];
+
   try {
     const stored = localStorage.getItem('vibe-wiki-activity-log');
     if (!stored) return [];
@@ -67,11 +69,15 @@ const loadActivities = (): ProgressActivity[] => {
   }
 };
 
+const subscribeToNothing = () => () => {};
+
 export function ProgressProvider({ children }: ProgressProviderProps) {
-  const [progress, setProgress] = useState<UserProgress>(loadProgress());
+  const [progress, setProgress] = useState<UserProgress>(loadProgress);
   const [stats, setStats] = useState<ProgressStats | null>(null);
   const [activities, setActivities] = useState<ProgressActivity[]>(loadActivities);
-  const [isLoading] = useState(false);
+  // Progress comes from localStorage, which the server render never sees:
+  // loading until hydration is done, so components showing it match the server
+  const isLoading = useSyncExternalStore(subscribeToNothing, () => false, () => true);
   const progressRef = useRef<UserProgress>(progress);
 
   // Update ref when progress changes
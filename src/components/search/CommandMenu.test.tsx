@@ -0,0 +1,188 @@
+/**
+ * Tests for CommandMenu.tsx
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, act, cleanup, within } from '@testing-library/react';
+import CommandMenu from '@/components/search/CommandMenu';
+import { ProgressProvider } from '@/components/providers/ProgressProvider';
+import { clearProgress, createEmptyProgress, saveProgress } from '@/lib/progress-utils';
+import type { ClientSearchResult } from '@/lib/search-client';
+
+const push = vi.fn();
+const { searchArticlesClient } = vi.hoisted(() => ({ searchArticlesClient: vi.fn() }));
+let pathname = '/';
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push }),
+  usePathname: () => pathname,
+}));
+
+vi.mock('@/lib/search-client', () => ({
+  loadSearchIndex: () => Promise.resolve(),
+  searchArticlesClient,
+}));
+
+const sections = [
+  {
+    name: 'مقدمة',
+    articles: [
+      { slug: 'what-is-vibe-coding', title: 'ما هو Vibe Coding' },
+      { slug: 'setup', title: 'التجهيز' },
+    ],
+  },
+];
+
+const result: ClientSearchResult = {
+  item: { slug: 'setup', title: 'التجهيز', section: 'مقدمة', difficulty: 'beginner', content: 'خطوات التجهيز' },
+  score: 0.1,
+  highlightedTitle: [{ text: 'التجهيز', matches: true }],
+  highlightedContent: [
+    { text: 'خطوات ', matches: false },
+    { text: 'التجهيز', matches: true },
+  ],
+  matchHighlights: ['التجهيز'],
+  sections: [
+    {
+      slug: 'setup',
+      articleTitle: 'التجهيز',
+      anchor: 'التجهيز-المتقدم',
+      heading: 'التجهيز المتقدم',
+      level: 2,
+      href: '/wiki/setup#التجهيز-المتقدم',
+      score: 0.2,
+      highlightedHeading: [
+        { text: 'التجهيز', matches: true },
+        { text: ' المتقدم', matches: false },
+      ],
+      highlightedSnippet: [{ text: 'إعدادات إضافية', matches: false }],
+    },
+  ],
+};
+
+function renderMenu() {
+  return render(
+    <ProgressProvider>
+      <CommandMenu sections={sections} searchSections={['مقدمة']} />
+    </ProgressProvider>
+  );
+}
+
+function openMenu() {
+  act(() => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'k', ctrlKey: true }));
+  });
+}
+
+const searchInput = () => screen.getByRole('combobox', { name: 'ابحث في الموسوعة' });
+const menuOptions = () => within(screen.getByRole('listbox', { name: 'النتائج' })).getAllByRole('option');
+
+async function typeQuery(value: string) {
+  fireEvent.change(searchInput(), { target: { value } });
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(200);
+  });
+}
+
+describe('CommandMenu', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    push.mockClear();
+    pathname = '/';
+    searchArticlesClient.mockReset().mockResolvedValue([result]);
+  });
+
+  afterEach(() => {
+    cleanup();
+    clearProgress();
+    vi.useRealTimers();
+  });
+
+  it('opens with Ctrl+K and closes with Escape', () => {
+    renderMenu();
+    expect(screen.queryByRole('dialog')).toBeNull();
+
+    openMenu();
+    expect(screen.getByRole('dialog')).toBeTruthy();
+    expect(document.activeElement).toBe(searchInput());
+
+    fireEvent.keyDown(searchInput(), { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('searches with the selected filters and renders highlighted snippets', async () => {
+    renderMenu();
+    openMenu();
+
+    fireEvent.change(screen.getByLabelText('تصفية حسب المستوى'), { target: { value: 'beginner' } });
+    await typeQuery('التجهيز');
+
+    expect(searchArticlesClient).toHaveBeenLastCalledWith({
+      query: 'التجهيز',
+      filters: { section: undefined, difficulty: 'beginner' },
+      limit: 8,
+    });
+
+    const options = menuOptions();
+    expect(options).toHaveLength(2);
+    expect(options[0].querySelectorAll('mark')).toHaveLength(2);
+    expect(options[1].textContent).toContain('التجهيز المتقدم');
+  });
+
+  it('switches to right-to-left for Arabic queries', async () => {
+    renderMenu();
+    openMenu();
+
+    await typeQuery('setup guide');
+    expect(screen.getByRole('dialog').getAttribute('dir')).toBe('ltr');
+
+    await typeQuery('التجهيز');
+    expect(screen.getByRole('dialog').getAttribute('dir')).toBe('rtl');
+  });
+
+  it('navigates results with the arrow keys and opens headings by anchor', async () => {
+    renderMenu();
+    openMenu();
+    await typeQuery('التجهيز');
+
+    const input = searchInput();
+    const options = menuOptions();
+    expect(input.getAttribute('aria-activedescendant')).toBe(options[0].id);
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input.getAttribute('aria-activedescendant')).toBe(options[1].id);
+    expect(options[1].getAttribute('aria-selected')).toBe('true');
+    expect(options[1].textContent).toContain('التجهيز › التجهيز المتقدم');
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(push).toHaveBeenCalledWith('/wiki/setup#التجهيز-المتقدم');
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('offers to continue where the reader left off', () => {
+    saveProgress({ ...createEmptyProgress(), completedArticles: ['what-is-vibe-coding'] });
+    renderMenu();
+    openMenu();
+
+    const option = menuOptions()[0];
+    expect(option.textContent).toContain('التجهيز');
+
+    fireEvent.keyDown(searchInput(), { key: 'Enter' });
+    expect(push).toHaveBeenCalledWith('/wiki/setup');
+  });
+
+  it('marks the current article as read', () => {
+    pathname = '/wiki/what-is-vibe-coding';
+    renderMenu();
+    openMenu();
+
+    fireEvent.click(menuOptions()[0]);
+
+    openMenu();
+    expect(menuOptions()[0].textContent).toContain('التجهيز');
+    expect(JSON.parse(localStorage.getItem('vibe-wiki-user-progress') || '{}').completedArticles).toEqual([
+      'what-is-vibe-coding',
+    ]);
+  });
+});
@@ -1,5 +1,392 @@
 "use client";
 
-export default function CommandMenu() {
-  return null;
+import { useEffect, useId, useRef, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { CheckCircle2, FileText, Hash, Loader2, PlayCircle, Search, type LucideIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useProgress } from "@/hooks/use-progress";
+import { getContinueReadingArticle } from "@/lib/progress-utils";
+import { detectLanguage } from "@/lib/wiki-chatbot-utils";
+import {
+  loadSearchIndex,
+  searchArticlesClient,
+  type ClientSearchResult,
+  type SectionSearchResult,
+} from "@/lib/search-client";
+import type { HighlightedText } from "@/lib/enhanced-search";
+import type { DifficultyLevel, NavSection } from "@/types";
+
+const SEARCH_DEBOUNCE_MS = 150;
+const MAX_RESULTS = 8;
+
+const DIFFICULTY_OPTIONS: { value: DifficultyLevel; label: string }[] = [
+  { value: "beginner", label: "مبتدئ" },
+  { value: "intermediate", label: "متوسط" },
+  { value: "advanced", label: "متقدم" },
+];
+
+type CommandItem =
+  | { kind: "action"; id: string; label: string; icon: LucideIcon; run: () => void }
+  | { kind: "article"; id: string; href: string; result: ClientSearchResult }
+  | { kind: "heading"; id: string; href: string; section: SectionSearchResult };
+
+interface CommandMenuProps {
+  /** Sidebar sections, used to find the next article to continue reading. */
+  sections: NavSection[];
+  /** Values accepted by the section filter (`WikiArticle.section`). */
+  searchSections: string[];
+}
+
+function Highlighted({ parts }: { parts: HighlightedText[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.matches ? (
+          <mark key={index} className="rounded bg-neon-cyan/20 px-0.5 text-neon-cyan">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Ctrl/⌘+K command palette: searches articles (with section and difficulty
+ * filters), links straight to matching headings and offers progress actions.
+ */
+export default function CommandMenu({ sections, searchSections }: CommandMenuProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { progress, completeArticle, isArticleCompleted } = useProgress();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [section, setSection] = useState("");
+  const [difficulty, setDifficulty] = useState<DifficultyLevel | "">("");
+  const [results, setResults] = useState<ClientSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+  const listboxId = useId();
+
+  const close = () => {
+    setIsOpen(false);
+    returnFocusRef.current?.focus();
+  };
+
+  // Global shortcut. MobileNav's search button dispatches the same event.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setIsOpen((open) => {
+          if (!open) {
+            returnFocusRef.current = document.activeElement as HTMLElement | null;
+          }
+          return !open;
+        });
+      }
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+      // Start fetching the index while the user types
+      loadSearchIndex().catch(() => undefined);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const trimmed = query.trim();
+    if (!trimmed && !section && !difficulty) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchArticlesClient({
+          query: trimmed,
+          filters: { section: section || undefined, difficulty: difficulty || undefined },
+          limit: MAX_RESULTS,
+        });
+        if (!cancelled) {
+          setResults(found);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Search failed:", error);
+          setResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, section, difficulty]);
+
+  const currentSlug = pathname?.startsWith("/wiki/") ? decodeURIComponent(pathname.slice("/wiki/".length)) : null;
+  const currentArticle = currentSlug
+    ? sections.flatMap((s) => s.articles).find((a) => a.slug === currentSlug)
+    : undefined;
+  const continueArticle = getContinueReadingArticle(progress, sections);
+
+  const actions: CommandItem[] = [];
+  if (continueArticle) {
+    actions.push({
+      kind: "action",
+      id: "continue-reading",
+      label: `تابع من حيث توقفت: ${continueArticle.title}`,
+      icon: PlayCircle,
+      run: () => router.push(`/wiki/${continueArticle.slug}`),
+    });
+  }
+  if (currentArticle && !isArticleCompleted(currentArticle.slug)) {
+    actions.push({
+      kind: "action",
+      id: "mark-read",
+      label: `تحديد "${currentArticle.title}" كمقروء`,
+      icon: CheckCircle2,
+      run: () => completeArticle(currentArticle.slug, currentArticle.title),
+    });
+  }
+
+  const resultItems: CommandItem[] = results.flatMap((result) => [
+    {
+      kind: "article" as const,
+      id: `article-${result.item.slug}`,
+      href: `/wiki/${result.item.slug}`,
+      result,
+    },
+    ...result.sections.map((section) => ({
+      kind: "heading" as const,
+      id: `heading-${section.slug}-${section.anchor}`,
+      href: section.href,
+      section,
+    })),
+  ]);
+
+  const items = query.trim() ? resultItems : [...actions, ...resultItems];
+  const activeItem = items[Math.min(activeIndex, items.length - 1)];
+  const optionId = (item: CommandItem) => `${listboxId}-${item.id}`;
+
+  const select = (item: CommandItem) => {
+    if (item.kind === "action") {
+      item.run();
+    } else {
+      router.push(item.href);
+    }
+    setIsOpen(false);
+    setQuery("");
+  };
+
+  const onInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) return;
+
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setActiveIndex((index) => (index + 1) % items.length);
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex((index) => (index - 1 + items.length) % items.length);
+        break;
+      case "Home":
+        event.preventDefault();
+        setActiveIndex(0);
+        break;
+      case "End":
+        event.preventDefault();
+        setActiveIndex(items.length - 1);
+        break;
+      case "Enter":
+        event.preventDefault();
+        if (activeItem) select(activeItem);
+        break;
+    }
+  };
+
+  // Escape closes; Tab cycles within the dialog.
+  const onDialogKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+      return;
+    }
+
+    if (event.key === "Tab" && dialogRef.current) {
+      const focusable = Array.from(
+        dialogRef.current.querySelectorAll<HTMLElement>("input, select, button:not([tabindex='-1'])")
+      );
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+
+      if (event.shiftKey && document.activeElement === first) {
+        event.preventDefault();
+        last?.focus();
+      } else if (!event.shiftKey && document.activeElement === last) {
+        event.preventDefault();
+        first?.focus();
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (activeItem) {
+      document.getElementById(optionId(activeItem))?.scrollIntoView?.({ block: "nearest" });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeItem?.id]);
+
+  if (!isOpen) return null;
+
+  const direction = detectLanguage(query) === "ar" ? "rtl" : "ltr";
+  const hasQuery = Boolean(query.trim() || section || difficulty);
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center bg-black/60 px-4 pt-[12vh] backdrop-blur-sm" onMouseDown={close}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="لوحة الأوامر"
+        dir={direction}
+        onKeyDown={onDialogKeyDown}
+        onMouseDown={(event) => event.stopPropagation()}
+        className="w-full max-w-2xl overflow-hidden rounded-2xl border border-white/10 bg-slate-950 shadow-2xl"
+      >
+        <div className="flex items-center gap-3 border-b border-white/10 px-4">
+          <Search className="h-5 w-5 shrink-0 text-muted-foreground" aria-hidden="true" />
+          <input
+            ref={inputRef}
+            type="text"
+            role="combobox"
+            aria-expanded={items.length > 0}
+            aria-controls={listboxId}
+            aria-activedescendant={activeItem ? optionId(activeItem) : undefined}
+            aria-autocomplete="list"
+            aria-label="ابحث في الموسوعة"
+            placeholder="ابحث عن مقال أو عنوان..."
+            value={query}
+            dir={direction}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={onInputKeyDown}
+            className="h-14 flex-1 bg-transparent text-base text-white placeholder:text-muted-foreground focus:outline-none"
+          />
+          {isSearching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" aria-hidden="true" />}
+          <kbd className="hidden rounded border border-white/10 px-1.5 py-0.5 text-[10px] text-muted-foreground sm:inline">Esc</kbd>
+        </div>
+
+        <div className="flex flex-wrap gap-2 border-b border-white/10 px-4 py-2" dir="rtl">
+          <select
+            aria-label="تصفية حسب القسم"
+            value={section}
+            onChange={(event) => setSection(event.target.value)}
+            className="max-w-[16rem] rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-white"
+          >
+            <option value="">كل الأقسام</option>
+            {searchSections.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="تصفية حسب المستوى"
+            value={difficulty}
+            onChange={(event) => setDifficulty(event.target.value as DifficultyLevel | "")}
+            className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-white"
+          >
+            <option value="">كل المستويات</option>
+            {DIFFICULTY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <ul id={listboxId} role="listbox" aria-label="النتائج" className="max-h-[50vh] overflow-y-auto p-2">
+          {items.map((item) => {
+            const isActive = item === activeItem;
+            const Icon = item.kind === "action" ? item.icon : item.kind === "heading" ? Hash : FileText;
+
+            return (
+              <li
+                key={item.id}
+                id={optionId(item)}
+                role="option"
+                aria-selected={isActive}
+                onMouseMove={() => setActiveIndex(items.indexOf(item))}
+                onClick={() => select(item)}
+                className={cn(
+                  "flex cursor-pointer items-start gap-3 rounded-lg px-3 py-2 text-sm",
+                  item.kind === "heading" && "ps-9",
+                  isActive ? "bg-neon-cyan/10 text-white" : "text-muted-foreground"
+                )}
+              >
+                <Icon className={cn("mt-0.5 h-4 w-4 shrink-0", isActive && "text-neon-cyan")} aria-hidden="true" />
+                {item.kind === "action" && <span>{item.label}</span>}
+                {item.kind === "heading" && (
+                  <span className="flex min-w-0 flex-col gap-1">
+                    <span>
+                      <span className="text-muted-foreground">{item.section.articleTitle} › </span>
+                      <span className="text-white">
+                        <Highlighted parts={item.section.highlightedHeading} />
+                      </span>
+                    </span>
+                    <span className="line-clamp-1 text-xs">
+                      <Highlighted parts={item.section.highlightedSnippet} />
+                    </span>
+                  </span>
+                )}
+                {item.kind === "article" && (
+                  <span className="flex min-w-0 flex-col gap-1">
+                    <span className="font-medium text-white">
+                      <Highlighted parts={item.result.highlightedTitle} />
+                    </span>
+                    <span className="line-clamp-2 text-xs">
+                      <Highlighted parts={item.result.highlightedContent} />
+                    </span>
+                    <span className="text-[10px] text-muted-foreground/80">{item.result.item.section}</span>
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {items.length === 0 && (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground" role="status">
+            {hasQuery && !isSearching ? "لا توجد نتائج" : "اكتب للبحث في المقالات"}
+          </p>
+        )}
+      </div>
+    </div>
+  );
 }
@@ -41,8 +41,8 @@ vi.mock("./SVGDiagram", () => ({
 
 // Mock MarkdownRenderer
 vi.mock("./MarkdownRenderer", () => ({
-  MarkdownRenderer: ({ content, className }: { content: string; className?: string }) => (
-    <div className={className} data-testid="markdown-renderer">
+  MarkdownRenderer: ({ content, className, headingIds }: { content: string; className?: string; headingIds?: string[] }) => (
+    <div className={className} data-testid="markdown-renderer" data-heading-ids={headingIds?.join(" ")}>
       {content}
     </div>
   ),
@@ -181,6 +181,65 @@ This is section 2 content.
     });
   });
 
+  describe("Section Rendering", () => {
+    it("should keep each heading with its section markdown", () => {
+      const diagrams: ArticleDiagram[] = [
+        {
+          id: "test-heading",
+          filename: "test-diagram.svg",
+          alt: "Test diagram",
+          caption: "Figure H: Heading",
+          position: "after-section",
+          sectionHeading: "Section 1",
+        },
+      ];
+
+      render(<ArticleRenderer content={mockContent} diagrams={diagrams} />);
+
+      const sections = screen.getAllByTestId("markdown-renderer").map((el) => el.textContent);
+      expect(sections).toContain("## Section 1\n\nThis is section 1 content.");
+    });
+
+    it("should number repeated headings across sections like the whole article", () => {
+      const content = "## Setup\n\nFirst.\n\n## Notes\n\nOne.\n\n## Setup\n\nAgain.";
+      const diagrams: ArticleDiagram[] = [
+        {
+          id: "test-repeat",
+          filename: "test-diagram.svg",
+          alt: "Test diagram",
+          caption: "Figure R: Repeat",
+          position: "after-section",
+          sectionHeading: "Notes",
+        },
+      ];
+
+      render(<ArticleRenderer content={content} diagrams={diagrams} />);
+
+      const ids = screen.getAllByTestId("markdown-renderer").map((el) => el.getAttribute("data-heading-ids"));
+      expect(ids).toEqual(["setup", "notes", "setup-1"]);
+    });
+
+    it("should not split sections on comments inside code fences", () => {
+      const content = "## Setup\n\n```bash\n# install dependencies\nnpm install\n```\n\n## Run\n\nnpm run dev";
+      const diagrams: ArticleDiagram[] = [
+        {
+          id: "test-fence",
+          filename: "test-diagram.svg",
+          alt: "Test diagram",
+          caption: "Figure F: Fence",
+          position: "after-section",
+          sectionHeading: "Run",
+        },
+      ];
+
+      render(<ArticleRenderer content={content} diagrams={diagrams} />);
+
+      const sections = screen.getAllByTestId("markdown-renderer");
+      expect(sections).toHaveLength(2);
+      expect(sections[0].textContent).toContain("# install dependencies");
+    });
+  });
+
   describe("Fallback Behavior", () => {
     it("should render unmatched diagrams at the end", () => {
       const diagrams: ArticleDiagram[] = [
@@ -4,6 +4,7 @@ import React from "react";
 import { MarkdownRenderer } from "./MarkdownRenderer";
 import { SVGDiagram } from "./SVGDiagram";
 import { getDiagramByFilename, isPriorityDiagram } from "@/data/diagram-registry";
+import { getHeadingAnchors, parseMarkdownWithHeadings, type MarkdownSection } from "@/lib/markdown-sections";
 import type { ArticleDiagram } from "@/types";
 
 interface ArticleRendererProps {
@@ -19,83 +20,11 @@ interface DiagramPosition {
   diagram: ArticleDiagram;
 }
 
-/**
- * Parse markdown content and identify headings for diagram placement
- */
-type Section = {
-  type: "heading" | "content";
-  level: number;
-  text: string;
-  content?: string;
-  startIndex: number;
-  endIndex: number;
-};
-
-function parseMarkdownWithHeadings(content: string): Section[] {
-  const lines = content.split("\n");
-  const sections: Section[] = [];
-
-  let currentSection: Section | null = null;
-  let currentContent = "";
-  let startIndex = 0;
-
-  for (let index = 0; index < lines.length; index++) {
-    const line = lines[index];
-    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-
-    if (headingMatch) {
-      // Save previous section
-      if (currentSection) {
-        sections.push({
-          ...currentSection,
-          endIndex: index - 1,
-          content: currentContent.trim(),
-        });
-      }
-
-      // Start new section
-      currentSection = {
-        type: "heading",
-        level: headingMatch[1].length,
-        text: headingMatch[2].trim(),
-        startIndex: index,
-        endIndex: index,
-      };
-      currentContent = "";
-    } else {
-      if (currentSection) {
-        currentContent += line + "\n";
-      } else if (line.trim()) {
-        // Content before first heading
-        currentSection = {
-          type: "content",
-          level: 0,
-          text: "Introduction",
-          startIndex,
-          endIndex: index,
-        };
-        currentContent = line + "\n";
-      }
-    }
-  }
-
-  // Save last section
-  if (currentSection) {
-    sections.push({
-      ...currentSection,
-      endIndex: lines.length - 1,
-      content: currentContent.trim(),
-    });
-  }
-
-  return sections;
-}
-
 /**
  * Find insertion points for diagrams based on their position settings
  */
 function findDiagramInsertionPoints(
-  sections: ReturnType<typeof parseMarkdownWithHeadings>,
+  sections: MarkdownSection[],
   diagrams: ArticleDiagram[]
 ): Array<{
   sectionIndex: number;
@@ -199,6 +128,7 @@ export function ArticleRenderer({
 
   // Parse markdown into sections
   const sections = parseMarkdownWithHeadings(content);
+  const anchors = getHeadingAnchors(sections);
 
   // Find diagram insertion points
   const insertionPoints = findDiagramInsertionPoints(sections, diagrams);
@@ -231,16 +161,22 @@ export function ArticleRenderer({
       }
     });
 
-    // Render the section content
-    if (section.content) {
+    // Render the section through MarkdownRenderer, heading included. Each
+    // section is its own Markdown document, so the heading gets its id from
+    // the whole article; otherwise rehype-slug would number repeated
+    // headings from scratch in every section.
+    const sectionMarkdown =
+      section.type === "heading"
+        ? `${"#".repeat(section.level)} ${section.text}\n\n${section.content || ""}`
+        : section.content;
+
+    if (sectionMarkdown) {
       renderedSections.push(
         <div key={`section-${sectionIndex}`} className="article-section">
-          {section.type === "heading" && section.level > 1 && (
-            <h2 className={`text-${4 - section.level}xl font-bold mb-4`}>
-              {section.text}
-            </h2>
-          )}
-          <MarkdownRenderer content={section.content} />
+          <MarkdownRenderer
+            content={sectionMarkdown}
+            headingIds={section.type === "heading" ? [anchors[sectionIndex]] : []}
+          />
         </div>
       );
     }
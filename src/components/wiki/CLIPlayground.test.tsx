@@ -153,15 +153,39 @@ describe('CLIPlayground', () => {
   });
 
   describe('Command Execution - Claude CLI', () => {
-    it('executes claude scan command', async () => {
-      render(createElement(CLIPlayground, { tool: 'claude' as CLITool }));
+    it('executes claude scan command against the virtual project', async () => {
+      const fixture = {
+        name: 'demo',
+        files: {
+          'package.json': '{ "dependencies": { "next": "16.1.3" } }',
+          'src/index.ts': 'export {};',
+          'src/app.tsx': 'export default function App() {}',
+        },
+      };
+      render(createElement(CLIPlayground, { tool: 'claude' as CLITool, fixture }));
 
       const textarea = screen.getByPlaceholderText('Type a command...');
       fireEvent.change(textarea, { target: { value: 'claude scan' } });
       fireEvent.keyDown(textarea, { key: 'Enter' });
 
       await waitFor(() => {
-        expect(screen.getByText(/Indexed 47 files/)).toBeDefined();
+        const output = screen.getByText(/Indexed 3 files/).textContent;
+        expect(output).toContain('Found 2 TypeScript files');
+        expect(output).toContain('Detected framework: Next.js 16');
+      });
+    });
+
+    it('executes claude analyze command on the virtual tree', async () => {
+      render(createElement(CLIPlayground, { tool: 'claude' as CLITool }));
+
+      const textarea = screen.getByPlaceholderText('Type a command...');
+      fireEvent.change(textarea, { target: { value: 'claude analyze src' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+
+      await waitFor(() => {
+        const output = screen.getByText(/Analyzing src\.\.\./).textContent;
+        expect(output).toContain('├── app/ (3 files)');
+        expect(output).toContain('Files: 5');
       });
     });
 
@@ -347,7 +371,7 @@ describe('CLIPlayground', () => {
       fireEvent.keyDown(textarea, { key: 'Enter' });
 
       await waitFor(() => {
-        expect(screen.getByText(/README.md/)).toBeDefined();
+        expect(screen.getByText(/An interactive wiki for AI coding education/)).toBeDefined();
       });
     });
 
@@ -367,12 +391,205 @@ describe('CLIPlayground', () => {
       render(createElement(CLIPlayground, { tool: 'bash' as CLITool }));
 
       const textarea = screen.getByPlaceholderText('Type a command...');
-      fireEvent.change(textarea, { target: { value: 'mkdir new-folder' } });
+      fireEvent.change(textarea, { target: { value: 'mkdir new-folder && ls' } });
       fireEvent.keyDown(textarea, { key: 'Enter' });
 
       await waitFor(() => {
-        expect(screen.getByText(/new-folder/)).toBeDefined();
+        expect(screen.getByText(/new-folder\//)).toBeDefined();
+      });
+    });
+
+    it('keeps filesystem changes between commands', async () => {
+      render(createElement(CLIPlayground, { tool: 'bash' as CLITool }));
+
+      const textarea = screen.getByPlaceholderText('Type a command...');
+      fireEvent.change(textarea, { target: { value: 'echo "saved note" > note.txt' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+      fireEvent.change(textarea, { target: { value: 'cat note.txt | grep saved' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(screen.getByText('saved note')).toBeDefined();
+      });
+    });
+
+    it('shows shell errors for missing files', async () => {
+      render(createElement(CLIPlayground, { tool: 'bash' as CLITool }));
+
+      const textarea = screen.getByPlaceholderText('Type a command...');
+      fireEvent.change(textarea, { target: { value: 'cat missing.txt' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+
+      await waitFor(() => {
+        const output = screen.getByText('cat: missing.txt: No such file or directory');
+        expect(output.className).toContain('text-red-400');
+      });
+    });
+  });
+
+  describe('Completion and Manual Pages', () => {
+    const type = (value: string, key: string) => {
+      const textarea = screen.getByPlaceholderText('Type a command...') as HTMLTextAreaElement;
+      fireEvent.change(textarea, { target: { value } });
+      fireEvent.keyDown(textarea, { key });
+      return textarea;
+    };
+
+    it('completes file paths with Tab', async () => {
+      render(createElement(CLIPlayground, { tool: 'bash' as CLITool }));
+
+      const textarea = type('cat READ', 'Tab');
+
+      await waitFor(() => {
+        expect(textarea.value).toBe('cat README.md ');
+      });
+    });
+
+    it('completes subcommands with Tab', async () => {
+      render(createElement(CLIPlayground, { tool: 'claude' as CLITool }));
+
+      const textarea = type('claude con', 'Tab');
+
+      await waitFor(() => {
+        expect(textarea.value).toBe('claude config ');
+      });
+    });
+
+    it('suggests a close command in the shell', async () => {
+      render(createElement(CLIPlayground, { tool: 'bash' as CLITool }));
+
+      type('sl', 'Enter');
+
+      await waitFor(() => {
+        expect(screen.getByText(/Did you mean: ls/)).toBeDefined();
+      });
+    });
+
+    it('shows man pages generated from command metadata', async () => {
+      render(createElement(CLIPlayground, { tool: 'claude' as CLITool }));
+
+      type('man claude refactor', 'Enter');
+
+      await waitFor(() => {
+        expect(screen.getByText(/SYNOPSIS\s+claude refactor \[OPTION\]/)).toBeDefined();
+      });
+    });
+
+    it('supports man in the bash shell', async () => {
+      render(createElement(CLIPlayground, { tool: 'bash' as CLITool }));
+
+      type('man grep | grep -- -r', 'Enter');
+
+      await waitFor(() => {
+        expect(screen.getByText(/-r +Search directories recursively/)).toBeDefined();
+      });
+    });
+
+    it('groups the quick reference by category', () => {
+      render(createElement(CLIPlayground, { tool: 'opencode' as CLITool }));
+
+      expect(screen.getByText('Basic')).toBeDefined();
+      expect(screen.getByText('Intermediate')).toBeDefined();
+      expect(screen.getByText('Advanced')).toBeDefined();
+    });
+  });
+
+  describe('Recording', () => {
+    it('records commands into a cast and copies a cast fence', async () => {
+      const onRecordingComplete = vi.fn();
+      render(createElement(CLIPlayground, { tool: 'bash' as CLITool, onRecordingComplete }));
+
+      fireEvent.click(screen.getByTitle('Start recording'));
+      const textarea = screen.getByPlaceholderText('Type a command...');
+      fireEvent.change(textarea, { target: { value: 'pwd' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+      fireEvent.click(screen.getByTitle('Stop recording'));
+
+      expect(onRecordingComplete).toHaveBeenCalledTimes(1);
+      const cast = onRecordingComplete.mock.calls[0][0];
+      expect(cast).toMatchObject({ version: 1, tool: 'bash', title: 'Bash Terminal', prompt: '$' });
+      expect(cast.events.map(([, type, text]: [number, string, string]) => [type, text])).toEqual([
+        ['i', 'pwd'],
+        ['o', '/home/user/vibe-wiki'],
+      ]);
+      expect(mockClipboard.writeText).toHaveBeenCalledWith(expect.stringMatching(/^```cast\n[\s\S]*"pwd"[\s\S]*\n```$/));
+      await waitFor(() => {
+        expect(screen.getByText(/Recording saved \(2 events\)/)).toBeDefined();
+      });
+    });
+  });
+
+  describe('Scenarios', () => {
+    const scenario = {
+      id: 'demo',
+      title: 'Demo Scenario',
+      article: 'demo-article',
+      tool: 'claude' as CLITool,
+      fixture: { name: 'app', files: { 'src/old.js': 'var x = 1;' } },
+      steps: [
+        {
+          id: 'convert',
+          title: 'Convert',
+          instruction: 'Convert the file to TypeScript',
+          hint: 'claude refactor src/old.js',
+          branches: [
+            {
+              command: 'claude refactor src/old.js',
+              output: 'Converted!',
+              mutations: [{ op: 'move' as const, path: 'src/old.js', to: 'src/new.ts' }],
+            },
+          ],
+        },
+        {
+          id: 'scan',
+          title: 'Scan',
+          instruction: 'Index the result',
+          branches: [{ command: 'claude scan', run: true }],
+        },
+      ],
+      completionMessage: 'Scenario finished!',
+    };
+
+    it('shows the current step and advances when a checkpoint passes', async () => {
+      const onStepComplete = vi.fn();
+      render(createElement(CLIPlayground, { tool: 'claude' as CLITool, scenario, onStepComplete }));
+
+      expect(screen.getByTestId('scenario-step').textContent).toContain('Step 1/2: Convert');
+
+      const textarea = screen.getByPlaceholderText('Type a command...');
+      fireEvent.change(textarea, { target: { value: 'claude refactor src/old.js' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(screen.getByText('Converted!')).toBeDefined();
+      });
+      expect(onStepComplete).toHaveBeenCalledWith('convert');
+      expect(screen.getByTestId('scenario-step').textContent).toContain('Step 2/2: Scan');
+
+      // The scan runs normally against the mutated scenario fixture
+      fireEvent.change(textarea, { target: { value: 'claude scan' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(screen.getByText(/Found 1 TypeScript files[\s\S]*Scenario finished!/)).toBeDefined();
+      });
+      expect(onStepComplete).toHaveBeenCalledWith('scan');
+      expect(screen.getByTestId('scenario-step').textContent).toContain('Scenario complete');
+    });
+
+    it('runs commands the step does not expect as usual', async () => {
+      const onStepComplete = vi.fn();
+      render(createElement(CLIPlayground, { tool: 'claude' as CLITool, scenario, onStepComplete }));
+
+      const textarea = screen.getByPlaceholderText('Type a command...');
+      fireEvent.change(textarea, { target: { value: 'claude chat' } });
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(screen.getByText(/Starting chat mode/)).toBeDefined();
       });
+      expect(onStepComplete).not.toHaveBeenCalled();
+      expect(screen.getByTestId('scenario-step').textContent).toContain('Step 1/2');
     });
   });
 
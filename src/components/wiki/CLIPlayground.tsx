@@ -1,22 +1,48 @@
 "use client";
 
 import * as React from "react";
-import { Terminal, X, Maximize2, Minimize2, Copy, Check, History, Trash2 } from "lucide-react";
+import { Terminal, X, Maximize2, Minimize2, Copy, Check, History, Trash2, Circle, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import type { CLITool } from "@/types";
+import { ScenarioSession, type CLIScenario } from "@/lib/scenario-engine";
+import { CastRecorder, formatCast, type TerminalCast } from "@/lib/terminal-cast";
+import {
+  BUILTIN_COMMANDS,
+  CATEGORY_LABELS,
+  CommandMetadata,
+  completeLine,
+  DEFAULT_PROJECT_FIXTURE,
+  groupByCategory,
+  manualEntry,
+  ProjectFixture,
+  Shell,
+  ShellCommand,
+  suggestCommands,
+  summarizeProject,
+  VirtualFileSystem,
+} from "@/lib/shell";
 
 // ============================================================================
 // TYPES AND INTERFACES
 // ============================================================================
 
-export type CLITool = "claude" | "copilot" | "opencode" | "bash";
+export type { CLITool };
 
-export interface CLICommand {
-  command: string;
-  description: string;
-  category: "basic" | "intermediate" | "advanced";
+/**
+ * What a simulated command can see of the playground it runs in.
+ */
+export interface CLICommandContext {
+  fs: VirtualFileSystem;
+}
+
+/**
+ * A simulated command. Its metadata also feeds Tab completion, "did you
+ * mean" suggestions, `man` and the quick reference.
+ */
+export interface CLICommand extends CommandMetadata {
   response?: string;
-  responseGenerator?: (args: string[]) => string;
+  responseGenerator?: (args: string[], context: CLICommandContext) => string;
   tool?: CLITool;
 }
 
@@ -28,6 +54,13 @@ export interface CLIPlaygroundConfig {
   commands?: CLICommand[];
   showQuickReference?: boolean;
   maxHeight?: string;
+  /** Project the playground's virtual filesystem is seeded from. */
+  fixture?: ProjectFixture;
+  /** Scripted session to guide the learner through; its fixture wins. */
+  scenario?: CLIScenario;
+  onStepComplete?: (stepId: string) => void;
+  /** Called with the cast when a recording is stopped. */
+  onRecordingComplete?: (cast: TerminalCast) => void;
 }
 
 export interface TerminalHistory {
@@ -56,6 +89,7 @@ const CLAUDE_COMMANDS: CLICommand[] = [
     command: "claude ask",
     description: "Ask Claude a question",
     category: "basic",
+    examples: ['claude ask "How do I implement async/await?"'],
     responseGenerator: (args) => {
       const query = args.join(" ");
       return `[Claude] Here's what I found about "${query}":\n\nBased on your query, I'd suggest:\n1. Review the project structure\n2. Check the documentation\n3. Consider the best practices for this use case\n\nWould you like me to elaborate on any of these points?`;
@@ -65,15 +99,33 @@ const CLAUDE_COMMANDS: CLICommand[] = [
     command: "claude analyze",
     description: "Analyze a file or directory",
     category: "basic",
-    responseGenerator: (args) => {
+    examples: ["claude analyze src/", "claude analyze package.json"],
+    responseGenerator: (args, { fs }) => {
       const target = args[0] || ".";
-      return `[Claude] Analyzing ${target}...\n\n📁 Structure:\n├── src/ (12 files)\n├── tests/ (5 files)\n└── package.json\n\n📊 Summary:\n- Languages: TypeScript, JavaScript\n- Total lines: 1,247\n- Complexity: Low-Medium\n\n💡 Suggestions:\n- Consider adding more test coverage\n- Some functions could be extracted for reusability`;
+      if (!fs.exists(target)) {
+        return `[Claude] Cannot analyze ${target}: No such file or directory`;
+      }
+
+      const summary = summarizeProject(fs, target);
+      const structure = summary.entries
+        .map((entry, index) => {
+          const branch = index === summary.entries.length - 1 ? "└──" : "├──";
+          return entry.type === "directory"
+            ? `${branch} ${entry.name}/ (${entry.fileCount} ${entry.fileCount === 1 ? "file" : "files"})`
+            : `${branch} ${entry.name}`;
+        })
+        .join("\n");
+      const languages = summary.languages.map((l) => l.language).join(", ") || "None detected";
+      const hasTests = summary.entries.some((entry) => /^(tests?|__tests__)$/.test(entry.name));
+
+      return `[Claude] Analyzing ${target}...\n\n📁 Structure:\n${structure || "(empty)"}\n\n📊 Summary:\n- Files: ${summary.fileCount}\n- Languages: ${languages}\n- Total lines: ${summary.totalLines.toLocaleString("en-US")}\n\n💡 Suggestions:\n${hasTests ? "- Keep tests next to the code they cover" : "- Consider adding a tests/ directory"}\n- Some functions could be extracted for reusability`;
     },
   },
   {
     command: "claude generate",
     description: "Generate code from description",
     category: "basic",
+    examples: ['claude generate "a React counter component"'],
     responseGenerator: (args) => {
       const desc = args.join(" ");
       return `[Claude] Generating code for: ${desc}\n\n\`\`\`typescript\nfunction ${desc.replace(/\s+/g, "").toLowerCase()}() {\n  // Implementation generated\n  const result = processData();\n  return result;\n}\n\`\`\`\n\n✅ Code generated! Review and let me know if you need changes.`;
@@ -83,6 +135,8 @@ const CLAUDE_COMMANDS: CLICommand[] = [
     command: "claude refactor",
     description: "Refactor code to improve quality",
     category: "intermediate",
+    flags: [{ flag: "--to-typescript", description: "Convert JavaScript files to TypeScript" }],
+    examples: ["claude refactor src/lib/utils.ts"],
     responseGenerator: (args) => {
       const target = args[0] || "code";
       return `[Claude] Refactoring ${target}...\n\nChanges applied:\n✓ Extracted duplicate logic into helper functions\n✓ Improved variable naming\n✓ Added TypeScript types\n✓ Optimized performance\n\n📝 Review the changes and run tests to verify.`;
@@ -92,6 +146,7 @@ const CLAUDE_COMMANDS: CLICommand[] = [
     command: "claude debug",
     description: "Debug errors with AI assistance",
     category: "intermediate",
+    examples: ['claude debug "TypeError: Cannot read properties of undefined"'],
     responseGenerator: (args) => {
       const error = args.join(" ") || "TypeError";
       return `[Claude] Analyzing error: ${error}\n\n🔍 Root Cause:\nThe issue appears to be in the data transformation layer.\n\n🛠️ Suggested Fix:\n\`\`\`typescript\n// Add null check\nif (data && typeof data === 'object') {\n  return transform(data);\n}\n\`\`\`\n\n✨ This should resolve the issue. Let me know if you need more help!`;
@@ -101,12 +156,24 @@ const CLAUDE_COMMANDS: CLICommand[] = [
     command: "claude scan",
     description: "Scan and index project files",
     category: "basic",
-    response: `[Claude] Scanning project...\n\n✓ Indexed 47 files\n✓ Found 12 TypeScript files\n✓ Found 8 configuration files\n✓ Detected framework: Next.js 14\n✓ Detected styling: Tailwind CSS\n\n🎯 Project context loaded! I now understand your codebase structure.`,
+    examples: ["claude scan"],
+    responseGenerator: (_args, { fs }) => {
+      const summary = summarizeProject(fs);
+      const lines = [
+        `✓ Indexed ${summary.fileCount} files`,
+        `✓ Found ${summary.typeScriptFileCount} TypeScript files`,
+        `✓ Found ${summary.configFileCount} configuration files`,
+        summary.framework && `✓ Detected framework: ${summary.framework}`,
+        summary.styling && `✓ Detected styling: ${summary.styling}`,
+      ].filter(Boolean);
+      return `[Claude] Scanning project...\n\n${lines.join("\n")}\n\n🎯 Project context loaded! I now understand your codebase structure.`;
+    },
   },
   {
     command: "claude review",
     description: "Review code for improvements",
     category: "intermediate",
+    examples: ["claude review src/components/Counter.tsx"],
     responseGenerator: (args) => {
       const file = args[0] || "src/index.ts";
       return `[Claude] Reviewing ${file}...\n\n📋 Code Review Results:\n\n✅ Strengths:\n- Clean code structure\n- Good use of TypeScript\n- Proper error handling\n\n⚠️ Suggestions:\n- Add JSDoc comments for public APIs\n- Consider edge cases in validation\n- Extract magic numbers to constants\n\nOverall: 8.5/10 - Well written!`;
@@ -116,12 +183,14 @@ const CLAUDE_COMMANDS: CLICommand[] = [
     command: "claude chat",
     description: "Start interactive conversation",
     category: "basic",
+    examples: ["claude chat"],
     response: `[Claude] Starting chat mode...\n\n💬 You can now ask me anything about your code!\n\nType 'exit' to leave chat mode.\n\n[Claude] Hello! How can I help you today?`,
   },
   {
     command: "claude config set",
     description: "Configure Claude CLI settings",
     category: "advanced",
+    examples: ["claude config set model claude-3-5-sonnet"],
     responseGenerator: (args) => {
       const key = args[0] || "model";
       const value = args[1] || "claude-3-5-sonnet";
@@ -132,6 +201,7 @@ const CLAUDE_COMMANDS: CLICommand[] = [
     command: "claude --help",
     description: "Show help information",
     category: "basic",
+    examples: ["claude --help"],
     response: `[Claude CLI] v1.2.0\n\nAvailable commands:\n  ask          Ask a question\n  analyze      Analyze files\n  generate     Generate code\n  refactor     Refactor code\n  debug        Debug errors\n  scan         Scan project\n  review       Review code\n  chat         Interactive chat\n  config       Configure settings\n\nOptions:\n  --help       Show this help\n  --version    Show version`,
   },
 ];
@@ -141,6 +211,7 @@ const COPILOT_COMMANDS: CLICommand[] = [
     command: "gh copilot suggest",
     description: "Suggest terminal commands",
     category: "basic",
+    examples: ['gh copilot suggest "find all large files"'],
     responseGenerator: (args) => {
       const query = args.join(" ") || "list files";
       return `[Copilot] Suggesting command for: ${query}\n\n💡 Suggested command:\n\`\`\`bash\nls -lah\n\`\`\`\n\n📝 This command lists all files with details including hidden files.\n\nPress Enter to execute, or Ctrl+C to cancel.`;
@@ -150,6 +221,7 @@ const COPILOT_COMMANDS: CLICommand[] = [
     command: "gh copilot explain",
     description: "Explain a command",
     category: "basic",
+    examples: ['gh copilot explain "docker-compose up -d"'],
     responseGenerator: (args) => {
       const cmd = args[0] || "ls -lah";
       return `[Copilot] Explaining: ${cmd}\n\n📖 Breakdown:\n- ls: list directory contents\n- -l: use long listing format\n- -a: include hidden files (starting with .)\n- -h: human-readable file sizes\n\n✨ This command provides a detailed view of all files in a human-readable format.`;
@@ -159,6 +231,7 @@ const COPILOT_COMMANDS: CLICommand[] = [
     command: "gh copilot suggest -s",
     description: "Suggest for specific shell",
     category: "intermediate",
+    examples: ["gh copilot suggest -s zsh compress files"],
     responseGenerator: (args) => {
       const shell = args[0] || "bash";
       const query = args.slice(1).join(" ") || "compress files";
@@ -169,6 +242,7 @@ const COPILOT_COMMANDS: CLICommand[] = [
     command: "gh copilot --help",
     description: "Show help information",
     category: "basic",
+    examples: ["gh copilot --help"],
     response: `[GitHub Copilot CLI] v2.1.0\n\nAvailable commands:\n  suggest      Suggest commands\n  explain      Explain commands\n\nOptions:\n  -s <shell>   Target shell (bash, zsh, powershell)\n  --detailed   Show detailed explanations\n  --help       Show this help`,
   },
 ];
@@ -178,6 +252,7 @@ const OPENCODE_COMMANDS: CLICommand[] = [
     command: "opencode chat",
     description: "Chat with OpenCode AI",
     category: "basic",
+    examples: ['opencode chat "Add a login form"'],
     responseGenerator: (args) => {
       const query = args.join(" ") || "hello";
       return `[OpenCode] ${query}\n\n🤖 I'm OpenCode, your open-source AI coding assistant!\n\nI can help you with:\n• Code generation and refactoring\n• Multi-file operations\n• Test generation\n• Debugging\n• Documentation\n\nHow can I assist you today?`;
@@ -187,6 +262,7 @@ const OPENCODE_COMMANDS: CLICommand[] = [
     command: "opencode project create",
     description: "Create a new project",
     category: "intermediate",
+    examples: ["opencode project create my-app"],
     responseGenerator: (args) => {
       const name = args[0] || "my-project";
       return `[OpenCode] Creating project: ${name}\n\n✓ Initialized project structure\n✓ Created package.json\n✓ Set up TypeScript config\n✓ Added ESLint & Prettier\n✓ Generated README.md\n\n🎉 Project "${name}" created successfully!\n\nNext steps:\n1. cd ${name}\n2. npm install\n3. opencode chat "Add a home page"`;
@@ -196,6 +272,7 @@ const OPENCODE_COMMANDS: CLICommand[] = [
     command: "opencode agent",
     description: "Run autonomous agent for complex tasks",
     category: "advanced",
+    examples: ['opencode agent "Create a todo app"'],
     responseGenerator: (args) => {
       const task = args.join(" ") || "add authentication";
       return `[OpenCode] Starting autonomous agent...\n\n🤖 Agent Workflow:\n\n  [Planner] Breaking down task: ${task}\n  ├─ Analyze requirements\n  ├─ Design solution\n  └─ Plan implementation\n  ✓ Planning complete\n\n  [Coder] Implementing solution...\n  ├─ Create auth utilities\n  ├─ Add middleware\n  ├─ Update routes\n  └─ Add tests\n  ✓ Implementation complete\n\n  [Reviewer] Reviewing code...\n  ├─ Check best practices\n  ├─ Verify security\n  └─ Validate types\n  ✓ Review passed\n\n  [Tester] Running tests...\n  ├─ Unit tests: ✓ 12/12 passed\n  ├─ Integration tests: ✓ 5/5 passed\n  └─ E2E tests: ✓ 3/3 passed\n  ✓ All tests passed\n\n🎉 Task completed successfully!`;
@@ -205,6 +282,7 @@ const OPENCODE_COMMANDS: CLICommand[] = [
     command: "opencode refactor",
     description: "Refactor code with AI",
     category: "intermediate",
+    examples: ["opencode refactor src/"],
     responseGenerator: (args) => {
       const target = args[0] || "src/";
       return `[OpenCode] Refactoring ${target}\n\n🔍 Analysis:\n- Found 8 files to refactor\n- Identified patterns to improve\n\n✅ Changes applied:\n✓ Converted class components to functional\n✓ Added React hooks where appropriate\n✓ Improved type definitions\n✓ Enhanced error handling\n\n📊 Results:\n- Lines of code: -15%\n- Type coverage: +25%\n- Test coverage: maintained at 85%`;
@@ -214,73 +292,126 @@ const OPENCODE_COMMANDS: CLICommand[] = [
     command: "opencode config",
     description: "Configure OpenCode settings",
     category: "advanced",
+    examples: ["opencode config"],
     response: `[OpenCode] Configuration\n\nCurrent settings:\n  Provider: Anthropic (Claude)\n  Model: claude-3-opus\n  Temperature: 0.2\n  Max Tokens: 4000\n\nAgents:\n  Planner: claude-3-opus\n  Coder: claude-3-sonnet\n  Reviewer: claude-3-sonnet\n\nUse 'opencode config set <key> <value>' to modify.`,
   },
   {
     command: "opencode --help",
     description: "Show help information",
     category: "basic",
+    examples: ["opencode --help", "opencode --version"],
     response: `[OpenCode CLI] v3.0.0 - Open Source AI Coding Assistant\n\nAvailable commands:\n  chat         Interactive chat\n  agent        Autonomous AI agent\n  project      Project management\n  refactor     Refactor code\n  debug        Debug errors\n  review       Code review\n  config       Configuration\n\nOptions:\n  --help       Show this help\n  --version    Show version\n  --local      Use local models`,
   },
 ];
 
+// Bash mode runs input through the virtual shell; this list only feeds the
+// quick reference, Tab completion and `man`
 const BASH_COMMANDS: CLICommand[] = [
   {
     command: "ls",
     description: "List directory contents",
     category: "basic",
-    response: `src/  public/  package.json  tsconfig.json  README.md`,
+    flags: [
+      { flag: "-l", description: "Use a long listing format" },
+      { flag: "-a", description: "Include entries starting with ." },
+      { flag: "-A", description: "Like -a, but without . and .." },
+      { flag: "-1", description: "List one entry per line" },
+    ],
+    examples: ["ls", "ls -la", "ls src"],
   },
+  { command: "pwd", description: "Print working directory", category: "basic", examples: ["pwd"] },
+  { command: "cd", description: "Change directory", category: "basic", examples: ["cd src", "cd ..", "cd -"] },
   {
-    command: "pwd",
-    description: "Print working directory",
+    command: "cat",
+    description: "Display file contents",
     category: "basic",
-    response: `/home/user/vibe-wiki`,
+    flags: [{ flag: "-n", description: "Number all output lines" }],
+    examples: ["cat README.md", "cat -n package.json"],
   },
   {
-    command: "cat",
-    description: "Display file contents",
+    command: "echo",
+    description: "Display text",
     category: "basic",
-    responseGenerator: (args) => {
-      const file = args[0] || "README.md";
-      return `# Vibe Wiki\n\nAn interactive wiki for AI coding education.\n\n## Getting Started\n\n1. Install dependencies: npm install\n2. Run dev server: npm run dev\n3. Open http://localhost:3000\n\n... (content of ${file})`;
-    },
+    flags: [{ flag: "-n", description: "Do not output the trailing newline" }],
+    examples: ['echo "Hello, world!"', "echo $HOME", 'echo "notes" > notes.txt'],
   },
   {
     command: "mkdir",
-    description: "Create directory",
+    description: "Create directories",
     category: "basic",
-    responseGenerator: (args) => {
-      const dir = args[0] || "new-folder";
-      return `Directory '${dir}' created successfully.`;
-    },
+    flags: [{ flag: "-p", description: "Create parent directories as needed" }],
+    examples: ["mkdir new-folder", "mkdir -p src/hooks"],
   },
+  { command: "touch", description: "Create an empty file", category: "basic", examples: ["touch notes.txt"] },
   {
-    command: "echo",
-    description: "Display text",
-    category: "basic",
-    responseGenerator: (args) => args.join(" ") || "",
+    command: "rm",
+    description: "Remove files or directories",
+    category: "intermediate",
+    flags: [
+      { flag: "-r", description: "Remove directories and their contents" },
+      { flag: "-f", description: "Ignore missing files" },
+    ],
+    examples: ["rm notes.txt", "rm -r new-folder"],
   },
+  { command: "mv", description: "Move or rename files", category: "intermediate", examples: ["mv notes.txt docs.txt"] },
   {
-    command: "clear",
-    description: "Clear terminal screen",
-    category: "basic",
-    response: "", // Special handling
+    command: "grep",
+    description: "Search file contents",
+    category: "intermediate",
+    flags: [
+      { flag: "-i", description: "Ignore case" },
+      { flag: "-n", description: "Prefix each line with its line number" },
+      { flag: "-r", description: "Search directories recursively" },
+      { flag: "-v", description: "Select non-matching lines" },
+      { flag: "-c", description: "Print only a count of matching lines" },
+      { flag: "-l", description: "Print only the names of matching files" },
+    ],
+    examples: ["grep -rn TODO src", "grep -i next package.json"],
   },
   {
-    command: "history",
-    description: "Show command history",
-    category: "basic",
-    response: "", // Special handling
+    command: "head",
+    description: "Show the first lines of a file",
+    category: "intermediate",
+    flags: [{ flag: "-n", description: "Number of lines to show (default 10)" }],
+    examples: ["head -n 5 README.md"],
   },
   {
-    command: "help",
-    description: "Show help",
-    category: "basic",
-    response: `Available commands:\n  ls      List directory\n  pwd     Print working directory\n  cat     Show file contents\n  mkdir   Create directory\n  echo    Print text\n  clear   Clear terminal\n  history Command history`,
+    command: "tail",
+    description: "Show the last lines of a file",
+    category: "intermediate",
+    flags: [{ flag: "-n", description: "Number of lines to show (default 10)" }],
+    examples: ["tail -n 3 package.json"],
+  },
+  {
+    command: "wc",
+    description: "Count lines, words and bytes",
+    category: "intermediate",
+    flags: [
+      { flag: "-l", description: "Print the line count" },
+      { flag: "-w", description: "Print the word count" },
+      { flag: "-c", description: "Print the byte count" },
+    ],
+    examples: ["wc -l README.md", "cat src/app/page.tsx | wc -l"],
   },
+  { command: "clear", description: "Clear terminal screen", category: "basic" },
+  { command: "history", description: "Show command history", category: "basic" },
+  { command: "help", description: "Show help", category: "basic" },
+  { command: "man", description: "Show the manual page for a command", category: "basic", examples: ["man ls", "man grep"] },
 ];
 
+// `man` in the shell reads the same metadata as the quick reference
+const BASH_SHELL_COMMANDS: Record<string, ShellCommand> = {
+  ...BUILTIN_COMMANDS,
+  man: {
+    description: "Show the manual page for a command",
+    usage: "man command",
+    run: ({ args }) => {
+      const { output, found } = manualEntry(args, BASH_COMMANDS);
+      return found ? { stdout: `${output}\n` } : { stderr: `${output}\n`, exitCode: args.length === 0 ? 1 : 16 };
+    },
+  },
+};
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -300,7 +431,7 @@ function getCommandsForTool(tool: CLITool): CLICommand[] {
   }
 }
 
-function getDefaultPrompt(tool: CLITool): string {
+export function getDefaultPrompt(tool: CLITool): string {
   switch (tool) {
     case "claude":
       return "claude";
@@ -330,22 +461,17 @@ function getDefaultWelcomeMessage(tool: CLITool): string {
   }
 }
 
-function findMatchingCommands(input: string, commands: CLICommand[]): CLICommand[] {
-  const normalizedInput = input.toLowerCase().trim();
-  return commands.filter(
-    (cmd) =>
-      cmd.command.toLowerCase().startsWith(normalizedInput) ||
-      cmd.description.toLowerCase().includes(normalizedInput)
-  );
-}
-
-function executeCommand(input: string, commands: CLICommand[]): string {
+function executeCommand(input: string, commands: CLICommand[], context: CLICommandContext): string {
   const trimmedInput = input.trim();
   const parts = trimmedInput.split(/\s+/);
   const commandBase = parts.slice(0, 2).join(" "); // Handle "gh copilot", "claude ask", etc.
   const singleCommand = parts[0];
   const args = parts.slice(1);
 
+  if (singleCommand === "man") {
+    return manualEntry(args, commands).output;
+  }
+
   // Find matching command
   const matchingCommand = commands.find(
     (cmd) =>
@@ -356,10 +482,12 @@ function executeCommand(input: string, commands: CLICommand[]): string {
   );
 
   if (!matchingCommand) {
-    const similarCommands = findMatchingCommands(trimmedInput, commands);
+    const similarCommands = suggestCommands(
+      trimmedInput,
+      commands.map((cmd) => cmd.command)
+    ).map((name) => commands.find((cmd) => cmd.command === name)!);
     if (similarCommands.length > 0) {
       return `Command not found. Did you mean:\n${similarCommands
-        .slice(0, 3)
         .map((c) => `  • ${c.command} - ${c.description}`)
         .join("\n")}\n\nType 'help' for available commands.`;
     }
@@ -380,7 +508,7 @@ function executeCommand(input: string, commands: CLICommand[]): string {
     // Extract args after the command
     const cmdParts = matchingCommand.command.split(" ");
     const cmdArgs = parts.slice(cmdParts.length);
-    return matchingCommand.responseGenerator(cmdArgs);
+    return matchingCommand.responseGenerator(cmdArgs, context);
   }
 
   return matchingCommand.response || "";
@@ -398,11 +526,26 @@ export function CLIPlayground({
   commands,
   showQuickReference = true,
   maxHeight = "600px",
+  fixture = DEFAULT_PROJECT_FIXTURE,
+  scenario,
+  onStepComplete,
+  onRecordingComplete,
 }: CLIPlaygroundConfig) {
   const defaultCommands = React.useMemo(() => getCommandsForTool(tool), [tool]);
   const allCommands = commands || defaultCommands;
+  // Real shell semantics unless the caller scripted its own bash commands
+  const usesShell = tool === "bash" && !commands;
+
+  // Each playground gets its own filesystem, seeded once on mount
+  const projectFixture = scenario?.fixture ?? fixture;
+  const [fileSystem] = React.useState(() => VirtualFileSystem.fromFixture(projectFixture));
+  const [shell] = React.useState(() => new Shell(fileSystem, projectFixture.env, BASH_SHELL_COMMANDS));
+  const [session] = React.useState(() => (scenario ? new ScenarioSession(scenario, fileSystem) : null));
+  const [currentStep, setCurrentStep] = React.useState(() => session?.currentStep);
   const defaultPrompt = prompt || getDefaultPrompt(tool);
-  const defaultWelcome = welcomeMessage || getDefaultWelcomeMessage(tool);
+  const defaultWelcome =
+    welcomeMessage ||
+    (scenario ? [scenario.title, scenario.description].filter(Boolean).join("\n\n") : getDefaultWelcomeMessage(tool));
 
   const [state, setState] = React.useState<TerminalState>({
     history: [
@@ -423,6 +566,8 @@ export function CLIPlayground({
 
   const inputRef = React.useRef<HTMLTextAreaElement>(null);
   const terminalRef = React.useRef<HTMLDivElement>(null);
+  const recorderRef = React.useRef<CastRecorder | null>(null);
+  const [isRecording, setIsRecording] = React.useState(false);
 
   // Focus input on mount and when clicking terminal
   React.useEffect(() => {
@@ -465,8 +610,34 @@ export function CLIPlayground({
     }
   };
 
+  const runCommandLine = (input: string): { output: string; success: boolean } => {
+    const trimmedInput = input.trim();
+    if (!usesShell || trimmedInput === "clear" || trimmedInput === "history") {
+      const output = executeCommand(input, allCommands, { fs: fileSystem });
+      return { output, success: !output.includes("Command not found") };
+    }
+
+    const result = shell.run(input);
+    return { output: result.output, success: result.exitCode === 0 };
+  };
+
+  // Scenario branches get the first look at input; anything they do not
+  // expect runs as a normal command
+  const runInput = (input: string): { output: string; success: boolean } => {
+    const reply = session?.respond(input, (line) => runCommandLine(line).output);
+    if (!reply) return runCommandLine(input);
+
+    if (reply.completedStepId) {
+      onStepComplete?.(reply.completedStepId);
+      setCurrentStep(session?.currentStep);
+    }
+    return { output: reply.output, success: reply.success };
+  };
+
   const executeAndAddToHistory = (input: string) => {
-    const output = executeCommand(input, allCommands);
+    const { output, success } = runInput(input);
+    const recorder = recorderRef.current;
+    recorder?.input(input);
 
     // Handle special responses
     if (output === "__CLEAR__") {
@@ -478,6 +649,7 @@ export function CLIPlayground({
       const historyOutput = state.commandHistory
         .map((cmd, i) => `  ${i + 1}  ${cmd}`)
         .join("\n");
+      recorder?.output(historyOutput || "No commands in history.");
       setState((prev) => ({
         ...prev,
         history: [
@@ -496,6 +668,7 @@ export function CLIPlayground({
       return;
     }
 
+    recorder?.output(output);
     setState((prev) => ({
       ...prev,
       history: [
@@ -504,7 +677,7 @@ export function CLIPlayground({
           command: input,
           output,
           timestamp: new Date(),
-          success: !output.includes("Command not found"),
+          success,
         },
       ],
       currentInput: "",
@@ -545,24 +718,23 @@ export function CLIPlayground({
   };
 
   const autoComplete = () => {
-    const matches = findMatchingCommands(state.currentInput, allCommands);
-    if (matches.length === 1) {
-      setState((prev) => ({ ...prev, currentInput: matches[0].command + " " }));
-    } else if (matches.length > 1) {
-      const options = matches.map((m) => m.command).join("  ");
-      setState((prev) => ({
-        ...prev,
-        history: [
-          ...prev.history,
-          {
-            command: state.currentInput,
-            output: options,
-            timestamp: new Date(),
-            success: true,
-          },
-        ],
-      }));
-    }
+    const { line, options } = completeLine(state.currentInput, allCommands, fileSystem);
+    setState((prev) => ({
+      ...prev,
+      currentInput: line,
+      history:
+        options.length > 0
+          ? [
+              ...prev.history,
+              {
+                command: state.currentInput,
+                output: options.join("  "),
+                timestamp: new Date(),
+                success: true,
+              },
+            ]
+          : prev.history,
+    }));
   };
 
   const clearTerminal = () => {
@@ -588,6 +760,34 @@ export function CLIPlayground({
     navigator.clipboard.writeText(text);
   };
 
+  // Recording captures each command and its output with timings; stopping
+  // copies a ```cast block ready to paste into an article
+  const toggleRecording = () => {
+    if (!recorderRef.current) {
+      recorderRef.current = new CastRecorder({ tool, title: getTitle(), prompt: defaultPrompt });
+      setIsRecording(true);
+      return;
+    }
+
+    const cast = recorderRef.current.toCast();
+    recorderRef.current = null;
+    setIsRecording(false);
+    navigator.clipboard.writeText(`\`\`\`cast\n${formatCast(cast)}\n\`\`\``);
+    onRecordingComplete?.(cast);
+    setState((prev) => ({
+      ...prev,
+      history: [
+        ...prev.history,
+        {
+          command: "",
+          output: `Recording saved (${cast.events.length} events). A \`\`\`cast block was copied to the clipboard.`,
+          timestamp: new Date(),
+          success: true,
+        },
+      ],
+    }));
+  };
+
   const runQuickCommand = (command: string) => {
     setState((prev) => ({ ...prev, currentInput: command }));
     setTimeout(() => executeAndAddToHistory(command), 100);
@@ -644,6 +844,15 @@ export function CLIPlayground({
           </span>
         </div>
         <div className="flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn("h-7 w-7 hover:text-zinc-100", isRecording ? "text-red-500" : "text-zinc-400")}
+            onClick={toggleRecording}
+            title={isRecording ? "Stop recording" : "Start recording"}
+          >
+            {isRecording ? <Square className="h-4 w-4 fill-current" /> : <Circle className="h-4 w-4" />}
+          </Button>
           <Button
             size="icon"
             variant="ghost"
@@ -733,24 +942,63 @@ export function CLIPlayground({
             <h4 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-3">
               Quick Reference
             </h4>
-            <div className="space-y-2">
-              {allCommands.map((cmd, index) => (
-                <button
-                  key={index}
-                  className="w-full text-left p-2 rounded hover:bg-white/5 transition-colors group"
-                  onClick={() => runQuickCommand(cmd.command)}
-                >
-                  <div className="font-mono text-xs text-zinc-300 group-hover:text-neon-cyan">
-                    {cmd.command}
-                  </div>
-                  <div className="text-xs text-zinc-500 mt-0.5">{cmd.description}</div>
-                </button>
+            <div className="space-y-4">
+              {groupByCategory(allCommands).map((group) => (
+                <div key={group.category} className="space-y-2">
+                  <h5 className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider">
+                    {CATEGORY_LABELS[group.category]}
+                  </h5>
+                  {group.commands.map((cmd) => (
+                    <button
+                      key={cmd.command}
+                      className="w-full text-left p-2 rounded hover:bg-white/5 transition-colors group"
+                      onClick={() => runQuickCommand(cmd.examples?.[0] ?? cmd.command)}
+                      title={cmd.examples?.length ? `Run: ${cmd.examples[0]}` : undefined}
+                    >
+                      <div className="font-mono text-xs text-zinc-300 group-hover:text-neon-cyan">
+                        {cmd.command}
+                      </div>
+                      <div className="text-xs text-zinc-500 mt-0.5">{cmd.description}</div>
+                      {cmd.flags && cmd.flags.length > 0 && (
+                        <div className="font-mono text-[10px] text-zinc-600 mt-0.5">
+                          {cmd.flags.map((f) => f.flag).join(" ")}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                </div>
               ))}
             </div>
           </div>
         )}
       </div>
 
+      {/* Scenario Step */}
+      {scenario && (
+        <div className="px-4 py-3 bg-zinc-900/80 border-t border-white/10 text-sm" data-testid="scenario-step">
+          {currentStep ? (
+            <>
+              <div className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                Step {scenario.steps.indexOf(currentStep) + 1}/{scenario.steps.length}: {currentStep.title}
+              </div>
+              <p className="mt-1 text-zinc-200" dir="auto">
+                {currentStep.instruction}
+              </p>
+              {currentStep.hint && (
+                <p className="mt-1 text-xs text-zinc-500">
+                  Try: <code className="font-mono text-neon-cyan">{currentStep.hint}</code>
+                </p>
+              )}
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-green-400">
+              <Check className="h-4 w-4" />
+              <span>Scenario complete</span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="flex items-center gap-2 px-4 py-3 bg-zinc-900 border-t border-white/10">
         <span className={cn("font-mono font-semibold", getToolColor())}>
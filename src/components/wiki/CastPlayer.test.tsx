@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { createElement } from 'react';
+import { CastPlayer } from './CastPlayer';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { formatCast, type TerminalCast } from '@/lib/terminal-cast';
+
+const cast: TerminalCast = {
+  version: 1,
+  tool: 'bash',
+  title: 'Listing files',
+  events: [
+    [1, 'i', 'ls'],
+    [1, 'o', 'README.md  src/'],
+    [3, 'i', 'pwd'],
+    [3, 'o', '/home/user/demo'],
+  ],
+};
+
+function mockReducedMotion(reduce: boolean) {
+  window.matchMedia = vi.fn().mockImplementation((query: string) => ({
+    matches: reduce && query.includes('prefers-reduced-motion'),
+    media: query,
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+  }));
+}
+
+describe('CastPlayer', () => {
+  const originalMatchMedia = window.matchMedia;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockReducedMotion(false);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it('plays the session in time', () => {
+    render(createElement(CastPlayer, { cast }));
+    const terminal = screen.getByTestId('cast-screen');
+
+    expect(screen.getByText('Listing files')).toBeDefined();
+    expect(terminal.textContent).not.toContain('README.md');
+
+    act(() => {
+      vi.advanceTimersByTime(1500);
+    });
+    expect(terminal.textContent).toContain('README.md  src/');
+    expect(terminal.textContent).not.toContain('/home/user/demo');
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(terminal.textContent).toContain('/home/user/demo');
+    expect(screen.getByTitle('Play')).toBeDefined();
+  });
+
+  it('pauses, seeks and changes speed', () => {
+    render(createElement(CastPlayer, { cast }));
+
+    fireEvent.click(screen.getByTitle('Pause'));
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(screen.getByTestId('cast-screen').textContent).toBe('');
+
+    fireEvent.change(screen.getByLabelText('Seek'), { target: { value: '3' } });
+    expect(screen.getByTestId('cast-screen').textContent).toContain('/home/user/demo');
+
+    fireEvent.click(screen.getByTitle('Playback speed'));
+    expect(screen.getByTitle('Playback speed').textContent).toBe('2x');
+  });
+
+  it('shows the whole session without playing when reduced motion is preferred', () => {
+    mockReducedMotion(true);
+    render(createElement(CastPlayer, { cast }));
+
+    expect(screen.getByTestId('cast-screen').textContent).toContain('/home/user/demo');
+    expect(screen.getByTitle('Play')).toBeDefined();
+    expect(screen.getByText('0:03 / 0:03')).toBeDefined();
+  });
+
+  it('is rendered for cast fences in Markdown', () => {
+    mockReducedMotion(true);
+    render(createElement(MarkdownRenderer, { content: '```cast\n' + formatCast(cast) + '\n```' }));
+
+    expect(screen.getByText('Listing files')).toBeDefined();
+    expect(screen.getByTestId('cast-screen').textContent).toContain('README.md  src/');
+  });
+
+  it('explains invalid cast fences', () => {
+    render(createElement(MarkdownRenderer, { content: '```cast\n{"version": 1}\n```' }));
+
+    expect(screen.getByText(/Invalid cast: tool must be one of/)).toBeDefined();
+  });
+});
@@ -0,0 +1,170 @@
+"use client";
+
+import * as React from "react";
+import { Pause, Play, RotateCcw, Terminal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { prefersReducedMotion } from "@/lib/mobile-utils";
+import { castDuration, screenAt, type TerminalCast } from "@/lib/terminal-cast";
+import { getDefaultPrompt } from "./CLIPlayground";
+
+export interface CastPlayerProps {
+  cast: TerminalCast;
+  /** Start playing on mount. Ignored when the reader prefers reduced motion. */
+  autoPlay?: boolean;
+  maxHeight?: string;
+}
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+const TICK_MS = 50;
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Plays back a recorded terminal session with play/pause, seek and speed
+ * controls. With reduced motion the whole session is shown at once and
+ * input appears without the typing effect.
+ */
+export function CastPlayer({ cast, autoPlay = true, maxHeight = "480px" }: CastPlayerProps) {
+  const duration = castDuration(cast);
+  const [time, setTime] = React.useState(0);
+  const [playing, setPlaying] = React.useState(false);
+  const [speed, setSpeed] = React.useState(1);
+  const [reducedMotion, setReducedMotion] = React.useState(false);
+  const screenRef = React.useRef<HTMLDivElement>(null);
+
+  // Read the preference after mount so server and client render the same
+  React.useEffect(() => {
+    if (prefersReducedMotion()) {
+      setReducedMotion(true);
+      setTime(duration);
+    } else if (autoPlay) {
+      setPlaying(true);
+    }
+  }, [autoPlay, duration]);
+
+  // Reaching the end stops the clock; playing again starts over
+  const active = playing && time < duration;
+
+  React.useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => {
+      setTime((current) => Math.min(duration, current + (TICK_MS / 1000) * speed));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [active, speed, duration]);
+
+  const screen = screenAt(cast, time, { typing: !reducedMotion });
+
+  React.useEffect(() => {
+    if (screenRef.current) {
+      screenRef.current.scrollTop = screenRef.current.scrollHeight;
+    }
+  }, [screen.entries.length, screen.pending]);
+
+  const togglePlay = () => {
+    if (active) {
+      setPlaying(false);
+      return;
+    }
+    if (time >= duration) setTime(0);
+    setPlaying(true);
+  };
+
+  const restart = () => {
+    setTime(0);
+    setPlaying(false);
+  };
+
+  const cycleSpeed = () => {
+    setSpeed((current) => PLAYBACK_SPEEDS[(PLAYBACK_SPEEDS.indexOf(current) + 1) % PLAYBACK_SPEEDS.length]);
+  };
+
+  const prompt = cast.prompt || getDefaultPrompt(cast.tool);
+
+  return (
+    <div className="not-prose my-6 flex flex-col rounded-xl border border-white/10 bg-zinc-950 overflow-hidden" dir="ltr">
+      <div className="flex items-center gap-3 px-4 py-3 bg-zinc-900 border-b border-white/10">
+        <Terminal className="h-5 w-5 text-zinc-400" />
+        <h3 className="font-semibold text-zinc-100">{cast.title || "Terminal Recording"}</h3>
+        <span className="px-2 py-0.5 text-xs font-mono text-zinc-400 bg-zinc-800 rounded">
+          {cast.tool.toUpperCase()}
+        </span>
+      </div>
+
+      <div
+        ref={screenRef}
+        className="flex-1 overflow-y-auto p-4 font-mono text-sm min-h-[8rem]"
+        style={{ maxHeight }}
+        data-testid="cast-screen"
+      >
+        {screen.entries.map((entry, index) => (
+          <div key={index} className="mb-4">
+            {entry.command !== undefined && (
+              <div className="flex items-start gap-2 mb-1">
+                <span className="font-semibold text-zinc-400">{prompt}</span>
+                <span className="text-zinc-100">{entry.command}</span>
+              </div>
+            )}
+            {entry.output && <div className="whitespace-pre-wrap pl-4 text-zinc-300">{entry.output}</div>}
+          </div>
+        ))}
+        {(active || screen.pending) && (
+          <div className="flex items-start gap-2">
+            <span className="font-semibold text-zinc-400">{prompt}</span>
+            <span className="text-zinc-100">
+              {screen.pending}
+              <span className={cn("inline-block w-2 h-4 align-middle bg-zinc-400", !reducedMotion && "animate-pulse")} />
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 bg-zinc-900 border-t border-white/10">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 text-zinc-400 hover:text-zinc-100"
+          onClick={togglePlay}
+          title={active ? "Pause" : "Play"}
+        >
+          {active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 text-zinc-400 hover:text-zinc-100"
+          onClick={restart}
+          title="Restart"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={time}
+          onChange={(e) => setTime(Number(e.target.value))}
+          aria-label="Seek"
+          className="flex-1 accent-neon-cyan"
+        />
+        <span className="font-mono text-xs text-zinc-500 tabular-nums">
+          {formatTime(time)} / {formatTime(duration)}
+        </span>
+        <button
+          type="button"
+          onClick={cycleSpeed}
+          className="px-2 py-0.5 font-mono text-xs text-zinc-400 bg-zinc-800 rounded hover:text-zinc-100"
+          title="Playback speed"
+        >
+          {speed}x
+        </button>
+      </div>
+    </div>
+  );
+}
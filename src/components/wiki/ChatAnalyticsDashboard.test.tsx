@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { ChatAnalyticsDashboard, ChatAnalyticsReport } from "./ChatAnalyticsDashboard";
+import type { ChatbotAnalytics } from "@/types/wiki-chatbot";
+
+const analytics: ChatbotAnalytics = {
+  totalConversations: 2,
+  totalMessages: 5,
+  averageMessagesPerConversation: 2.5,
+  intentDistribution: {
+    navigation: 0,
+    explanation: 3,
+    comparison: 1,
+    recommendation: 0,
+    troubleshooting: 0,
+    learning_path: 0,
+    general: 1,
+    greeting: 0,
+  },
+  topTopics: [{ topic: "Cursor", count: 3 }],
+  satisfiedUsers: 1,
+  escalatedToHuman: 0,
+  averageRating: 4.5,
+  unansweredQueries: [{ query: "What is Zed?", count: 2, lastAskedAt: new Date("2026-01-02T10:00:00Z") }],
+};
+
+describe("ChatAnalyticsReport", () => {
+  it("lists the unanswered queries and the stats", () => {
+    render(<ChatAnalyticsReport analytics={analytics} />);
+
+    expect(screen.getByText("What is Zed?")).toBeDefined();
+    expect(screen.getByText("Cursor")).toBeDefined();
+    expect(screen.getByText("4.5")).toBeDefined();
+    expect(screen.queryByText("تحية")).toBeNull();
+  });
+
+  it("says when every question found an article", () => {
+    render(<ChatAnalyticsReport analytics={{ ...analytics, unansweredQueries: [] }} />);
+
+    expect(screen.getByText("لا توجد أسئلة بلا إجابة.")).toBeDefined();
+  });
+});
+
+describe("ChatAnalyticsDashboard", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("loads the analytics with the token", async () => {
+    const fetch = vi.fn(async () => Response.json(analytics));
+    vi.stubGlobal("fetch", fetch);
+    render(<ChatAnalyticsDashboard />);
+
+    fireEvent.change(screen.getByLabelText("رمز الوصول"), { target: { value: "secret" } });
+    fireEvent.click(screen.getByText("عرض التحليلات"));
+
+    await waitFor(() => expect(screen.getByText("What is Zed?")).toBeDefined());
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toEqual({ authorization: "Bearer secret" });
+  });
+
+  it("shows the server error", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ errors: [{ field: "authorization", message: "A valid bearer token is required", code: "UNAUTHORIZED" }] }, { status: 401 }))
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    render(<ChatAnalyticsDashboard />);
+
+    fireEvent.change(screen.getByLabelText("رمز الوصول"), { target: { value: "wrong" } });
+    fireEvent.click(screen.getByText("عرض التحليلات"));
+
+    await waitFor(() => expect(screen.getByRole("alert").textContent).toBe("A valid bearer token is required"));
+  });
+});
@@ -0,0 +1,170 @@
+'use client';
+
+/**
+ * Chat Analytics Dashboard Component
+ *
+ * Shows writers what readers ask the assistant, how they rate its answers
+ * and which questions found no article, from `/api/chat/analytics`.
+ */
+
+import React, { useState } from 'react';
+import { BarChart3, MessageSquare, SearchX, Star, ThumbsUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ChatbotAnalytics, ChatIntent } from '@/types/wiki-chatbot';
+
+const INTENT_LABELS: Record<ChatIntent, string> = {
+  navigation: 'البحث عن صفحة',
+  explanation: 'شرح',
+  comparison: 'مقارنة',
+  recommendation: 'توصية',
+  troubleshooting: 'حل مشكلة',
+  learning_path: 'مسار تعلم',
+  general: 'عام',
+  greeting: 'تحية',
+};
+
+interface StatCardProps {
+  label: string;
+  value: string | number;
+  icon: React.ReactNode;
+}
+
+function StatCard({ label, value, icon }: StatCardProps) {
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800">
+      <div className="flex items-center gap-2 mb-2 text-gray-400">
+        {icon}
+        <span className="text-sm">{label}</span>
+      </div>
+      <div className="text-2xl font-bold text-white">{value}</div>
+    </div>
+  );
+}
+
+export function ChatAnalyticsReport({ analytics }: { analytics: ChatbotAnalytics }) {
+  const intents = (Object.entries(analytics.intentDistribution) as [ChatIntent, number][])
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="المحادثات" value={analytics.totalConversations} icon={<MessageSquare className="h-5 w-5" />} />
+        <StatCard label="الأسئلة" value={analytics.totalMessages} icon={<BarChart3 className="h-5 w-5" />} />
+        <StatCard label="محادثات راضية" value={analytics.satisfiedUsers} icon={<ThumbsUp className="h-5 w-5" />} />
+        <StatCard
+          label="متوسط التقييم"
+          value={analytics.averageRating === null ? '—' : analytics.averageRating.toFixed(1)}
+          icon={<Star className="h-5 w-5" />}
+        />
+      </div>
+
+      <section className="p-4 bg-gray-900/50 rounded-lg border border-gray-800">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-white mb-1">
+          <SearchX className="h-5 w-5 text-red-400" />
+          أسئلة بلا إجابة
+        </h3>
+        <p className="text-sm text-gray-400 mb-4">لم يجد المساعد أي مقال لهذه الأسئلة، فهي مرشحة لمقالات جديدة.</p>
+        {analytics.unansweredQueries.length === 0 ? (
+          <p className="text-sm text-gray-500">لا توجد أسئلة بلا إجابة.</p>
+        ) : (
+          <ul className="divide-y divide-gray-800">
+            {analytics.unansweredQueries.map((item) => (
+              <li key={item.query} className="flex items-center justify-between gap-4 py-2">
+                <span className="text-white">{item.query}</span>
+                <span className="shrink-0 text-xs text-gray-400">
+                  {item.count} × · {new Date(item.lastAskedAt).toLocaleDateString('ar-SA')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <section className="p-4 bg-gray-900/50 rounded-lg border border-gray-800">
+          <h3 className="text-lg font-semibold text-white mb-4">أنواع الأسئلة</h3>
+          <ul className="space-y-2">
+            {intents.map(([intent, count]) => (
+              <li key={intent} className="flex justify-between text-sm">
+                <span className="text-gray-300">{INTENT_LABELS[intent]}</span>
+                <span className="text-white font-medium">{count}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="p-4 bg-gray-900/50 rounded-lg border border-gray-800">
+          <h3 className="text-lg font-semibold text-white mb-4">أكثر المواضيع سؤالاً</h3>
+          <ul className="space-y-2">
+            {analytics.topTopics.map(({ topic, count }) => (
+              <li key={topic} className="flex justify-between text-sm">
+                <span className="text-gray-300">{topic}</span>
+                <span className="text-white font-medium">{count}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Asks for the `CMS_API_TOKEN` the analytics route requires, then shows the report
+ */
+export function ChatAnalyticsDashboard() {
+  const [token, setToken] = useState('');
+  const [analytics, setAnalytics] = useState<ChatbotAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadAnalytics = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/chat/analytics', { headers: { authorization: `Bearer ${token}` } });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body?.errors?.[0]?.message ?? `Request failed with status ${response.status}`);
+      setAnalytics(body);
+    } catch (err) {
+      console.error('Failed to load chat analytics:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">تحليلات المساعد</h2>
+        <p className="text-gray-400 mt-1">ما يسأل عنه القراء، وكيف يقيّمون الإجابات، وما ينقص الموسوعة.</p>
+      </div>
+
+      <form onSubmit={loadAnalytics} className="flex flex-wrap gap-2 items-center">
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="رمز الوصول (CMS_API_TOKEN)"
+          aria-label="رمز الوصول"
+          className="flex-1 min-w-[200px] bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white placeholder-gray-500"
+          dir="ltr"
+        />
+        <Button type="submit" disabled={!token || isLoading}>
+          {isLoading ? 'جارٍ التحميل...' : 'عرض التحليلات'}
+        </Button>
+      </form>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-400">
+          {error}
+        </p>
+      )}
+
+      {analytics && <ChatAnalyticsReport analytics={analytics} />}
+    </div>
+  );
+}
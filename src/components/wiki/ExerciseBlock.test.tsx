@@ -1,9 +1,15 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { createElement } from "react";
 import { ExerciseBlock } from "./ExerciseBlock";
+import { SANDBOX_WORKER_SOURCE } from "@/lib/code-sandbox";
+import { trackExerciseAttempt } from "@/lib/analytics";
 import type { Exercise } from "@/types";
 
+vi.mock("@/lib/analytics", () => ({
+  trackExerciseAttempt: vi.fn(),
+}));
+
 // Mock the Button component from shadcn/ui
 vi.mock("@/components/ui/button", () => ({
   Button: ({ children, onClick, disabled, className, title }: {
@@ -29,6 +35,28 @@ vi.mock("./InteractiveCodeBlock", () => ({
     ),
 }));
 
+type Listener = ((event: { data: unknown }) => void) | null;
+
+// jsdom has no Worker; run the sandbox script in-process
+class InProcessWorker {
+  onmessage: Listener = null;
+  onerror = null;
+  terminate = vi.fn();
+  private scope: { postMessage: (data: unknown) => void; onmessage: Listener };
+
+  constructor() {
+    this.scope = {
+      postMessage: (data) => queueMicrotask(() => this.onmessage?.({ data })),
+      onmessage: null,
+    };
+    new Function("self", SANDBOX_WORKER_SOURCE)(this.scope);
+  }
+
+  postMessage(data: unknown) {
+    this.scope.onmessage?.({ data });
+  }
+}
+
 describe("ExerciseBlock", () => {
   const mockExercise: Exercise = {
     id: "ex-1",
@@ -233,4 +261,125 @@ describe("ExerciseBlock", () => {
     // Hints should be back to 0
     expect(screen.getByText(/0\/2/)).toBeDefined();
   });
+
+  describe("Test cases", () => {
+    const gradedExercise: Exercise = {
+      ...mockExercise,
+      entryPoint: "add",
+      testCases: [
+        { description: "adds positives", input: [1, 2], expectedOutput: 3 },
+        { description: "adds negatives", input: [-1, -2], expectedOutput: -3 },
+        { description: "joins strings", input: ["a", "b"], expectedOutput: "ab", required: false },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.stubGlobal("Worker", InProcessWorker);
+      URL.createObjectURL = vi.fn(() => "blob:sandbox");
+      URL.revokeObjectURL = vi.fn();
+      vi.mocked(trackExerciseAttempt).mockClear();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const typeCode = (code: string) =>
+      fireEvent.change(screen.getByLabelText("Exercise code"), { target: { value: code } });
+
+    it("should only offer Run Tests when the exercise has test cases", () => {
+      render(<ExerciseBlock exercise={mockExercise} />);
+
+      expect(screen.queryByTitle("Run tests")).toBeNull();
+    });
+
+    it("should complete when every required case passes", async () => {
+      const onComplete = vi.fn();
+      render(<ExerciseBlock exercise={gradedExercise} onComplete={onComplete} />);
+
+      typeCode("function add(a, b) { return typeof a === 'number' ? a + b : ''; }");
+      fireEvent.click(screen.getByTitle("Run tests"));
+
+      await waitFor(() => {
+        expect(screen.getByText("2/3 tests passed · 67%")).toBeDefined();
+      });
+      expect(screen.getByText("Exercise Complete!")).toBeDefined();
+      expect(screen.getByText("(optional)")).toBeDefined();
+      expect(onComplete).toHaveBeenCalledWith(true);
+      expect(trackExerciseAttempt).toHaveBeenCalledWith("ex-1", "Sum Two Numbers", true, 0, 1, {
+        language: "javascript",
+        score: 67,
+        testsPassed: 2,
+        testsTotal: 3,
+      });
+    });
+
+    it("should show a diff for failing cases and not complete", async () => {
+      const onComplete = vi.fn();
+      render(<ExerciseBlock exercise={gradedExercise} onComplete={onComplete} />);
+
+      typeCode("function add(a, b) { return Math.abs(a + b); }");
+      fireEvent.click(screen.getByTitle("Run tests"));
+
+      await waitFor(() => {
+        expect(screen.getByText("Keep trying!")).toBeDefined();
+      });
+      expect(screen.getByText("1/3 tests passed · 33%")).toBeDefined();
+      expect(screen.getAllByLabelText("Expected and actual output")[0].textContent).toBe("- -3+ 3");
+      expect(onComplete).toHaveBeenCalledWith(false);
+    });
+
+    it("should count attempts and clear results on reset", async () => {
+      render(<ExerciseBlock exercise={gradedExercise} />);
+
+      typeCode("function add() { throw new Error('not yet'); }");
+      fireEvent.click(screen.getByTitle("Run tests"));
+      await waitFor(() => {
+        expect(screen.getAllByText("not yet").length).toBe(3);
+      });
+
+      fireEvent.click(screen.getByTitle("Run tests"));
+      await waitFor(() => {
+        expect(trackExerciseAttempt).toHaveBeenCalledTimes(2);
+      });
+      expect(vi.mocked(trackExerciseAttempt).mock.calls[1][4]).toBe(2);
+
+      fireEvent.click(screen.getByRole("button", { name: /Reset/i }));
+      expect(screen.queryByTestId("test-results")).toBeNull();
+      expect((screen.getByLabelText("Exercise code") as HTMLTextAreaElement).value).toBe(mockExercise.starterCode);
+    });
+
+    it("should grade multi-file exercises and show their solution", async () => {
+      const projectExercise: Exercise = {
+        ...gradedExercise,
+        language: "typescript",
+        starterCode: "",
+        solution: undefined,
+        entryFile: "src/add.ts",
+        files: [
+          { path: "src/lib/sum.ts", content: "export const sum = (a: number, b: number) => a + b;", readOnly: true },
+          {
+            path: "src/add.ts",
+            content: "export function add(a: number, b: number) {\n  return 0;\n}",
+            solution: "import { sum } from './lib/sum';\nexport function add(a: number, b: number) {\n  return sum(a, b);\n}",
+          },
+        ],
+      };
+      render(<ExerciseBlock exercise={projectExercise} />);
+
+      fireEvent.change(screen.getByLabelText("Edit src/add.ts"), {
+        target: { value: "import { sum } from '@/lib/sum';\nexport function add(a: number, b: number) { return sum(a, b); }" },
+      });
+      fireEvent.click(screen.getByTitle("Run tests"));
+
+      await waitFor(() => {
+        expect(screen.getByText("3/3 tests passed · 100%")).toBeDefined();
+      });
+
+      fireEvent.click(screen.getByRole("button", { name: /Show Solution/i }));
+      const editor = screen.getByLabelText("Edit src/add.ts") as HTMLTextAreaElement;
+      expect(editor.value).toContain("return sum(a, b);");
+      expect(editor.readOnly).toBe(true);
+    });
+  });
 });
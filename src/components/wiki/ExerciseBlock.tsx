@@ -1,25 +1,42 @@
 "use client";
 
 import * as React from "react";
-import { Lightbulb, Eye, EyeOff, CheckCircle, XCircle } from "lucide-react";
+import { Lightbulb, Eye, EyeOff, CheckCircle, XCircle, FlaskConical, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { InteractiveCodeBlock } from "./InteractiveCodeBlock";
-import type { Exercise } from "@/types";
+import { ProjectEditor } from "./ProjectEditor";
+import { gradeExercise, type GradeResult } from "@/lib/exercise-grader";
+import { getExerciseEntryFile } from "@/lib/tutorial-utils";
+import { trackExerciseAttempt } from "@/lib/analytics";
+import type { Exercise, ExerciseFile } from "@/types";
 
 interface ExerciseBlockProps {
   exercise: Exercise;
   onComplete?: (_success: boolean) => void;
 }
 
-export function ExerciseBlock({ exercise }: ExerciseBlockProps) {
+export function ExerciseBlock({ exercise, onComplete }: ExerciseBlockProps) {
   const [code, setCode] = React.useState(exercise.starterCode);
+  const [files, setFiles] = React.useState<ExerciseFile[]>(exercise.files ?? []);
   const [showSolution, setShowSolution] = React.useState(false);
   const [hintLevel, setHintLevel] = React.useState(0);
   const [hasCompleted, setHasCompleted] = React.useState<boolean | null>(null);
+  const [grade, setGrade] = React.useState<GradeResult | null>(null);
+  const [gradeError, setGradeError] = React.useState<string | null>(null);
+  const [isGrading, setIsGrading] = React.useState(false);
+  const attemptsRef = React.useRef(0);
+  const gradingRef = React.useRef<AbortController | null>(null);
 
   const hasHints = exercise.hints && exercise.hints.length > 0;
-  const hasSolution = Boolean(exercise.solution);
+  const isProject = files.length > 0;
+  const entryFile = getExerciseEntryFile(exercise)?.path;
+  const hasSolution =
+    Boolean(exercise.solution) || files.some((file) => file.solution !== undefined);
+  const displayedFiles = showSolution
+    ? files.map((file) => (file.solution !== undefined ? { ...file, content: file.solution } : file))
+    : files;
+  const hasTests = (exercise.testCases?.length ?? 0) > 0;
   const currentHint =
     hasHints && hintLevel > 0
       ? exercise.hints?.slice(0, hintLevel).join("\n\n")
@@ -35,11 +52,53 @@ export function ExerciseBlock({ exercise }: ExerciseBlockProps) {
     setShowSolution(!showSolution);
   };
 
+  // Stop running tests when the block unmounts
+  React.useEffect(() => () => gradingRef.current?.abort(), []);
+
+  const handleRunTests = async () => {
+    gradingRef.current?.abort();
+    const controller = new AbortController();
+    gradingRef.current = controller;
+    setIsGrading(true);
+    setGradeError(null);
+
+    let result: GradeResult;
+    try {
+      result = await gradeExercise(exercise, isProject ? files : code, { signal: controller.signal });
+    } catch {
+      if (controller.signal.aborted) return;
+      gradingRef.current = null;
+      setIsGrading(false);
+      setGradeError("Could not run the tests");
+      return;
+    }
+    if (controller.signal.aborted) return;
+
+    gradingRef.current = null;
+    attemptsRef.current += 1;
+    setGrade(result);
+    setIsGrading(false);
+    setHasCompleted(result.completed);
+    trackExerciseAttempt(exercise.id, exercise.title, result.completed, hintLevel, attemptsRef.current, {
+      language: exercise.language,
+      score: result.score,
+      testsPassed: result.passed,
+      testsTotal: result.total,
+    });
+    onComplete?.(result.completed);
+  };
+
   const handleReset = () => {
+    gradingRef.current?.abort();
+    gradingRef.current = null;
+    setIsGrading(false);
     setCode(exercise.starterCode);
+    setFiles(exercise.files ?? []);
     setHintLevel(0);
     setShowSolution(false);
     setHasCompleted(null);
+    setGrade(null);
+    setGradeError(null);
   };
 
   return (
@@ -109,16 +168,94 @@ export function ExerciseBlock({ exercise }: ExerciseBlockProps) {
 
       {/* Code Editor */}
       <div className="p-4">
-        <InteractiveCodeBlock
-          code={showSolution ? exercise.solution || code : code}
-          language={exercise.language}
-        >
-          <code className="text-sm text-zinc-300 whitespace-pre-wrap">
-            {showSolution ? exercise.solution || code : code}
-          </code>
-        </InteractiveCodeBlock>
+        {isProject ? (
+          <ProjectEditor
+            files={displayedFiles}
+            entryFile={entryFile ?? files[0].path}
+            readOnly={showSolution}
+            onChange={(path, content) =>
+              setFiles((current) =>
+                current.map((file) => (file.path === path ? { ...file, content } : file))
+              )
+            }
+          />
+        ) : (
+          <InteractiveCodeBlock
+            code={showSolution ? exercise.solution || code : code}
+            language={exercise.language}
+          >
+            {showSolution ? (
+              <code className="text-sm text-zinc-300 whitespace-pre-wrap">
+                {exercise.solution || code}
+              </code>
+            ) : (
+              <textarea
+                aria-label="Exercise code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                spellCheck={false}
+                rows={Math.max(4, code.split("\n").length + 1)}
+                className="w-full resize-y bg-transparent font-mono text-sm text-zinc-300 outline-none"
+              />
+            )}
+          </InteractiveCodeBlock>
+        )}
       </div>
 
+      {/* Test Results */}
+      {(grade || gradeError) && (
+        <div className="px-5 pb-4" data-testid="test-results">
+          {gradeError ? (
+            <p className="text-sm text-red-400">{gradeError}</p>
+          ) : grade && (
+            <div className="p-3 rounded-lg bg-zinc-800/50 border border-white/5 space-y-2">
+              <p className="text-xs font-medium text-zinc-400">
+                {grade.passed}/{grade.total} tests passed · {grade.score}%
+              </p>
+              <ul className="space-y-2">
+                {grade.results.map((result, index) => (
+                  <li key={index} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      {result.passed ? (
+                        <CheckCircle className="h-4 w-4 text-neon-green" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-red-400" />
+                      )}
+                      <span className="text-zinc-300">{result.testCase.description}</span>
+                      {!result.required && (
+                        <span className="text-xs text-zinc-500">(optional)</span>
+                      )}
+                    </div>
+                    {!result.passed && result.error && (
+                      <pre className="mt-1 ml-6 font-mono text-xs text-red-400 whitespace-pre-wrap">
+                        {result.error}
+                      </pre>
+                    )}
+                    {!result.passed && !result.error && (
+                      <pre className="mt-1 ml-6 font-mono text-xs whitespace-pre-wrap" aria-label="Expected and actual output">
+                        {result.diff.map((line, lineIndex) => (
+                          <div
+                            key={lineIndex}
+                            className={cn(
+                              line.type === "expected" && "text-red-400",
+                              line.type === "actual" && "text-neon-green",
+                              line.type === "same" && "text-zinc-500"
+                            )}
+                          >
+                            {line.type === "expected" ? "- " : line.type === "actual" ? "+ " : "  "}
+                            {line.text}
+                          </div>
+                        ))}
+                      </pre>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Expected Output (if defined) */}
       {exercise.expectedOutput && (
         <div className="px-5 pb-4">
@@ -172,6 +309,22 @@ export function ExerciseBlock({ exercise }: ExerciseBlockProps) {
           >
             Reset
           </Button>
+          {hasTests && (
+            <Button
+              size="sm"
+              onClick={handleRunTests}
+              disabled={isGrading || showSolution}
+              title="Run tests"
+              className="h-8 text-xs gap-1.5"
+            >
+              {isGrading ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <FlaskConical className="h-3.5 w-3.5" />
+              )}
+              Run Tests
+            </Button>
+          )}
         </div>
         {hasCompleted !== null && (
           <span
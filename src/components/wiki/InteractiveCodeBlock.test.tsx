@@ -1,7 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { createElement } from 'react';
 import { InteractiveCodeBlock } from './InteractiveCodeBlock';
+import { SANDBOX_WORKER_SOURCE } from '@/lib/code-sandbox';
+import fs from 'fs';
+import path from 'path';
 
 // Mock navigator.clipboard
 const mockClipboard = {
@@ -20,9 +23,35 @@ vi.mock('@/components/ui/button', () => ({
   }) => createElement('button', { onClick, disabled, className, title }, children),
 }));
 
+type Listener = ((event: { data: unknown }) => void) | null;
+
+// jsdom has no Worker; run the sandbox script in-process
+class InProcessWorker {
+  onmessage: Listener = null;
+  onerror = null;
+  terminate = vi.fn();
+  private scope: { postMessage: (data: unknown) => void; onmessage: Listener };
+
+  constructor() {
+    this.scope = { postMessage: (data) => queueMicrotask(() => this.onmessage?.({ data })), onmessage: null };
+    new Function('self', SANDBOX_WORKER_SOURCE)(this.scope);
+  }
+
+  postMessage(data: unknown) {
+    this.scope.onmessage?.({ data });
+  }
+}
+
 describe('InteractiveCodeBlock', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.stubGlobal('Worker', InProcessWorker);
+    URL.createObjectURL = vi.fn(() => 'blob:sandbox');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
   });
 
   describe('Rendering', () => {
@@ -344,5 +373,101 @@ describe('InteractiveCodeBlock', () => {
         });
       }
     });
+
+    it('shows the run time and supports await', async () => {
+      const code = 'const value = await Promise.resolve(21); return value * 2;';
+      render(
+        <InteractiveCodeBlock code={code} language="javascript">
+          <code>{code}</code>
+        </InteractiveCodeBlock>
+      );
+
+      fireEvent.click(screen.getByTitle('Run code'));
+
+      await waitFor(() => {
+        expect(screen.getByText('→ 42')).toBeDefined();
+        expect(screen.getByText(/^\d+ms$/)).toBeDefined();
+      });
+    });
+
+    it('stops code that runs past the timeout', async () => {
+      class SilentWorker extends InProcessWorker {
+        postMessage() {}
+      }
+      vi.stubGlobal('Worker', SilentWorker);
+      const code = 'while (true) {}';
+      render(
+        <InteractiveCodeBlock code={code} language="javascript" timeout={50}>
+          <code>{code}</code>
+        </InteractiveCodeBlock>
+      );
+
+      fireEvent.click(screen.getByTitle('Run code'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Timed out')).toBeDefined();
+        expect(screen.getByText('Execution timed out after 50ms')).toBeDefined();
+      });
+    });
+  });
+
+  describe('TypeScript', () => {
+    it('strips types before running', async () => {
+      const code = 'const greet = (name: string): string => `Hello, ${name}`;\nreturn greet("TS");';
+      render(
+        <InteractiveCodeBlock code={code} language="typescript" typeCheck={false}>
+          <code>{code}</code>
+        </InteractiveCodeBlock>
+      );
+
+      fireEvent.click(screen.getByTitle('Run code'));
+
+      await waitFor(() => {
+        expect(screen.getByText('→ Hello, TS')).toBeDefined();
+      });
+      expect(screen.queryByTestId('type-diagnostics')).toBeNull();
+    });
+
+    it('shows syntax errors without running the code', async () => {
+      const code = 'const a: = 1;';
+      render(
+        <InteractiveCodeBlock code={code} language="ts" typeCheck={false}>
+          <code>{code}</code>
+        </InteractiveCodeBlock>
+      );
+
+      fireEvent.click(screen.getByTitle('Run code'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Line 1, Col 10: Type expected. (TS1110)')).toBeDefined();
+        expect(screen.getByText('TypeScript syntax error')).toBeDefined();
+      });
+    });
+
+    it('reports type errors next to the output', async () => {
+      const libDir = path.join(process.cwd(), 'node_modules', 'typescript', 'lib');
+      vi.stubGlobal('fetch', async (url: string) => {
+        const text = fs.readFileSync(path.join(libDir, url.split('/').pop()!), 'utf8');
+        return { ok: true, status: 200, text: async () => text };
+      });
+      const code = 'const count: number = "three";\nconsole.log(count);';
+      render(
+        <InteractiveCodeBlock code={code} language="typescript">
+          <code>{code}</code>
+        </InteractiveCodeBlock>
+      );
+
+      fireEvent.click(screen.getByTitle('Run code'));
+
+      await waitFor(
+        () => {
+          expect(screen.getByText('three')).toBeDefined();
+          expect(screen.getByTestId('type-diagnostics').textContent).toBe(
+            "Line 1, Col 7: Type 'string' is not assignable to type 'number'. (TS2322)"
+          );
+        },
+        { timeout: 30000 }
+      );
+    }, 30000);
   });
 });
@@ -4,111 +4,55 @@ import * as React from "react";
 import { Play, Check, Copy, X, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { runInSandbox, type ExecutionResult } from "@/lib/code-sandbox";
+import {
+  formatDiagnostic,
+  transpileTypeScript,
+  typeCheckTypeScript,
+  type TypeScriptDiagnostic,
+} from "@/lib/typescript-compiler";
 
 interface InteractiveCodeBlockProps {
   code: string;
   language: string;
   children: React.ReactNode;
-}
-
-interface ExecutionResult {
-  success: boolean;
-  output: string[];
-  error?: string;
+  /** Milliseconds before a run is stopped. */
+  timeout?: number;
+  /** Type-check TypeScript while it runs; types are always stripped. */
+  typeCheck?: boolean;
 }
 
 // Languages that can be executed in browser
 const EXECUTABLE_LANGUAGES = ["javascript", "js", "typescript", "ts"];
 
+const TYPESCRIPT_LANGUAGES = ["typescript", "ts"];
+
 function isExecutableLanguage(language: string): boolean {
   return EXECUTABLE_LANGUAGES.includes(language.toLowerCase());
 }
 
-// Sandboxed code execution using Function constructor
-// This is safer than raw eval but still runs in browser context
-function executeCode(code: string): ExecutionResult {
-  const output: string[] = [];
-  
-  try {
-    // Create a custom console that captures output
-    const customConsole = {
-      log: (...args: unknown[]) => {
-        output.push(args.map(arg => formatOutput(arg)).join(" "));
-      },
-      error: (...args: unknown[]) => {
-        output.push(`[Error] ${args.map(arg => formatOutput(arg)).join(" ")}`);
-      },
-      warn: (...args: unknown[]) => {
-        output.push(`[Warn] ${args.map(arg => formatOutput(arg)).join(" ")}`);
-      },
-      info: (...args: unknown[]) => {
-        output.push(`[Info] ${args.map(arg => formatOutput(arg)).join(" ")}`);
-      },
-      table: (data: unknown) => {
-        output.push(JSON.stringify(data, null, 2));
-      },
-    };
-
-    // Wrap code to capture return value
-    const wrappedCode = `
-      "use strict";
-      ${code}
-    `;
-
-    // Create and execute function with custom console
-    const fn = new Function("console", wrappedCode);
-    const result = fn(customConsole);
-    
-    // If there's a return value, add it to output
-    if (result !== undefined) {
-      output.push(`→ ${formatOutput(result)}`);
-    }
-
-    return { success: true, output };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return { 
-      success: false, 
-      output, 
-      error: errorMessage 
-    };
-  }
-}
-
-function formatOutput(value: unknown): string {
-  if (value === null) return "null";
-  if (value === undefined) return "undefined";
-  if (typeof value === "string") return value;
-  if (typeof value === "number" || typeof value === "boolean") return String(value);
-  if (typeof value === "function") return `[Function: ${value.name || "anonymous"}]`;
-  if (Array.isArray(value)) {
-    try {
-      return JSON.stringify(value);
-    } catch {
-      return "[Array]";
-    }
-  }
-  if (typeof value === "object") {
-    try {
-      return JSON.stringify(value, null, 2);
-    } catch {
-      return "[Object]";
-    }
-  }
-  return String(value);
+function failedRun(error: string): ExecutionResult {
+  return { success: false, output: [], error, duration: 0, timedOut: false };
 }
 
 export function InteractiveCodeBlock({ 
   code, 
   language, 
-  children 
+  children,
+  timeout,
+  typeCheck = true,
 }: InteractiveCodeBlockProps) {
   const [hasCopied, setHasCopied] = React.useState(false);
   const [isRunning, setIsRunning] = React.useState(false);
   const [result, setResult] = React.useState<ExecutionResult | null>(null);
   const [showOutput, setShowOutput] = React.useState(false);
+  const [liveOutput, setLiveOutput] = React.useState<string[]>([]);
+  const [diagnostics, setDiagnostics] = React.useState<TypeScriptDiagnostic[]>([]);
+  const [typeCheckStatus, setTypeCheckStatus] = React.useState<"idle" | "checking" | "unavailable">("idle");
+  const runRef = React.useRef<AbortController | null>(null);
 
   const isExecutable = isExecutableLanguage(language);
+  const isTypeScript = TYPESCRIPT_LANGUAGES.includes(language.toLowerCase());
 
   React.useEffect(() => {
     if (hasCopied) {
@@ -122,23 +66,79 @@ export function InteractiveCodeBlock({
     setHasCopied(true);
   };
 
+  // Stop a run that is still going when the block unmounts
+  React.useEffect(() => () => runRef.current?.abort(), []);
+
   const handleRun = async () => {
+    const controller = new AbortController();
+    runRef.current = controller;
     setIsRunning(true);
     setShowOutput(true);
-    
-    // Small delay to show loading state
-    await new Promise(resolve => setTimeout(resolve, 100));
-    
-    const executionResult = executeCode(code);
+    setResult(null);
+    setLiveOutput([]);
+    setDiagnostics([]);
+    setTypeCheckStatus("idle");
+
+    let runnable = code;
+    if (isTypeScript) {
+      let transpiled;
+      try {
+        transpiled = await transpileTypeScript(code);
+      } catch {
+        transpiled = null;
+      }
+      if (controller.signal.aborted) return;
+
+      if (!transpiled || transpiled.diagnostics.length > 0) {
+        runRef.current = null;
+        setDiagnostics(transpiled?.diagnostics ?? []);
+        setResult(failedRun(transpiled ? "TypeScript syntax error" : "Could not load the TypeScript compiler"));
+        setIsRunning(false);
+        return;
+      }
+      runnable = transpiled.code;
+
+      // Type errors are reported alongside the output, not before it, like
+      // running with ts-node --transpile-only and tsc side by side
+      if (typeCheck) {
+        setTypeCheckStatus("checking");
+        typeCheckTypeScript(code).then(
+          (found) => {
+            if (controller.signal.aborted) return;
+            setDiagnostics(found);
+            setTypeCheckStatus("idle");
+          },
+          () => {
+            if (!controller.signal.aborted) setTypeCheckStatus("unavailable");
+          }
+        );
+      }
+    }
+
+    const executionResult = await runInSandbox(runnable, {
+      timeout,
+      signal: controller.signal,
+      onOutput: (line) => setLiveOutput((lines) => [...lines, line]),
+    });
+    if (controller.signal.aborted) return;
+
+    runRef.current = null;
     setResult(executionResult);
     setIsRunning(false);
   };
 
   const handleClearOutput = () => {
+    runRef.current?.abort();
+    runRef.current = null;
+    setIsRunning(false);
     setShowOutput(false);
     setResult(null);
+    setDiagnostics([]);
+    setTypeCheckStatus("idle");
   };
 
+  const outputLines = result ? result.output : liveOutput;
+
   return (
     <div className="relative group">
       <div className="relative">
@@ -203,6 +203,11 @@ export function InteractiveCodeBlock({
               <span className="text-xs font-medium text-zinc-400">
                 {isRunning ? "Running..." : "Output"}
               </span>
+              {result && (
+                <span className="text-xs text-zinc-500">
+                  {result.timedOut ? "Timed out" : `${result.duration}ms`}
+                </span>
+              )}
             </div>
             <Button
               size="icon"
@@ -216,15 +221,10 @@ export function InteractiveCodeBlock({
           </div>
           
           <div className="p-3 font-mono text-sm max-h-64 overflow-y-auto">
-            {isRunning ? (
-              <div className="flex items-center gap-2 text-zinc-500">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <span>Executing...</span>
-              </div>
-            ) : result ? (
+            {isRunning || result ? (
               <div className="space-y-1">
-                {result.output.length > 0 ? (
-                  result.output.map((line, index) => (
+                {outputLines.length > 0 ? (
+                  outputLines.map((line, index) => (
                     <div 
                       key={index} 
                       className={cn(
@@ -239,9 +239,36 @@ export function InteractiveCodeBlock({
                     </div>
                   ))
                 ) : (
-                  <span className="text-zinc-500 italic">No output</span>
+                  !isRunning && <span className="text-zinc-500 italic">No output</span>
+                )}
+                {isRunning && (
+                  <div className="flex items-center gap-2 text-zinc-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Executing...</span>
+                  </div>
+                )}
+                {(diagnostics.length > 0 || typeCheckStatus !== "idle") && (
+                  <div className="mt-2 space-y-1 border-t border-white/10 pt-2" data-testid="type-diagnostics">
+                    {diagnostics.map((diagnostic, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          "whitespace-pre-wrap",
+                          diagnostic.category === "error" ? "text-red-400" : "text-yellow-400"
+                        )}
+                      >
+                        {formatDiagnostic(diagnostic)}
+                      </div>
+                    ))}
+                    {typeCheckStatus === "checking" && (
+                      <div className="text-zinc-500 italic">Checking types...</div>
+                    )}
+                    {typeCheckStatus === "unavailable" && (
+                      <div className="text-zinc-500 italic">Type check unavailable</div>
+                    )}
+                  </div>
                 )}
-                {result.error && (
+                {result?.error && (
                   <div className="mt-2 p-2 rounded bg-red-500/10 border border-red-500/30 text-red-400">
                     <span className="font-semibold">Error: </span>
                     {result.error}
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { LearningPathPlayer } from "./LearningPathPlayer";
+import { ProgressProvider } from "@/components/providers/ProgressProvider";
+import { createEmptyProgress, saveProgress, updatePathProgress } from "@/lib/progress-utils";
+import type { LearningPath } from "@/types";
+
+const path: LearningPath = {
+  id: "first-path",
+  slug: "first-path",
+  title: "First Path",
+  description: "A short path",
+  difficulty: "beginner",
+  estimatedMinutes: 20,
+  targetAudience: ["Beginners"],
+  learningObjectives: [],
+  items: [
+    { id: "item-1", type: "article", slug: "first", title: "First item", estimatedMinutes: 10, order: 0 },
+    { id: "item-2", type: "article", slug: "second", title: "Second item", estimatedMinutes: 10, order: 1 },
+  ],
+};
+
+const renderPlayer = () =>
+  createElement(ProgressProvider, null, createElement(LearningPathPlayer, { path, itemHrefs: {} }));
+
+const itemHeadings = () => screen.getAllByRole("heading", { level: 2 }).map((heading) => heading.textContent);
+
+describe("LearningPathPlayer", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    saveProgress(updatePathProgress(createEmptyProgress(), "first-path", "item-1"));
+  });
+
+  it("renders neither an item nor the progress before progress loads", () => {
+    const html = renderToString(renderPlayer());
+
+    expect(html).toContain("Loading progress...");
+    expect(html).not.toContain("First item");
+    expect(html).not.toContain("0%");
+  });
+
+  it("resumes at the first open item once progress has loaded", () => {
+    render(renderPlayer());
+
+    expect(itemHeadings()).toContain("Second item");
+    expect(itemHeadings()).not.toContain("First item");
+    expect(screen.getByText("50%")).toBeDefined();
+  });
+});
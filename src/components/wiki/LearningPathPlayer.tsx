@@ -0,0 +1,40 @@
+"use client";
+
+import { LearningPathViewer } from "@/components/wiki/LearningPathViewer";
+import { useProgress, usePathProgress } from "@/hooks/use-progress";
+import type { LearningPath } from "@/types";
+
+interface LearningPathPlayerProps {
+  path: LearningPath;
+  /** Page of each item, by item id. */
+  itemHrefs: Record<string, string>;
+}
+
+/**
+ * A learning path with saved progress. Completed items and the finished
+ * path are recorded with `usePathProgress`. Renders a placeholder until
+ * progress has loaded.
+ */
+export function LearningPathPlayer({ path, itemHrefs }: LearningPathPlayerProps) {
+  const { isLoading } = useProgress();
+  const { completedItems, currentItemId, completeItem, markComplete } = usePathProgress(path.id);
+
+  // The item to resume at and the progress shown are not known until saved progress loads
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 rounded-xl border border-white/10 bg-zinc-900/50 text-center text-zinc-400">
+        Loading progress...
+      </div>
+    );
+  }
+
+  return (
+    <LearningPathViewer
+      path={path}
+      progress={{ pathId: path.id, completedItems, currentItemId }}
+      itemHrefs={itemHrefs}
+      onItemComplete={completeItem}
+      onPathComplete={() => markComplete(path.title)}
+    />
+  );
+}
@@ -465,6 +465,23 @@ describe("LearningPathViewer", () => {
     }
   });
 
+  it("should link the selected item to its page", () => {
+    render(
+      <LearningPathViewer
+        path={mockLearningPath}
+        itemHrefs={{ "item-1": "/wiki/intro-article", "item-2": "/tutorials/basic-tutorial" }}
+      />
+    );
+
+    expect(screen.getByText("Open article").closest("a")?.getAttribute("href")).toBe("/wiki/intro-article");
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("Open tutorial").closest("a")?.getAttribute("href")).toBe("/tutorials/basic-tutorial");
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("This exercise is not available yet.")).toBeDefined();
+  });
+
   it("should show completion badge on completed items", () => {
     render(<LearningPathViewer path={mockLearningPath} progress={mockProgress} />);
 
@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import {
   ChevronLeft,
   ChevronRight,
@@ -13,6 +14,7 @@ import {
   CheckCircle2,
   Circle,
   Lock,
+  ExternalLink,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -21,6 +23,8 @@ import type { LearningPath, PathItem, PathProgress, PathItemType } from "@/types
 interface LearningPathViewerProps {
   path: LearningPath;
   progress?: PathProgress;
+  /** Page of each item, by item id (see `getPathItemHref`). */
+  itemHrefs?: Record<string, string>;
   onItemComplete?: (itemId: string) => void;
   onPathComplete?: () => void;
   onNavigateToItem?: (item: PathItem) => void;
@@ -41,6 +45,7 @@ const ITEM_TYPE_LABELS: Record<PathItemType, string> = {
 export function LearningPathViewer({
   path,
   progress,
+  itemHrefs,
   onItemComplete,
   onPathComplete,
   onNavigateToItem,
@@ -384,16 +389,21 @@ export function LearningPathViewer({
                 </div>
               </div>
 
-              {/* Item Content Placeholder */}
+              {/* Item Content */}
               <div className="prose prose-invert prose-zinc max-w-none">
-                <p className="text-zinc-400 italic">
-                  This is a placeholder for the {ITEM_TYPE_LABELS[selectedItem.type].toLowerCase()} content:{" "}
-                  <strong>{selectedItem.title}</strong>
-                </p>
-                <p className="text-zinc-400">
-                  In a full implementation, this would render the actual article, tutorial, or exercise
-                  content based on the item type and slug.
-                </p>
+                {itemHrefs?.[selectedItem.id] ? (
+                  <Link
+                    href={itemHrefs[selectedItem.id]}
+                    className="inline-flex items-center gap-2 rounded-lg bg-neon-cyan/10 px-4 py-2 text-neon-cyan no-underline hover:bg-neon-cyan/20"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                    Open {ITEM_TYPE_LABELS[selectedItem.type].toLowerCase()}
+                  </Link>
+                ) : (
+                  <p className="text-zinc-400 italic">
+                    This {ITEM_TYPE_LABELS[selectedItem.type].toLowerCase()} is not available yet.
+                  </p>
+                )}
                 {selectedItem.isOptional && (
                   <div className="mt-4 p-4 rounded-lg bg-zinc-800/50 border border-white/5">
                     <p className="text-sm text-zinc-400">
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import { MarkdownRenderer } from "./MarkdownRenderer";
+
+const headingIds = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll("h1, h2, h3, h4, h5, h6")).map((heading) => heading.id);
+
+describe("MarkdownRenderer", () => {
+  it("gives headings rehype-slug ids", () => {
+    const { container } = render(<MarkdownRenderer content={"## 1. Setup\n\n## Setup\n\n## Setup"} />);
+    expect(headingIds(container)).toEqual(["1-setup", "setup", "setup-1"]);
+  });
+
+  it("uses the given heading ids in order", () => {
+    const { container } = render(<MarkdownRenderer content={"## Setup\n\n### Details"} headingIds={["setup-2"]} />);
+    expect(headingIds(container)).toEqual(["setup-2", "details"]);
+  });
+});
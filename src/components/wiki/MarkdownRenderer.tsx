@@ -1,31 +1,99 @@
 "use client";
 
 import React from "react";
-import ReactMarkdown from "react-markdown";
+import ReactMarkdown, { type Components } from "react-markdown";
 import rehypeHighlight from "rehype-highlight";
 import rehypeSlug from "rehype-slug";
 import remarkGfm from "remark-gfm";
 import { cn } from "@/lib/utils";
+import { parseCast, type TerminalCast } from "@/lib/terminal-cast";
+import { CastPlayer } from "./CastPlayer";
 import { InteractiveCodeBlock } from "./InteractiveCodeBlock";
 
 export interface MarkdownRendererProps {
   content: string;
   className?: string;
+  /** `chat` sets answers in small type that follows the light or dark theme. */
+  variant?: "article" | "chat";
+  /** Overrides for individual elements, such as links. */
+  components?: Components;
+  /**
+   * Ids for the headings, in order, in place of rehype-slug's. For Markdown
+   * that is one part of a larger document, whose repeated headings rehype-slug
+   * would otherwise number from scratch.
+   */
+  headingIds?: string[];
 }
 
-export function MarkdownRenderer({ content, className }: MarkdownRendererProps) {
+interface HastNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+/** Gives headings the given ids in document order; rehype-slug skips headings that have one. */
+function rehypeHeadingIds(ids: string[]) {
+  return () => (tree: HastNode) => {
+    let next = 0;
+    const visit = (node: HastNode) => {
+      if (node.type === "element" && /^h[1-6]$/.test(node.tagName ?? "") && next < ids.length) {
+        node.properties = { ...node.properties, id: ids[next++] };
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+const VARIANT_CLASSES = {
+  article:
+    "prose prose-invert prose-lg max-w-none prose-headings:font-bold prose-h1:text-4xl prose-h1:text-transparent prose-h1:bg-clip-text prose-h1:bg-gradient-to-r prose-h1:from-neon-cyan prose-h1:to-neon-purple prose-a:text-neon-cyan prose-a:no-underline hover:prose-a:underline prose-pre:bg-transparent prose-pre:border-0 prose-pre:p-0",
+  chat:
+    "prose prose-sm dark:prose-invert max-w-none text-inherit prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-headings:my-2 prose-a:text-purple-600 dark:prose-a:text-purple-300 prose-pre:bg-transparent prose-pre:border-0 prose-pre:p-0",
+};
+
+function textOf(node: React.ReactNode): string {
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  if (Array.isArray(node)) return node.map(textOf).join("");
+  if (React.isValidElement(node)) {
+    return textOf((node.props as { children?: React.ReactNode }).children);
+  }
+  return "";
+}
+
+/** A ```cast fence becomes a terminal player; invalid casts show why. */
+function CastBlock({ source }: { source: string }) {
+  let cast: TerminalCast;
+  try {
+    cast = parseCast(source);
+  } catch (error) {
+    return (
+      <div className="not-prose my-6 rounded-xl border border-red-500/30 bg-red-500/10 p-4 font-mono text-sm text-red-400">
+        {error instanceof Error ? error.message : String(error)}
+      </div>
+    );
+  }
+  return <CastPlayer cast={cast} />;
+}
+
+export function MarkdownRenderer({
+  content,
+  className,
+  variant = "article",
+  components,
+  headingIds,
+}: MarkdownRendererProps) {
   return (
-    <article className={cn(
-      "prose prose-invert prose-lg max-w-none prose-headings:font-bold prose-h1:text-4xl prose-h1:text-transparent prose-h1:bg-clip-text prose-h1:bg-gradient-to-r prose-h1:from-neon-cyan prose-h1:to-neon-purple prose-a:text-neon-cyan prose-a:no-underline hover:prose-a:underline prose-pre:bg-transparent prose-pre:border-0 prose-pre:p-0",
-      className
-    )}>
+    <article className={cn(VARIANT_CLASSES[variant], className)}>
       <ReactMarkdown
         remarkPlugins={[remarkGfm]}
-        rehypePlugins={[rehypeHighlight, rehypeSlug]}
+        rehypePlugins={headingIds ? [rehypeHighlight, rehypeHeadingIds(headingIds), rehypeSlug] : [rehypeHighlight, rehypeSlug]}
         components={{
           pre: ({ children }) => {
+            // The child is our `code` component below, not a "code" string tag
             const codeElement = React.Children.toArray(children).find(
-              (child) => React.isValidElement(child) && child.type === "code"
+              (child) => React.isValidElement(child)
             ) as React.ReactElement | undefined;
              
             const codeProps = codeElement?.props as { className?: string; children?: React.ReactNode } | undefined;
@@ -33,10 +101,14 @@ export function MarkdownRenderer({ content, className }: MarkdownRendererProps)
             const className = codeProps?.className || "";
             const languageMatch = /language-(\w+)/.exec(className);
             const language = languageMatch ? languageMatch[1] : "";
+
+            if (language === "cast") {
+              return <CastBlock source={textOf(rawCode)} />;
+            }
              
             return (
               <InteractiveCodeBlock 
-                code={String(rawCode || "").replace(/\n$/, "")} 
+                code={textOf(rawCode).replace(/\n$/, "")} 
                 language={language}
               >
                 {children}
@@ -58,6 +130,7 @@ export function MarkdownRenderer({ content, className }: MarkdownRendererProps)
               </code>
             );
           },
+          ...components,
         }}
       >
         {content}
@@ -1,6 +1,6 @@
 import Link from "next/link";
 import { ArrowRight, ArrowLeft } from "lucide-react";
-import { WikiArticle } from "@/data/wiki-content";
+import type { WikiArticle } from "@/types";
 
 interface PrevNextNavProps {
   prev: WikiArticle | null;
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { useState } from "react";
+import { ProjectEditor, highlightFile } from "./ProjectEditor";
+import { SANDBOX_WORKER_SOURCE } from "@/lib/code-sandbox";
+import type { ExerciseFile } from "@/types";
+
+type Listener = ((event: { data: unknown }) => void) | null;
+
+// jsdom has no Worker; run the sandbox script in-process
+class InProcessWorker {
+  onmessage: Listener = null;
+  onerror = null;
+  terminate = vi.fn();
+  private scope: { postMessage: (data: unknown) => void; onmessage: Listener };
+
+  constructor() {
+    this.scope = {
+      postMessage: (data) => queueMicrotask(() => this.onmessage?.({ data })),
+      onmessage: null,
+    };
+    new Function("self", SANDBOX_WORKER_SOURCE)(this.scope);
+  }
+
+  postMessage(data: unknown) {
+    this.scope.onmessage?.({ data });
+  }
+}
+
+const projectFiles: ExerciseFile[] = [
+  { path: "src/lib/greet.ts", content: "export const greet = (name: string) => `Hello, ${name}!`;", readOnly: true },
+  { path: "src/app/page.ts", content: "import { greet } from '@/lib/greet';\nconsole.log(greet('Vibe'));" },
+  { path: "package.json", content: '{ "name": "demo" }', readOnly: true },
+];
+
+function EditableProject({ files = projectFiles, entryFile = "src/app/page.ts" }: { files?: ExerciseFile[]; entryFile?: string }) {
+  const [current, setCurrent] = useState(files);
+  return (
+    <ProjectEditor
+      files={current}
+      entryFile={entryFile}
+      onChange={(path, content) =>
+        setCurrent((all) => all.map((file) => (file.path === path ? { ...file, content } : file)))
+      }
+    />
+  );
+}
+
+describe("ProjectEditor", () => {
+  beforeEach(() => {
+    vi.stubGlobal("Worker", InProcessWorker);
+    URL.createObjectURL = vi.fn(() => "blob:sandbox");
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows the file tree with directories first and opens the entry file", () => {
+    render(<EditableProject />);
+
+    const tree = screen.getByRole("navigation", { name: "Project files" });
+    expect(tree.textContent).toBe("srcapppage.tslibgreet.tspackage.json");
+    expect(screen.getByRole("tab", { name: "page.ts" }).getAttribute("aria-selected")).toBe("true");
+    expect(screen.getByLabelText("Edit src/app/page.ts")).toBeDefined();
+  });
+
+  it("opens files from the tree in new tabs", () => {
+    render(<EditableProject />);
+
+    fireEvent.click(screen.getByRole("button", { name: /greet\.ts/ }));
+
+    expect(screen.getAllByRole("tab").map((tab) => tab.textContent)).toEqual(["page.ts", "greet.ts"]);
+    expect(screen.getByRole("tab", { name: "greet.ts" }).getAttribute("aria-selected")).toBe("true");
+
+    fireEvent.mouseDown(screen.getByRole("tab", { name: "page.ts" }));
+    expect(screen.getByLabelText("Edit src/app/page.ts")).toBeDefined();
+  });
+
+  it("locks read-only files", () => {
+    render(<EditableProject />);
+
+    fireEvent.click(screen.getByRole("button", { name: /greet\.ts/ }));
+
+    expect(screen.getByLabelText("Edit src/lib/greet.ts")).toHaveProperty("readOnly", true);
+    expect(screen.getByText("Read-only")).toBeDefined();
+  });
+
+  it("highlights the syntax of the open file", () => {
+    expect(highlightFile("a.ts", "const x = 1;")).toContain('<span class="hljs-keyword">const</span>');
+    expect(highlightFile("notes.txt", "<b>")).toBe("&lt;b&gt;");
+  });
+
+  it("runs the project with imports resolved between files", async () => {
+    render(<EditableProject />);
+
+    fireEvent.change(screen.getByLabelText("Edit src/app/page.ts"), {
+      target: { value: "import { greet } from '../lib/greet';\nimport pkg from '../../package.json';\nconsole.log(greet(pkg.name));" },
+    });
+    fireEvent.click(screen.getByTitle("Run project"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("project-output").textContent).toBe("Hello, demo!");
+    });
+  });
+
+  it("reports syntax errors with the file they are in", async () => {
+    render(
+      <EditableProject
+        files={[
+          { path: "index.ts", content: "import './broken';" },
+          { path: "broken.ts", content: "let x: = 1;" },
+        ]}
+        entryFile="index.ts"
+      />
+    );
+
+    fireEvent.click(screen.getByTitle("Run project"));
+
+    await waitFor(() => {
+      expect(screen.getByText("broken.ts: Line 1, Col 8: Type expected. (TS1110)")).toBeDefined();
+    });
+  });
+});
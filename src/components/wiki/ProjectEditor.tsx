@@ -0,0 +1,316 @@
+"use client";
+
+import * as React from "react";
+import hljs from "highlight.js/lib/core";
+import typescript from "highlight.js/lib/languages/typescript";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import css from "highlight.js/lib/languages/css";
+import markdown from "highlight.js/lib/languages/markdown";
+import { FileCode, Folder, Lock, Play, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { runInSandbox, type ExecutionResult } from "@/lib/code-sandbox";
+import { bundleFiles, formatFileDiagnostic, normalizePath, type FileDiagnostic } from "@/lib/module-bundler";
+import type { ExerciseFile } from "@/types";
+
+hljs.registerLanguage("typescript", typescript);
+hljs.registerLanguage("javascript", javascript);
+hljs.registerLanguage("json", json);
+hljs.registerLanguage("css", css);
+hljs.registerLanguage("markdown", markdown);
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: "typescript",
+  tsx: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  json: "json",
+  css: "css",
+  md: "markdown",
+};
+
+interface ProjectEditorProps {
+  files: ExerciseFile[];
+  /** File run by the Run button. */
+  entryFile: string;
+  onChange?: (path: string, content: string) => void;
+  /** Lock every file, e.g. while a solution is shown. */
+  readOnly?: boolean;
+  /** Milliseconds before a run is stopped. */
+  timeout?: number;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+  file?: ExerciseFile;
+}
+
+function buildTree(files: ExerciseFile[]): TreeNode[] {
+  const root: TreeNode = { name: "", path: "", children: [] };
+  for (const file of files) {
+    const parts = normalizePath(file.path).split("/");
+    let node = root;
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join("/");
+      let child = node.children.find((candidate) => candidate.name === part && !candidate.file);
+      if (index === parts.length - 1) {
+        node.children.push({ name: part, path, children: [], file });
+        return;
+      }
+      if (!child) {
+        child = { name: part, path, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  }
+
+  // Directories first, then files, each alphabetically
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .map((node) => ({ ...node, children: sort(node.children) }))
+      .sort((a, b) => Number(Boolean(a.file)) - Number(Boolean(b.file)) || a.name.localeCompare(b.name));
+  return sort(root.children);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function highlightFile(path: string, content: string): string {
+  const language = LANGUAGE_BY_EXTENSION[path.split(".").pop()?.toLowerCase() ?? ""];
+  return language
+    ? hljs.highlight(content, { language, ignoreIllegals: true }).value
+    : escapeHtml(content);
+}
+
+export function ProjectEditor({ files, entryFile, onChange, readOnly = false, timeout }: ProjectEditorProps) {
+  const entryPath = normalizePath(entryFile);
+  const [openPaths, setOpenPaths] = React.useState<string[]>([entryPath]);
+  const [activePath, setActivePath] = React.useState(entryPath);
+  const [isRunning, setIsRunning] = React.useState(false);
+  const [result, setResult] = React.useState<ExecutionResult | null>(null);
+  const [liveOutput, setLiveOutput] = React.useState<string[]>([]);
+  const [diagnostics, setDiagnostics] = React.useState<FileDiagnostic[]>([]);
+  const [showOutput, setShowOutput] = React.useState(false);
+  const runRef = React.useRef<AbortController | null>(null);
+
+  const tree = React.useMemo(() => buildTree(files), [files]);
+  const activeFile = files.find((file) => normalizePath(file.path) === activePath);
+  const isLocked = readOnly || Boolean(activeFile?.readOnly);
+
+  // Stop a run that is still going when the editor unmounts
+  React.useEffect(() => () => runRef.current?.abort(), []);
+
+  const openFile = (path: string) => {
+    setOpenPaths((paths) => (paths.includes(path) ? paths : [...paths, path]));
+    setActivePath(path);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== "Tab" || isLocked || !activeFile) return;
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    const { selectionStart, selectionEnd, value } = textarea;
+    onChange?.(activeFile.path, `${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`);
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  const handleRun = async () => {
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    setIsRunning(true);
+    setShowOutput(true);
+    setResult(null);
+    setLiveOutput([]);
+    setDiagnostics([]);
+
+    let bundle;
+    try {
+      bundle = await bundleFiles(files, entryFile);
+    } catch (error) {
+      bundle = null;
+      if (!controller.signal.aborted) {
+        const message = error instanceof Error ? error.message : "Could not build the project";
+        setResult({ success: false, output: [], error: message, duration: 0, timedOut: false });
+      }
+    }
+    if (controller.signal.aborted) return;
+    if (!bundle || bundle.diagnostics.length > 0) {
+      runRef.current = null;
+      setDiagnostics(bundle?.diagnostics ?? []);
+      if (bundle) setResult({ success: false, output: [], error: "Syntax error", duration: 0, timedOut: false });
+      setIsRunning(false);
+      return;
+    }
+
+    const executionResult = await runInSandbox(bundle.code, {
+      timeout,
+      signal: controller.signal,
+      onOutput: (line) => setLiveOutput((lines) => [...lines, line]),
+    });
+    if (controller.signal.aborted) return;
+
+    runRef.current = null;
+    setResult(executionResult);
+    setIsRunning(false);
+  };
+
+  const handleCloseOutput = () => {
+    runRef.current?.abort();
+    runRef.current = null;
+    setIsRunning(false);
+    setShowOutput(false);
+    setResult(null);
+    setDiagnostics([]);
+  };
+
+  const renderTree = (nodes: TreeNode[], depth: number): React.ReactNode =>
+    nodes.map((node) =>
+      node.file ? (
+        <li key={node.path}>
+          <button
+            type="button"
+            onClick={() => openFile(node.path)}
+            className={cn(
+              "flex w-full items-center gap-1.5 rounded px-2 py-1 text-left text-xs hover:bg-zinc-800",
+              node.path === activePath ? "bg-zinc-800 text-zinc-50" : "text-zinc-400"
+            )}
+            style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          >
+            <FileCode className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{node.name}</span>
+            {node.file.readOnly && <Lock className="h-3 w-3 shrink-0 text-zinc-500" aria-label="Read-only" />}
+          </button>
+        </li>
+      ) : (
+        <li key={node.path}>
+          <div
+            className="flex items-center gap-1.5 px-2 py-1 text-xs text-zinc-500"
+            style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          >
+            <Folder className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{node.name}</span>
+          </div>
+          <ul>{renderTree(node.children, depth + 1)}</ul>
+        </li>
+      )
+    );
+
+  const outputLines = result ? result.output : liveOutput;
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-zinc-900 overflow-hidden">
+      <div className="flex min-h-64">
+        <nav aria-label="Project files" className="w-48 shrink-0 border-r border-white/10 py-2 overflow-y-auto">
+          <ul>{renderTree(tree, 0)}</ul>
+        </nav>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex items-center justify-between gap-2 border-b border-white/10 px-2 py-1">
+            <Tabs value={activePath} onValueChange={setActivePath} className="min-w-0 overflow-x-auto">
+              <TabsList className="h-8 bg-transparent">
+                {openPaths.map((path) => (
+                  <TabsTrigger key={path} value={path} title={path} className="h-7 text-xs">
+                    {path.split("/").pop()}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleRun}
+              disabled={isRunning}
+              title="Run project"
+              className="h-7 text-xs gap-1.5 text-zinc-50 hover:bg-neon-cyan/20 hover:text-neon-cyan"
+            >
+              {isRunning ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Play className="h-3.5 w-3.5" />}
+              Run
+            </Button>
+          </div>
+
+          {activeFile && (
+            <div className="relative flex-1 overflow-auto font-mono text-sm leading-6">
+              <pre aria-hidden="true" className="hljs pointer-events-none m-0 p-4 whitespace-pre-wrap break-words !bg-transparent">
+                <code dangerouslySetInnerHTML={{ __html: `${highlightFile(activeFile.path, activeFile.content)}\n` }} />
+              </pre>
+              <textarea
+                aria-label={`Edit ${activeFile.path}`}
+                value={activeFile.content}
+                readOnly={isLocked}
+                spellCheck={false}
+                onChange={(event) => onChange?.(activeFile.path, event.target.value)}
+                onKeyDown={handleKeyDown}
+                className="absolute inset-0 h-full w-full resize-none bg-transparent p-4 whitespace-pre-wrap break-words text-transparent caret-zinc-50 outline-none"
+              />
+              {isLocked && (
+                <span className="absolute top-2 right-2 flex items-center gap-1 rounded bg-zinc-800 px-2 py-0.5 text-xs text-zinc-400">
+                  <Lock className="h-3 w-3" />
+                  Read-only
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showOutput && (
+        <div className="border-t border-white/10 bg-zinc-950">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+            <span className="text-xs font-medium text-zinc-400">
+              {isRunning ? "Running..." : "Output"}
+              {result && !isRunning && (
+                <span className="ml-2 text-zinc-500">{result.timedOut ? "Timed out" : `${result.duration}ms`}</span>
+              )}
+            </span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 text-zinc-500 hover:text-zinc-300"
+              onClick={handleCloseOutput}
+              title="Close output"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="p-3 font-mono text-sm max-h-64 overflow-y-auto space-y-1" data-testid="project-output">
+            {outputLines.map((line, index) => (
+              <div
+                key={index}
+                className={cn(
+                  "whitespace-pre-wrap",
+                  line.startsWith("[Error]") ? "text-red-400" :
+                  line.startsWith("[Warn]") ? "text-yellow-400" :
+                  line.startsWith("→") ? "text-neon-cyan" :
+                  "text-zinc-300"
+                )}
+              >
+                {line}
+              </div>
+            ))}
+            {diagnostics.map((diagnostic, index) => (
+              <div key={index} className="whitespace-pre-wrap text-red-400">
+                {formatFileDiagnostic(diagnostic)}
+              </div>
+            ))}
+            {result?.error && diagnostics.length === 0 && (
+              <div className="whitespace-pre-wrap text-red-400">{result.error}</div>
+            )}
+            {result && !result.error && outputLines.length === 0 && (
+              <span className="text-zinc-500 italic">No output</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { CLIPlayground } from "@/components/wiki/CLIPlayground";
+import { useTutorialProgress } from "@/hooks/use-progress";
+import type { CLIScenario } from "@/lib/scenario-engine";
+
+/**
+ * A CLI playground running a scripted scenario. Each completed step is
+ * saved as a tutorial step, with the scenario id as the tutorial id.
+ */
+export function ScenarioPlayground({ scenario }: { scenario: CLIScenario }) {
+  const { completeStep } = useTutorialProgress(scenario.id);
+
+  return (
+    <CLIPlayground
+      tool={scenario.tool}
+      title={scenario.title}
+      scenario={scenario}
+      onStepComplete={completeStep}
+    />
+  );
+}
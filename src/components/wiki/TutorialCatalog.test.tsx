@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { TutorialCatalog, type TutorialSummary } from "./TutorialCatalog";
+
+vi.mock("@/hooks/use-progress", () => ({
+  useProgress: () => ({
+    progress: {
+      currentTutorialProgress: {
+        "t-components": { tutorialId: "t-components", completedSteps: ["s1"] },
+      },
+    },
+    isTutorialCompleted: (id: string) => id === "t-basics",
+  }),
+}));
+
+const tutorials: TutorialSummary[] = [
+  {
+    id: "t-basics",
+    slug: "basics",
+    title: "JavaScript Basics",
+    description: "Variables and functions",
+    difficulty: "beginner",
+    estimatedMinutes: 15,
+    tags: ["javascript"],
+    stepCount: 2,
+  },
+  {
+    id: "t-components",
+    slug: "components",
+    title: "React Components",
+    description: "Build components",
+    difficulty: "intermediate",
+    estimatedMinutes: 30,
+    tags: ["react", "javascript"],
+    prerequisites: ["basics"],
+    stepCount: 3,
+  },
+  {
+    id: "t-hooks",
+    slug: "hooks",
+    title: "React Hooks",
+    description: "State and effects",
+    difficulty: "advanced",
+    estimatedMinutes: 45,
+    tags: ["react"],
+    prerequisites: ["components"],
+    stepCount: 4,
+  },
+];
+
+const titles = () => screen.getAllByRole("heading").map((heading) => heading.textContent);
+
+describe("TutorialCatalog", () => {
+  it("lists every tutorial with a link to its page", () => {
+    render(<TutorialCatalog tutorials={tutorials} />);
+
+    expect(titles()).toEqual(["JavaScript Basics", "React Components", "React Hooks"]);
+    expect(screen.getByText("React Hooks").closest("a")?.getAttribute("href")).toBe("/tutorials/hooks");
+  });
+
+  it("shows completion, step progress and locked tutorials", () => {
+    render(<TutorialCatalog tutorials={tutorials} />);
+
+    expect(screen.getByText("Completed")).toBeDefined();
+    expect(screen.getByText("1/3 steps done")).toBeDefined();
+    expect(screen.getByText("Locked")).toBeDefined();
+  });
+
+  it("filters by difficulty and tag", () => {
+    render(<TutorialCatalog tutorials={tutorials} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "#react" }));
+    expect(titles()).toEqual(["React Components", "React Hooks"]);
+
+    fireEvent.click(screen.getByRole("button", { name: "advanced" }));
+    expect(titles()).toEqual(["React Hooks"]);
+
+    fireEvent.click(screen.getByRole("button", { name: "beginner" }));
+    expect(screen.getByText("No tutorials match these filters.")).toBeDefined();
+
+    fireEvent.click(screen.getByRole("button", { name: "All levels" }));
+    fireEvent.click(screen.getByRole("button", { name: "#react" }));
+    expect(titles()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,157 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { BookOpen, CheckCircle2, Clock, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useProgress } from "@/hooks/use-progress";
+import type { DifficultyLevel, Tutorial } from "@/types";
+
+/** What a catalog card needs; step bodies stay on the tutorial page. */
+export type TutorialSummary = Pick<
+  Tutorial,
+  "id" | "slug" | "title" | "description" | "difficulty" | "estimatedMinutes" | "tags" | "prerequisites"
+> & { stepCount: number };
+
+const DIFFICULTIES: DifficultyLevel[] = ["beginner", "intermediate", "advanced"];
+
+interface TutorialCatalogProps {
+  tutorials: TutorialSummary[];
+}
+
+export function TutorialCatalog({ tutorials }: TutorialCatalogProps) {
+  const { progress, isTutorialCompleted } = useProgress();
+  const [difficulty, setDifficulty] = React.useState<DifficultyLevel | null>(null);
+  const [tag, setTag] = React.useState<string | null>(null);
+
+  const tags = React.useMemo(
+    () => Array.from(new Set(tutorials.flatMap((tutorial) => tutorial.tags ?? []))).sort(),
+    [tutorials]
+  );
+  const visible = tutorials.filter(
+    (tutorial) =>
+      (!difficulty || tutorial.difficulty === difficulty) && (!tag || tutorial.tags?.includes(tag))
+  );
+
+  const isLocked = (tutorial: TutorialSummary) =>
+    tutorials.some(
+      (candidate) => tutorial.prerequisites?.includes(candidate.slug) && !isTutorialCompleted(candidate.id)
+    );
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="mb-8 space-y-3">
+        <div role="group" aria-label="Difficulty" className="flex flex-wrap gap-2">
+          <Button size="sm" variant={difficulty === null ? "default" : "outline"} onClick={() => setDifficulty(null)}>
+            All levels
+          </Button>
+          {DIFFICULTIES.map((level) => (
+            <Button
+              key={level}
+              size="sm"
+              variant={difficulty === level ? "default" : "outline"}
+              aria-pressed={difficulty === level}
+              onClick={() => setDifficulty(difficulty === level ? null : level)}
+            >
+              {level}
+            </Button>
+          ))}
+        </div>
+        {tags.length > 0 && (
+          <div role="group" aria-label="Tags" className="flex flex-wrap gap-2">
+            {tags.map((name) => (
+              <Button
+                key={name}
+                size="sm"
+                variant={tag === name ? "secondary" : "ghost"}
+                aria-pressed={tag === name}
+                onClick={() => setTag(tag === name ? null : name)}
+              >
+                #{name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Tutorial Grid */}
+      {visible.length === 0 ? (
+        <p className="text-muted-foreground">No tutorials match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {visible.map((tutorial, index) => {
+            const completed = isTutorialCompleted(tutorial.id);
+            const locked = !completed && isLocked(tutorial);
+            const stepsDone = progress.currentTutorialProgress[tutorial.id]?.completedSteps.length ?? 0;
+
+            return (
+              <motion.div
+                key={tutorial.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Link
+                  href={`/tutorials/${tutorial.slug}`}
+                  className="group relative flex h-full flex-col overflow-hidden rounded-2xl border border-white/10 bg-white/5 p-6 hover:border-white/20 hover:bg-white/10 transition-all"
+                >
+                  <div className="relative flex flex-col gap-4 flex-1">
+                    {/* Content */}
+                    <div className="flex-1">
+                      <h3 className="text-lg font-semibold leading-7 mb-2">{tutorial.title}</h3>
+                      <p className="text-sm leading-6 text-muted-foreground group-hover:text-foreground transition-colors">
+                        {tutorial.description}
+                      </p>
+                    </div>
+
+                    {/* Meta */}
+                    <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-white/10">
+                      <span
+                        className={cn(
+                          "text-xs px-2 py-1 rounded-full",
+                          tutorial.difficulty === "beginner" && "bg-green-500/20 text-green-300",
+                          tutorial.difficulty === "intermediate" && "bg-yellow-500/20 text-yellow-300",
+                          tutorial.difficulty === "advanced" && "bg-red-500/20 text-red-300"
+                        )}
+                      >
+                        {tutorial.difficulty}
+                      </span>
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {tutorial.estimatedMinutes} min
+                      </span>
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        <BookOpen className="h-3 w-3" />
+                        {tutorial.stepCount} steps
+                      </span>
+
+                      {/* Progress */}
+                      {completed ? (
+                        <span className="text-xs flex items-center gap-1 text-neon-green">
+                          <CheckCircle2 className="h-3 w-3" />
+                          Completed
+                        </span>
+                      ) : locked ? (
+                        <span className="text-xs flex items-center gap-1 text-zinc-500">
+                          <Lock className="h-3 w-3" />
+                          Locked
+                        </span>
+                      ) : stepsDone > 0 ? (
+                        <span className="text-xs text-neon-cyan">
+                          {stepsDone}/{tutorial.stepCount} steps done
+                        </span>
+                      ) : null}
+                    </div>
+                  </div>
+                </Link>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { TutorialPlayer } from "./TutorialPlayer";
+import { ProgressProvider } from "@/components/providers/ProgressProvider";
+import { createEmptyProgress, markTutorialCompleted, markTutorialStepCompleted, saveProgress } from "@/lib/progress-utils";
+import type { Tutorial } from "@/types";
+
+vi.mock("./MarkdownRenderer", () => ({
+  MarkdownRenderer: ({ content }: { content: string }) => createElement("div", { className: "mock-markdown" }, content),
+}));
+
+const basics: Tutorial = {
+  id: "basics",
+  slug: "basics",
+  title: "Basics",
+  description: "The basics",
+  section: "Getting Started",
+  difficulty: "beginner",
+  estimatedMinutes: 5,
+  learningObjectives: [],
+  steps: [{ id: "basics-1", title: "Only step", content: "Read this", order: 0 }],
+};
+
+const tutorial: Tutorial = {
+  ...basics,
+  id: "follow-up",
+  slug: "follow-up",
+  title: "Follow Up",
+  prerequisites: ["basics"],
+  steps: [
+    { id: "step-1", title: "First step", content: "One", order: 0 },
+    { id: "step-2", title: "Second step", content: "Two", order: 1 },
+  ],
+};
+
+const renderPlayer = () =>
+  createElement(ProgressProvider, null, createElement(TutorialPlayer, { tutorial, prerequisites: [basics] }));
+
+describe("TutorialPlayer", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    let progress = markTutorialStepCompleted(createEmptyProgress(), "basics", "basics-1");
+    progress = markTutorialCompleted(progress, "basics", "Basics", 1);
+    saveProgress(markTutorialStepCompleted(progress, "follow-up", "step-1"));
+  });
+
+  it("renders neither the lock nor a step before progress loads", () => {
+    const html = renderToString(renderPlayer());
+
+    expect(html).toContain("Loading progress...");
+    expect(html).not.toContain("Complete these tutorials first");
+    expect(html).not.toContain("First step");
+  });
+
+  it("resumes at the first open step once progress has loaded", () => {
+    render(renderPlayer());
+
+    expect(screen.queryByText("Complete these tutorials first:")).toBeNull();
+    expect(screen.getByText("Second step")).toBeDefined();
+    expect(screen.queryByText("First step")).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+"use client";
+
+import Link from "next/link";
+import { Lock } from "lucide-react";
+import { TutorialViewer } from "@/components/wiki/TutorialViewer";
+import { useProgress, useTutorialProgress } from "@/hooks/use-progress";
+import { getMissingPrerequisites } from "@/lib/tutorial-utils";
+import type { Tutorial } from "@/types";
+
+interface TutorialPlayerProps {
+  tutorial: Tutorial;
+  /** Tutorials the prerequisite slugs are looked up in; other tutorials are ignored. */
+  prerequisites: Tutorial[];
+}
+
+/**
+ * A tutorial with saved progress. It stays locked until every prerequisite
+ * tutorial is completed, and renders a placeholder until progress has loaded.
+ */
+export function TutorialPlayer({ tutorial, prerequisites }: TutorialPlayerProps) {
+  const { isTutorialCompleted, isLoading } = useProgress();
+  const { completedSteps, currentStepId, completeStep, markComplete } = useTutorialProgress(tutorial.id);
+
+  // Neither the lock nor the step to resume at is known until saved progress loads
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 rounded-xl border border-white/10 bg-zinc-900/50 text-center text-zinc-400">
+        Loading progress...
+      </div>
+    );
+  }
+
+  const missing = getMissingPrerequisites(tutorial, prerequisites, isTutorialCompleted);
+
+  if (missing.length > 0) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 rounded-xl border border-white/10 bg-zinc-900/50 text-center">
+        <Lock className="h-8 w-8 mx-auto mb-4 text-zinc-500" />
+        <h1 className="text-2xl font-bold text-zinc-50 mb-2">{tutorial.title}</h1>
+        <p className="text-zinc-400 mb-4">Complete these tutorials first:</p>
+        <ul className="space-y-2">
+          {missing.map((prerequisite) => (
+            <li key={prerequisite.id}>
+              <Link href={`/tutorials/${prerequisite.slug}`} className="text-neon-cyan hover:underline">
+                {prerequisite.title}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  return (
+    <TutorialViewer
+      tutorial={tutorial}
+      progress={{ tutorialId: tutorial.id, completedSteps, currentStepId }}
+      onStepComplete={completeStep}
+      onComplete={() => markComplete(tutorial.title, tutorial.steps.length)}
+    />
+  );
+}
@@ -1,23 +1,41 @@
 "use client";
 
 import * as React from "react";
-import { ChevronLeft, ChevronRight, BookOpen, Clock, Target } from "lucide-react";
+import { ChevronLeft, ChevronRight, BookOpen, Clock, Target, CheckCircle2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { MarkdownRenderer } from "./MarkdownRenderer";
 import { ExerciseBlock } from "./ExerciseBlock";
-import type { Tutorial } from "@/types";
+import type { Tutorial, TutorialProgress } from "@/types";
 
 interface TutorialViewerProps {
   tutorial: Tutorial;
+  /** Saved progress; completed steps are restored and the viewer resumes at the first open step. */
+  progress?: TutorialProgress;
+  onStepComplete?: (stepId: string) => void;
   onComplete?: () => void;
 }
 
-export function TutorialViewer({ tutorial, onComplete }: TutorialViewerProps) {
-  const [currentStepIndex, setCurrentStepIndex] = React.useState(0);
-  const [completedSteps, setCompletedSteps] = React.useState<Set<string>>(
+export function TutorialViewer({ tutorial, progress, onStepComplete, onComplete }: TutorialViewerProps) {
+  const [currentStepIndex, setCurrentStepIndex] = React.useState(() => {
+    // Start with the first uncompleted step, or the first step if all are complete
+    const firstUncompleted = tutorial.steps.findIndex(
+      (step) => !progress?.completedSteps.includes(step.id)
+    );
+    return Math.max(firstUncompleted, 0);
+  });
+  const [localCompletedSteps, setCompletedSteps] = React.useState<Set<string>>(
     new Set()
   );
+  const completedSteps = React.useMemo(
+    () =>
+      new Set(
+        tutorial.steps
+          .map((step) => step.id)
+          .filter((id) => localCompletedSteps.has(id) || progress?.completedSteps.includes(id))
+      ),
+    [tutorial.steps, localCompletedSteps, progress?.completedSteps]
+  );
 
   // Handle empty steps gracefully
   const hasSteps = tutorial.steps.length > 0;
@@ -39,11 +57,17 @@ export function TutorialViewer({ tutorial, onComplete }: TutorialViewerProps) {
   };
 
   const handleStepComplete = () => {
-    if (currentStep) {
+    if (currentStep && !completedSteps.has(currentStep.id)) {
       setCompletedSteps((prev) => new Set(prev).add(currentStep.id));
+      onStepComplete?.(currentStep.id);
     }
   };
 
+  // Failed test runs report `false`; only a passing run completes the step
+  const handleExerciseComplete = (success: boolean) => {
+    if (success) handleStepComplete();
+  };
+
   const currentStepCompleted = currentStep ? completedSteps.has(currentStep.id) : false;
 
   // Calculate progress
@@ -217,10 +241,20 @@ export function TutorialViewer({ tutorial, onComplete }: TutorialViewerProps) {
           {currentStep.exercise && (
             <ExerciseBlock
               exercise={currentStep.exercise}
-              onComplete={handleStepComplete}
+              onComplete={handleExerciseComplete}
             />
           )}
 
+          {/* Steps without an exercise are completed by hand */}
+          {!currentStepCompleted && !currentStep.exercise && (
+            <div className="mt-6 flex justify-end">
+              <Button onClick={handleStepComplete} className="gap-2">
+                <CheckCircle2 className="h-4 w-4" />
+                Mark as Complete
+              </Button>
+            </div>
+          )}
+
           {/* Step Complete Message */}
           {currentStepCompleted && !currentStep.exercise && (
             <div className="mt-6 p-4 rounded-lg bg-neon-green/10 border border-neon-green/30 text-center">
@@ -4,6 +4,8 @@
  * Based on PRD Section 4.4: Diagram Registry
  */
 
+import type { ArticleDiagram } from '@/types';
+
 export type DiagramCategory =
   | 'claude-cli'
   | 'copilot-cli'
@@ -743,6 +745,22 @@ export function getDiagramsForArticle(articleSlug: string): DiagramEntry[] {
   );
 }
 
+/**
+ * Convert a registry entry into an ArticleDiagram for an article that does
+ * not declare its own diagrams. With no section heading, ArticleRenderer
+ * places it after the article content.
+ */
+export function toArticleDiagram(entry: DiagramEntry, articleSlug: string): ArticleDiagram {
+  return {
+    id: `${articleSlug}-${entry.filename.replace(/\.svg$/, '')}`,
+    filename: entry.filename,
+    alt: entry.altAr,
+    caption: entry.captionAr,
+    position: 'after-section',
+    priority: isPriorityDiagram(entry.filename),
+  };
+}
+
 /**
  * Get priority diagrams (above-the-fold)
  */
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import {
+  loadChatHistory,
+  saveChatHistory,
+  upsertConversation,
+  removeConversation,
+  type ChatHistory,
+} from '@/lib/chat-history';
+import type { ChatConversation } from '@/types/wiki-chatbot';
+
+/**
+ * Saved chat conversations for a user, persisted to localStorage
+ *
+ * @example
+ * const { conversations, activeConversation, saveConversation } = useChatHistory(progress.userId);
+ */
+export function useChatHistory(userId: string) {
+  const [history, setHistory] = useState<ChatHistory>(() => loadChatHistory(userId));
+
+  useEffect(() => {
+    saveChatHistory(userId, history);
+  }, [userId, history]);
+
+  return {
+    conversations: history.conversations,
+    activeConversation: history.conversations.find((c) => c.id === history.activeId) ?? null,
+    saveConversation: (conversation: ChatConversation) =>
+      setHistory((current) => upsertConversation(current, conversation)),
+    deleteConversation: (conversationId: string) =>
+      setHistory((current) => removeConversation(current, conversationId)),
+  };
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   generateSlug,
   validateArticle,
@@ -10,8 +10,14 @@ import {
   getArticleStats,
   extractHeadings,
   calculateReadingTime,
+  resolveArticleDiagrams,
+  getArticleBySlug,
+  getNavSections,
+  getLiveArticles,
+  isArticleLive,
 } from './article-utils';
 import type { WikiArticle } from '@/data/wiki-content';
+import { initializeContentFromWikiData, MemoryStorageAdapter, resetContentService } from '@/lib/cms';
 
 describe('Article Utils', () => {
   describe('generateSlug', () => {
@@ -212,6 +218,22 @@ More content
       expect(headings[0].text).toBe('مقدمة في البرمجة');
     });
 
+    it('should generate the same IDs as rehype-slug', () => {
+      const headings = extractHeadings('## ما هو Vibe Coding؟\n### Step 1: Install (macOS)');
+      expect(headings.map((h) => h.id)).toEqual(['ما-هو-vibe-coding', 'step-1-install-macos']);
+    });
+
+    it('should number repeated headings and keep list numbers and inline code', () => {
+      const headings = extractHeadings('## 1. Setup\n## Notes\n#### Notes\n### Notes\n## Run `npm i`');
+      expect(headings.map((h) => h.id)).toEqual(['1-setup', 'notes', 'notes-2', 'run-npm-i']);
+      expect(headings[3].text).toBe('Run npm i');
+    });
+
+    it('should ignore headings inside code fences', () => {
+      const content = '## Real\n```bash\n## not a heading\n```\n## Also Real';
+      expect(extractHeadings(content).map((h) => h.text)).toEqual(['Real', 'Also Real']);
+    });
+
     it('should return empty array for content without headings', () => {
       const headings = extractHeadings('Just plain text\nNo headings here');
       expect(headings).toEqual([]);
@@ -340,4 +362,91 @@ More text here.
       expect(slugExists('definitely-not-a-real-slug-12345')).toBe(false);
     });
   });
+
+  describe('CMS status', () => {
+    const slug = 'what-is-vibe-coding';
+    const navSlugs = () => getNavSections().flatMap((section) => section.articles.map((article) => article.slug));
+
+    beforeEach(() => {
+      resetContentService();
+      initializeContentFromWikiData(new MemoryStorageAdapter());
+    });
+
+    afterEach(() => {
+      resetContentService();
+    });
+
+    it('serves and lists published articles', () => {
+      expect(isArticleLive(slug)).toBe(true);
+      expect(getArticleBySlug(slug)?.slug).toBe(slug);
+      expect(navSlugs()).toContain(slug);
+    });
+
+    it('hides drafts and articles scheduled for later', () => {
+      const service = initializeContentFromWikiData();
+      const article = service.getArticleBySlug(slug)!;
+
+      service.unpublishArticle(article.id);
+      expect(isArticleLive(slug)).toBe(false);
+      expect(getArticleBySlug(slug)).toBeUndefined();
+      expect(navSlugs()).not.toContain(slug);
+
+      service.scheduleArticle(article.id, new Date('2999-01-01T00:00:00Z'));
+      expect(getArticleBySlug(slug)).toBeUndefined();
+
+      service.scheduleArticle(article.id, new Date('2000-01-01T00:00:00Z'));
+      expect(getArticleBySlug(slug)?.slug).toBe(slug);
+    });
+
+    it('returns the same live article list until the CMS changes it', () => {
+      const live = getLiveArticles();
+      expect(getLiveArticles()).toBe(live);
+
+      const service = initializeContentFromWikiData();
+      service.unpublishArticle(service.getArticleBySlug(slug)!.id);
+
+      const changed = getLiveArticles();
+      expect(changed).not.toBe(live);
+      expect(changed.map((article) => article.slug)).not.toContain(slug);
+      expect(changed).toHaveLength(live.length - 1);
+    });
+  });
+
+  describe('resolveArticleDiagrams', () => {
+    it('should keep diagrams declared by the article', () => {
+      const diagrams = [
+        {
+          id: 'own-diagram',
+          filename: 'workflow-vibecoding.svg',
+          alt: 'نص بديل',
+          caption: 'تعليق',
+          position: 'inline' as const,
+          sectionHeading: 'الفلسفة',
+        },
+      ];
+
+      expect(resolveArticleDiagrams({ slug: 'prep-your-machine', diagrams })).toBe(diagrams);
+    });
+
+    it('should fall back to registry diagrams related to the slug', () => {
+      const diagrams = resolveArticleDiagrams({ slug: 'prep-your-machine', diagrams: [] });
+
+      expect(diagrams.map((d) => d.filename)).toContain('getting-started-installation-flow.svg');
+      diagrams.forEach((diagram) => {
+        expect(diagram.id).toMatch(/^prep-your-machine-/);
+        expect(diagram.position).toBe('after-section');
+        expect(diagram.alt.length).toBeGreaterThan(0);
+      });
+    });
+
+    it('should return no diagrams when nothing in the registry is related', () => {
+      expect(resolveArticleDiagrams({ slug: 'definitely-not-a-real-slug-12345' })).toEqual([]);
+    });
+
+    it('should mark fallback diagrams listed in PRIORITY_DIAGRAMS as priority', () => {
+      const timeline = resolveArticleDiagrams({ slug: 'your-first-15-minutes' })
+        .find((d) => d.filename === 'getting-started-timeline-flow.svg');
+      expect(timeline?.priority).toBe(true);
+    });
+  });
 });
@@ -1,20 +1,72 @@
-import { wikiContent, WikiArticle } from "@/data/wiki-content";
+import { cliScenarios, wikiContent } from "@/data/wiki-content";
+import type { ArticleDiagram, NavSection, WikiArticle } from "@/types";
+import { getDiagramsForArticle, toArticleDiagram } from "@/data/diagram-registry";
 import { getInitializedContentService } from "@/lib/cms/data-loader";
-import { Article } from "@/lib/cms";
+import { Article, isLive } from "@/lib/cms";
+import type { CLIScenario } from "@/lib/scenario-engine";
+import {
+  getArticleBody,
+  getHeadingAnchors,
+  parseMarkdownWithHeadings,
+  toHeadingText,
+} from "@/lib/markdown-sections";
+
+export { validateArticle, type ArticleValidationError } from "@/lib/article-validation";
 
 export const allArticles: WikiArticle[] = wikiContent.flatMap((section) => section.articles);
 
+/**
+ * Whether the article's CMS entry is published now, with its schedule
+ * applied. Drafts, archived articles and ones not yet due are not.
+ */
+export function isArticleLive(slug: string): boolean {
+  const article = getInitializedContentService().getArticleBySlug(slug);
+  return article !== undefined && isLive(article);
+}
+
+let liveArticles: { key: string; articles: WikiArticle[] } | null = null;
+
+/**
+ * The articles `isArticleLive` allows, checked on every call. The same
+ * array comes back while that set is unchanged, so indexes cached per
+ * array (chat retrieval) are rebuilt only when the CMS changes it.
+ */
+export function getLiveArticles(): WikiArticle[] {
+  const articles = allArticles.filter((article) => isArticleLive(article.slug));
+  const key = articles.map((article) => article.slug).join("\n");
+  if (liveArticles?.key !== key) liveArticles = { key, articles };
+  return liveArticles.articles;
+}
+
+/**
+ * Section and article titles for the sidebar, without article bodies,
+ * so client navigation does not ship the full wiki content. Only live
+ * articles are listed.
+ */
+export function getNavSections(): NavSection[] {
+  return wikiContent
+    .map((section) => ({
+      name: section.name,
+      articles: section.articles.filter(({ slug }) => isArticleLive(slug)).map(({ slug, title }) => ({ slug, title })),
+    }))
+    .filter((section) => section.articles.length > 0);
+}
+
 export function getArticleBySlug(slug: string): WikiArticle | undefined {
   const service = getInitializedContentService();
   const article = service.getArticleBySlug(slug);
   
-  if (article) {
-    const cleanContent = article.content.trim().replace(/^#\s+[^\n]+\n+/, "").trim();
+  if (article && isLive(article)) {
+    const cleanContent = getArticleBody(article.content);
+    // Diagrams and descriptions live in the content files, not the CMS
+    const source = allArticles.find((a) => a.slug === slug);
     return {
       slug: article.slug,
       title: article.title,
       section: article.section,
+      description: source?.description,
       content: cleanContent,
+      diagrams: source?.diagrams,
       codeBlocks: article.codeBlocks?.map(cb => ({
         language: cb.language,
         code: cb.code,
@@ -26,6 +78,22 @@ export function getArticleBySlug(slug: string): WikiArticle | undefined {
   return undefined;
 }
 
+export function getScenariosForArticle(slug: string): CLIScenario[] {
+  return cliScenarios.filter((scenario) => scenario.article === slug);
+}
+
+/**
+ * Diagrams to render for an article: its own `diagrams` when it lists any,
+ * otherwise every registry diagram whose `relatedArticles` include the slug.
+ */
+export function resolveArticleDiagrams(article: Pick<WikiArticle, "slug" | "diagrams">): ArticleDiagram[] {
+  if (article.diagrams && article.diagrams.length > 0) {
+    return article.diagrams;
+  }
+
+  return getDiagramsForArticle(article.slug).map((entry) => toArticleDiagram(entry, article.slug));
+}
+
 export function getPrevNextArticles(currentSlug: string) {
   const service = getInitializedContentService();
   const allCmsArticles = service.queryArticles({ 
@@ -68,24 +136,19 @@ export interface TocHeading {
   level: number;
 }
 
+/**
+ * Extract H2/H3 headings, skipping fenced code blocks. Ids are the ones
+ * rehype-slug gives the rendered headings, repeats numbered included.
+ */
 export function extractHeadings(content: string): TocHeading[] {
-  const headings: TocHeading[] = [];
-  
-  const regex = /^(#{2,3})\s+(.+)$/gm;
-  let match;
-
-  while ((match = regex.exec(content)) !== null) {
-    const level = match[1].length;
-    const text = match[2].trim();
-    const id = text
-      .replace(/[^\w\s\u0600-\u06FF-]/g, "")
-      .replace(/\s+/g, "-")
-      .toLowerCase();
-
-    headings.push({ id, text, level });
-  }
-
-  return headings;
+  const sections = parseMarkdownWithHeadings(content);
+  const anchors = getHeadingAnchors(sections);
+
+  return sections.flatMap((section, index) =>
+    section.type === "heading" && (section.level === 2 || section.level === 3)
+      ? [{ id: anchors[index], text: toHeadingText(section.text), level: section.level }]
+      : []
+  );
 }
 
 export function calculateReadingTime(content: string, wordsPerMinute = 200): number {
@@ -112,11 +175,6 @@ export interface ArticleTemplate {
   tags: string[];
 }
 
-export interface ArticleValidationError {
-  field: string;
-  message: string;
-}
-
 /**
  * Generate a URL-friendly slug from an Arabic or English title
  */
@@ -137,39 +195,6 @@ export function generateSlug(title: string): string {
     .substring(0, 100);
 }
 
-/**
- * Validate an article object
- */
-export function validateArticle(article: Partial<WikiArticle>): ArticleValidationError[] {
-  const errors: ArticleValidationError[] = [];
-
-  if (!article.slug?.trim()) {
-    errors.push({ field: 'slug', message: 'Slug is required' });
-  } else if (!/^[a-z0-9-]+$/.test(article.slug)) {
-    errors.push({ field: 'slug', message: 'Slug must contain only lowercase letters, numbers, and hyphens' });
-  }
-
-  if (!article.title?.trim()) {
-    errors.push({ field: 'title', message: 'Title is required' });
-  } else if (article.title.length < 5) {
-    errors.push({ field: 'title', message: 'Title must be at least 5 characters' });
-  } else if (article.title.length > 200) {
-    errors.push({ field: 'title', message: 'Title must not exceed 200 characters' });
-  }
-
-  if (!article.content?.trim()) {
-    errors.push({ field: 'content', message: 'Content is required' });
-  } else if (article.content.length < 100) {
-    errors.push({ field: 'content', message: 'Content must be at least 100 characters' });
-  }
-
-  if (!article.section?.trim()) {
-    errors.push({ field: 'section', message: 'Section is required' });
-  }
-
-  return errors;
-}
-
 /**
  * Create a new article with minimal required fields
  */
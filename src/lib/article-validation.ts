@@ -0,0 +1,39 @@
+import type { WikiArticle } from "@/types";
+
+export interface ArticleValidationError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Validate an article object
+ */
+export function validateArticle(article: Partial<WikiArticle>): ArticleValidationError[] {
+  const errors: ArticleValidationError[] = [];
+
+  if (!article.slug?.trim()) {
+    errors.push({ field: 'slug', message: 'Slug is required' });
+  } else if (!/^[a-z0-9-]+$/.test(article.slug)) {
+    errors.push({ field: 'slug', message: 'Slug must contain only lowercase letters, numbers, and hyphens' });
+  }
+
+  if (!article.title?.trim()) {
+    errors.push({ field: 'title', message: 'Title is required' });
+  } else if (article.title.length < 5) {
+    errors.push({ field: 'title', message: 'Title must be at least 5 characters' });
+  } else if (article.title.length > 200) {
+    errors.push({ field: 'title', message: 'Title must not exceed 200 characters' });
+  }
+
+  if (!article.content?.trim()) {
+    errors.push({ field: 'content', message: 'Content is required' });
+  } else if (article.content.length < 100) {
+    errors.push({ field: 'content', message: 'Content must be at least 100 characters' });
+  }
+
+  if (!article.section?.trim()) {
+    errors.push({ field: 'section', message: 'Section is required' });
+  }
+
+  return errors;
+}
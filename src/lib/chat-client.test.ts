@@ -0,0 +1,117 @@
+/**
+ * Tests for Chat Client
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { requestChatAnswer, sendChatFeedback } from '@/lib/chat-client';
+import { formatServerSentEvent } from '@/lib/llm';
+import { createConversation } from '@/lib/wiki-chatbot-utils';
+
+const source = { type: 'article' as const, id: 'git', slug: 'git', title: 'Git', excerpt: '', relevanceScore: 1 };
+
+function eventStream(...events: [string, unknown][]) {
+  return new Response(events.map(([event, data]) => formatServerSentEvent(event, data)).join(''), {
+    headers: { 'content-type': 'text/event-stream' },
+  });
+}
+
+const context = createConversation('c1', { userLevel: 'beginner', viewedArticles: ['git'] }).context;
+
+describe('requestChatAnswer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the question with history and context and collect the answer', async () => {
+    const fetch = vi.fn(async () => eventStream(['sources', [source]], ['token', 'Use '], ['token', 'git [1].'], ['done', { sources: [source] }]));
+    vi.stubGlobal('fetch', fetch);
+
+    const answer = await requestChatAnswer({
+      message: 'How?',
+      history: [
+        { role: 'system', content: 'hidden' },
+        { role: 'user', content: 'Hi' },
+      ],
+      language: 'en',
+      context,
+    });
+
+    expect(answer).toEqual({ content: 'Use git [1].', sources: [source] });
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/chat');
+    expect(JSON.parse(init.body as string)).toEqual({
+      message: 'How?',
+      history: [{ role: 'user', content: 'Hi' }],
+      language: 'en',
+      context: { userLevel: 'beginner', completedTutorials: [], viewedArticles: ['git'], recentTopics: [] },
+    });
+  });
+
+  it('should report the answer as it streams and renumber its citations', async () => {
+    const other = { ...source, id: 'cursor', slug: 'cursor', title: 'Cursor' };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => eventStream(['sources', [source, other]], ['token', 'Open Cursor [2]'], ['token', ', commit [1].'], ['done', { sources: [other, source] }]))
+    );
+    const onUpdate = vi.fn();
+
+    const answer = await requestChatAnswer({ message: 'How?', history: [], language: 'en', context, onUpdate });
+
+    expect(onUpdate.mock.calls.map(([partial]) => partial.content)).toEqual(['', 'Open Cursor [2]', 'Open Cursor [2], commit [1].']);
+    expect(onUpdate.mock.calls[1][0].sources).toEqual([source, other]);
+    expect(answer).toEqual({ content: 'Open Cursor [1], commit [2].', sources: [other, source] });
+  });
+
+  it('should keep the listed sources when the answer cites none', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream(['sources', [source]], ['token', 'No idea.'], ['done', { sources: [source] }])));
+
+    const answer = await requestChatAnswer({ message: 'q', history: [], language: 'en', context });
+    expect(answer).toEqual({ content: 'No idea.', sources: [source] });
+  });
+
+  it('should reject when the stream ends early', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream(['sources', [source]], ['token', 'Par'])));
+
+    await expect(requestChatAnswer({ message: 'q', history: [], language: 'en', context })).rejects.toThrow(
+      'Chat stream ended before the answer was complete'
+    );
+  });
+
+  it('should reject with the server error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream(['token', 'Par'], ['error', { message: 'Model is offline' }])));
+    await expect(requestChatAnswer({ message: 'q', history: [], language: 'en', context })).rejects.toThrow('Model is offline');
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => Response.json({ errors: [{ field: 'message', message: 'Message is required', code: 'REQUIRED' }] }, { status: 400 }))
+    );
+    await expect(requestChatAnswer({ message: '', history: [], language: 'en', context })).rejects.toThrow('Message is required');
+  });
+});
+
+describe('sendChatFeedback', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the rating', async () => {
+    const fetch = vi.fn(async () => Response.json({}, { status: 201 }));
+    vi.stubGlobal('fetch', fetch);
+
+    await sendChatFeedback({ conversationId: 'c1', messageId: 'm1', rating: 1, helpful: false, issue: 'unclear' });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/chat/feedback');
+    expect(JSON.parse(init.body as string)).toEqual({ conversationId: 'c1', messageId: 'm1', rating: 1, helpful: false, issue: 'unclear' });
+  });
+
+  it('should reject with the server error', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => Response.json({ errors: [{ field: 'rating', message: 'Rating must be a whole number from 1 to 5', code: 'INVALID_VALUE' }] }, { status: 400 }))
+    );
+    await expect(sendChatFeedback({ conversationId: 'c1', messageId: 'm1', rating: 5, helpful: true })).rejects.toThrow(
+      'Rating must be a whole number from 1 to 5'
+    );
+  });
+});
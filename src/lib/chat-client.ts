@@ -0,0 +1,103 @@
+/**
+ * Chat Client
+ *
+ * Browser side of `/api/chat`: sends a question with the conversation so
+ * far and reads the server-sent events into an answer as they arrive.
+ */
+
+import { readServerSentEvents } from './llm/sse';
+import { renumberCitations } from './chat-markdown';
+import type { ChatbotFeedback, ChatContext, ChatMessage, ChatSource } from '@/types/wiki-chatbot';
+
+export interface ChatRequestOptions {
+  message: string;
+  /** Earlier messages, oldest first. */
+  history: Pick<ChatMessage, 'role' | 'content'>[];
+  language: 'ar' | 'en';
+  context: ChatContext;
+  /** Groups the question with the rest of its conversation in the analytics. */
+  conversationId?: string;
+  signal?: AbortSignal;
+  /** Called with the answer so far as sources and tokens arrive. */
+  onUpdate?: (answer: ChatAnswer) => void;
+}
+
+export interface ChatAnswer {
+  content: string;
+  /** While streaming, every passage in the prompt, so `[n]` is `sources[n - 1]`. */
+  sources: ChatSource[];
+}
+
+async function responseError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.errors?.[0]?.message ?? `Chat request failed with status ${response.status}`);
+}
+
+/**
+ * Ask `/api/chat` and resolve with the whole answer and the sources it
+ * cites, its citations renumbered `[1]`, `[2]`, … in that order. Aborting
+ * `signal` stops the stream and rejects.
+ */
+export async function requestChatAnswer({
+  message,
+  history,
+  language,
+  context,
+  conversationId,
+  signal,
+  onUpdate,
+}: ChatRequestOptions): Promise<ChatAnswer> {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      message,
+      history: history.filter((m) => m.role !== 'system').map(({ role, content }) => ({ role, content })),
+      language,
+      context: {
+        userLevel: context.userLevel,
+        completedTutorials: context.completedTutorials,
+        viewedArticles: context.viewedArticles,
+        recentTopics: context.recentTopics,
+      },
+      conversationId,
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await responseError(response);
+  }
+
+  let content = '';
+  let sources: ChatSource[] = [];
+  for await (const event of readServerSentEvents(response.body)) {
+    const data = JSON.parse(event.data);
+    if (event.event === 'error') throw new Error(data.message);
+    if (event.event === 'done') {
+      const cited = renumberCitations(content, sources);
+      // An answer that cites nothing keeps the sources the server lists for it
+      return cited.sources.length > 0 ? cited : { content, sources: data.sources };
+    }
+    if (event.event === 'sources') sources = data;
+    if (event.event === 'token') content += data;
+    onUpdate?.({ content, sources });
+  }
+
+  throw new Error('Chat stream ended before the answer was complete');
+}
+
+/**
+ * Rate an answer through `/api/chat/feedback`
+ */
+export async function sendChatFeedback(feedback: Omit<ChatbotFeedback, 'timestamp'>): Promise<void> {
+  const response = await fetch('/api/chat/feedback', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(feedback),
+  });
+
+  if (!response.ok) {
+    throw await responseError(response);
+  }
+}
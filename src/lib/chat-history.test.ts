@@ -0,0 +1,136 @@
+/**
+ * Tests for Chat History
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createEmptyHistory,
+  exportConversation,
+  getConversationTitle,
+  loadChatHistory,
+  MAX_SAVED_CONVERSATIONS,
+  removeConversation,
+  saveChatHistory,
+  upsertConversation,
+} from '@/lib/chat-history';
+import { addMessage, createConversation } from '@/lib/wiki-chatbot-utils';
+import type { ChatConversation } from '@/types/wiki-chatbot';
+
+function conversation(id: string, question: string, lastActivity = new Date('2026-01-01T10:00:00Z')): ChatConversation {
+  const withMessages = addMessage(createConversation(id), 'user', question);
+  return { ...withMessages, startedAt: new Date('2026-01-01T09:00:00Z'), lastActivity };
+}
+
+describe('saveChatHistory and loadChatHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should round-trip conversations with their dates', () => {
+    const saved = upsertConversation(createEmptyHistory(), conversation('c1', 'What is Cursor?'));
+    saveChatHistory('user-1', saved);
+
+    const loaded = loadChatHistory('user-1');
+    expect(loaded.activeId).toBe('c1');
+    expect(loaded.conversations[0].lastActivity).toBeInstanceOf(Date);
+    expect(loaded.conversations[0].messages[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded.conversations[0].messages[0].content).toBe('What is Cursor?');
+  });
+
+  it('should keep each user separate', () => {
+    saveChatHistory('user-1', upsertConversation(createEmptyHistory(), conversation('c1', 'Hi')));
+
+    expect(loadChatHistory('user-2')).toEqual(createEmptyHistory());
+  });
+
+  it('should start empty when the stored value is corrupt', () => {
+    localStorage.setItem('vibe-wiki-chat-history:user-1', '{not json');
+
+    expect(loadChatHistory('user-1')).toEqual(createEmptyHistory());
+  });
+});
+
+describe('upsertConversation', () => {
+  it('should keep the most recent conversations first', () => {
+    let history = upsertConversation(createEmptyHistory(), conversation('old', 'a', new Date('2026-01-01')));
+    history = upsertConversation(history, conversation('new', 'b', new Date('2026-01-02')));
+    history = upsertConversation(history, conversation('old', 'a again', new Date('2026-01-03')));
+
+    expect(history.conversations.map((c) => c.id)).toEqual(['old', 'new']);
+    expect(history.activeId).toBe('old');
+  });
+
+  it('should not save empty conversations', () => {
+    const history = upsertConversation(createEmptyHistory(), createConversation('empty'));
+
+    expect(history.conversations).toEqual([]);
+    expect(history.activeId).toBe('empty');
+  });
+
+  it('should drop the oldest conversations past the limit', () => {
+    let history = createEmptyHistory();
+    for (let i = 0; i <= MAX_SAVED_CONVERSATIONS; i++) {
+      history = upsertConversation(history, conversation(`c${i}`, 'q', new Date(2026, 0, 1, i)));
+    }
+
+    expect(history.conversations).toHaveLength(MAX_SAVED_CONVERSATIONS);
+    expect(history.conversations.some((c) => c.id === 'c0')).toBe(false);
+  });
+});
+
+describe('removeConversation', () => {
+  it('should clear the active id when the active conversation is removed', () => {
+    let history = upsertConversation(createEmptyHistory(), conversation('c1', 'a'));
+    history = upsertConversation(history, conversation('c2', 'b'));
+
+    expect(removeConversation(history, 'c1')).toEqual({ conversations: [history.conversations[0]], activeId: 'c2' });
+    expect(removeConversation(history, 'c2').activeId).toBeNull();
+  });
+});
+
+describe('getConversationTitle', () => {
+  it('should use the first question, shortened', () => {
+    expect(getConversationTitle(conversation('c1', '  What is Cursor?  '))).toBe('What is Cursor?');
+    expect(getConversationTitle(conversation('c2', 'x'.repeat(100)))).toHaveLength(60);
+    expect(getConversationTitle(createConversation('empty'))).toBe('');
+  });
+});
+
+describe('exportConversation', () => {
+  it('should render messages and sources as Markdown', () => {
+    const answered = addMessage(conversation('c1', 'How do I commit?'), 'assistant', 'Stage, then commit [1].', [
+      {
+        type: 'article',
+        id: 'git-basics',
+        slug: 'git-basics',
+        title: 'Git Basics',
+        heading: 'Commits',
+        anchor: 'commits',
+        excerpt: '',
+        relevanceScore: 1,
+      },
+      { type: 'tutorial', id: 'git', slug: 'git', title: 'Git Tutorial', excerpt: '', relevanceScore: 0.5 },
+    ]);
+
+    expect(exportConversation(answered, 'https://vibe.wiki')).toBe(
+      [
+        '# How do I commit?',
+        '',
+        '_2026-01-01T09:00:00.000Z_',
+        '',
+        '**You:**',
+        '',
+        'How do I commit?',
+        '',
+        '**Assistant:**',
+        '',
+        'Stage, then commit [1].',
+        '',
+        'Sources:',
+        '1. [Git Basics › Commits](https://vibe.wiki/wiki/git-basics#commits)',
+        '2. [Git Tutorial](https://vibe.wiki/tutorials/git)',
+        '',
+      ].join('\n')
+    );
+  });
+});
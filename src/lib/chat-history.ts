@@ -0,0 +1,128 @@
+/**
+ * Chat History
+ *
+ * Saved assistant conversations, kept in localStorage per user id (see
+ * `generateUserId`) so they survive reloads, plus Markdown export.
+ */
+
+import type { ChatConversation, ChatMessage } from '@/types/wiki-chatbot';
+import { getChatSourceHref } from './wiki-chatbot-utils';
+
+const STORAGE_KEY_PREFIX = 'vibe-wiki-chat-history';
+
+/** Older conversations are dropped once there are more than this. */
+export const MAX_SAVED_CONVERSATIONS = 20;
+
+const TITLE_LENGTH = 60;
+
+export interface ChatHistory {
+  conversations: ChatConversation[];
+  activeId: string | null;
+}
+
+function storageKey(userId: string): string {
+  return `${STORAGE_KEY_PREFIX}:${userId}`;
+}
+
+export function createEmptyHistory(): ChatHistory {
+  return { conversations: [], activeId: null };
+}
+
+function reviveConversation(conversation: ChatConversation): ChatConversation {
+  return {
+    ...conversation,
+    startedAt: new Date(conversation.startedAt),
+    lastActivity: new Date(conversation.lastActivity),
+    messages: conversation.messages.map((message: ChatMessage) => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+    })),
+  };
+}
+
+/**
+ * Load a user's saved conversations from localStorage
+ */
+export function loadChatHistory(userId: string): ChatHistory {
+  if (typeof window === 'undefined') return createEmptyHistory();
+
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return createEmptyHistory();
+    const parsed = JSON.parse(stored) as ChatHistory;
+    return {
+      conversations: parsed.conversations.map(reviveConversation),
+      activeId: parsed.activeId,
+    };
+  } catch (error) {
+    console.error('Failed to load chat history:', error);
+    return createEmptyHistory();
+  }
+}
+
+/**
+ * Save a user's conversations to localStorage
+ */
+export function saveChatHistory(userId: string, history: ChatHistory): void {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to save chat history:', error);
+  }
+}
+
+/**
+ * Add or replace a conversation and make it the active one. Conversations
+ * are kept most recent first; empty ones are not saved.
+ */
+export function upsertConversation(history: ChatHistory, conversation: ChatConversation): ChatHistory {
+  const others = history.conversations.filter((c) => c.id !== conversation.id);
+  const conversations = conversation.messages.length > 0 ? [conversation, ...others] : others;
+
+  return {
+    conversations: conversations
+      .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
+      .slice(0, MAX_SAVED_CONVERSATIONS),
+    activeId: conversation.id,
+  };
+}
+
+/**
+ * Delete a conversation; the active one is cleared if it was deleted
+ */
+export function removeConversation(history: ChatHistory, conversationId: string): ChatHistory {
+  return {
+    conversations: history.conversations.filter((c) => c.id !== conversationId),
+    activeId: history.activeId === conversationId ? null : history.activeId,
+  };
+}
+
+/**
+ * Title for the history list: the first question, shortened
+ */
+export function getConversationTitle(conversation: ChatConversation): string {
+  const firstQuestion = conversation.messages.find((m) => m.role === 'user')?.content.trim() ?? '';
+  return firstQuestion.length > TITLE_LENGTH ? `${firstQuestion.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : firstQuestion;
+}
+
+/**
+ * Render a conversation as Markdown, with each answer's sources as links
+ */
+export function exportConversation(conversation: ChatConversation, siteUrl = ''): string {
+  const lines = [`# ${getConversationTitle(conversation) || 'Vibe Wiki chat'}`, '', `_${conversation.startedAt.toISOString()}_`];
+
+  for (const message of conversation.messages) {
+    if (message.role === 'system') continue;
+    lines.push('', `**${message.role === 'user' ? 'You' : 'Assistant'}:**`, '', message.content);
+
+    if (message.sources && message.sources.length > 0) {
+      lines.push('', 'Sources:');
+      message.sources.forEach((source, index) => {
+        const title = source.heading ? `${source.title} › ${source.heading}` : source.title;
+        lines.push(`${index + 1}. [${title}](${siteUrl}${getChatSourceHref(source)})`);
+      });
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for Chat Log
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonFileChatLogStore, MAX_LOGGED_QUERIES, MemoryChatLogStore } from '@/lib/chat-log';
+import type { ChatbotFeedback, ChatQueryRecord } from '@/types/wiki-chatbot';
+
+function queryRecord(id: string, overrides: Partial<ChatQueryRecord> = {}): ChatQueryRecord {
+  return {
+    id,
+    conversationId: 'c1',
+    query: 'How do I use Cursor?',
+    intent: 'explanation',
+    topics: ['Cursor'],
+    language: 'en',
+    resultCount: 3,
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+const feedback: ChatbotFeedback = {
+  conversationId: 'c1',
+  messageId: 'm1',
+  rating: 5,
+  helpful: true,
+  timestamp: new Date('2026-01-01T10:01:00Z'),
+};
+
+describe('MemoryChatLogStore', () => {
+  it('should record queries and feedback', () => {
+    const store = new MemoryChatLogStore();
+    store.recordQuery(queryRecord('q1'));
+    store.recordFeedback(feedback);
+
+    expect(store.snapshot()).toEqual({ queries: [queryRecord('q1')], feedback: [feedback] });
+  });
+
+  it('should replace an earlier rating of the same message', () => {
+    const store = new MemoryChatLogStore();
+    store.recordFeedback(feedback);
+    store.recordFeedback({ ...feedback, rating: 1, helpful: false, issue: 'unclear' });
+    store.recordFeedback({ ...feedback, messageId: 'm2' });
+
+    const { feedback: stored } = store.snapshot();
+    expect(stored).toHaveLength(2);
+    expect(stored.find((f) => f.messageId === 'm1')).toMatchObject({ rating: 1, issue: 'unclear' });
+  });
+
+  it('should drop the oldest queries beyond the limit', () => {
+    const store = new MemoryChatLogStore({
+      queries: Array.from({ length: MAX_LOGGED_QUERIES }, (_, i) => queryRecord(`q${i}`)),
+    });
+    store.recordQuery(queryRecord('latest'));
+
+    const { queries } = store.snapshot();
+    expect(queries).toHaveLength(MAX_LOGGED_QUERIES);
+    expect(queries[0].id).toBe('q1');
+    expect(queries.at(-1)?.id).toBe('latest');
+  });
+});
+
+describe('JsonFileChatLogStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chat-log-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist the log with its dates', () => {
+    const filePath = path.join(dir, 'nested', 'chat-log.json');
+    const store = new JsonFileChatLogStore(filePath);
+    store.recordQuery(queryRecord('q1'));
+    store.recordFeedback(feedback);
+
+    const reopened = new JsonFileChatLogStore(filePath).snapshot();
+    expect(reopened).toEqual({ queries: [queryRecord('q1')], feedback: [feedback] });
+    expect(reopened.queries[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should reject a file with an unknown version', () => {
+    const filePath = path.join(dir, 'chat-log.json');
+    fs.writeFileSync(filePath, JSON.stringify({ version: 99, queries: [], feedback: [] }));
+
+    expect(() => new JsonFileChatLogStore(filePath)).toThrow('Unsupported chat log version');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Chat Log
+ *
+ * Server-side record of what readers ask the assistant and how they rate
+ * its answers, aggregated by chatbot-analytics. Kept in memory, or in the
+ * JSON file named by `CHAT_LOG_FILE`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ChatbotFeedback, ChatQueryRecord } from '@/types/wiki-chatbot';
+
+const LOG_FORMAT_VERSION = 1;
+
+// Oldest records are dropped beyond this, so the log cannot grow without bound
+export const MAX_LOGGED_QUERIES = 5000;
+export const MAX_LOGGED_FEEDBACK = 5000;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export interface ChatLog {
+  queries: ChatQueryRecord[];
+  feedback: ChatbotFeedback[];
+}
+
+interface ChatLogFile extends ChatLog {
+  version: number;
+}
+
+/**
+ * Keeps the log in memory. Subclasses persist it by overriding `commit`,
+ * which runs after every change.
+ */
+export class MemoryChatLogStore {
+  private queries: ChatQueryRecord[];
+  private feedback: ChatbotFeedback[];
+
+  constructor(initial: Partial<ChatLog> = {}) {
+    this.queries = initial.queries ?? [];
+    this.feedback = initial.feedback ?? [];
+  }
+
+  recordQuery(record: ChatQueryRecord): void {
+    this.queries = [...this.queries, record].slice(-MAX_LOGGED_QUERIES);
+    this.commit();
+  }
+
+  /**
+   * Store a rating. Rating the same message again replaces the earlier one.
+   */
+  recordFeedback(feedback: ChatbotFeedback): void {
+    const others = this.feedback.filter(
+      (f) => f.conversationId !== feedback.conversationId || f.messageId !== feedback.messageId
+    );
+    this.feedback = [...others, feedback].slice(-MAX_LOGGED_FEEDBACK);
+    this.commit();
+  }
+
+  snapshot(): ChatLog {
+    return { queries: [...this.queries], feedback: [...this.feedback] };
+  }
+
+  protected commit(): void {}
+}
+
+function reviveDates(key: string, value: unknown): unknown {
+  return typeof value === 'string' && key === 'timestamp' && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+function readLogFile(filePath: string): Partial<ChatLog> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'), reviveDates) as Partial<ChatLogFile>;
+  if (data.version !== LOG_FORMAT_VERSION) {
+    throw new Error(`Unsupported chat log version in ${filePath}: ${data.version}`);
+  }
+  return data;
+}
+
+/**
+ * Persists the log to a JSON file, rewritten through a temporary file and
+ * a rename like the CMS JSON storage.
+ */
+export class JsonFileChatLogStore extends MemoryChatLogStore {
+  constructor(private readonly filePath: string) {
+    super(readLogFile(filePath));
+  }
+
+  protected commit(): void {
+    const data: ChatLogFile = { version: LOG_FORMAT_VERSION, ...this.snapshot() };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+let store: MemoryChatLogStore | null = null;
+
+/**
+ * The shared log: file-backed when `CHAT_LOG_FILE` is set, otherwise in memory.
+ */
+export function getChatLogStore(): MemoryChatLogStore {
+  if (!store) {
+    const filePath = process.env.CHAT_LOG_FILE;
+    store = filePath ? new JsonFileChatLogStore(filePath) : new MemoryChatLogStore();
+  }
+  return store;
+}
+
+export function resetChatLogStore(): void {
+  store = null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Tests for Chat Markdown
+ */
+
+import { describe, it, expect } from 'vitest';
+import { closeOpenFence, linkCitations, renumberCitations } from '@/lib/chat-markdown';
+import type { ChatSource } from '@/types/wiki-chatbot';
+
+function source(slug: string, overrides: Partial<ChatSource> = {}): ChatSource {
+  return { type: 'article', id: slug, slug, title: slug.toUpperCase(), excerpt: '', relevanceScore: 1, ...overrides };
+}
+
+const sources = [source('git', { heading: 'Commits', anchor: 'commits' }), source('cursor'), source('basics', { type: 'tutorial' })];
+
+describe('closeOpenFence', () => {
+  it('should close a fence the stream left open', () => {
+    expect(closeOpenFence('Run:\n```bash\nnpm i')).toBe('Run:\n```bash\nnpm i\n```');
+  });
+
+  it('should leave closed fences alone', () => {
+    const markdown = 'Run:\n```bash\nnpm i\n```\nDone';
+    expect(closeOpenFence(markdown)).toBe(markdown);
+  });
+});
+
+describe('renumberCitations', () => {
+  it('should keep the cited sources in citation order and renumber the markers', () => {
+    expect(renumberCitations('Use Cursor [2], then commit [1]. Cursor again [2].', sources)).toEqual({
+      content: 'Use Cursor [1], then commit [2]. Cursor again [1].',
+      sources: [sources[1], sources[0]],
+    });
+  });
+
+  it('should drop markers without a source and ignore code', () => {
+    expect(renumberCitations('See [7] and `arr[3]` [3]', sources)).toEqual({
+      content: 'See  and `arr[3]` [1]',
+      sources: [sources[2]],
+    });
+  });
+});
+
+describe('linkCitations', () => {
+  it('should link markers to the cited page and heading', () => {
+    expect(linkCitations('Commit often [1]. Try [3].', sources)).toBe(
+      'Commit often [\\[1\\]](</wiki/git#commits> "GIT › Commits"). Try [\\[3\\]](</tutorials/basics> "BASICS").'
+    );
+  });
+
+  it('should leave indexes, code, links and unknown markers as written', () => {
+    const markdown = 'items[1] is `a[1]`\n```js\nb[2]\n```\n[docs](https://x.dev) [9]';
+    expect(linkCitations(markdown, sources)).toBe(markdown);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Chat Markdown
+ *
+ * Prepares assistant answers for `MarkdownRenderer`: closes a code fence
+ * left open mid-stream, turns `[n]` citations into links to the cited
+ * passage, and renumbers them to match the sources kept with the answer.
+ */
+
+import { getChatSourceHref } from './wiki-chatbot-utils';
+import type { ChatSource } from '@/types/wiki-chatbot';
+
+// `[n]` not part of a word (`items[1]`) and not already link text or a
+// link reference definition
+const CITATION = /(?<![\p{L}\p{N}_])\[(\d+)\](?![(:])/gu;
+
+// Fenced blocks (possibly still open) and inline code, where `[n]` is literal
+const CODE = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+function mapOutsideCode(markdown: string, transform: (prose: string) => string): string {
+  return markdown
+    .split(CODE)
+    .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+    .join('');
+}
+
+/**
+ * Close a code fence the stream has opened but not yet closed, so the
+ * partial answer renders as code rather than as prose.
+ */
+export function closeOpenFence(markdown: string): string {
+  const fences = markdown.match(/^\s*(```|~~~)/gm)?.length ?? 0;
+  return fences % 2 === 1 ? `${markdown}\n\`\`\`` : markdown;
+}
+
+/**
+ * Keep the sources an answer cites, in the order they are first cited, and
+ * renumber its `[n]` markers to match. Markers with no source are dropped.
+ */
+export function renumberCitations(answer: string, sources: ChatSource[]): { content: string; sources: ChatSource[] } {
+  const numbers = new Map<number, number>();
+  const cited: ChatSource[] = [];
+
+  const content = mapOutsideCode(answer, (prose) =>
+    prose.replace(CITATION, (_, n: string) => {
+      const source = sources[Number(n) - 1];
+      if (!source) return '';
+      if (!numbers.has(Number(n))) {
+        cited.push(source);
+        numbers.set(Number(n), cited.length);
+      }
+      return `[${numbers.get(Number(n))}]`;
+    })
+  );
+
+  return { content, sources: cited };
+}
+
+/**
+ * Turn `[n]` into a Markdown link to `sources[n - 1]`, titled with the
+ * passage it cites. Markers with no source are left as text.
+ */
+export function linkCitations(markdown: string, sources: ChatSource[]): string {
+  return mapOutsideCode(markdown, (prose) =>
+    prose.replace(CITATION, (marker, n: string) => {
+      const source = sources[Number(n) - 1];
+      if (!source) return marker;
+      const title = (source.heading ? `${source.title} › ${source.heading}` : source.title).replace(/"/g, '\\"');
+      return `[\\[${n}\\]](<${getChatSourceHref(source)}> "${title}")`;
+    })
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for Chatbot Analytics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateChatbotAnalytics, getUnansweredQueries } from '@/lib/chatbot-analytics';
+import type { ChatbotFeedback, ChatQueryRecord } from '@/types/wiki-chatbot';
+
+let nextId = 0;
+
+function queryRecord(overrides: Partial<ChatQueryRecord> = {}): ChatQueryRecord {
+  return {
+    id: `q${nextId++}`,
+    conversationId: 'c1',
+    query: 'How do I use Cursor?',
+    intent: 'explanation',
+    topics: [],
+    language: 'en',
+    resultCount: 3,
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function rating(conversationId: string, messageId: string, helpful: boolean): ChatbotFeedback {
+  return { conversationId, messageId, rating: helpful ? 5 : 1, helpful, timestamp: new Date('2026-01-01T10:00:00Z') };
+}
+
+describe('getUnansweredQueries', () => {
+  it('should group questions without results, most asked first', () => {
+    const unanswered = getUnansweredQueries([
+      queryRecord({ query: 'What is Zed?', resultCount: 0, timestamp: new Date('2026-01-01T10:00:00Z') }),
+      queryRecord({ query: 'what is zed', resultCount: 0, timestamp: new Date('2026-01-02T10:00:00Z') }),
+      queryRecord({ query: 'Pricing of Bolt?', resultCount: 0 }),
+      queryRecord({ query: 'How do I use Cursor?', resultCount: 2 }),
+    ]);
+
+    expect(unanswered).toEqual([
+      { query: 'what is zed', count: 2, lastAskedAt: new Date('2026-01-02T10:00:00Z') },
+      { query: 'Pricing of Bolt?', count: 1, lastAskedAt: new Date('2026-01-01T10:00:00Z') },
+    ]);
+  });
+
+  it('should leave out greetings', () => {
+    expect(getUnansweredQueries([queryRecord({ query: 'مرحبا', intent: 'greeting', resultCount: 0 })])).toEqual([]);
+  });
+});
+
+describe('aggregateChatbotAnalytics', () => {
+  it('should summarize conversations, intents and topics', () => {
+    const analytics = aggregateChatbotAnalytics({
+      queries: [
+        queryRecord({ conversationId: 'c1', intent: 'comparison', topics: ['Cursor', 'Windsurf'] }),
+        queryRecord({ conversationId: 'c1', topics: ['Cursor', 'Cursor'] }),
+        queryRecord({ conversationId: 'c2', intent: 'greeting' }),
+      ],
+      feedback: [],
+    });
+
+    expect(analytics.totalConversations).toBe(2);
+    expect(analytics.totalMessages).toBe(3);
+    expect(analytics.averageMessagesPerConversation).toBe(1.5);
+    expect(analytics.intentDistribution).toMatchObject({ comparison: 1, explanation: 1, greeting: 1, navigation: 0 });
+    expect(analytics.topTopics).toEqual([
+      { topic: 'Cursor', count: 2 },
+      { topic: 'Windsurf', count: 1 },
+    ]);
+    expect(analytics.averageRating).toBeNull();
+  });
+
+  it('should count conversations where every rated answer helped', () => {
+    const analytics = aggregateChatbotAnalytics({
+      queries: [],
+      feedback: [rating('c1', 'm1', true), rating('c1', 'm2', true), rating('c2', 'm3', true), rating('c2', 'm4', false)],
+    });
+
+    expect(analytics.satisfiedUsers).toBe(1);
+    expect(analytics.averageRating).toBe(4);
+  });
+
+  it('should list unanswered queries', () => {
+    const analytics = aggregateChatbotAnalytics({ queries: [queryRecord({ query: 'What is Zed?', resultCount: 0 })], feedback: [] });
+
+    expect(analytics.unansweredQueries.map((item) => item.query)).toEqual(['What is Zed?']);
+  });
+});
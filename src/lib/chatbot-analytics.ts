@@ -0,0 +1,96 @@
+/**
+ * Chatbot Analytics
+ *
+ * Aggregates the chat log into `ChatbotAnalytics`: what readers ask about,
+ * how they rate the answers, and which questions found nothing in the wiki.
+ */
+
+import type { ChatLog } from './chat-log';
+import type { ChatbotAnalytics, ChatIntent, ChatQueryRecord, UnansweredQuery } from '@/types/wiki-chatbot';
+
+const INTENTS: ChatIntent[] = [
+  'navigation',
+  'explanation',
+  'comparison',
+  'recommendation',
+  'troubleshooting',
+  'learning_path',
+  'general',
+  'greeting',
+];
+
+const TOP_TOPICS = 10;
+const TOP_UNANSWERED = 50;
+
+// Questions differing only in case, spacing or final punctuation count as one
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, ' ').replace(/[?؟!.،,\s]+$/, '').trim();
+}
+
+/**
+ * Questions that retrieved no passages, most often asked first. Greetings
+ * are left out: they need no article.
+ */
+export function getUnansweredQueries(queries: ChatQueryRecord[], limit = TOP_UNANSWERED): UnansweredQuery[] {
+  const grouped = new Map<string, UnansweredQuery>();
+
+  for (const record of queries) {
+    if (record.resultCount > 0 || record.intent === 'greeting') continue;
+
+    const key = normalizeQuery(record.query);
+    const existing = grouped.get(key);
+    if (!existing) {
+      grouped.set(key, { query: record.query, count: 1, lastAskedAt: record.timestamp });
+    } else {
+      existing.count++;
+      if (record.timestamp > existing.lastAskedAt) {
+        existing.query = record.query;
+        existing.lastAskedAt = record.timestamp;
+      }
+    }
+  }
+
+  return Array.from(grouped.values())
+    .sort((a, b) => b.count - a.count || b.lastAskedAt.getTime() - a.lastAskedAt.getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Summarize the chat log
+ */
+export function aggregateChatbotAnalytics({ queries, feedback }: ChatLog): ChatbotAnalytics {
+  const intentDistribution = Object.fromEntries(INTENTS.map((intent) => [intent, 0])) as Record<ChatIntent, number>;
+  const topicCounts = new Map<string, number>();
+  const conversations = new Set<string>();
+
+  for (const record of queries) {
+    intentDistribution[record.intent]++;
+    if (record.conversationId) conversations.add(record.conversationId);
+    for (const topic of new Set(record.topics)) {
+      topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + 1);
+    }
+  }
+
+  // A conversation is satisfied when every answer rated in it was helpful
+  const helpfulByConversation = new Map<string, boolean>();
+  for (const f of feedback) {
+    helpfulByConversation.set(f.conversationId, (helpfulByConversation.get(f.conversationId) ?? true) && f.helpful);
+  }
+
+  const totalRating = feedback.reduce((sum, f) => sum + f.rating, 0);
+
+  return {
+    totalConversations: conversations.size,
+    totalMessages: queries.length,
+    averageMessagesPerConversation: conversations.size > 0 ? queries.length / conversations.size : 0,
+    intentDistribution,
+    topTopics: Array.from(topicCounts, ([topic, count]) => ({ topic, count }))
+      .sort((a, b) => b.count - a.count || a.topic.localeCompare(b.topic))
+      .slice(0, TOP_TOPICS),
+    satisfiedUsers: Array.from(helpfulByConversation.values()).filter(Boolean).length,
+    // The assistant has no hand-off to a person yet
+    escalatedToHuman: 0,
+    averageRating: feedback.length > 0 ? totalRating / feedback.length : null,
+    unansweredQueries: getUnansweredQueries(queries),
+  };
+}
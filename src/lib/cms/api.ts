@@ -0,0 +1,332 @@
+/**
+ * Shared helpers for the CMS route handlers under `src/app/api`. Every
+ * error response has the shape `{ errors: ValidationError[] }`.
+ */
+
+import { NextResponse } from 'next/server';
+import { Article, ArticleQueryOptions, ContentStatus, PaginatedResult, RevisionInfo, ValidationError } from './types';
+import { isValidDifficulty, isValidStatus } from './validation';
+import { isLive } from './scheduling';
+import { getInitializedContentService } from './data-loader';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const ORDER_BY_VALUES: NonNullable<ArticleQueryOptions['orderBy']>[] = [
+  'createdAt',
+  'updatedAt',
+  'publishedAt',
+  'order',
+  'title',
+];
+
+// `date | null` fields keep an explicit `null`, which clears the stored date
+type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'date | null' | 'string[]' | 'object[]' | 'object';
+
+export type FieldSchema = Record<string, FieldType>;
+
+export function errorResponse(status: number, errors: ValidationError[]): NextResponse {
+  return NextResponse.json({ errors }, { status });
+}
+
+export function notFound(resource: string, key: string): NextResponse {
+  return errorResponse(404, [{ field: 'id', message: `${resource} not found: ${key}`, code: 'NOT_FOUND' }]);
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+}
+
+/**
+ * True when the request carries the `CMS_API_TOKEN` bearer token.
+ */
+export function hasWriteAccess(request: Request): boolean {
+  const token = process.env.CMS_API_TOKEN;
+  return Boolean(token) && bearerToken(request) === token;
+}
+
+/**
+ * Writes are disabled unless `CMS_API_TOKEN` is set, and then need it as a
+ * bearer token. Returns the error response to send, or null to continue.
+ */
+export function requireWriteAccess(request: Request): NextResponse | null {
+  if (!process.env.CMS_API_TOKEN) {
+    return errorResponse(403, [{ field: 'authorization', message: 'The CMS write API is disabled', code: 'FORBIDDEN' }]);
+  }
+  if (!hasWriteAccess(request)) {
+    return errorResponse(401, [{ field: 'authorization', message: 'A valid bearer token is required', code: 'UNAUTHORIZED' }]);
+  }
+  return null;
+}
+
+/**
+ * Parse a JSON object body. Returns null when the body is not a JSON object.
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body: unknown = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function invalidBody(): NextResponse {
+  return errorResponse(400, [{ field: 'body', message: 'Request body must be a JSON object', code: 'INVALID_BODY' }]);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'object[]':
+      return Array.isArray(value) && value.every(item => item !== null && typeof item === 'object');
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'date | null':
+      return value === null || matchesType(value, 'date');
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Keep the fields listed in `schema` and check their JSON types. Unknown
+ * fields are dropped; `required` fields must be present.
+ */
+export function pickFields<T>(
+  body: Record<string, unknown>,
+  schema: FieldSchema,
+  required: string[] = []
+): { value: T; errors: ValidationError[] } {
+  const value: Record<string, unknown> = {};
+  const errors: ValidationError[] = [];
+
+  for (const [field, type] of Object.entries(schema)) {
+    const fieldValue = body[field];
+
+    if (fieldValue === undefined || (fieldValue === null && type !== 'date | null')) {
+      if (required.includes(field)) {
+        errors.push({ field, message: `${field} is required`, code: 'REQUIRED' });
+      }
+      continue;
+    }
+
+    if (!matchesType(fieldValue, type)) {
+      const expected =
+        type === 'date' ? 'an ISO 8601 date string' : type === 'date | null' ? 'an ISO 8601 date string or null' : `of type ${type}`;
+      errors.push({ field, message: `${field} must be ${expected}`, code: 'INVALID_TYPE' });
+      continue;
+    }
+
+    if (required.includes(field) && typeof fieldValue === 'string' && fieldValue.trim() === '') {
+      errors.push({ field, message: `${field} is required`, code: 'REQUIRED' });
+      continue;
+    }
+
+    // JSON has no dates: accept ISO 8601 strings
+    value[field] = (type === 'date' || type === 'date | null') && fieldValue !== null ? new Date(fieldValue as string) : fieldValue;
+  }
+
+  if (typeof value.status === 'string' && !isValidStatus(value.status)) {
+    errors.push({ field: 'status', message: `Unknown status: ${value.status}`, code: 'INVALID_VALUE' });
+  }
+  if (typeof value.difficulty === 'string' && !isValidDifficulty(value.difficulty)) {
+    errors.push({ field: 'difficulty', message: `Unknown difficulty: ${value.difficulty}`, code: 'INVALID_VALUE' });
+  }
+
+  return { value: value as T, errors };
+}
+
+export const ARTICLE_FIELDS: FieldSchema = {
+  slug: 'string',
+  title: 'string',
+  content: 'string',
+  excerpt: 'string',
+  section: 'string',
+  categoryId: 'string',
+  status: 'string',
+  difficulty: 'string',
+  authorId: 'string',
+  tags: 'string[]',
+  codeBlocks: 'object[]',
+  featured: 'boolean',
+  order: 'number',
+  publishAt: 'date',
+  unpublishAt: 'date',
+};
+
+export const ARTICLE_UPDATE_FIELDS: FieldSchema = {
+  ...ARTICLE_FIELDS,
+  publishAt: 'date | null',
+  unpublishAt: 'date | null',
+};
+
+export const CATEGORY_FIELDS: FieldSchema = {
+  name: 'string',
+  slug: 'string',
+  description: 'string',
+  parentId: 'string',
+  order: 'number',
+  icon: 'string',
+};
+
+export const TAG_FIELDS: FieldSchema = {
+  name: 'string',
+  slug: 'string',
+  color: 'string',
+};
+
+export const AUTHOR_FIELDS: FieldSchema = {
+  name: 'string',
+  avatar: 'string',
+  bio: 'string',
+  social: 'object',
+};
+
+function parseInteger(
+  params: URLSearchParams,
+  field: string,
+  errors: ValidationError[],
+  min: number,
+  max = Number.MAX_SAFE_INTEGER
+): number | undefined {
+  const raw = params.get(field);
+  if (raw === null) return undefined;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    errors.push({ field, message: `${field} must be an integer between ${min} and ${max}`, code: 'INVALID_VALUE' });
+    return undefined;
+  }
+  return value;
+}
+
+export function parsePagination(params: URLSearchParams, errors: ValidationError[]): { limit: number; offset: number } {
+  return {
+    limit: parseInteger(params, 'limit', errors, 1, MAX_LIMIT) ?? DEFAULT_LIMIT,
+    offset: parseInteger(params, 'offset', errors, 0) ?? 0,
+  };
+}
+
+/**
+ * Read every `ArticleQueryOptions` filter from the query string. `tags`
+ * may be repeated or comma-separated.
+ */
+export function parseArticleQuery(params: URLSearchParams): { options: ArticleQueryOptions; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const options: ArticleQueryOptions = parsePagination(params, errors);
+
+  const status = params.get('status');
+  if (status !== null) {
+    if (isValidStatus(status)) {
+      options.status = status as ArticleQueryOptions['status'];
+    } else {
+      errors.push({ field: 'status', message: `Unknown status: ${status}`, code: 'INVALID_VALUE' });
+    }
+  }
+
+  const difficulty = params.get('difficulty');
+  if (difficulty !== null) {
+    if (isValidDifficulty(difficulty)) {
+      options.difficulty = difficulty as ArticleQueryOptions['difficulty'];
+    } else {
+      errors.push({ field: 'difficulty', message: `Unknown difficulty: ${difficulty}`, code: 'INVALID_VALUE' });
+    }
+  }
+
+  const featured = params.get('featured');
+  if (featured !== null) {
+    if (featured === 'true' || featured === 'false') {
+      options.featured = featured === 'true';
+    } else {
+      errors.push({ field: 'featured', message: 'featured must be true or false', code: 'INVALID_VALUE' });
+    }
+  }
+
+  const orderBy = params.get('orderBy');
+  if (orderBy !== null) {
+    if ((ORDER_BY_VALUES as string[]).includes(orderBy)) {
+      options.orderBy = orderBy as ArticleQueryOptions['orderBy'];
+    } else {
+      errors.push({ field: 'orderBy', message: `orderBy must be one of ${ORDER_BY_VALUES.join(', ')}`, code: 'INVALID_VALUE' });
+    }
+  }
+
+  const orderDirection = params.get('orderDirection');
+  if (orderDirection !== null) {
+    if (orderDirection === 'asc' || orderDirection === 'desc') {
+      options.orderDirection = orderDirection;
+    } else {
+      errors.push({ field: 'orderDirection', message: 'orderDirection must be asc or desc', code: 'INVALID_VALUE' });
+    }
+  }
+
+  const tags = params.getAll('tags').flatMap(value => value.split(',')).map(tag => tag.trim()).filter(Boolean);
+  if (tags.length > 0) {
+    options.tags = tags;
+  }
+
+  for (const field of ['categoryId', 'authorId', 'search'] as const) {
+    const value = params.get(field);
+    if (value) {
+      options[field] = value;
+    }
+  }
+
+  return { options, errors };
+}
+
+export function paginate<T>(items: T[], { limit, offset }: { limit: number; offset: number }): PaginatedResult<T> {
+  const page = items.slice(offset, offset + limit);
+  return {
+    items: page,
+    total: items.length,
+    limit,
+    offset,
+    hasMore: offset + page.length < items.length,
+  };
+}
+
+/**
+ * Look up an article by slug. Without write access only published
+ * articles are visible, so drafts never leak through the public API.
+ */
+export function findVisibleArticle(request: Request, slug: string): Article | undefined {
+  const article = getInitializedContentService().getArticleBySlug(slug);
+  if (!article || (!isLive(article) && !hasWriteAccess(request))) {
+    return undefined;
+  }
+  return article;
+}
+
+export function readRevisionInfo(body: Record<string, unknown>): RevisionInfo {
+  return {
+    authorId: typeof body.authorId === 'string' ? body.authorId : undefined,
+    changeSummary: typeof body.changeSummary === 'string' ? body.changeSummary : undefined,
+  };
+}
+
+/**
+ * Shared handler for the publish, unpublish and archive routes.
+ */
+export function changeArticleStatus(request: Request, slug: string, status: ContentStatus): NextResponse {
+  const denied = requireWriteAccess(request);
+  if (denied) return denied;
+
+  const service = getInitializedContentService();
+  const article = service.getArticleBySlug(slug);
+  if (!article) return notFound('Article', slug);
+
+  const validation = service.validateUpdate(article.id, { status });
+  if (!validation.valid) return errorResponse(400, validation.errors);
+
+  return NextResponse.json(
+    status === 'published' ? service.publishArticle(article.id) : service.updateArticle(article.id, { status })
+  );
+}
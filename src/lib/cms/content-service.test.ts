@@ -1,11 +1,28 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { ContentService } from './content-service';
+import { MemoryStorageAdapter, StorageAdapter } from './storage';
+import { JsonFileStorageAdapter } from './json-file-storage';
 
-describe('ContentService', () => {
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cms-content-service-'));
+let fileCount = 0;
+
+const adapters: Array<[string, () => StorageAdapter]> = [
+  ['in-memory', () => new MemoryStorageAdapter()],
+  ['JSON file', () => new JsonFileStorageAdapter(path.join(tempDir, `content-${fileCount++}.json`))],
+];
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe.each(adapters)('ContentService (%s storage)', (_name, createStorage) => {
   let service: ContentService;
 
   beforeEach(() => {
-    service = new ContentService();
+    service = new ContentService({}, createStorage());
   });
 
   describe('Article CRUD', () => {
@@ -284,4 +301,193 @@ describe('ContentService', () => {
       );
     });
   });
+
+  describe('Revision History', () => {
+    const articleInput = {
+      slug: 'history',
+      title: 'History',
+      content: 'line one\nline two\nline three',
+      section: 'Test',
+      categoryId: 'cat-1',
+    };
+
+    it('records a revision for creation and every update', () => {
+      const created = service.createArticle(articleInput, { authorId: 'alice' });
+      service.updateArticle(created.id, { content: 'line one\nline 2\nline three' }, {
+        authorId: 'bob',
+        changeSummary: 'Fix numbering',
+      });
+      service.publishArticle(created.id);
+
+      const revisions = service.getRevisions(created.id);
+      expect(revisions.map(r => r.revision)).toEqual([1, 2, 3]);
+      expect(revisions[1]).toMatchObject({ authorId: 'bob', changeSummary: 'Fix numbering' });
+      expect(revisions[1].snapshot.content).toBe('line one\nline 2\nline three');
+      expect(revisions[0].snapshot.content).toBe(articleInput.content);
+      expect(revisions[2].snapshot.status).toBe('published');
+      expect(revisions[2].createdAt).toBeInstanceOf(Date);
+    });
+
+    it('diffs any two revisions line by line', () => {
+      const created = service.createArticle(articleInput);
+      service.updateArticle(created.id, { content: 'line one\nline 2\nline three\nline four' });
+
+      const diff = service.diffRevisions(created.id, 1, 2);
+      expect(diff.additions).toBe(2);
+      expect(diff.deletions).toBe(1);
+      expect(diff.lines.filter(l => l.type !== 'unchanged')).toEqual([
+        { type: 'removed', content: 'line two', oldLineNumber: 2 },
+        { type: 'added', content: 'line 2', newLineNumber: 2 },
+        { type: 'added', content: 'line four', newLineNumber: 4 },
+      ]);
+      expect(service.diffRevisions(created.id, 2, 1).additions).toBe(1);
+      expect(() => service.diffRevisions(created.id, 1, 5)).toThrow('Revision not found');
+    });
+
+    it('rolls back to a prior revision as a new revision', () => {
+      const created = service.createArticle(articleInput);
+      service.updateArticle(created.id, { title: 'Renamed', content: 'rewritten', difficulty: 'advanced' });
+
+      const restored = service.rollbackArticle(created.id, 1, { authorId: 'carol' });
+
+      expect(restored.title).toBe('History');
+      expect(restored.content).toBe(articleInput.content);
+      expect(restored.difficulty).toBeUndefined();
+      expect(restored.metadata.wordCount).toBe(created.metadata.wordCount);
+      expect(service.getRevisions(created.id).at(-1)).toMatchObject({
+        revision: 3,
+        authorId: 'carol',
+        changeSummary: 'Rolled back to revision 1',
+      });
+    });
+
+    it('removes revisions with the article', () => {
+      const created = service.createArticle(articleInput);
+      service.deleteArticle(created.id);
+
+      expect(service.getRevisions(created.id)).toEqual([]);
+    });
+  });
+
+  describe('Scheduled Publishing', () => {
+    const launch = new Date('2999-06-01T09:00:00Z');
+    const before = new Date('2999-05-31T09:00:00Z');
+    const after = new Date('2999-06-02T09:00:00Z');
+
+    const createScheduled = (unpublishAt?: Date) => {
+      const article = service.createArticle({
+        slug: 'cli-launch',
+        title: 'CLI Launch',
+        content: 'Announcing the new CLI tool.',
+        section: 'News',
+        categoryId: 'cat-1',
+      });
+      return service.scheduleArticle(article.id, launch, unpublishAt);
+    };
+
+    it('keeps scheduled articles out of published queries until publishAt', () => {
+      const scheduled = createScheduled();
+
+      expect(scheduled.status).toBe('scheduled');
+      expect(service.getPublishedArticles()).toEqual([]);
+      expect(service.queryArticles({ status: 'published', asOf: before }).items).toEqual([]);
+      expect(service.queryArticles({ status: 'scheduled', asOf: before }).items).toHaveLength(1);
+      expect(service.queryArticles({ status: 'published', asOf: after }).items).toHaveLength(1);
+    });
+
+    it('hides published articles after unpublishAt', () => {
+      createScheduled(after);
+
+      expect(service.queryArticles({ status: 'published', asOf: new Date('2999-06-01T12:00:00Z') }).total).toBe(1);
+      expect(service.queryArticles({ status: 'published', asOf: new Date('2999-06-03T00:00:00Z') }).total).toBe(0);
+    });
+
+    it('promotes due articles when the scheduler runs', () => {
+      const scheduled = createScheduled(after);
+
+      expect(service.runScheduler(before)).toEqual({ published: [], unpublished: [] });
+
+      const { published } = service.runScheduler(launch);
+      expect(published.map(a => a.slug)).toEqual(['cli-launch']);
+      expect(service.getArticle(scheduled.id)?.status).toBe('published');
+      expect(service.getArticle(scheduled.id)?.metadata.publishedAt).toBeDefined();
+      expect(service.getRevisions(scheduled.id).at(-1)?.changeSummary).toBe('Published on schedule');
+
+      const { unpublished } = service.runScheduler(new Date('2999-06-03T00:00:00Z'));
+      expect(unpublished.map(a => a.slug)).toEqual(['cli-launch']);
+      expect(service.getArticle(scheduled.id)).toMatchObject({ status: 'draft', unpublishAt: undefined });
+    });
+
+    it('drops the old unpublish date when rescheduled without one', () => {
+      const scheduled = createScheduled(after);
+      const rescheduled = service.scheduleArticle(scheduled.id, after);
+
+      expect(rescheduled).toMatchObject({ status: 'scheduled', publishAt: after, unpublishAt: undefined });
+      expect(service.queryArticles({ status: 'published', asOf: new Date('2999-06-03T00:00:00Z') }).total).toBe(1);
+    });
+
+    it('clears schedule dates set to null', () => {
+      const scheduled = createScheduled(after);
+
+      expect(service.updateArticle(scheduled.id, { unpublishAt: null }).unpublishAt).toBeUndefined();
+      expect(service.validateUpdate(scheduled.id, { publishAt: null }).errors).toEqual([
+        { field: 'publishAt', message: 'Scheduled articles need a publish date', code: 'REQUIRED' },
+      ]);
+      expect(service.updateArticle(scheduled.id, { status: 'draft', publishAt: null }).publishAt).toBeUndefined();
+    });
+
+    it('publishes a scheduled article now and forgets its publish date', () => {
+      const scheduled = createScheduled(after);
+      const published = service.publishArticle(scheduled.id);
+
+      expect(published).toMatchObject({ status: 'published', publishAt: undefined, unpublishAt: after });
+      expect(service.getPublishedArticles().map(a => a.slug)).toEqual(['cli-launch']);
+    });
+
+    it('drops a passed unpublish date when published again', () => {
+      const article = service.createArticle({
+        slug: 'embargo-over',
+        title: 'Embargo Over',
+        content: 'Back again.',
+        section: 'News',
+        categoryId: 'cat-1',
+        status: 'published',
+        unpublishAt: new Date('2000-01-01T00:00:00Z'),
+      });
+      expect(service.getPublishedArticles()).toEqual([]);
+
+      expect(service.publishArticle(article.id).unpublishAt).toBeUndefined();
+      expect(service.getPublishedArticles().map(a => a.slug)).toEqual(['embargo-over']);
+    });
+
+    it('rejects schedules without a valid range', () => {
+      const article = service.createArticle({
+        slug: 'bad-schedule',
+        title: 'Bad Schedule',
+        content: 'Content',
+        section: 'News',
+        categoryId: 'cat-1',
+      });
+
+      expect(() => service.scheduleArticle(article.id, launch, before)).toThrow('Unpublish date must be after');
+      expect(() => service.updateArticle(article.id, { status: 'scheduled' })).toThrow('Scheduled articles need');
+    });
+  });
+
+  describe('Transactions', () => {
+    it('keeps no writes from a failed transaction', () => {
+      const category = service.createCategory({ name: 'Kept', slug: 'kept', order: 0 });
+
+      expect(() =>
+        service.transaction(() => {
+          service.createTag({ name: 'Dropped', slug: 'dropped' });
+          service.updateCategory(category.id, { name: 'Renamed' });
+          throw new Error('abort');
+        })
+      ).toThrow('abort');
+
+      expect(service.getAllTags()).toEqual([]);
+      expect(service.getCategory(category.id)?.name).toBe('Kept');
+    });
+  });
 });
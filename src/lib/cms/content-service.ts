@@ -9,26 +9,111 @@ import {
   Category,
   Tag,
   Author,
+  ArticleRevision,
+  ArticleRevisionSnapshot,
+  RevisionDiff,
+  RevisionInfo,
+  ScheduleRunResult,
+  ValidationResult,
 } from './types';
 import { validateArticle, generateExcerpt, calculateWordCount, calculateReadingTime } from './validation';
+import { MemoryStorageAdapter, StorageAdapter } from './storage';
+import { diffLines } from './diff';
+import { getEffectiveStatus } from './scheduling';
 
 export class ContentService {
-  private articles: Map<string, Article> = new Map();
-  private categories: Map<string, Category> = new Map();
-  private tags: Map<string, Tag> = new Map();
-  private authors: Map<string, Author> = new Map();
   private config: CMSConfig;
+  private storage: StorageAdapter;
 
-  constructor(config: Partial<CMSConfig> = {}) {
+  constructor(config: Partial<CMSConfig> = {}, storage: StorageAdapter = new MemoryStorageAdapter()) {
     this.config = { ...DEFAULT_CMS_CONFIG, ...config };
+    this.storage = storage;
+  }
+
+  /**
+   * Run several writes as one unit: if `work` throws, none of them are kept.
+   */
+  transaction<T>(work: () => T): T {
+    return this.storage.transaction(work);
   }
 
   private generateId(): string {
     return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  createArticle(input: CreateArticleInput): Article {
+  private toSnapshot(article: Article): ArticleRevisionSnapshot {
+    return {
+      slug: article.slug,
+      title: article.title,
+      content: article.content,
+      excerpt: article.excerpt,
+      section: article.section,
+      categoryId: article.categoryId,
+      status: article.status,
+      difficulty: article.difficulty,
+      authorId: article.authorId,
+      tags: article.tags,
+      codeBlocks: article.codeBlocks,
+      featured: article.featured,
+      order: article.order,
+      publishAt: article.publishAt,
+      unpublishAt: article.unpublishAt,
+    };
+  }
+
+  private recordRevision(article: Article, info: RevisionInfo): ArticleRevision {
+    const previous = this.getRevisions(article.id);
+    const revision: ArticleRevision = Object.freeze({
+      id: this.generateId(),
+      articleId: article.id,
+      revision: (previous[previous.length - 1]?.revision ?? 0) + 1,
+      authorId: info.authorId ?? article.authorId,
+      changeSummary: info.changeSummary,
+      createdAt: article.metadata.updatedAt,
+      snapshot: Object.freeze(this.toSnapshot(article)),
+    });
+
+    this.storage.put('revisions', revision);
+    return revision;
+  }
+
+  /**
+   * Field rules from `validateArticle` plus slug uniqueness. `excludeId` is
+   * the article being updated, which may keep its own slug.
+   */
+  private validateInput(input: CreateArticleInput, excludeId?: string): ValidationResult {
     const validation = validateArticle(input, this.config);
+    const duplicate = this.getArticleBySlug(input.slug);
+
+    if (input.slug && duplicate && duplicate.id !== excludeId) {
+      validation.errors.push({
+        field: 'slug',
+        message: `Slug is already used by another article: ${input.slug}`,
+        code: 'DUPLICATE',
+      });
+    }
+
+    return { valid: validation.errors.length === 0, errors: validation.errors };
+  }
+
+  validateCreate(input: CreateArticleInput): ValidationResult {
+    return this.validateInput(input);
+  }
+
+  /**
+   * Validate an update without saving it, so callers can report every
+   * error instead of catching the first thrown one.
+   */
+  validateUpdate(id: string, input: UpdateArticleInput): ValidationResult {
+    const existing = this.storage.get('articles', id);
+    if (!existing) {
+      throw new Error(`Article not found: ${id}`);
+    }
+    return this.validateInput(this.mergeUpdate(existing, input), id);
+  }
+
+  createArticle(input: CreateArticleInput, info: RevisionInfo = {}): Article {
+    const validation = this.validateInput(input);
     if (!validation.valid) {
       throw new Error(`Validation failed: ${validation.errors.map((e: { message: string }) => e.message).join(', ')}`);
     }
@@ -51,7 +136,9 @@ export class ContentService {
       tags: input.tags || [],
       codeBlocks: input.codeBlocks || [],
       featured: input.featured || false,
-      order: input.order ?? this.articles.size,
+      order: input.order ?? this.storage.count('articles'),
+      publishAt: input.publishAt,
+      unpublishAt: input.unpublishAt,
       metadata: {
         createdAt: now,
         updatedAt: now,
@@ -63,25 +150,35 @@ export class ContentService {
       },
     };
 
-    this.articles.set(article.id, article);
+    this.storage.transaction(() => {
+      this.storage.put('articles', article);
+      this.recordRevision(article, info);
+    });
     return article;
   }
 
   getArticle(id: string): Article | undefined {
-    return this.articles.get(id);
+    return this.storage.get('articles', id);
   }
 
   getArticleBySlug(slug: string): Article | undefined {
-    return Array.from(this.articles.values()).find(a => a.slug === slug);
+    return this.storage.list('articles').find(a => a.slug === slug);
   }
 
-  updateArticle(id: string, input: UpdateArticleInput): Article {
-    const existing = this.articles.get(id);
+  /**
+   * Apply `input` and record the result as a new revision.
+   */
+  updateArticle(id: string, input: UpdateArticleInput, info: RevisionInfo = {}): Article {
+    const existing = this.storage.get('articles', id);
     if (!existing) {
       throw new Error(`Article not found: ${id}`);
     }
 
-    const merged: CreateArticleInput = {
+    return this.saveArticle(existing, this.mergeUpdate(existing, input), info);
+  }
+
+  private mergeUpdate(existing: Article, input: UpdateArticleInput): CreateArticleInput {
+    return {
       slug: input.slug ?? existing.slug,
       title: input.title ?? existing.title,
       content: input.content ?? existing.content,
@@ -95,15 +192,19 @@ export class ContentService {
       codeBlocks: input.codeBlocks ?? existing.codeBlocks,
       featured: input.featured ?? existing.featured,
       order: input.order ?? existing.order,
+      publishAt: input.publishAt === null ? undefined : input.publishAt ?? existing.publishAt,
+      unpublishAt: input.unpublishAt === null ? undefined : input.unpublishAt ?? existing.unpublishAt,
     };
+  }
 
-    const validation = validateArticle(merged, this.config);
+  private saveArticle(existing: Article, merged: CreateArticleInput, info: RevisionInfo): Article {
+    const validation = this.validateInput(merged, existing.id);
     if (!validation.valid) {
       throw new Error(`Validation failed: ${validation.errors.map((e: { message: string }) => e.message).join(', ')}`);
     }
 
     const now = new Date();
-    const contentChanged = input.content !== undefined && input.content !== existing.content;
+    const contentChanged = merged.content !== existing.content;
     const wasPublished = existing.status === 'published';
     const nowPublished = merged.status === 'published';
 
@@ -123,19 +224,85 @@ export class ContentService {
       },
     };
 
-    this.articles.set(id, updated);
+    this.storage.transaction(() => {
+      this.storage.put('articles', updated);
+      this.recordRevision(updated, info);
+    });
     return updated;
   }
 
   deleteArticle(id: string): boolean {
-    return this.articles.delete(id);
+    return this.storage.transaction(() => {
+      this.getRevisions(id).forEach(revision => this.storage.delete('revisions', revision.id));
+      return this.storage.delete('articles', id);
+    });
+  }
+
+  /**
+   * All revisions of an article, oldest first.
+   */
+  getRevisions(articleId: string): ArticleRevision[] {
+    return this.storage
+      .list('revisions')
+      .filter(r => r.articleId === articleId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  getRevision(articleId: string, revision: number): ArticleRevision | undefined {
+    return this.getRevisions(articleId).find(r => r.revision === revision);
+  }
+
+  private requireRevision(articleId: string, revision: number): ArticleRevision {
+    const found = this.getRevision(articleId, revision);
+    if (!found) {
+      throw new Error(`Revision not found: ${articleId}@${revision}`);
+    }
+    return found;
+  }
+
+  /**
+   * Line-level diff of the content of two revisions, in either order.
+   */
+  diffRevisions(articleId: string, fromRevision: number, toRevision: number): RevisionDiff {
+    const from = this.requireRevision(articleId, fromRevision);
+    const to = this.requireRevision(articleId, toRevision);
+    const lines = diffLines(from.snapshot.content, to.snapshot.content);
+
+    return {
+      articleId,
+      fromRevision,
+      toRevision,
+      lines,
+      additions: lines.filter(line => line.type === 'added').length,
+      deletions: lines.filter(line => line.type === 'removed').length,
+    };
+  }
+
+  /**
+   * Restore the article to an earlier revision. History is kept: the
+   * rollback itself is recorded as a new revision.
+   */
+  rollbackArticle(id: string, revision: number, info: RevisionInfo = {}): Article {
+    const existing = this.storage.get('articles', id);
+    if (!existing) {
+      throw new Error(`Article not found: ${id}`);
+    }
+    const target = this.requireRevision(id, revision);
+
+    return this.saveArticle(existing, { ...target.snapshot }, {
+      authorId: info.authorId,
+      changeSummary: info.changeSummary ?? `Rolled back to revision ${revision}`,
+    });
   }
 
   queryArticles(options: ArticleQueryOptions = {}): PaginatedResult<Article> {
-    let results = Array.from(this.articles.values());
+    let results = this.storage.list('articles');
 
     if (options.status) {
-      results = results.filter(a => a.status === options.status);
+      // Compare scheduled statuses as of now, so an article never shows up
+      // as published before its publishAt or after its unpublishAt.
+      const asOf = options.asOf ?? new Date();
+      results = results.filter(a => getEffectiveStatus(a, asOf) === options.status);
     }
 
     if (options.categoryId) {
@@ -238,7 +405,7 @@ export class ContentService {
   }
 
   getAllArticles(): Article[] {
-    return Array.from(this.articles.values());
+    return this.storage.list('articles');
   }
 
   getPublishedArticles(): Article[] {
@@ -250,38 +417,40 @@ export class ContentService {
       ...category,
       id: this.generateId(),
     };
-    this.categories.set(newCategory.id, newCategory);
+    this.storage.put('categories', newCategory);
     return newCategory;
   }
 
   getCategory(id: string): Category | undefined {
-    return this.categories.get(id);
+    return this.storage.get('categories', id);
   }
 
   getCategoryBySlug(slug: string): Category | undefined {
-    return Array.from(this.categories.values()).find(c => c.slug === slug);
+    return this.storage.list('categories').find(c => c.slug === slug);
   }
 
   getAllCategories(): Category[] {
-    return Array.from(this.categories.values()).sort((a, b) => a.order - b.order);
+    return this.storage.list('categories').sort((a, b) => a.order - b.order);
   }
 
   updateCategory(id: string, updates: Partial<Omit<Category, 'id'>>): Category {
-    const existing = this.categories.get(id);
+    const existing = this.storage.get('categories', id);
     if (!existing) {
       throw new Error(`Category not found: ${id}`);
     }
     const updated = { ...existing, ...updates };
-    this.categories.set(id, updated);
+    this.storage.put('categories', updated);
     return updated;
   }
 
   deleteCategory(id: string): boolean {
-    const hasArticles = Array.from(this.articles.values()).some(a => a.categoryId === id);
-    if (hasArticles) {
-      throw new Error('Cannot delete category with associated articles');
-    }
-    return this.categories.delete(id);
+    return this.storage.transaction(() => {
+      const hasArticles = this.storage.list('articles').some(a => a.categoryId === id);
+      if (hasArticles) {
+        throw new Error('Cannot delete category with associated articles');
+      }
+      return this.storage.delete('categories', id);
+    });
   }
 
   createTag(tag: Omit<Tag, 'id'>): Tag {
@@ -289,24 +458,24 @@ export class ContentService {
       ...tag,
       id: this.generateId(),
     };
-    this.tags.set(newTag.id, newTag);
+    this.storage.put('tags', newTag);
     return newTag;
   }
 
   getTag(id: string): Tag | undefined {
-    return this.tags.get(id);
+    return this.storage.get('tags', id);
   }
 
   getTagBySlug(slug: string): Tag | undefined {
-    return Array.from(this.tags.values()).find(t => t.slug === slug);
+    return this.storage.list('tags').find(t => t.slug === slug);
   }
 
   getAllTags(): Tag[] {
-    return Array.from(this.tags.values());
+    return this.storage.list('tags');
   }
 
   deleteTag(id: string): boolean {
-    return this.tags.delete(id);
+    return this.storage.delete('tags', id);
   }
 
   createAuthor(author: Omit<Author, 'id'>): Author {
@@ -314,28 +483,40 @@ export class ContentService {
       ...author,
       id: this.generateId(),
     };
-    this.authors.set(newAuthor.id, newAuthor);
+    this.storage.put('authors', newAuthor);
     return newAuthor;
   }
 
   getAuthor(id: string): Author | undefined {
-    return this.authors.get(id);
+    return this.storage.get('authors', id);
   }
 
   getAllAuthors(): Author[] {
-    return Array.from(this.authors.values());
+    return this.storage.list('authors');
   }
 
   deleteAuthor(id: string): boolean {
-    const hasArticles = Array.from(this.articles.values()).some(a => a.authorId === id);
-    if (hasArticles) {
-      throw new Error('Cannot delete author with associated articles');
-    }
-    return this.authors.delete(id);
+    return this.storage.transaction(() => {
+      const hasArticles = this.storage.list('articles').some(a => a.authorId === id);
+      if (hasArticles) {
+        throw new Error('Cannot delete author with associated articles');
+      }
+      return this.storage.delete('authors', id);
+    });
   }
 
-  publishArticle(id: string): Article {
-    return this.updateArticle(id, { status: 'published' });
+  /**
+   * Publish now. The publish date is dropped, and so is an unpublish date
+   * that has already passed, so the article does not go straight back to draft.
+   */
+  publishArticle(id: string, info: RevisionInfo = {}): Article {
+    const existing = this.storage.get('articles', id);
+    if (!existing) {
+      throw new Error(`Article not found: ${id}`);
+    }
+
+    const expired = existing.unpublishAt !== undefined && existing.unpublishAt.getTime() <= Date.now();
+    return this.updateArticle(id, { status: 'published', publishAt: null, unpublishAt: expired ? null : undefined }, info);
   }
 
   unpublishArticle(id: string): Article {
@@ -346,6 +527,47 @@ export class ContentService {
     return this.updateArticle(id, { status: 'archived' });
   }
 
+  /**
+   * Line an article up for release at `publishAt`, optionally taking it
+   * down again at `unpublishAt`. An earlier unpublish date is dropped
+   * unless a new one is given. `runScheduler` makes the change stick.
+   */
+  scheduleArticle(id: string, publishAt: Date, unpublishAt?: Date | null, info: RevisionInfo = {}): Article {
+    return this.updateArticle(id, { status: 'scheduled', publishAt, unpublishAt: unpublishAt ?? null }, info);
+  }
+
+  /**
+   * Publish scheduled articles whose `publishAt` has passed and unpublish
+   * articles whose `unpublishAt` has passed, in one transaction.
+   */
+  runScheduler(now: Date = new Date()): ScheduleRunResult {
+    return this.storage.transaction(() => {
+      const result: ScheduleRunResult = { published: [], unpublished: [] };
+
+      for (const article of this.storage.list('articles')) {
+        const status = getEffectiveStatus(article, now);
+        if (status === article.status) continue;
+
+        if (status === 'published') {
+          result.published.push(
+            this.saveArticle(article, this.mergeUpdate(article, { status }), { changeSummary: 'Published on schedule' })
+          );
+        } else {
+          // Clear the expired date so a later manual publish sticks
+          result.unpublished.push(
+            this.saveArticle(
+              article,
+              { ...this.mergeUpdate(article, { status }), unpublishAt: undefined },
+              { changeSummary: 'Unpublished on schedule' }
+            )
+          );
+        }
+      }
+
+      return result;
+    });
+  }
+
   getArticlesByCategory(categoryId: string): Article[] {
     return this.queryArticles({ categoryId }).items;
   }
@@ -367,7 +589,7 @@ export class ContentService {
   }
 
   getArticleCount(): number {
-    return this.articles.size;
+    return this.storage.count('articles');
   }
 
   getPublishedArticleCount(): number {
@@ -384,6 +606,6 @@ export function getContentService(): ContentService {
   return defaultService;
 }
 
-export function createContentService(config?: Partial<CMSConfig>): ContentService {
-  return new ContentService(config);
+export function createContentService(config?: Partial<CMSConfig>, storage?: StorageAdapter): ContentService {
+  return new ContentService(config, storage);
 }
@@ -0,0 +1,39 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ContentService } from './content-service';
+import { MemoryStorageAdapter } from './storage';
+import { initializeContentFromWikiData, resetContentService, seedFromWikiData } from './data-loader';
+import { wikiContent } from '@/data/wiki-content';
+
+const wikiArticleCount = wikiContent.reduce((count, section) => count + section.articles.length, 0);
+
+describe('seedFromWikiData', () => {
+  afterEach(() => {
+    resetContentService();
+  });
+
+  it('seeds an empty store with every wiki section and article', () => {
+    const service = new ContentService({}, new MemoryStorageAdapter());
+    seedFromWikiData(service);
+
+    expect(service.getAllCategories()).toHaveLength(wikiContent.length);
+    expect(service.getArticleCount()).toBe(wikiArticleCount);
+    expect(service.queryArticles({ status: 'published' }).total).toBe(wikiArticleCount);
+  });
+
+  it('leaves a store that already has articles untouched', () => {
+    const storage = new MemoryStorageAdapter();
+    const service = new ContentService({}, storage);
+    service.createArticle({
+      slug: 'edited',
+      title: 'Edited Article',
+      content: 'Saved by an editor.',
+      section: 'Edits',
+      categoryId: 'cat-1',
+    });
+
+    const initialized = initializeContentFromWikiData(storage);
+
+    expect(initialized.getArticleCount()).toBe(1);
+    expect(initialized.getArticleBySlug('edited')?.title).toBe('Edited Article');
+  });
+});
@@ -1,6 +1,8 @@
 import { wikiContent, WikiArticle, WikiSection } from '@/data/wiki-content';
 import { ContentService, Article } from '@/lib/cms';
 import { calculateReadingTime, calculateWordCount, generateExcerpt } from '@/lib/cms/validation';
+import { MemoryStorageAdapter, StorageAdapter } from '@/lib/cms/storage';
+import { JsonFileStorageAdapter } from '@/lib/cms/json-file-storage';
 
 let initializedService: ContentService | null = null;
 
@@ -20,7 +22,8 @@ function convertWikiArticleToArticle(
     section: wikiArticle.section,
     categoryId,
     status: 'published',
-    tags: [],
+    difficulty: wikiArticle.difficulty,
+    tags: wikiArticle.tags ?? [],
     codeBlocks: wikiArticle.codeBlocks?.map(cb => ({
       language: cb.language,
       code: cb.code,
@@ -40,48 +43,73 @@ function convertWikiArticleToArticle(
   };
 }
 
-export function initializeContentFromWikiData(): ContentService {
-  if (initializedService) {
-    return initializedService;
+/**
+ * Storage for the shared service: a JSON file when `CMS_STORAGE_FILE` is
+ * set, otherwise memory.
+ */
+export function createDefaultStorage(): StorageAdapter {
+  const filePath = process.env.CMS_STORAGE_FILE;
+  return filePath ? new JsonFileStorageAdapter(filePath) : new MemoryStorageAdapter();
+}
+
+/**
+ * Seed an empty store with the wiki articles, in a single transaction.
+ * A store that already has articles is left untouched, so edits saved to
+ * persistent storage survive restarts.
+ */
+export function seedFromWikiData(service: ContentService): void {
+  if (service.getArticleCount() > 0) {
+    return;
   }
 
-  const service = new ContentService();
-  let globalArticleOrder = 0;
+  service.transaction(() => {
+    let globalArticleOrder = 0;
 
-  wikiContent.forEach((section: WikiSection, sectionIndex: number) => {
-    const category = service.createCategory({
-      name: section.name,
-      slug: section.name
-        .toLowerCase()
-        .replace(/[^\w\s-]/g, '')
-        .replace(/\s+/g, '-')
-        .replace(/-+/g, '-')
-        .substring(0, 50),
-      order: sectionIndex,
-    });
+    wikiContent.forEach((section: WikiSection, sectionIndex: number) => {
+      const category = service.createCategory({
+        name: section.name,
+        slug: section.name
+          .toLowerCase()
+          .replace(/[^\w\s-]/g, '')
+          .replace(/\s+/g, '-')
+          .replace(/-+/g, '-')
+          .substring(0, 50),
+        order: sectionIndex,
+      });
 
-    section.articles.forEach((wikiArticle: WikiArticle) => {
-      const articleData = convertWikiArticleToArticle(
-        wikiArticle, 
-        category.id, 
-        globalArticleOrder++
-      );
+      section.articles.forEach((wikiArticle: WikiArticle) => {
+        const articleData = convertWikiArticleToArticle(
+          wikiArticle, 
+          category.id, 
+          globalArticleOrder++
+        );
       
-      service.createArticle({
-        slug: articleData.slug,
-        title: articleData.title,
-        content: articleData.content,
-        excerpt: articleData.excerpt,
-        section: articleData.section,
-        categoryId: articleData.categoryId,
-        status: articleData.status,
-        tags: articleData.tags,
-        codeBlocks: articleData.codeBlocks,
-        featured: articleData.featured,
-        order: articleData.order,
+        service.createArticle({
+          slug: articleData.slug,
+          title: articleData.title,
+          content: articleData.content,
+          excerpt: articleData.excerpt,
+          section: articleData.section,
+          categoryId: articleData.categoryId,
+          status: articleData.status,
+          difficulty: articleData.difficulty,
+          tags: articleData.tags,
+          codeBlocks: articleData.codeBlocks,
+          featured: articleData.featured,
+          order: articleData.order,
+        });
       });
     });
   });
+}
+
+export function initializeContentFromWikiData(storage?: StorageAdapter): ContentService {
+  if (initializedService) {
+    return initializedService;
+  }
+
+  const service = new ContentService({}, storage ?? createDefaultStorage());
+  seedFromWikiData(service);
 
   initializedService = service;
   return service;
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks identical texts as unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'unchanged', content: 'a', oldLineNumber: 1, newLineNumber: 1 },
+      { type: 'unchanged', content: 'b', oldLineNumber: 2, newLineNumber: 2 },
+    ]);
+  });
+
+  it('keeps the longest common run of lines', () => {
+    const lines = diffLines('a\nb\nc\nd', 'a\nc\nd\ne');
+
+    expect(lines.map(l => `${l.type[0]} ${l.content}`)).toEqual(['u a', 'r b', 'u c', 'u d', 'a e']);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', 'new')).toEqual([{ type: 'added', content: 'new', newLineNumber: 1 }]);
+    expect(diffLines('old', '')).toEqual([{ type: 'removed', content: 'old', oldLineNumber: 1 }]);
+  });
+});
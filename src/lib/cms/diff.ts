@@ -0,0 +1,42 @@
+import { DiffLine } from './types';
+
+/**
+ * Line-level diff of two texts, based on their longest common subsequence.
+ * Removed lines come before the lines that replace them.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText === '' ? [] : oldText.split('\n');
+  const newLines = newText === '' ? [] : newText.split('\n');
+  const rows = oldLines.length + 1;
+  const cols = newLines.length + 1;
+
+  // common[i * cols + j] = LCS length of oldLines[i..] and newLines[j..]
+  const common = new Uint32Array(rows * cols);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i * cols + j] = oldLines[i] === newLines[j]
+        ? common[(i + 1) * cols + j + 1] + 1
+        : Math.max(common[(i + 1) * cols + j], common[i * cols + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push({ type: 'unchanged', content: oldLines[i], oldLineNumber: i + 1, newLineNumber: j + 1 });
+      i++;
+      j++;
+    } else if (j >= newLines.length || (i < oldLines.length && common[(i + 1) * cols + j] >= common[i * cols + j + 1])) {
+      lines.push({ type: 'removed', content: oldLines[i], oldLineNumber: i + 1 });
+      i++;
+    } else {
+      lines.push({ type: 'added', content: newLines[j], newLineNumber: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
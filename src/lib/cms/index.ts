@@ -1,4 +1,14 @@
 export * from './types';
 export * from './validation';
+export * from './storage';
+export { diffLines } from './diff';
+export { getEffectiveStatus, isLive } from './scheduling';
+export { JsonFileStorageAdapter } from './json-file-storage';
 export { ContentService, getContentService, createContentService } from './content-service';
-export { initializeContentFromWikiData, getInitializedContentService, resetContentService } from './data-loader';
+export {
+  initializeContentFromWikiData,
+  getInitializedContentService,
+  resetContentService,
+  seedFromWikiData,
+  createDefaultStorage,
+} from './data-loader';
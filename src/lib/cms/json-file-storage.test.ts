@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentService } from './content-service';
+import { JsonFileStorageAdapter } from './json-file-storage';
+
+describe('JsonFileStorageAdapter', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cms-json-storage-'));
+    filePath = path.join(tempDir, 'nested', 'content.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('persists records across instances and restores dates', () => {
+    const service = new ContentService({}, new JsonFileStorageAdapter(filePath));
+    const category = service.createCategory({ name: 'Basics', slug: 'basics', order: 0 });
+    const article = service.createArticle({
+      slug: 'saved',
+      title: 'Saved Article',
+      content: 'Content that should survive a restart.',
+      section: 'Basics',
+      categoryId: category.id,
+      status: 'published',
+    });
+
+    const reloaded = new ContentService({}, new JsonFileStorageAdapter(filePath));
+    const restored = reloaded.getArticle(article.id);
+
+    expect(restored?.title).toBe('Saved Article');
+    expect(restored?.metadata.createdAt).toBeInstanceOf(Date);
+    expect(restored?.metadata.publishedAt?.getTime()).toBe(article.metadata.publishedAt?.getTime());
+    expect(reloaded.getCategoryBySlug('basics')?.id).toBe(category.id);
+  });
+
+  it('writes the file once per transaction and not at all on failure', () => {
+    const storage = new JsonFileStorageAdapter(filePath);
+    const service = new ContentService({}, storage);
+    service.createTag({ name: 'Kept', slug: 'kept' });
+    const before = fs.readFileSync(filePath, 'utf8');
+
+    expect(() =>
+      service.transaction(() => {
+        service.createTag({ name: 'Dropped', slug: 'dropped' });
+        throw new Error('abort');
+      })
+    ).toThrow('abort');
+
+    expect(fs.readFileSync(filePath, 'utf8')).toBe(before);
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['content.json']);
+  });
+
+  it('rejects files written in an unknown format', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ version: 99, articles: [] }));
+
+    expect(() => new JsonFileStorageAdapter(filePath)).toThrow('Unsupported CMS storage version');
+  });
+});
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import path from 'path';
+import { CMSSnapshot, MemoryStorageAdapter } from './storage';
+
+const STORAGE_FORMAT_VERSION = 1;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+interface StorageFile extends CMSSnapshot {
+  version: number;
+}
+
+// Dates are stored as ISO strings under keys such as `createdAt`
+function reviveDates(key: string, value: unknown): unknown {
+  return typeof value === 'string' && key.endsWith('At') && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+function readStorageFile(filePath: string): Partial<CMSSnapshot> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'), reviveDates) as Partial<StorageFile>;
+  if (data.version !== STORAGE_FORMAT_VERSION) {
+    throw new Error(`Unsupported CMS storage version in ${filePath}: ${data.version}`);
+  }
+  return data;
+}
+
+/**
+ * Persists the CMS to a single JSON file. Records are served from memory;
+ * every committed transaction rewrites the file through a temporary file
+ * and a rename, so a crash mid-write never leaves a half-written file.
+ */
+export class JsonFileStorageAdapter extends MemoryStorageAdapter {
+  constructor(private readonly filePath: string) {
+    super(readStorageFile(filePath));
+  }
+
+  protected commit(): void {
+    const data: StorageFile = { version: STORAGE_FORMAT_VERSION, ...this.snapshot() };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
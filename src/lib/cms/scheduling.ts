@@ -0,0 +1,27 @@
+import { Article, ContentStatus } from './types';
+
+type ScheduledFields = Pick<Article, 'status' | 'publishAt' | 'unpublishAt'>;
+
+function isDue(date: Date | undefined, now: Date): boolean {
+  return date !== undefined && date.getTime() <= now.getTime();
+}
+
+/**
+ * The status an article has at `now` once its schedule is applied: a
+ * scheduled article is published from `publishAt`, and a published one
+ * falls back to draft from `unpublishAt`. Used by queries so visibility
+ * never depends on when the scheduler last ran.
+ */
+export function getEffectiveStatus(article: ScheduledFields, now: Date = new Date()): ContentStatus {
+  if (article.status === 'scheduled' && isDue(article.publishAt, now)) {
+    return isDue(article.unpublishAt, now) ? 'draft' : 'published';
+  }
+  if (article.status === 'published' && isDue(article.unpublishAt, now)) {
+    return 'draft';
+  }
+  return article.status;
+}
+
+export function isLive(article: ScheduledFields, now: Date = new Date()): boolean {
+  return getEffectiveStatus(article, now) === 'published';
+}
@@ -0,0 +1,108 @@
+import { Article, ArticleRevision, Author, Category, Tag } from './types';
+
+export interface CMSCollections {
+  articles: Article;
+  categories: Category;
+  tags: Tag;
+  authors: Author;
+  revisions: ArticleRevision;
+}
+
+export type CollectionName = keyof CMSCollections;
+
+export type CMSSnapshot = { [C in CollectionName]: CMSCollections[C][] };
+
+export const COLLECTION_NAMES: CollectionName[] = ['articles', 'categories', 'tags', 'authors', 'revisions'];
+
+/**
+ * Where ContentService keeps its records. Reads and writes are synchronous
+ * so the service API stays synchronous. Writes made inside `transaction()`
+ * are applied together, or not at all if the callback throws.
+ */
+export interface StorageAdapter {
+  get<C extends CollectionName>(collection: C, id: string): CMSCollections[C] | undefined;
+  list<C extends CollectionName>(collection: C): CMSCollections[C][];
+  count(collection: CollectionName): number;
+  put<C extends CollectionName>(collection: C, record: CMSCollections[C]): void;
+  delete(collection: CollectionName, id: string): boolean;
+  transaction<T>(work: () => T): T;
+}
+
+type CollectionMaps = { [C in CollectionName]: Map<string, CMSCollections[C]> };
+
+function toMaps(snapshot: Partial<CMSSnapshot> = {}): CollectionMaps {
+  return {
+    articles: new Map((snapshot.articles ?? []).map(record => [record.id, record])),
+    categories: new Map((snapshot.categories ?? []).map(record => [record.id, record])),
+    tags: new Map((snapshot.tags ?? []).map(record => [record.id, record])),
+    authors: new Map((snapshot.authors ?? []).map(record => [record.id, record])),
+    revisions: new Map((snapshot.revisions ?? []).map(record => [record.id, record])),
+  };
+}
+
+/**
+ * Keeps everything in `Map`s; contents are lost when the process exits.
+ * Subclasses can override `commit()` to persist after each write.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  protected collections: CollectionMaps;
+  private transactionDepth = 0;
+
+  constructor(initial?: Partial<CMSSnapshot>) {
+    this.collections = toMaps(initial);
+  }
+
+  get<C extends CollectionName>(collection: C, id: string): CMSCollections[C] | undefined {
+    return this.collections[collection].get(id) as CMSCollections[C] | undefined;
+  }
+
+  list<C extends CollectionName>(collection: C): CMSCollections[C][] {
+    return Array.from(this.collections[collection].values()) as CMSCollections[C][];
+  }
+
+  count(collection: CollectionName): number {
+    return this.collections[collection].size;
+  }
+
+  put<C extends CollectionName>(collection: C, record: CMSCollections[C]): void {
+    this.transaction(() => {
+      (this.collections[collection] as Map<string, CMSCollections[C]>).set(record.id, record);
+    });
+  }
+
+  delete(collection: CollectionName, id: string): boolean {
+    return this.transaction(() => this.collections[collection].delete(id));
+  }
+
+  transaction<T>(work: () => T): T {
+    // Nested transactions join the outermost one
+    if (this.transactionDepth > 0) {
+      return work();
+    }
+
+    const before = this.snapshot();
+    this.transactionDepth++;
+    try {
+      const result = work();
+      this.commit();
+      return result;
+    } catch (error) {
+      this.collections = toMaps(before);
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
+  }
+
+  snapshot(): CMSSnapshot {
+    return {
+      articles: this.list('articles'),
+      categories: this.list('categories'),
+      tags: this.list('tags'),
+      authors: this.list('authors'),
+      revisions: this.list('revisions'),
+    };
+  }
+
+  protected commit(): void {}
+}
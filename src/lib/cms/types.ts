@@ -1,4 +1,4 @@
-export type ContentStatus = 'draft' | 'published' | 'archived';
+export type ContentStatus = 'draft' | 'scheduled' | 'published' | 'archived';
 
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
 
@@ -64,6 +64,10 @@ export interface Article {
   metadata: ArticleMetadata;
   featured?: boolean;
   order?: number;
+  /** When a `scheduled` article goes live. */
+  publishAt?: Date;
+  /** When a published article is taken down again (embargo end). */
+  unpublishAt?: Date;
 }
 
 export interface CreateArticleInput {
@@ -80,6 +84,8 @@ export interface CreateArticleInput {
   codeBlocks?: CodeBlock[];
   featured?: boolean;
   order?: number;
+  publishAt?: Date;
+  unpublishAt?: Date;
 }
 
 export interface UpdateArticleInput {
@@ -96,6 +102,53 @@ export interface UpdateArticleInput {
   codeBlocks?: CodeBlock[];
   featured?: boolean;
   order?: number;
+  /** `null` clears the date; leaving it out keeps it. */
+  publishAt?: Date | null;
+  unpublishAt?: Date | null;
+}
+
+export interface ScheduleRunResult {
+  published: Article[];
+  unpublished: Article[];
+}
+
+/**
+ * Who made a change and why; stored on the revision it creates.
+ */
+export interface RevisionInfo {
+  authorId?: string;
+  changeSummary?: string;
+}
+
+export type ArticleRevisionSnapshot = Omit<Article, 'id' | 'metadata'>;
+
+export interface ArticleRevision {
+  id: string;
+  articleId: string;
+  /** 1 for the created article, then one more for every update. */
+  revision: number;
+  authorId?: string;
+  changeSummary?: string;
+  createdAt: Date;
+  snapshot: ArticleRevisionSnapshot;
+}
+
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export interface RevisionDiff {
+  articleId: string;
+  fromRevision: number;
+  toRevision: number;
+  lines: DiffLine[];
+  additions: number;
+  deletions: number;
 }
 
 export interface ArticleQueryOptions {
@@ -110,6 +163,8 @@ export interface ArticleQueryOptions {
   orderBy?: 'createdAt' | 'updatedAt' | 'publishedAt' | 'order' | 'title';
   orderDirection?: 'asc' | 'desc';
   search?: string;
+  /** Evaluate publish schedules at this time instead of now. */
+  asOf?: Date;
 }
 
 export interface PaginatedResult<T> {
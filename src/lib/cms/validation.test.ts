@@ -4,6 +4,7 @@ import {
   validateTitle,
   validateContent,
   validateArticle,
+  validateSchedule,
   calculateWordCount,
   calculateReadingTime,
   generateExcerpt,
@@ -98,6 +99,27 @@ describe('Validation Utilities', () => {
       expect(result.errors.length).toBeGreaterThan(0);
     });
   });
+
+  describe('validateSchedule', () => {
+    const publishAt = new Date('2026-03-01T09:00:00Z');
+
+    it('requires a publish date for scheduled articles', () => {
+      expect(validateSchedule({ status: 'scheduled' })).toEqual([
+        expect.objectContaining({ field: 'publishAt', code: 'REQUIRED' }),
+      ]);
+      expect(validateSchedule({ status: 'scheduled', publishAt })).toEqual([]);
+    });
+
+    it('rejects an unpublish date before the publish date', () => {
+      const errors = validateSchedule({ publishAt, unpublishAt: new Date('2026-02-01T00:00:00Z') });
+      expect(errors[0]).toMatchObject({ field: 'unpublishAt', code: 'INVALID_RANGE' });
+    });
+
+    it('rejects invalid dates', () => {
+      const errors = validateSchedule({ status: 'scheduled', publishAt: new Date('not a date') });
+      expect(errors).toEqual([expect.objectContaining({ field: 'publishAt', code: 'INVALID_FORMAT' })]);
+    });
+  });
 });
 
 describe('Content Utilities', () => {
@@ -180,6 +202,7 @@ describe('Content Utilities', () => {
       expect(isValidStatus('draft')).toBe(true);
       expect(isValidStatus('published')).toBe(true);
       expect(isValidStatus('archived')).toBe(true);
+      expect(isValidStatus('scheduled')).toBe(true);
       expect(isValidStatus('invalid')).toBe(false);
     });
 
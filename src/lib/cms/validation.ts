@@ -117,6 +117,45 @@ export function validateExcerpt(excerpt: string | undefined, maxLength: number):
   return errors;
 }
 
+function isValidDate(value: Date | undefined): boolean {
+  return value === undefined || (value instanceof Date && !Number.isNaN(value.getTime()));
+}
+
+export function validateSchedule(input: Pick<CreateArticleInput, 'status' | 'publishAt' | 'unpublishAt'>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const field of ['publishAt', 'unpublishAt'] as const) {
+    if (!isValidDate(input[field])) {
+      errors.push({
+        field,
+        message: `${field} must be a valid date`,
+        code: 'INVALID_FORMAT',
+      });
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (input.status === 'scheduled' && !input.publishAt) {
+    errors.push({
+      field: 'publishAt',
+      message: 'Scheduled articles need a publish date',
+      code: 'REQUIRED',
+    });
+  }
+
+  if (input.publishAt && input.unpublishAt && input.unpublishAt.getTime() <= input.publishAt.getTime()) {
+    errors.push({
+      field: 'unpublishAt',
+      message: 'Unpublish date must be after the publish date',
+      code: 'INVALID_RANGE',
+    });
+  }
+
+  return errors;
+}
+
 export function validateArticle(
   input: CreateArticleInput,
   config: CMSConfig = DEFAULT_CMS_CONFIG
@@ -129,6 +168,7 @@ export function validateArticle(
   errors.push(...validateSection(input.section));
   errors.push(...validateCategoryId(input.categoryId));
   errors.push(...validateExcerpt(input.excerpt, config.maxExcerptLength));
+  errors.push(...validateSchedule(input));
 
   return {
     valid: errors.length === 0,
@@ -179,7 +219,7 @@ export function generateSlug(title: string): string {
 }
 
 export function isValidStatus(status: string): boolean {
-  return ['draft', 'published', 'archived'].includes(status);
+  return ['draft', 'scheduled', 'published', 'archived'].includes(status);
 }
 
 export function isValidDifficulty(difficulty: string): boolean {
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DEFAULT_TIMEOUT_MS, SANDBOX_WORKER_SOURCE, runInSandbox } from './code-sandbox';
+
+type Listener = ((event: { data: unknown }) => void) | null;
+
+// jsdom has no Worker; run the worker script in-process against a fake scope
+class InProcessWorker {
+  static instances: InProcessWorker[] = [];
+  onmessage: Listener = null;
+  onerror = null;
+  terminate = vi.fn();
+  readonly scope: { postMessage: (data: unknown) => void; onmessage: Listener; fetch?: unknown };
+
+  constructor() {
+    this.scope = {
+      postMessage: data => queueMicrotask(() => this.onmessage?.({ data })),
+      onmessage: null,
+      fetch: () => {},
+    };
+    new Function('self', SANDBOX_WORKER_SOURCE)(this.scope);
+    InProcessWorker.instances.push(this);
+  }
+
+  postMessage(data: unknown) {
+    this.scope.onmessage?.({ data });
+  }
+}
+
+// A worker stuck in a loop never answers
+class SilentWorker extends InProcessWorker {
+  postMessage() {}
+}
+
+describe('runInSandbox', () => {
+  beforeEach(() => {
+    InProcessWorker.instances = [];
+    vi.stubGlobal('Worker', InProcessWorker);
+    URL.createObjectURL = vi.fn(() => 'blob:sandbox');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('captures console output and the return value', async () => {
+    const result = await runInSandbox("console.log('a', 1, [2]); console.warn({ b: true }); return 42;");
+
+    expect(result).toMatchObject({
+      success: true,
+      output: ['a 1 [2]', '[Warn] {\n  "b": true\n}', '→ 42'],
+      timedOut: false,
+    });
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('streams lines as they are logged', async () => {
+    const lines: string[] = [];
+    await runInSandbox("console.log('one'); await null; console.error('two');", { onOutput: line => lines.push(line) });
+
+    expect(lines).toEqual(['one', '[Error] two']);
+  });
+
+  it('supports await and promises', async () => {
+    const result = await runInSandbox('const value = await new Promise(resolve => setTimeout(() => resolve(7), 5)); return value * 6;');
+
+    expect(result.output).toEqual(['→ 42']);
+  });
+
+  it('reports thrown errors, rejections and syntax errors', async () => {
+    expect(await runInSandbox("console.log('before'); throw new Error('boom');")).toMatchObject({
+      success: false,
+      output: ['before'],
+      error: 'boom',
+    });
+    expect((await runInSandbox("await Promise.reject(new Error('nope'))")).error).toBe('nope');
+    expect((await runInSandbox('const = 1')).success).toBe(false);
+  });
+
+  it('runs in strict mode and removes network APIs from the worker', async () => {
+    expect((await runInSandbox('undeclared = 1')).success).toBe(false);
+
+    await runInSandbox('');
+    expect(InProcessWorker.instances[InProcessWorker.instances.length - 1].scope.fetch).toBeUndefined();
+  });
+
+  it('terminates the worker after every run', async () => {
+    await runInSandbox('1 + 1');
+
+    expect(InProcessWorker.instances[0].terminate).toHaveBeenCalled();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:sandbox');
+  });
+
+  it('terminates a worker that runs past the timeout', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('Worker', SilentWorker);
+
+    const pending = runInSandbox('while (true) {}', { timeout: 500 });
+    vi.advanceTimersByTime(499);
+    expect(InProcessWorker.instances[0].terminate).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+
+    expect(await pending).toMatchObject({ success: false, timedOut: true, error: 'Execution timed out after 500ms' });
+    expect(InProcessWorker.instances[0].terminate).toHaveBeenCalled();
+  });
+
+  it('uses the default timeout', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('Worker', SilentWorker);
+
+    const pending = runInSandbox('while (true) {}');
+    vi.advanceTimersByTime(DEFAULT_TIMEOUT_MS);
+
+    expect((await pending).timedOut).toBe(true);
+  });
+
+  it('stops when aborted', async () => {
+    vi.stubGlobal('Worker', SilentWorker);
+    const controller = new AbortController();
+
+    const pending = runInSandbox('while (true) {}', { signal: controller.signal });
+    controller.abort();
+
+    expect(await pending).toMatchObject({ success: false, error: 'Execution cancelled', timedOut: false });
+    expect(InProcessWorker.instances[0].terminate).toHaveBeenCalled();
+  });
+
+  it('fails without Web Worker support', async () => {
+    vi.stubGlobal('Worker', undefined);
+
+    expect(await runInSandbox('1')).toMatchObject({ success: false, error: 'Code execution needs Web Worker support' });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Code Sandbox
+ *
+ * Runs reader code from interactive code blocks in a disposable Web Worker.
+ * The worker has no access to the page (`window`, `document`,
+ * `localStorage`) and its network APIs are removed; it is terminated after
+ * each run, or as soon as the timeout expires, so an infinite loop cannot
+ * freeze the tab. Code runs as the body of an async function, so top-level
+ * `await` and `return` work. Console output is streamed back line by line.
+ *
+ * @example
+ * ```ts
+ * const result = await runInSandbox('const n = await Promise.resolve(42); return n', {
+ *   timeout: 2000,
+ *   onOutput: line => console.log(line),
+ * });
+ * result.output; // ['→ 42']
+ * ```
+ *
+ * @module code-sandbox
+ */
+
+export interface ExecutionResult {
+  success: boolean;
+  output: string[];
+  error?: string;
+  /** Wall-clock run time in milliseconds. */
+  duration: number;
+  /** The run was stopped because it exceeded the timeout. */
+  timedOut: boolean;
+}
+
+export interface SandboxOptions {
+  /** Milliseconds before the worker is terminated. */
+  timeout?: number;
+  /** Called with each console line as it is produced. */
+  onOutput?: (line: string) => void;
+  /** Aborting terminates the worker. */
+  signal?: AbortSignal;
+}
+
+/** Messages posted by the sandbox worker. */
+export type SandboxMessage =
+  | { type: 'output'; line: string }
+  | { type: 'done'; value?: string }
+  | { type: 'error'; message: string };
+
+export const DEFAULT_TIMEOUT_MS = 3000;
+
+/**
+ * Worker script. Kept as plain JavaScript source, not a serialized
+ * function, so bundler transforms cannot pull helpers into it.
+ */
+export const SANDBOX_WORKER_SOURCE = `"use strict";
+var format = function (value) {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "bigint") return String(value);
+  if (typeof value === "function") return "[Function: " + (value.name || "anonymous") + "]";
+  if (value instanceof Error) return value.name + ": " + value.message;
+  try {
+    return Array.isArray(value) ? JSON.stringify(value) : JSON.stringify(value, null, 2);
+  } catch (error) {
+    return Array.isArray(value) ? "[Array]" : "[Object]";
+  }
+};
+var messageOf = function (error) {
+  return error instanceof Error ? error.message : String(error);
+};
+var post = function (message) {
+  self.postMessage(message);
+};
+var emit = function (prefix, args) {
+  post({ type: "output", line: prefix + Array.prototype.map.call(args, format).join(" ") });
+};
+var sandboxConsole = {
+  log: function () { emit("", arguments); },
+  info: function () { emit("[Info] ", arguments); },
+  warn: function () { emit("[Warn] ", arguments); },
+  error: function () { emit("[Error] ", arguments); },
+  table: function (data) { post({ type: "output", line: JSON.stringify(data, null, 2) }); },
+};
+["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "importScripts", "indexedDB", "caches"].forEach(function (name) {
+  try {
+    Object.defineProperty(self, name, { value: undefined });
+  } catch (error) {
+    // Leave properties the browser refuses to redefine
+  }
+});
+var AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+self.onmessage = function (event) {
+  var run;
+  try {
+    run = new AsyncFunction("console", '"use strict";\\n' + event.data.code);
+  } catch (error) {
+    post({ type: "error", message: messageOf(error) });
+    return;
+  }
+  Promise.resolve()
+    .then(function () { return run(sandboxConsole); })
+    .then(
+      function (value) { post({ type: "done", value: value === undefined ? undefined : format(value) }); },
+      function (error) { post({ type: "error", message: messageOf(error) }); }
+    );
+};
+`;
+
+/**
+ * Run `code` in a fresh worker. Always resolves; failures, timeouts and
+ * aborts are reported in the result.
+ */
+export function runInSandbox(code: string, options: SandboxOptions = {}): Promise<ExecutionResult> {
+  const { timeout = DEFAULT_TIMEOUT_MS, onOutput, signal } = options;
+
+  if (typeof Worker === 'undefined' || signal?.aborted) {
+    return Promise.resolve({
+      success: false,
+      output: [],
+      error: signal?.aborted ? 'Execution cancelled' : 'Code execution needs Web Worker support',
+      duration: 0,
+      timedOut: false,
+    });
+  }
+
+  const url = URL.createObjectURL(new Blob([SANDBOX_WORKER_SOURCE], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  const startedAt = performance.now();
+  const output: string[] = [];
+
+  return new Promise(resolve => {
+    let settled = false;
+    const timer = setTimeout(() => finish({ success: false, error: `Execution timed out after ${timeout}ms`, timedOut: true }), timeout);
+
+    const emit = (line: string) => {
+      output.push(line);
+      onOutput?.(line);
+    };
+
+    const finish = (result: { success: boolean; error?: string; timedOut?: boolean }) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      resolve({
+        success: result.success,
+        output,
+        ...(result.error !== undefined ? { error: result.error } : {}),
+        duration: Math.round(performance.now() - startedAt),
+        timedOut: result.timedOut ?? false,
+      });
+    };
+
+    function abort() {
+      finish({ success: false, error: 'Execution cancelled' });
+    }
+
+    worker.onmessage = (event: MessageEvent<SandboxMessage>) => {
+      const message = event.data;
+      if (message.type === 'output') {
+        emit(message.line);
+      } else if (message.type === 'done') {
+        if (message.value !== undefined) emit(`→ ${message.value}`);
+        finish({ success: true });
+      } else {
+        finish({ success: false, error: message.message });
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish({ success: false, error: event.message || 'Execution failed' });
+    };
+
+    signal?.addEventListener('abort', abort);
+    worker.postMessage({ code });
+  });
+}
@@ -0,0 +1,419 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  assertDiagramFilesExist,
+  findMissingDiagramFiles,
+  loadLearningPaths,
+  loadScenarios,
+  loadTutorials,
+  loadWikiContent,
+  parseArticleFile,
+  parsePathFile,
+  parseScenarioFile,
+  parseTutorialFile,
+} from './content-loader';
+
+const body = 'هذا محتوى تجريبي للمقال يكفي لتجاوز الحد الأدنى لطول المحتوى المطلوب في قواعد التحقق من المقالات. '.repeat(2);
+
+function articleFile(frontmatter: string, content = body): string {
+  return `---\n${frontmatter.trim()}\n---\n\n${content}\n`;
+}
+
+function scenarioFile(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    id: 'demo-scenario',
+    title: 'تجربة',
+    article: 'article-a',
+    tool: 'claude',
+    steps: [
+      {
+        id: 'scan',
+        title: 'فهرسة',
+        instruction: 'افهرس المشروع',
+        branches: [{ command: 'claude scan', run: true }],
+      },
+    ],
+    ...overrides,
+  });
+}
+
+function tutorialFile(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    id: 'tutorial-basics',
+    slug: 'basics',
+    title: 'أساسيات البرمجة',
+    description: 'درس تجريبي قصير يشرح الأساسيات خطوة بخطوة مع تمرين صغير في النهاية.',
+    section: 'البداية',
+    difficulty: 'beginner',
+    estimatedMinutes: 10,
+    learningObjectives: ['كتابة أول دالة'],
+    steps: [
+      { id: 'two', title: 'الخطوة الثانية', content: 'محتوى', order: 1 },
+      { id: 'one', title: 'الخطوة الأولى', content: 'محتوى', order: 0 },
+    ],
+    ...overrides,
+  });
+}
+
+function pathFile(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    id: 'path-first-app',
+    slug: 'first-app',
+    title: 'أول تطبيق',
+    description: 'مسار قصير من الفكرة إلى أول تطبيق منشور.',
+    difficulty: 'beginner',
+    estimatedMinutes: 40,
+    targetAudience: ['المبتدئون'],
+    learningObjectives: ['فهم الأدوات', 'نشر تطبيق'],
+    items: [
+      { id: 'practice', type: 'tutorial', slug: 'basics', title: 'التمرين', estimatedMinutes: 10, order: 1 },
+      { id: 'intro', type: 'article', slug: 'article-a', title: 'المقدمة', estimatedMinutes: 30, order: 0 },
+    ],
+    ...overrides,
+  });
+}
+
+describe('content-loader', () => {
+  let contentDir: string;
+
+  const write = (relativePath: string, source: string) => {
+    const filePath = path.join(contentDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+  };
+
+  beforeEach(() => {
+    contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wiki-content-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(contentDir, { recursive: true, force: true });
+  });
+
+  describe('parseArticleFile', () => {
+    it('maps frontmatter fields onto a WikiArticle', () => {
+      const { article, issues } = parseArticleFile(
+        articleFile(`
+slug: hello-world
+title: مرحبا بالعالم
+section: المقدمة
+description: وصف قصير
+difficulty: beginner
+tags: [intro, ai]
+diagrams:
+  - id: hello-diagram
+    filename: workflow-vibecoding.svg
+    alt: نص بديل
+    caption: تعليق
+    position: after-section
+    sectionHeading: البداية
+    priority: true
+codeBlocks:
+  - language: bash
+    title: تشغيل
+    code: |-
+      npm run dev
+`),
+        'hello.md'
+      );
+
+      expect(issues).toEqual([]);
+      expect(article.slug).toBe('hello-world');
+      expect(article.title).toBe('مرحبا بالعالم');
+      expect(article.section).toBe('المقدمة');
+      expect(article.description).toBe('وصف قصير');
+      expect(article.difficulty).toBe('beginner');
+      expect(article.tags).toEqual(['intro', 'ai']);
+      expect(article.diagrams?.[0].position).toBe('after-section');
+      expect(article.codeBlocks?.[0]).toEqual({ language: 'bash', title: 'تشغيل', code: 'npm run dev' });
+      expect(article.content).toBe(body.trim());
+    });
+
+    it('reports validateArticle errors with the file name', () => {
+      const { issues } = parseArticleFile(articleFile('slug: Bad_Slug\ntitle: abc\nsection: x', 'short'), 'bad.md');
+
+      expect(issues.map((i) => i.field)).toEqual(['slug', 'title', 'content']);
+      expect(issues.every((i) => i.file === 'bad.md')).toBe(true);
+    });
+
+    it('rejects invalid difficulty, tags and diagram positions', () => {
+      const { issues } = parseArticleFile(
+        articleFile(`
+slug: valid-slug
+title: عنوان صالح
+section: المقدمة
+difficulty: expert
+tags: intro
+diagrams:
+  - id: d1
+    filename: a.svg
+    alt: a
+    caption: c
+    position: sidebar
+`),
+        'invalid.md'
+      );
+
+      expect(issues.map((i) => i.field)).toEqual(['difficulty', 'tags', 'diagrams[0].position']);
+    });
+  });
+
+  describe('loadWikiContent', () => {
+    it('builds ordered sections from directories and file names', () => {
+      write('02-second/_index.md', '---\nname: القسم الثاني\n---\n');
+      write('02-second/01-c.md', articleFile('slug: article-c\ntitle: المقال الثالث\nsection: ثاني'));
+      write('01-first/_index.md', '---\nname: "1. القسم الأول"\n---\n');
+      write('01-first/02-b.md', articleFile('slug: article-b\ntitle: المقال الثاني\nsection: أول'));
+      write('01-first/01-a.md', articleFile('slug: article-a\ntitle: المقال الأول\nsection: أول'));
+      write('01-first/notes.txt', 'ignored');
+
+      const sections = loadWikiContent(contentDir);
+
+      expect(sections.map((s) => s.name)).toEqual(['1. القسم الأول', 'القسم الثاني']);
+      expect(sections[0].articles.map((a) => a.slug)).toEqual(['article-a', 'article-b']);
+      expect(sections[1].articles.map((a) => a.slug)).toEqual(['article-c']);
+    });
+
+    it('fails loudly on duplicate slugs', () => {
+      write('01-first/_index.md', '---\nname: أول\n---\n');
+      write('01-first/01-a.md', articleFile('slug: same-slug\ntitle: المقال الأول\nsection: أول'));
+      write('01-first/02-b.md', articleFile('slug: same-slug\ntitle: المقال الثاني\nsection: أول'));
+
+      expect(() => loadWikiContent(contentDir)).toThrow(/Duplicate slug "same-slug"/);
+    });
+
+    it('collects every invalid file into a single error', () => {
+      write('01-first/01-a.md', articleFile('title: بدون معرف\nsection: أول'));
+      write('01-first/02-b.md', articleFile('slug: no-section\ntitle: بدون قسم'));
+
+      let message = '';
+      try {
+        loadWikiContent(contentDir);
+      } catch (error) {
+        message = (error as Error).message;
+      }
+
+      expect(message).toContain(`${path.join('01-first', '_index.md')} [name]`);
+      expect(message).toContain(`${path.join('01-first', '01-a.md')} [slug]`);
+      expect(message).toContain(`${path.join('01-first', '02-b.md')} [section]`);
+    });
+  });
+
+  describe('parseScenarioFile', () => {
+    it('accepts a valid scenario', () => {
+      const { scenario, issues } = parseScenarioFile(scenarioFile(), 'demo.scenario.json');
+
+      expect(issues).toEqual([]);
+      expect(scenario.id).toBe('demo-scenario');
+      expect(scenario.steps[0].branches[0].command).toBe('claude scan');
+    });
+
+    it('reports invalid JSON', () => {
+      const { issues } = parseScenarioFile('{ nope', 'bad.scenario.json');
+      expect(issues[0]).toMatchObject({ file: 'bad.scenario.json', field: 'json' });
+    });
+
+    it('validates steps, branches, mutations and checks', () => {
+      const { issues } = parseScenarioFile(
+        scenarioFile({
+          tool: 'emacs',
+          steps: [
+            {
+              id: 'one',
+              title: 'خطوة',
+              instruction: 'افعل شيئا',
+              branches: [
+                { command: 'a', pattern: 'b' },
+                { pattern: '(' },
+                { command: 'c', goto: 'missing', mutations: [{ op: 'write', path: 'x.txt' }, { op: 'chmod' }] },
+              ],
+              checks: [{ type: 'contains', path: 'x.txt', message: 'x' }, { type: 'size' }],
+            },
+            { id: 'one', title: 'مكررة', instruction: 'مكررة', branches: [] },
+          ],
+        }),
+        'demo.scenario.json'
+      );
+
+      expect(issues.map((issue) => issue.field)).toEqual([
+        'tool',
+        'steps[0].branches[0]',
+        'steps[0].branches[1].pattern',
+        'steps[0].branches[2].goto',
+        'steps[0].branches[2].mutations[0].content',
+        'steps[0].branches[2].mutations[1]',
+        'steps[0].checks[0].text',
+        'steps[0].checks[1]',
+        'steps[1].branches',
+        'steps[1].id',
+      ]);
+    });
+  });
+
+  describe('loadScenarios', () => {
+    it('loads scenario files from every section', () => {
+      write('01-first/01-a.scenario.json', scenarioFile());
+      write('01-first/01-a.md', articleFile('slug: article-a\ntitle: المقال الأول\nsection: أول'));
+
+      expect(loadScenarios(contentDir, ['article-a']).map((scenario) => scenario.id)).toEqual(['demo-scenario']);
+    });
+
+    it('fails on unknown articles and duplicate ids', () => {
+      write('01-first/01-a.scenario.json', scenarioFile({ article: 'nowhere' }));
+      write('02-second/01-b.scenario.json', scenarioFile());
+
+      expect(() => loadScenarios(contentDir, ['article-a'])).toThrow(
+        /Unknown article "nowhere"[\s\S]*Duplicate scenario id "demo-scenario"/
+      );
+    });
+  });
+
+  describe('parseTutorialFile', () => {
+    it('accepts a valid tutorial and orders its steps', () => {
+      const { tutorial, issues } = parseTutorialFile(tutorialFile(), 'basics.json');
+
+      expect(issues).toEqual([]);
+      expect(tutorial.steps.map((step) => step.id)).toEqual(['one', 'two']);
+    });
+
+    it('reports validateTutorial and validateExercise errors', () => {
+      const { issues } = parseTutorialFile(
+        tutorialFile({
+          slug: 'Not A Slug',
+          tags: 'js',
+          steps: [
+            {
+              id: 'one',
+              title: 'تمرين',
+              content: 'محتوى',
+              order: 0,
+              exercise: { id: 'ex', title: 'تمرين', description: 'وصف', instruction: 'تعليمات', starterCode: '', language: 'javascript' },
+            },
+          ],
+        }),
+        'basics.json'
+      );
+
+      expect(issues).toEqual([
+        { file: 'basics.json', field: 'tutorial', message: 'Tutorial slug must contain only lowercase letters, numbers, and hyphens' },
+        { file: 'basics.json', field: 'tags', message: 'Tags must be a list of strings' },
+        { file: 'basics.json', field: 'steps[0].exercise', message: 'Exercise must have starter code' },
+      ]);
+    });
+  });
+
+  describe('loadTutorials', () => {
+    it('loads tutorials in file order and keeps them out of the wiki sections', () => {
+      write('_tutorials/02-next.json', tutorialFile({ id: 'tutorial-next', slug: 'next', prerequisites: ['basics'] }));
+      write('_tutorials/01-basics.json', tutorialFile());
+      write('01-first/_index.md', '---\nname: أول\n---\n');
+
+      expect(loadTutorials(path.join(contentDir, '_tutorials')).map((tutorial) => tutorial.slug)).toEqual(['basics', 'next']);
+      expect(loadWikiContent(contentDir)).toHaveLength(1);
+    });
+
+    it('fails on duplicates and unknown prerequisites', () => {
+      write('_tutorials/01-basics.json', tutorialFile({ prerequisites: ['missing'] }));
+      write('_tutorials/02-copy.json', tutorialFile());
+
+      expect(() => loadTutorials(path.join(contentDir, '_tutorials'))).toThrow(
+        /Duplicate tutorial id "tutorial-basics"[\s\S]*Duplicate tutorial slug "basics"[\s\S]*Unknown prerequisite "missing"/
+      );
+    });
+
+    it('returns no tutorials when the directory does not exist', () => {
+      expect(loadTutorials(path.join(contentDir, '_tutorials'))).toEqual([]);
+    });
+  });
+
+  describe('parsePathFile', () => {
+    it('accepts a valid learning path and orders its items', () => {
+      const { path: learningPath, issues } = parsePathFile(pathFile(), 'first-app.json');
+
+      expect(issues).toEqual([]);
+      expect(learningPath.items.map((item) => item.id)).toEqual(['intro', 'practice']);
+    });
+
+    it('reports validateLearningPath errors and invalid JSON', () => {
+      expect(parsePathFile(pathFile({ targetAudience: [], tags: [1] }), 'first-app.json').issues).toEqual([
+        { file: 'first-app.json', field: 'path', message: 'Path must have at least one target audience' },
+        { file: 'first-app.json', field: 'tags', message: 'Tags must be a list of strings' },
+      ]);
+      expect(parsePathFile('{', 'first-app.json').issues[0].field).toBe('json');
+    });
+  });
+
+  describe('loadLearningPaths', () => {
+    const pathsDir = () => path.join(contentDir, '_paths');
+    const content = { articleSlugs: ['article-a'], tutorials: [parseTutorialFile(tutorialFile(), 'basics.json').tutorial] };
+
+    it('loads learning paths in file order', () => {
+      write('_paths/02-second.json', pathFile({ id: 'path-second', slug: 'second' }));
+      write('_paths/01-first.json', pathFile());
+
+      expect(loadLearningPaths(pathsDir(), content).map((learningPath) => learningPath.slug)).toEqual(['first-app', 'second']);
+    });
+
+    it('fails on duplicates and items that name no content', () => {
+      write('_paths/01-first.json', pathFile());
+      write('_paths/02-copy.json', pathFile());
+
+      expect(() => loadLearningPaths(pathsDir(), { articleSlugs: [], tutorials: [] })).toThrow(
+        /Duplicate learning path id "path-first-app"[\s\S]*Duplicate learning path slug "first-app"[\s\S]*\[items\[0\]\.slug\]: Unknown article "article-a"[\s\S]*Unknown tutorial "basics"/
+      );
+    });
+
+    it('returns no learning paths when the directory does not exist', () => {
+      expect(loadLearningPaths(pathsDir())).toEqual([]);
+    });
+  });
+
+  describe('diagram files', () => {
+    it('lists referenced filenames missing from the diagrams directory', () => {
+      write('present.svg', '<svg />');
+
+      expect(findMissingDiagramFiles(['present.svg', 'absent.svg', 'absent.svg'], contentDir)).toEqual(['absent.svg']);
+    });
+
+    it('throws with every missing filename', () => {
+      expect(() => assertDiagramFilesExist(['a.svg', 'b.svg'], contentDir)).toThrow(/a\.svg[\s\S]*b\.svg/);
+      expect(() => assertDiagramFilesExist([], contentDir)).not.toThrow();
+    });
+  });
+
+  describe('repository content', () => {
+    it('loads the content directory without errors', () => {
+      const sections = loadWikiContent();
+      const slugs = sections.flatMap((s) => s.articles.map((a) => a.slug));
+
+      expect(sections.length).toBeGreaterThan(0);
+      expect(new Set(slugs).size).toBe(slugs.length);
+    });
+
+    it('loads every CLI scenario and links it to an existing article', () => {
+      const slugs = loadWikiContent().flatMap((s) => s.articles.map((a) => a.slug));
+
+      expect(() => loadScenarios(undefined, slugs)).not.toThrow();
+    });
+
+    it('loads the tutorial catalog', () => {
+      expect(loadTutorials().length).toBeGreaterThan(0);
+    });
+
+    it('loads every learning path and resolves its items', () => {
+      const articleSlugs = loadWikiContent().flatMap((s) => s.articles.map((a) => a.slug));
+
+      expect(loadLearningPaths(undefined, { articleSlugs, tutorials: loadTutorials() }).length).toBeGreaterThan(0);
+    });
+
+    it('references only diagram files that exist', () => {
+      const filenames = loadWikiContent().flatMap((s) =>
+        s.articles.flatMap((a) => (a.diagrams || []).map((d) => d.filename))
+      );
+
+      expect(findMissingDiagramFiles(filenames)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,693 @@
+/**
+ * Markdown Content Loader
+ *
+ * Reads wiki articles from the `content/` directory and builds the
+ * `WikiSection[]` structure consumed by the rest of the app.
+ *
+ * Layout:
+ *   content/
+ *     01-introduction/
+ *       _index.md                 # frontmatter: name
+ *       01-what-is-vibe-coding.md # frontmatter + Markdown body
+ *       01-what-is-vibe-coding.scenario.json # optional CLI scenario (see scenario-engine)
+ *     _tutorials/
+ *       01-first-prompt.json      # Tutorial, validated with validateTutorial
+ *     _paths/
+ *       01-first-app.json         # LearningPath, validated with validateLearningPath
+ *
+ * Sections and articles are ordered by their file names, so the numeric
+ * prefixes control the order in the sidebar and prev/next navigation.
+ * Directories starting with `_` hold other content and are not sections.
+ *
+ * This module uses `fs` and must only be imported from server code.
+ */
+
+import fs from "fs";
+import path from "path";
+import matter from "gray-matter";
+import type { ArticleDiagram, CLITool, CodeBlock, DifficultyLevel, LearningPath, Tutorial, WikiArticle, WikiSection } from "@/types";
+import { validateArticle } from "@/lib/article-validation";
+import { validateExercise, validateTutorial } from "@/lib/tutorial-utils";
+import { getPathItemHref, validateLearningPath, type PathContent } from "@/lib/learning-path-utils";
+import type { CLIScenario } from "@/lib/scenario-engine";
+
+export const CONTENT_DIR = path.join(process.cwd(), "content");
+export const SECTION_INDEX_FILE = "_index.md";
+export const DIAGRAMS_DIR = path.join(process.cwd(), "public", "images", "diagrams");
+export const SCENARIO_SUFFIX = ".scenario.json";
+export const TUTORIALS_DIR = path.join(CONTENT_DIR, "_tutorials");
+export const PATHS_DIR = path.join(CONTENT_DIR, "_paths");
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ["beginner", "intermediate", "advanced"];
+const DIAGRAM_POSITIONS: ArticleDiagram["position"][] = ["inline", "before-section", "after-section"];
+const CLI_TOOLS: CLITool[] = ["claude", "copilot", "opencode", "bash"];
+const MUTATION_OPS = ["write", "append", "mkdir", "remove", "move"];
+const CHECK_TYPES = ["exists", "missing", "contains"];
+
+export interface ContentIssue {
+  file: string;
+  field: string;
+  message: string;
+}
+
+export interface ParsedArticleFile {
+  article: WikiArticle;
+  issues: ContentIssue[];
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateDiagrams(value: unknown, file: string): ContentIssue[] {
+  if (!Array.isArray(value)) {
+    return [{ file, field: "diagrams", message: "Diagrams must be a list" }];
+  }
+
+  const issues: ContentIssue[] = [];
+
+  value.forEach((diagram, index) => {
+    const field = `diagrams[${index}]`;
+
+    if (!isRecord(diagram)) {
+      issues.push({ file, field, message: "Diagram must be an object" });
+      return;
+    }
+
+    for (const key of ["id", "filename", "alt", "caption"]) {
+      if (!isString(diagram[key]) || !diagram[key].trim()) {
+        issues.push({ file, field: `${field}.${key}`, message: `Diagram ${key} is required` });
+      }
+    }
+
+    if (!DIAGRAM_POSITIONS.includes(diagram.position as ArticleDiagram["position"])) {
+      issues.push({
+        file,
+        field: `${field}.position`,
+        message: `Diagram position must be one of: ${DIAGRAM_POSITIONS.join(", ")}`,
+      });
+    }
+
+    if (diagram.sectionHeading !== undefined && !isString(diagram.sectionHeading)) {
+      issues.push({ file, field: `${field}.sectionHeading`, message: "Section heading must be a string" });
+    }
+
+    if (diagram.priority !== undefined && typeof diagram.priority !== "boolean") {
+      issues.push({ file, field: `${field}.priority`, message: "Priority must be a boolean" });
+    }
+  });
+
+  return issues;
+}
+
+function validateCodeBlocks(value: unknown, file: string): ContentIssue[] {
+  if (!Array.isArray(value)) {
+    return [{ file, field: "codeBlocks", message: "Code blocks must be a list" }];
+  }
+
+  const issues: ContentIssue[] = [];
+
+  value.forEach((block, index) => {
+    const field = `codeBlocks[${index}]`;
+
+    if (!isRecord(block)) {
+      issues.push({ file, field, message: "Code block must be an object" });
+      return;
+    }
+
+    if (!isString(block.language) || !block.language.trim()) {
+      issues.push({ file, field: `${field}.language`, message: "Code block language is required" });
+    }
+    if (!isString(block.code)) {
+      issues.push({ file, field: `${field}.code`, message: "Code block code is required" });
+    }
+    if (block.title !== undefined && !isString(block.title)) {
+      issues.push({ file, field: `${field}.title`, message: "Code block title must be a string" });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Parse a single Markdown article (frontmatter + body) and validate it
+ * with the same rules used for articles authored in code.
+ */
+export function parseArticleFile(source: string, file: string): ParsedArticleFile {
+  const { data, content } = matter(source);
+  const issues: ContentIssue[] = [];
+
+  const article: WikiArticle = {
+    slug: isString(data.slug) ? data.slug : "",
+    title: isString(data.title) ? data.title : "",
+    section: isString(data.section) ? data.section : "",
+    content: content.trim(),
+  };
+
+  if (data.description !== undefined) {
+    if (isString(data.description)) {
+      article.description = data.description;
+    } else {
+      issues.push({ file, field: "description", message: "Description must be a string" });
+    }
+  }
+
+  if (data.difficulty !== undefined) {
+    if (DIFFICULTY_LEVELS.includes(data.difficulty)) {
+      article.difficulty = data.difficulty;
+    } else {
+      issues.push({
+        file,
+        field: "difficulty",
+        message: `Difficulty must be one of: ${DIFFICULTY_LEVELS.join(", ")}`,
+      });
+    }
+  }
+
+  if (data.tags !== undefined) {
+    if (Array.isArray(data.tags) && data.tags.every(isString)) {
+      article.tags = data.tags;
+    } else {
+      issues.push({ file, field: "tags", message: "Tags must be a list of strings" });
+    }
+  }
+
+  if (data.diagrams !== undefined) {
+    const diagramIssues = validateDiagrams(data.diagrams, file);
+    issues.push(...diagramIssues);
+    if (diagramIssues.length === 0) {
+      article.diagrams = data.diagrams as ArticleDiagram[];
+    }
+  }
+
+  if (data.codeBlocks !== undefined) {
+    const codeBlockIssues = validateCodeBlocks(data.codeBlocks, file);
+    issues.push(...codeBlockIssues);
+    if (codeBlockIssues.length === 0) {
+      article.codeBlocks = data.codeBlocks as CodeBlock[];
+    }
+  }
+
+  for (const error of validateArticle(article)) {
+    issues.push({ file, field: error.field, message: error.message });
+  }
+
+  return { article, issues };
+}
+
+function listDirectory(dir: string): fs.Dirent[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function isSectionDirectory(entry: fs.Dirent): boolean {
+  return entry.isDirectory() && !entry.name.startsWith("_");
+}
+
+/**
+ * Load every section and article under `contentDir`.
+ *
+ * Throws a single error listing every invalid frontmatter field and every
+ * duplicate slug, so a broken content tree fails the build instead of
+ * rendering a partial wiki.
+ */
+export function loadWikiContent(contentDir: string = CONTENT_DIR): WikiSection[] {
+  const sections: WikiSection[] = [];
+  const issues: ContentIssue[] = [];
+  const slugFiles = new Map<string, string[]>();
+
+  for (const entry of listDirectory(contentDir)) {
+    if (!isSectionDirectory(entry)) continue;
+
+    const sectionDir = path.join(contentDir, entry.name);
+    const indexFile = path.join(sectionDir, SECTION_INDEX_FILE);
+    const relativeIndex = path.relative(contentDir, indexFile);
+    let name = "";
+
+    if (fs.existsSync(indexFile)) {
+      const { data } = matter(fs.readFileSync(indexFile, "utf8"));
+      name = isString(data.name) ? data.name.trim() : "";
+    }
+    if (!name) {
+      issues.push({ file: relativeIndex, field: "name", message: "Section name is required" });
+    }
+
+    const articles: WikiArticle[] = [];
+
+    for (const file of listDirectory(sectionDir)) {
+      if (!file.isFile() || !file.name.endsWith(".md") || file.name === SECTION_INDEX_FILE) continue;
+
+      const filePath = path.join(sectionDir, file.name);
+      const relativePath = path.relative(contentDir, filePath);
+      const parsed = parseArticleFile(fs.readFileSync(filePath, "utf8"), relativePath);
+
+      issues.push(...parsed.issues);
+      if (parsed.article.slug) {
+        slugFiles.set(parsed.article.slug, [...(slugFiles.get(parsed.article.slug) || []), relativePath]);
+      }
+      articles.push(parsed.article);
+    }
+
+    sections.push({ name, articles });
+  }
+
+  for (const [slug, files] of slugFiles) {
+    if (files.length > 1) {
+      issues.push({
+        file: files.join(", "),
+        field: "slug",
+        message: `Duplicate slug "${slug}"`,
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    const details = issues.map((issue) => `  - ${issue.file} [${issue.field}]: ${issue.message}`).join("\n");
+    throw new Error(`Invalid wiki content in ${contentDir}:\n${details}`);
+  }
+
+  return sections;
+}
+
+export interface ParsedScenarioFile {
+  scenario: CLIScenario;
+  issues: ContentIssue[];
+}
+
+function requireStrings(value: Record<string, unknown>, keys: string[], field: string, file: string): ContentIssue[] {
+  return keys
+    .filter((key) => !isString(value[key]) || !value[key].trim())
+    .map((key) => ({ file, field: field ? `${field}.${key}` : key, message: `${key} is required` }));
+}
+
+function validateScenarioFixture(value: unknown, file: string): ContentIssue[] {
+  if (!isRecord(value)) {
+    return [{ file, field: "fixture", message: "Fixture must be an object" }];
+  }
+
+  const issues = requireStrings(value, ["name"], "fixture", file);
+  if (!isRecord(value.files) || !Object.values(value.files).every(isString)) {
+    issues.push({ file, field: "fixture.files", message: "Fixture files must map paths to strings" });
+  }
+  return issues;
+}
+
+function validateScenarioBranch(branch: unknown, field: string, stepIds: string[], file: string): ContentIssue[] {
+  if (!isRecord(branch)) {
+    return [{ file, field, message: "Branch must be an object" }];
+  }
+
+  const issues: ContentIssue[] = [];
+  if (isString(branch.command) === isString(branch.pattern)) {
+    issues.push({ file, field, message: "Branch needs exactly one of command or pattern" });
+  }
+  if (isString(branch.pattern)) {
+    try {
+      new RegExp(branch.pattern);
+    } catch {
+      issues.push({ file, field: `${field}.pattern`, message: "Pattern must be a valid regular expression" });
+    }
+  }
+  if (branch.output !== undefined && !isString(branch.output)) {
+    issues.push({ file, field: `${field}.output`, message: "Output must be a string" });
+  }
+  if (branch.goto !== undefined && !stepIds.includes(branch.goto as string)) {
+    issues.push({ file, field: `${field}.goto`, message: `Unknown step "${String(branch.goto)}"` });
+  }
+
+  if (branch.mutations !== undefined) {
+    if (!Array.isArray(branch.mutations)) {
+      issues.push({ file, field: `${field}.mutations`, message: "Mutations must be a list" });
+    } else {
+      branch.mutations.forEach((mutation, index) => {
+        const mutationField = `${field}.mutations[${index}]`;
+        if (!isRecord(mutation) || !MUTATION_OPS.includes(mutation.op as string)) {
+          issues.push({ file, field: mutationField, message: `Mutation op must be one of: ${MUTATION_OPS.join(", ")}` });
+          return;
+        }
+        issues.push(...requireStrings(mutation, ["path"], mutationField, file));
+        if ((mutation.op === "write" || mutation.op === "append") && !isString(mutation.content)) {
+          issues.push({ file, field: `${mutationField}.content`, message: "content is required" });
+        }
+        if (mutation.op === "move") {
+          issues.push(...requireStrings(mutation, ["to"], mutationField, file));
+        }
+      });
+    }
+  }
+
+  return issues;
+}
+
+function validateScenarioStep(step: unknown, field: string, stepIds: string[], file: string): ContentIssue[] {
+  if (!isRecord(step)) {
+    return [{ file, field, message: "Step must be an object" }];
+  }
+
+  const issues = requireStrings(step, ["id", "title", "instruction"], field, file);
+
+  if (!Array.isArray(step.branches) || step.branches.length === 0) {
+    issues.push({ file, field: `${field}.branches`, message: "Step needs at least one branch" });
+  } else {
+    step.branches.forEach((branch, index) => {
+      issues.push(...validateScenarioBranch(branch, `${field}.branches[${index}]`, stepIds, file));
+    });
+  }
+
+  if (step.checks !== undefined) {
+    if (!Array.isArray(step.checks)) {
+      issues.push({ file, field: `${field}.checks`, message: "Checks must be a list" });
+    } else {
+      step.checks.forEach((check, index) => {
+        const checkField = `${field}.checks[${index}]`;
+        if (!isRecord(check) || !CHECK_TYPES.includes(check.type as string)) {
+          issues.push({ file, field: checkField, message: `Check type must be one of: ${CHECK_TYPES.join(", ")}` });
+          return;
+        }
+        const keys = check.type === "contains" ? ["path", "text", "message"] : ["path", "message"];
+        issues.push(...requireStrings(check, keys, checkField, file));
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Parse and validate a CLI scenario declared as JSON next to an article.
+ */
+export function parseScenarioFile(source: string, file: string): ParsedScenarioFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { scenario: {} as CLIScenario, issues: [{ file, field: "json", message: `Invalid JSON: ${message}` }] };
+  }
+
+  if (!isRecord(data)) {
+    return { scenario: {} as CLIScenario, issues: [{ file, field: "json", message: "Scenario must be an object" }] };
+  }
+
+  const issues = requireStrings(data, ["id", "title", "article"], "", file);
+
+  if (!CLI_TOOLS.includes(data.tool as CLITool)) {
+    issues.push({ file, field: "tool", message: `Tool must be one of: ${CLI_TOOLS.join(", ")}` });
+  }
+  if (data.fixture !== undefined) {
+    issues.push(...validateScenarioFixture(data.fixture, file));
+  }
+
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    issues.push({ file, field: "steps", message: "Scenario needs at least one step" });
+  } else {
+    const stepIds = data.steps.map((step) => (isRecord(step) && isString(step.id) ? step.id : ""));
+    data.steps.forEach((step, index) => {
+      issues.push(...validateScenarioStep(step, `steps[${index}]`, stepIds, file));
+    });
+    stepIds.forEach((id, index) => {
+      if (id && stepIds.indexOf(id) !== index) {
+        issues.push({ file, field: `steps[${index}].id`, message: `Duplicate step id "${id}"` });
+      }
+    });
+  }
+
+  return { scenario: data as unknown as CLIScenario, issues };
+}
+
+/**
+ * Load every `*.scenario.json` file under `contentDir`. Throws a single
+ * error listing invalid fields, duplicate ids and scenarios whose article
+ * slug is not in `articleSlugs`.
+ */
+export function loadScenarios(contentDir: string = CONTENT_DIR, articleSlugs?: string[]): CLIScenario[] {
+  const scenarios: CLIScenario[] = [];
+  const issues: ContentIssue[] = [];
+  const idFiles = new Map<string, string[]>();
+
+  for (const entry of listDirectory(contentDir)) {
+    if (!isSectionDirectory(entry)) continue;
+
+    const sectionDir = path.join(contentDir, entry.name);
+    for (const file of listDirectory(sectionDir)) {
+      if (!file.isFile() || !file.name.endsWith(SCENARIO_SUFFIX)) continue;
+
+      const relativePath = path.relative(contentDir, path.join(sectionDir, file.name));
+      const parsed = parseScenarioFile(fs.readFileSync(path.join(sectionDir, file.name), "utf8"), relativePath);
+      issues.push(...parsed.issues);
+      if (parsed.issues.length > 0) continue;
+
+      const { scenario } = parsed;
+      if (articleSlugs && !articleSlugs.includes(scenario.article)) {
+        issues.push({ file: relativePath, field: "article", message: `Unknown article "${scenario.article}"` });
+      }
+      idFiles.set(scenario.id, [...(idFiles.get(scenario.id) || []), relativePath]);
+      scenarios.push(scenario);
+    }
+  }
+
+  for (const [id, files] of idFiles) {
+    if (files.length > 1) {
+      issues.push({ file: files.join(", "), field: "id", message: `Duplicate scenario id "${id}"` });
+    }
+  }
+
+  if (issues.length > 0) {
+    const details = issues.map((issue) => `  - ${issue.file} [${issue.field}]: ${issue.message}`).join("\n");
+    throw new Error(`Invalid CLI scenarios in ${contentDir}:\n${details}`);
+  }
+
+  return scenarios;
+}
+
+/** Issues for ids and slugs shared by more than one file. */
+function findDuplicates<T extends { id: string; slug: string }>(
+  entries: T[],
+  files: Map<T, string>,
+  label: string
+): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  for (const field of ["id", "slug"] as const) {
+    const seen = new Map<string, string[]>();
+    for (const entry of entries) {
+      seen.set(entry[field], [...(seen.get(entry[field]) || []), files.get(entry)!]);
+    }
+    for (const [value, duplicates] of seen) {
+      if (duplicates.length > 1) {
+        issues.push({ file: duplicates.join(", "), field, message: `Duplicate ${label} ${field} "${value}"` });
+      }
+    }
+  }
+  return issues;
+}
+
+export interface ParsedTutorialFile {
+  tutorial: Tutorial;
+  issues: ContentIssue[];
+}
+
+/**
+ * Parse and validate a tutorial declared as JSON. Steps are sorted by
+ * their `order`, and every step exercise is checked with `validateExercise`.
+ */
+export function parseTutorialFile(source: string, file: string): ParsedTutorialFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { tutorial: {} as Tutorial, issues: [{ file, field: "json", message: `Invalid JSON: ${message}` }] };
+  }
+
+  if (!isRecord(data)) {
+    return { tutorial: {} as Tutorial, issues: [{ file, field: "json", message: "Tutorial must be an object" }] };
+  }
+
+  const tutorial = data as unknown as Tutorial;
+  const issues: ContentIssue[] = validateTutorial(tutorial).errors.map((message) => ({
+    file,
+    field: "tutorial",
+    message,
+  }));
+
+  if (tutorial.prerequisites !== undefined && !(Array.isArray(tutorial.prerequisites) && tutorial.prerequisites.every(isString))) {
+    issues.push({ file, field: "prerequisites", message: "Prerequisites must be a list of tutorial slugs" });
+  }
+  if (tutorial.tags !== undefined && !(Array.isArray(tutorial.tags) && tutorial.tags.every(isString))) {
+    issues.push({ file, field: "tags", message: "Tags must be a list of strings" });
+  }
+
+  if (Array.isArray(tutorial.steps)) {
+    tutorial.steps.forEach((step, index) => {
+      if (!isRecord(step) || step.exercise === undefined) return;
+      for (const message of validateExercise(step.exercise).errors) {
+        issues.push({ file, field: `steps[${index}].exercise`, message });
+      }
+    });
+    tutorial.steps = [...tutorial.steps].sort((a, b) => a.order - b.order);
+  }
+
+  return { tutorial, issues };
+}
+
+/**
+ * Load every tutorial in `tutorialsDir`, ordered by file name. Throws a
+ * single error listing invalid fields, duplicate ids and slugs, and
+ * prerequisites that name no tutorial.
+ */
+export function loadTutorials(tutorialsDir: string = TUTORIALS_DIR): Tutorial[] {
+  if (!fs.existsSync(tutorialsDir)) return [];
+
+  const tutorials: Tutorial[] = [];
+  const issues: ContentIssue[] = [];
+  const files = new Map<Tutorial, string>();
+
+  for (const entry of listDirectory(tutorialsDir)) {
+    if (!entry.isFile() || !entry.name.endsWith(".json")) continue;
+
+    const relativePath = path.relative(path.dirname(tutorialsDir), path.join(tutorialsDir, entry.name));
+    const parsed = parseTutorialFile(fs.readFileSync(path.join(tutorialsDir, entry.name), "utf8"), relativePath);
+    issues.push(...parsed.issues);
+    if (parsed.issues.length > 0) continue;
+
+    files.set(parsed.tutorial, relativePath);
+    tutorials.push(parsed.tutorial);
+  }
+
+  issues.push(...findDuplicates(tutorials, files, "tutorial"));
+
+  const slugs = tutorials.map((tutorial) => tutorial.slug);
+  for (const tutorial of tutorials) {
+    for (const prerequisite of tutorial.prerequisites ?? []) {
+      if (prerequisite === tutorial.slug || !slugs.includes(prerequisite)) {
+        issues.push({ file: files.get(tutorial)!, field: "prerequisites", message: `Unknown prerequisite "${prerequisite}"` });
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    const details = issues.map((issue) => `  - ${issue.file} [${issue.field}]: ${issue.message}`).join("\n");
+    throw new Error(`Invalid tutorials in ${tutorialsDir}:\n${details}`);
+  }
+
+  return tutorials;
+}
+
+export interface ParsedPathFile {
+  path: LearningPath;
+  issues: ContentIssue[];
+}
+
+/**
+ * Parse and validate a learning path declared as JSON. Items are sorted by
+ * their `order`.
+ */
+export function parsePathFile(source: string, file: string): ParsedPathFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { path: {} as LearningPath, issues: [{ file, field: "json", message: `Invalid JSON: ${message}` }] };
+  }
+
+  if (!isRecord(data)) {
+    return { path: {} as LearningPath, issues: [{ file, field: "json", message: "Learning path must be an object" }] };
+  }
+
+  const learningPath = data as unknown as LearningPath;
+  const issues: ContentIssue[] = validateLearningPath(learningPath).errors.map((message) => ({
+    file,
+    field: "path",
+    message,
+  }));
+
+  if (learningPath.tags !== undefined && !(Array.isArray(learningPath.tags) && learningPath.tags.every(isString))) {
+    issues.push({ file, field: "tags", message: "Tags must be a list of strings" });
+  }
+
+  if (Array.isArray(learningPath.items)) {
+    learningPath.items = [...learningPath.items].sort((a, b) => a.order - b.order);
+  }
+
+  return { path: learningPath, issues };
+}
+
+/**
+ * Load every learning path in `pathsDir`, ordered by file name. When
+ * `content` is given, every item must point to an article, tutorial or
+ * exercise in it. Throws a single error listing invalid fields, duplicate
+ * ids and slugs, and items whose slug names no content.
+ */
+export function loadLearningPaths(pathsDir: string = PATHS_DIR, content?: PathContent): LearningPath[] {
+  if (!fs.existsSync(pathsDir)) return [];
+
+  const paths: LearningPath[] = [];
+  const issues: ContentIssue[] = [];
+  const files = new Map<LearningPath, string>();
+
+  for (const entry of listDirectory(pathsDir)) {
+    if (!entry.isFile() || !entry.name.endsWith(".json")) continue;
+
+    const relativePath = path.relative(path.dirname(pathsDir), path.join(pathsDir, entry.name));
+    const parsed = parsePathFile(fs.readFileSync(path.join(pathsDir, entry.name), "utf8"), relativePath);
+    issues.push(...parsed.issues);
+    if (parsed.issues.length > 0) continue;
+
+    files.set(parsed.path, relativePath);
+    paths.push(parsed.path);
+  }
+
+  issues.push(...findDuplicates(paths, files, "learning path"));
+
+  if (content) {
+    for (const learningPath of paths) {
+      learningPath.items.forEach((item, index) => {
+        if (!getPathItemHref(item, content)) {
+          issues.push({ file: files.get(learningPath)!, field: `items[${index}].slug`, message: `Unknown ${item.type} "${item.slug}"` });
+        }
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    const details = issues.map((issue) => `  - ${issue.file} [${issue.field}]: ${issue.message}`).join("\n");
+    throw new Error(`Invalid learning paths in ${pathsDir}:\n${details}`);
+  }
+
+  return paths;
+}
+
+/**
+ * Return the referenced diagram filenames that have no matching SVG file.
+ */
+export function findMissingDiagramFiles(filenames: string[], diagramsDir: string = DIAGRAMS_DIR): string[] {
+  const missing = new Set<string>();
+
+  for (const filename of filenames) {
+    if (!fs.existsSync(path.join(diagramsDir, filename))) {
+      missing.add(filename);
+    }
+  }
+
+  return Array.from(missing);
+}
+
+/**
+ * Throw when any referenced diagram is missing from `diagramsDir`, so a
+ * typo in a filename breaks the build instead of rendering a broken image.
+ */
+export function assertDiagramFilesExist(filenames: string[], diagramsDir: string = DIAGRAMS_DIR): void {
+  const missing = findMissingDiagramFiles(filenames, diagramsDir);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing diagram files in ${diagramsDir}:\n${missing.map((filename) => `  - ${filename}`).join("\n")}`
+    );
+  }
+}
@@ -5,13 +5,14 @@
 import { describe, it, expect, vi } from 'vitest';
 import { searchArticles, getAvailableSections, getReadingTimeRange } from './enhanced-search';
 
-// Mock the allArticles import with inline data
-vi.mock('@/lib/article-utils', () => ({
-  allArticles: [
+// Mock the allArticles import with inline data; test-article-3 is not live
+vi.mock('@/lib/article-utils', () => {
+  const allArticles = [
     {
       slug: 'test-article-1',
       title: 'Introduction to React Hooks',
       section: 'Frontend Development',
+      difficulty: 'beginner',
       content: 'React Hooks are functions that let you use state and other React features in functional components. The most common hooks are useState and useEffect.',
       codeBlocks: [{ language: 'javascript', code: 'const [count, setCount] = useState(0);' }],
       readingTime: 3,
@@ -20,6 +21,7 @@ vi.mock('@/lib/article-utils', () => ({
       slug: 'test-article-2',
       title: 'Advanced TypeScript Patterns',
       section: 'TypeScript',
+      difficulty: 'advanced',
       content: 'TypeScript provides powerful type system features including generics, conditional types, and utility types.',
       codeBlocks: [{ language: 'typescript', code: 'type ExtractType<T> = T extends infer U ? U : never;' }],
       readingTime: 5,
@@ -40,8 +42,20 @@ vi.mock('@/lib/article-utils', () => ({
       codeBlocks: [{ language: 'css', code: '.container { display: grid; grid-template-columns: 1fr 1fr; }' }],
       readingTime: 4,
     },
-  ],
-}));
+    {
+      slug: 'test-article-5',
+      title: 'أساسيات البرمجة بالذكاء الاصطناعي',
+      section: 'المقدمة',
+      content: 'تعلَّم كيف تستخدم هوكس React مع المساعدات الذكية، وكيف تكتب أوامر واضحة لإنشاء المكونات.',
+      codeBlocks: [],
+      readingTime: 1,
+    },
+  ];
+  return {
+    allArticles,
+    getLiveArticles: () => allArticles.filter(article => article.slug !== 'test-article-3'),
+  };
+});
 
 describe('Enhanced Search', () => {
   describe('Basic Search', () => {
@@ -84,6 +98,15 @@ describe('Enhanced Search', () => {
       expect(results.every(r => r.item.section === 'Frontend Development')).toBe(true);
     });
 
+    it('should filter by difficulty', () => {
+      const results = searchArticles({
+        query: '',
+        filters: { difficulty: 'advanced' },
+      });
+      expect(results.map(r => r.item.slug)).toEqual(['test-article-2']);
+      expect(results[0].item.difficulty).toBe('advanced');
+    });
+
     it('should filter by code presence', () => {
       const withCode = searchArticles({
         query: '',
@@ -146,6 +169,34 @@ describe('Enhanced Search', () => {
     return Math.ceil(wordCount / wordsPerMinute);
   }
 
+  describe('Arabic Normalization', () => {
+    it('should match taa marbuta and haa spellings alike', () => {
+      const withTaa = searchArticles({ query: 'البرمجة' });
+      const withHaa = searchArticles({ query: 'البرمجه' });
+
+      expect(withTaa[0]?.item.slug).toBe('test-article-5');
+      expect(withHaa[0]?.item.slug).toBe('test-article-5');
+    });
+
+    it('should ignore diacritics, alef variants and the definite article', () => {
+      expect(searchArticles({ query: 'الْأَسَاسِيَّات' })[0]?.item.slug).toBe('test-article-5');
+      expect(searchArticles({ query: 'اساسيات' })[0]?.item.slug).toBe('test-article-5');
+      expect(searchArticles({ query: 'برمجة' })[0]?.item.slug).toBe('test-article-5');
+    });
+
+    it('should handle mixed Arabic and English queries', () => {
+      const results = searchArticles({ query: 'هوكس React' });
+      expect(results[0]?.item.slug).toBe('test-article-5');
+    });
+
+    it('should highlight whole words in the original text', () => {
+      const [result] = searchArticles({ query: 'البرمجه' });
+      const highlighted = result.highlightedTitle.filter(part => part.matches).map(part => part.text);
+
+      expect(highlighted).toEqual(['البرمجة']);
+    });
+  });
+
   describe('Sorting', () => {
     it('should sort by relevance (default)', () => {
       const results = searchArticles({ query: 'React', sortBy: 'relevance' });
@@ -220,6 +271,12 @@ describe('Enhanced Search', () => {
       expect(results[0].highlightedContent.length).toBeGreaterThan(0);
     });
 
+    it('should align content highlights with the preview text', () => {
+      const results = searchArticles({ query: 'useEffect' });
+      const highlighted = results[0].highlightedContent.filter(part => part.matches);
+      expect(highlighted.map(part => part.text)).toContain('useEffect');
+    });
+
     it('should provide match highlights', () => {
       const results = searchArticles({ query: 'TypeScript patterns' });
       expect(results[0].matchHighlights).toBeDefined();
@@ -235,6 +292,10 @@ describe('Enhanced Search', () => {
       expect(sections.length).toBeGreaterThan(0);
     });
 
+    it('should only list sections with live articles', () => {
+      expect(getAvailableSections()).toEqual(['Frontend Development', 'TypeScript', 'المقدمة']);
+    });
+
     it('should return reading time range', () => {
       const range = getReadingTimeRange();
       expect(range).toBeDefined();
@@ -1,9 +1,11 @@
 import Fuse, { FuseResult } from 'fuse.js';
-import { allArticles } from '@/lib/article-utils';
+import { allArticles, getLiveArticles } from '@/lib/article-utils';
+import { analyzeText, toSourceRanges, type AnalyzedText } from '@/lib/text-normalizer';
+import type { DifficultyLevel, WikiArticle } from '@/types';
 
 export interface SearchFilters {
   section?: string;
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  difficulty?: DifficultyLevel;
   hasCode?: boolean;
   minReadingTime?: number;
   maxReadingTime?: number;
@@ -30,15 +32,22 @@ export interface EnhancedSearchResult {
   matchHighlights: string[];
 }
 
-interface ExtendedSearchResult extends FuseResult<WikiArticle> {
-  item: WikiArticle & { readingTime?: number };
+type SearchField = 'title' | 'content' | 'section';
+
+interface IndexedArticle extends WikiArticle {
+  readingTime: number;
+  analyzed: Record<SearchField, AnalyzedText>;
 }
 
+type ExtendedSearchResult = Pick<FuseResult<IndexedArticle>, 'item' | 'score' | 'matches'>;
+
+// Fields are indexed in their normalized, stemmed form (see text-normalizer);
+// match indices are mapped back to the original text for highlighting.
 const fuseOptions = {
   keys: [
-    { name: 'title', weight: 0.6 },
-    { name: 'content', weight: 0.3 },
-    { name: 'section', weight: 0.1 },
+    { name: 'title', weight: 0.6, getFn: (article: IndexedArticle) => article.analyzed.title.text },
+    { name: 'content', weight: 0.3, getFn: (article: IndexedArticle) => article.analyzed.content.text },
+    { name: 'section', weight: 0.1, getFn: (article: IndexedArticle) => article.analyzed.section.text },
   ],
   threshold: 0.3,
   includeScore: true,
@@ -47,19 +56,47 @@ const fuseOptions = {
   ignoreLocation: true,
 };
 
-let searchIndex: Fuse<WikiArticle> | null = null;
+// Fuse also reports short fuzzy hits; shorter ranges are not highlighted.
+const MIN_HIGHLIGHT_LENGTH = 3;
 
-function getSearchIndex(): Fuse<WikiArticle> {
-  if (!searchIndex) {
-    const articlesWithReadingTime = allArticles.map(article => ({
+let indexedArticles: IndexedArticle[] | null = null;
+let searchIndex: Fuse<IndexedArticle> | null = null;
+
+function getIndexedArticles(): IndexedArticle[] {
+  if (!indexedArticles) {
+    indexedArticles = allArticles.map(article => ({
       ...article,
       readingTime: calculateReadingTime(article.content),
+      analyzed: {
+        title: analyzeText(article.title),
+        content: analyzeText(article.content),
+        section: analyzeText(article.section),
+      },
     }));
-    searchIndex = new Fuse(articlesWithReadingTime, fuseOptions);
+  }
+  return indexedArticles;
+}
+
+function getSearchIndex(): Fuse<IndexedArticle> {
+  if (!searchIndex) {
+    searchIndex = new Fuse(getIndexedArticles(), fuseOptions);
   }
   return searchIndex;
 }
 
+/**
+ * Ranges of `field` in the original article text that matched the query.
+ */
+function getSourceRanges(result: ExtendedSearchResult, field: SearchField, minLength: number): Array<[number, number]> {
+  const match = result.matches?.find(m => m.key === field);
+  if (!match) {
+    return [];
+  }
+
+  const ranges = match.indices.filter(([start, end]) => end - start + 1 >= minLength);
+  return toSourceRanges(result.item.analyzed[field], ranges);
+}
+
 function highlightText(text: string, indices: ReadonlyArray<[number, number]>): HighlightedText[] {
   if (!indices || indices.length === 0) {
     return [{ text, matches: false }];
@@ -85,26 +122,40 @@ function highlightText(text: string, indices: ReadonlyArray<[number, number]>):
   return result;
 }
 
-function extractContentPreview(content: string, matches: ReadonlyArray<Fuse.FuseMatch> | undefined, maxLength = 200): string {
-  if (!matches || matches.length === 0) {
-    return content.slice(0, maxLength) + (content.length > maxLength ? '...' : '');
-  }
-
-  const contentMatches = matches.filter(m => m.key === 'content');
-  if (contentMatches.length === 0) {
-    return content.slice(0, maxLength) + (content.length > maxLength ? '...' : '');
-  }
+interface ContentPreview {
+  text: string;
+  indices: Array<[number, number]>;
+}
 
-  const firstMatch = contentMatches[0].indices?.[0];
-  if (!firstMatch) {
-    return content.slice(0, maxLength) + (content.length > maxLength ? '...' : '');
+/**
+ * Cut a window of `content` around the longest matched range and shift the
+ * ranges so they point into the preview text.
+ */
+function extractContentPreview(content: string, ranges: Array<[number, number]>, maxLength = 200): ContentPreview {
+  if (ranges.length === 0) {
+    return {
+      text: content.slice(0, maxLength) + (content.length > maxLength ? '...' : ''),
+      indices: [],
+    };
   }
 
-  const start = Math.max(0, firstMatch[0] - 50);
-  const end = Math.min(content.length, firstMatch[1] + 50);
-  const preview = content.slice(start, end);
+  const anchor = ranges.reduce((longest, range) =>
+    range[1] - range[0] > longest[1] - longest[0] ? range : longest
+  );
+  const start = Math.max(0, anchor[0] - 50);
+  const end = Math.min(content.length, anchor[1] + 50);
+  const prefix = start > 0 ? '...' : '';
+  const indices = ranges
+    .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd < end)
+    .map(([rangeStart, rangeEnd]): [number, number] => [
+      rangeStart - start + prefix.length,
+      rangeEnd - start + prefix.length,
+    ]);
 
-  return (start > 0 ? '...' : '') + preview + (end < content.length ? '...' : '');
+  return {
+    text: prefix + content.slice(start, end) + (end < content.length ? '...' : ''),
+    indices,
+  };
 }
 
 function applyFilters(results: ExtendedSearchResult[], filters?: SearchFilters): ExtendedSearchResult[] {
@@ -117,6 +168,10 @@ function applyFilters(results: ExtendedSearchResult[], filters?: SearchFilters):
       return false;
     }
 
+    if (filters.difficulty && result.item.difficulty !== filters.difficulty) {
+      return false;
+    }
+
     if (filters.hasCode && (!result.item.codeBlocks || result.item.codeBlocks.length === 0)) {
       return false;
     }
@@ -168,24 +223,17 @@ function sortResults(results: ExtendedSearchResult[], sortBy: SearchOptions['sor
   return sorted;
 }
 
-function extractMatchHighlights(matches: ReadonlyArray<Fuse.FuseMatch> | undefined): string[] {
-  if (!matches) {
-    return [];
-  }
-
+function extractMatchHighlights(texts: string[], rangeLists: Array<Array<[number, number]>>): string[] {
   const highlights: string[] = [];
 
-  for (const match of matches) {
-    if (match.indices && match.indices.length > 0) {
-      const text = match.value || '';
-      for (const [start, end] of match.indices.slice(0, 2)) {
-        const highlight = text.slice(start, end + 1);
-        if (highlight.length >= 3 && !highlights.includes(highlight)) {
-          highlights.push(highlight);
-        }
+  rangeLists.forEach((ranges, index) => {
+    for (const [start, end] of ranges.slice(0, 2)) {
+      const highlight = texts[index].slice(start, end + 1);
+      if (highlight.length >= 3 && !highlights.includes(highlight)) {
+        highlights.push(highlight);
       }
     }
-  }
+  });
 
   return highlights;
 }
@@ -193,12 +241,12 @@ function extractMatchHighlights(matches: ReadonlyArray<Fuse.FuseMatch> | undefin
 export function searchArticles(options: SearchOptions): EnhancedSearchResult[] {
   const index = getSearchIndex();
 
-  let results: ExtendedSearchResult[] = options.query
-    ? index.search(options.query) as ExtendedSearchResult[]
-    : allArticles.map(article => ({
-        item: { ...article, readingTime: calculateReadingTime(article.content) },
-        score: 0,
-      }));
+  const query = analyzeText(options.query).text;
+  const minHighlightLength = Math.min(MIN_HIGHLIGHT_LENGTH, query.length);
+
+  let results: ExtendedSearchResult[] = query
+    ? index.search(query)
+    : getIndexedArticles().map(article => ({ item: article, score: 0 }));
 
   results = applyFilters(results, options.filters);
   results = sortResults(results, options.sortBy, options.sortOrder);
@@ -206,8 +254,10 @@ export function searchArticles(options: SearchOptions): EnhancedSearchResult[] {
   const limited = options.limit ? results.slice(0, options.limit) : results;
 
   return limited.map(result => {
-    const titleMatches = result.matches?.find(m => m.key === 'title');
-    const contentMatches = result.matches?.find(m => m.key === 'content');
+    const titleRanges = getSourceRanges(result, 'title', minHighlightLength);
+    const contentRanges = getSourceRanges(result, 'content', minHighlightLength);
+    const sectionRanges = getSourceRanges(result, 'section', minHighlightLength);
+    const preview = extractContentPreview(result.item.content, contentRanges);
 
     return {
       item: {
@@ -215,21 +265,25 @@ export function searchArticles(options: SearchOptions): EnhancedSearchResult[] {
         title: result.item.title,
         section: result.item.section,
         content: result.item.content,
+        difficulty: result.item.difficulty,
         codeBlocks: result.item.codeBlocks,
       },
       score: result.score || 0,
-      highlightedTitle: highlightText(result.item.title, titleMatches?.indices || []),
-      highlightedContent: highlightText(
-        extractContentPreview(result.item.content, result.matches),
-        contentMatches?.indices || []
+      highlightedTitle: highlightText(result.item.title, titleRanges),
+      highlightedContent: highlightText(preview.text, preview.indices),
+      matchHighlights: extractMatchHighlights(
+        [result.item.title, result.item.content, result.item.section],
+        [titleRanges, contentRanges, sectionRanges]
       ),
-      matchHighlights: extractMatchHighlights(result.matches),
     };
   });
 }
 
+/**
+ * Sections with at least one live article, for the search filters.
+ */
 export function getAvailableSections(): string[] {
-  const sections = new Set(allArticles.map(a => a.section));
+  const sections = new Set(getLiveArticles().map(a => a.section));
   return Array.from(sections).sort();
 }
 
@@ -251,15 +305,3 @@ function calculateReadingTime(content: string, wordsPerMinute = 200): number {
 
   return Math.ceil(wordCount / wordsPerMinute);
 }
-
-export interface WikiArticle {
-  slug: string;
-  title: string;
-  section: string;
-  content: string;
-  codeBlocks?: Array<{
-    language: string;
-    code: string;
-    title?: string;
-  }>;
-}
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SANDBOX_WORKER_SOURCE } from './code-sandbox';
+import { diffLines, gradeExercise, type GradeOptions } from './exercise-grader';
+import type { Exercise } from '@/types';
+
+type Listener = ((event: { data: unknown }) => void) | null;
+
+// jsdom has no Worker; run the worker script in-process
+class InProcessWorker {
+  onmessage: Listener = null;
+  onerror = null;
+  terminate = vi.fn();
+  readonly scope: { postMessage: (data: unknown) => void; onmessage: Listener };
+
+  constructor() {
+    this.scope = {
+      postMessage: data => queueMicrotask(() => this.onmessage?.({ data })),
+      onmessage: null,
+    };
+    new Function('self', SANDBOX_WORKER_SOURCE)(this.scope);
+  }
+
+  postMessage(data: unknown) {
+    this.scope.onmessage?.({ data });
+  }
+}
+
+const addExercise: Exercise = {
+  id: 'ex-add',
+  title: 'Add',
+  description: 'Add two numbers',
+  instruction: 'Return a + b',
+  starterCode: 'function add(a, b) {}',
+  language: 'javascript',
+  entryPoint: 'add',
+  testCases: [
+    { description: 'small numbers', input: [1, 2], expectedOutput: 3 },
+    { description: 'negative numbers', input: [-1, -2], expectedOutput: -3 },
+    { description: 'strings', input: ['a', 'b'], expectedOutput: 'ab', required: false },
+  ],
+};
+
+describe('gradeExercise', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', InProcessWorker);
+    URL.createObjectURL = vi.fn(() => 'blob:sandbox');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes every case for a correct solution', async () => {
+    const grade = await gradeExercise(addExercise, 'function add(a, b) { return a + b; }');
+
+    expect(grade).toMatchObject({ passed: 3, total: 3, score: 100, completed: true });
+    expect(grade.results.map(result => result.actual)).toEqual(['3', '-3', 'ab']);
+  });
+
+  it('gives partial credit and completes when only optional cases fail', async () => {
+    const grade = await gradeExercise(addExercise, "function add(a, b) { return typeof a === 'number' ? a + b : ''; }");
+
+    expect(grade).toMatchObject({ passed: 2, total: 3, score: 67, completed: true });
+    expect(grade.results[2]).toMatchObject({ passed: false, required: false, expected: 'ab', actual: '' });
+  });
+
+  it('does not complete when a required case fails', async () => {
+    const grade = await gradeExercise(addExercise, 'function add(a, b) { return Math.abs(a + b); }');
+
+    expect(grade).toMatchObject({ passed: 1, score: 33, completed: false });
+    expect(grade.results[1].diff).toEqual([
+      { type: 'expected', text: '-3' },
+      { type: 'actual', text: '3' },
+    ]);
+  });
+
+  it('compares console output when there is no entry point', async () => {
+    const exercise: Exercise = {
+      ...addExercise,
+      entryPoint: undefined,
+      testCases: [{ description: 'greets', input: 'Sara', expectedOutput: ['Hello', 'Sara'] }],
+    };
+
+    const grade = await gradeExercise(exercise, 'console.log("Hello");\nconsole.log(input);');
+
+    expect(grade.completed).toBe(true);
+    expect(grade.results[0].actual).toBe('Hello\nSara');
+  });
+
+  it('reports runtime errors per case', async () => {
+    const grade = await gradeExercise(addExercise, 'function add() { throw new Error("not yet"); }');
+
+    expect(grade.passed).toBe(0);
+    expect(grade.results[0]).toMatchObject({ passed: false, error: 'not yet' });
+  });
+
+  it('fails every case on a TypeScript syntax error', async () => {
+    const grade = await gradeExercise({ ...addExercise, language: 'typescript' }, 'function add(a: , b) {}');
+
+    expect(grade.completed).toBe(false);
+    expect(grade.results.every(result => result.error?.startsWith('Line 1, Col 17: Type expected.'))).toBe(true);
+  });
+
+  it('runs TypeScript solutions', async () => {
+    const grade = await gradeExercise(
+      { ...addExercise, language: 'ts' },
+      'function add(a: number, b: number): number { return a + b; }'
+    );
+
+    expect(grade.passed).toBe(3);
+  });
+
+  it('bundles multi-file exercises and runs the entry file', async () => {
+    const exercise: Exercise = {
+      ...addExercise,
+      language: 'typescript',
+      files: [
+        { path: 'src/lib/sum.ts', content: 'export const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);', readOnly: true },
+        { path: 'src/add.ts', content: "import { sum } from '@/lib/sum';\nexport function add(a: number, b: number) { return sum([a, b]); }" },
+      ],
+    };
+
+    const grade = await gradeExercise(exercise, exercise.files!);
+
+    expect(grade.passed).toBe(2);
+    expect(grade.results[2].actual).toBe('0ab');
+  });
+
+  it('reports which file has a syntax error', async () => {
+    const files = [
+      { path: 'add.ts', content: "import { x } from './broken';\nexport function add() { return x; }" },
+      { path: 'broken.ts', content: 'export const x: = 1;' },
+    ];
+
+    const grade = await gradeExercise({ ...addExercise, files }, files);
+
+    expect(grade.results[0].error).toBe('broken.ts: Line 1, Col 17: Type expected. (TS1110)');
+  });
+
+  it('passes the timeout to each run', async () => {
+    const run = vi.fn<NonNullable<GradeOptions['run']>>(async () => ({
+      success: false,
+      output: [],
+      error: 'Execution timed out after 100ms',
+      duration: 100,
+      timedOut: true,
+    }));
+
+    const grade = await gradeExercise(addExercise, 'while (true) {}', { timeout: 100, run });
+
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(run.mock.calls[0][1]).toMatchObject({ timeout: 100 });
+    expect(grade.results[0]).toMatchObject({ passed: false, timedOut: true });
+  });
+});
+
+describe('diffLines', () => {
+  it('marks lines that differ', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'expected', text: 'b' },
+      { type: 'actual', text: 'x' },
+      { type: 'same', text: 'c' },
+    ]);
+  });
+
+  it('handles missing and extra lines', () => {
+    expect(diffLines('a\nb', 'a')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'expected', text: 'b' },
+    ]);
+    expect(diffLines('a', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'actual', text: 'b' },
+    ]);
+  });
+});
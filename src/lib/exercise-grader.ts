@@ -0,0 +1,232 @@
+/**
+ * Exercise Grader
+ *
+ * Runs a learner's code against an exercise's `testCases` in the code
+ * sandbox, one fresh worker per case. When the exercise names an
+ * `entryPoint`, that function is called with the case's `input` (an array is
+ * spread as arguments) and its return value is compared with
+ * `expectedOutput`. Otherwise the case's `input` is available as the
+ * `input` constant and the console output is compared, line by line, the
+ * same way `validateOutput` does.
+ *
+ * Cases are required unless they set `required: false`; optional cases only
+ * add to the score. Multi-file exercises are bundled first (see
+ * module-bundler) and the entry file plays the part of the snippet.
+ *
+ * @module exercise-grader
+ */
+
+import type { Exercise, ExerciseFile, TestCase } from '@/types';
+import { runInSandbox, type ExecutionResult, type SandboxOptions } from './code-sandbox';
+import { transpileTypeScript, formatDiagnostic } from './typescript-compiler';
+import { bundleFiles, formatFileDiagnostic } from './module-bundler';
+import { getExerciseEntryFile, validateOutput } from './tutorial-utils';
+
+export interface DiffLine {
+  type: 'same' | 'expected' | 'actual';
+  text: string;
+}
+
+export interface TestCaseResult {
+  testCase: TestCase;
+  passed: boolean;
+  required: boolean;
+  /** Expected and actual output as displayed to the learner. */
+  expected: string;
+  actual: string;
+  diff: DiffLine[];
+  error?: string;
+  timedOut: boolean;
+  duration: number;
+}
+
+export interface GradeResult {
+  results: TestCaseResult[];
+  passed: number;
+  total: number;
+  /** Percentage of cases passed, 0-100. */
+  score: number;
+  /** Every required case passed; the exercise counts as complete. */
+  completed: boolean;
+}
+
+export interface GradeOptions {
+  /** Milliseconds allowed per case. */
+  timeout?: number;
+  signal?: AbortSignal;
+  /** Runs one case; defaults to `runInSandbox`. */
+  run?: (code: string, options: SandboxOptions) => Promise<ExecutionResult>;
+}
+
+const RETURN_PREFIX = '→ ';
+const TYPESCRIPT_LANGUAGES = ['typescript', 'ts'];
+
+export function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return 'undefined';
+  return JSON.stringify(value, null, 2) ?? String(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+}
+
+/**
+ * Line diff of `expected` against `actual` (longest common subsequence).
+ */
+export function diffLines(expected: string, actual: string): DiffLine[] {
+  const a = expected.split('\n');
+  const b = actual.split('\n');
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      diff.push({ type: 'expected', text: a[i++] });
+    } else {
+      diff.push({ type: 'actual', text: b[j++] });
+    }
+  }
+  return diff;
+}
+
+function buildHarness(code: string, testCase: TestCase, entryPoint?: string): string {
+  const input = JSON.stringify(testCase.input ?? null);
+  if (!entryPoint) return `const input = ${input};\n${code}`;
+
+  // Wrapping the result keeps `undefined` apart from a missing return value
+  return [
+    code,
+    `const __args = ${input};`,
+    `const __result = await ${entryPoint}(...(Array.isArray(__args) ? __args : [__args]));`,
+    'return JSON.stringify({ value: __result });',
+  ].join('\n');
+}
+
+function expectedText(expected: unknown): string {
+  return Array.isArray(expected) && expected.every(line => typeof line === 'string')
+    ? expected.join('\n')
+    : formatValue(expected);
+}
+
+async function gradeCase(
+  code: string,
+  testCase: TestCase,
+  exercise: Exercise,
+  options: GradeOptions
+): Promise<TestCaseResult> {
+  const { run = runInSandbox, timeout, signal } = options;
+  const result = await run(buildHarness(code, testCase, exercise.entryPoint), { timeout, signal });
+
+  const returned = exercise.entryPoint ? result.output[result.output.length - 1] : undefined;
+  const logs = exercise.entryPoint && result.success ? result.output.slice(0, -1) : result.output;
+  const expected = expectedText(testCase.expectedOutput);
+
+  let actual = logs.filter(line => !line.startsWith(RETURN_PREFIX)).join('\n');
+  let passed = false;
+
+  if (result.success && exercise.entryPoint) {
+    const parsed = JSON.parse((returned ?? '').slice(RETURN_PREFIX.length) || '{}') as { value?: unknown };
+    actual = formatValue(parsed.value);
+    passed = isEqual(parsed.value, testCase.expectedOutput);
+  } else if (result.success) {
+    const expectedOutput = Array.isArray(testCase.expectedOutput) ? (testCase.expectedOutput as string[]) : expected;
+    passed = validateOutput(actual, expectedOutput);
+  }
+
+  return {
+    testCase,
+    passed,
+    required: testCase.required !== false,
+    expected,
+    actual,
+    diff: passed ? [] : diffLines(expected, actual),
+    ...(result.error !== undefined ? { error: result.error } : {}),
+    timedOut: result.timedOut,
+    duration: result.duration,
+  };
+}
+
+async function compile(exercise: Exercise, code: string | ExerciseFile[]): Promise<{ runnable: string; error?: string }> {
+  if (Array.isArray(code)) {
+    const entry = getExerciseEntryFile({ ...exercise, files: code });
+    if (!entry) return { runnable: '', error: 'The exercise has no entry file' };
+    const bundle = await bundleFiles(code, entry.path);
+    return bundle.diagnostics.length > 0
+      ? { runnable: bundle.code, error: bundle.diagnostics.map(formatFileDiagnostic).join('\n') }
+      : { runnable: bundle.code };
+  }
+
+  if (TYPESCRIPT_LANGUAGES.includes(exercise.language.toLowerCase())) {
+    const transpiled = await transpileTypeScript(code);
+    return transpiled.diagnostics.length > 0
+      ? { runnable: transpiled.code, error: transpiled.diagnostics.map(formatDiagnostic).join('\n') }
+      : { runnable: transpiled.code };
+  }
+
+  return { runnable: code };
+}
+
+/**
+ * Grade `code` (a snippet, or the files of a multi-file exercise) against
+ * every test case of `exercise`. Cases run one after another so a slow case
+ * cannot starve the rest of their timeout.
+ */
+export async function gradeExercise(
+  exercise: Exercise,
+  code: string | ExerciseFile[],
+  options: GradeOptions = {}
+): Promise<GradeResult> {
+  const testCases = exercise.testCases ?? [];
+  const { runnable, error: compileError } = await compile(exercise, code);
+
+  const results: TestCaseResult[] = [];
+  for (const testCase of testCases) {
+    if (compileError !== undefined || options.signal?.aborted) {
+      const expected = expectedText(testCase.expectedOutput);
+      results.push({
+        testCase,
+        passed: false,
+        required: testCase.required !== false,
+        expected,
+        actual: '',
+        diff: [],
+        error: compileError ?? 'Execution cancelled',
+        timedOut: false,
+        duration: 0,
+      });
+      continue;
+    }
+    results.push(await gradeCase(runnable, testCase, exercise, options));
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  return {
+    results,
+    passed,
+    total: results.length,
+    score: results.length > 0 ? Math.round((passed / results.length) * 100) : 0,
+    completed: results.length > 0 && results.every(result => result.passed || !result.required),
+  };
+}
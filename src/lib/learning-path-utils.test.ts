@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 import {
   validateLearningPath,
   validatePathItem,
+  getPathItemHref,
   createLearningPath,
   createPathItem,
   calculatePathTime,
@@ -26,7 +27,7 @@ import {
   searchPaths,
   sortPaths,
 } from "./learning-path-utils";
-import type { LearningPath, PathItem, PathProgress, DifficultyLevel } from "@/types";
+import type { LearningPath, PathItem, PathItemType, PathProgress, DifficultyLevel, Tutorial } from "@/types";
 
 describe("learning-path-utils", () => {
   const mockPathItem: PathItem = {
@@ -216,6 +217,49 @@ describe("learning-path-utils", () => {
     });
   });
 
+  describe("getPathItemHref", () => {
+    const tutorial: Tutorial = {
+      id: "tutorial-1",
+      slug: "basic-tutorial",
+      title: "Basic Tutorial",
+      description: "A".repeat(50),
+      section: "Basics",
+      difficulty: "beginner",
+      estimatedMinutes: 30,
+      learningObjectives: ["Learn"],
+      steps: [
+        {
+          id: "step-1",
+          title: "Practice",
+          content: "Practice",
+          order: 0,
+          exercise: {
+            id: "practice-exercise",
+            title: "Practice Exercise",
+            description: "Practice",
+            instruction: "Practice",
+            starterCode: "",
+            language: "javascript",
+          },
+        },
+      ],
+    };
+    const content = { articleSlugs: ["intro-article"], tutorials: [tutorial] };
+
+    it("should link each item type to its page", () => {
+      expect(mockPathItems.map((item) => getPathItemHref(item, content))).toEqual([
+        "/wiki/intro-article",
+        "/tutorials/basic-tutorial",
+        "/tutorials/basic-tutorial",
+      ]);
+    });
+
+    it("should return undefined for slugs that name no content", () => {
+      const empty = { articleSlugs: [], tutorials: [] };
+      expect(mockPathItems.map((item) => getPathItemHref(item, empty))).toEqual([undefined, undefined, undefined]);
+    });
+  });
+
   describe("createLearningPath", () => {
     it("should create a learning path with defaults", () => {
       const path = createLearningPath({
@@ -4,8 +4,17 @@ import type {
   PathItemType,
   PathProgress,
   DifficultyLevel,
+  Tutorial,
 } from "@/types";
 
+/**
+ * Content that path items can point to
+ */
+export interface PathContent {
+  articleSlugs: string[];
+  tutorials: Tutorial[];
+}
+
 /**
  * Validates a learning path object
  */
@@ -117,6 +126,31 @@ export function validatePathItem(item: PathItem): string[] {
   return errors;
 }
 
+/**
+ * Gets the page a path item links to: `/wiki/<slug>` for articles,
+ * `/tutorials/<slug>` for tutorials, and the tutorial holding the exercise
+ * (`slug` is the exercise id) for exercises. Returns undefined when the slug
+ * names no content.
+ */
+export function getPathItemHref(item: PathItem, content: PathContent): string | undefined {
+  switch (item.type) {
+    case "article":
+      return content.articleSlugs.includes(item.slug) ? `/wiki/${item.slug}` : undefined;
+    case "tutorial":
+      return content.tutorials.some((tutorial) => tutorial.slug === item.slug)
+        ? `/tutorials/${item.slug}`
+        : undefined;
+    case "exercise": {
+      const tutorial = content.tutorials.find((candidate) =>
+        candidate.steps.some((step) => step.exercise?.id === item.slug)
+      );
+      return tutorial ? `/tutorials/${tutorial.slug}` : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Factory function to create a learning path with proper defaults
  */
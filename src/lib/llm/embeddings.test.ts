@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OpenAICompatibleEmbeddingProvider } from './embeddings';
+
+describe('OpenAICompatibleEmbeddingProvider', () => {
+  it('posts the texts and returns vectors in input order', async () => {
+    const fetch = vi.fn(async () =>
+      Response.json({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] })
+    );
+    const provider = new OpenAICompatibleEmbeddingProvider({ baseUrl: 'http://localhost:11434/v1', model: 'nomic-embed-text', fetch });
+
+    await expect(provider.embed(['first', 'second'])).resolves.toEqual([[1, 0], [0, 1]]);
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/embeddings');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'nomic-embed-text', input: ['first', 'second'] });
+  });
+
+  it('rejects failed requests and missing vectors', async () => {
+    const failing = new OpenAICompatibleEmbeddingProvider({
+      baseUrl: 'http://localhost/v1',
+      model: 'm',
+      fetch: vi.fn(async () => new Response('', { status: 500 })),
+    });
+    await expect(failing.embed(['a'])).rejects.toThrow('Embedding request failed with status 500');
+
+    const short = new OpenAICompatibleEmbeddingProvider({
+      baseUrl: 'http://localhost/v1',
+      model: 'm',
+      fetch: vi.fn(async () => Response.json({ data: [] })),
+    });
+    await expect(short.embed(['a'])).rejects.toThrow('Embedding response has 0 vectors for 1 texts');
+  });
+});
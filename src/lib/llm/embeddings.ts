@@ -0,0 +1,56 @@
+/**
+ * Text embeddings, used to re-rank retrieved passages. Any server with an
+ * OpenAI-compatible `/embeddings` endpoint works, including Ollama
+ * (`nomic-embed-text`, `mxbai-embed-large`, ...).
+ */
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  /** One vector per text, in the same order. */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export interface OpenAICompatibleEmbeddingOptions {
+  /** The API root, up to and including the version, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+interface EmbeddingResponse {
+  data?: { embedding: number[]; index: number }[];
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai-compatible';
+  private readonly options: OpenAICompatibleEmbeddingOptions;
+
+  constructor(options: OpenAICompatibleEmbeddingOptions) {
+    this.options = options;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const { baseUrl, model, apiKey, fetch: fetchImpl = fetch } = this.options;
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (apiKey) headers.authorization = `Bearer ${apiKey}`;
+
+    const response = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model, input: texts }),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Embedding request failed with status ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+
+    const body = (await response.json()) as EmbeddingResponse;
+    const data = [...(body.data ?? [])].sort((a, b) => a.index - b.index);
+    if (data.length !== texts.length) {
+      throw new Error(`Embedding response has ${data.length} vectors for ${texts.length} texts`);
+    }
+    return data.map(item => item.embedding);
+  }
+}
@@ -0,0 +1,41 @@
+export * from './provider';
+export * from './sse';
+export * from './prompt';
+export { OpenAICompatibleProvider, type OpenAICompatibleOptions } from './openai-compatible';
+export * from './embeddings';
+
+import { MockLLMProvider, type LLMProvider } from './provider';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { OpenAICompatibleEmbeddingProvider, type EmbeddingProvider } from './embeddings';
+
+/**
+ * The provider for `/api/chat`: an OpenAI-compatible server when
+ * `LLM_BASE_URL` is set (model `LLM_MODEL`, key `LLM_API_KEY`), otherwise
+ * the mock.
+ */
+export function createDefaultProvider(): LLMProvider {
+  const baseUrl = process.env.LLM_BASE_URL;
+  if (!baseUrl) return new MockLLMProvider();
+
+  return new OpenAICompatibleProvider({
+    baseUrl,
+    model: process.env.LLM_MODEL || 'llama3.2',
+    apiKey: process.env.LLM_API_KEY || undefined,
+  });
+}
+
+/**
+ * The embedding model that re-ranks passages for `/api/chat`, when
+ * `LLM_EMBEDDING_MODEL` is set; it is served from `LLM_BASE_URL`.
+ */
+export function createDefaultEmbeddingProvider(): EmbeddingProvider | null {
+  const baseUrl = process.env.LLM_BASE_URL;
+  const model = process.env.LLM_EMBEDDING_MODEL;
+  if (!baseUrl || !model) return null;
+
+  return new OpenAICompatibleEmbeddingProvider({
+    baseUrl,
+    model,
+    apiKey: process.env.LLM_API_KEY || undefined,
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+function streamOf(parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(encoder.encode(part));
+      controller.close();
+    },
+  });
+}
+
+function delta(content: string) {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+}
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+describe('OpenAICompatibleProvider', () => {
+  it('posts to chat/completions and returns the message content', async () => {
+    const fetch = vi.fn(async () => Response.json({ choices: [{ message: { content: 'Hi [1]' } }] }));
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.2', fetch });
+
+    await expect(provider.complete({ messages, temperature: 0.2 })).resolves.toBe('Hi [1]');
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'llama3.2', messages, stream: false, temperature: 0.2 });
+    expect(new Headers(init.headers).has('authorization')).toBe(false);
+  });
+
+  it('sends the API key as a bearer token', async () => {
+    const fetch = vi.fn(async () => Response.json({ choices: [] }));
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'https://api.example.com/v1', model: 'm', apiKey: 'secret', fetch });
+
+    await expect(provider.complete({ messages })).resolves.toBe('');
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(new Headers(init.headers).get('authorization')).toBe('Bearer secret');
+  });
+
+  it('streams deltas split across network chunks until [DONE]', async () => {
+    const body = delta('Hel') + delta('lo') + ': keep-alive\n\n' + delta(' world') + 'data: [DONE]\n\n' + delta('ignored');
+    const parts = [body.slice(0, 10), body.slice(10, 47), body.slice(47)];
+    const fetch = vi.fn(async () => new Response(streamOf(parts)));
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost/v1', model: 'm', fetch });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream({ messages })) chunks.push(chunk);
+
+    expect(chunks).toEqual(['Hel', 'lo', ' world']);
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string).stream).toBe(true);
+  });
+
+  it('reports failed requests with their status', async () => {
+    const fetch = vi.fn(async () => new Response('model not found', { status: 404 }));
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost/v1', model: 'missing', fetch });
+
+    await expect(provider.complete({ messages })).rejects.toThrow('LLM request failed with status 404: model not found');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Provider for any server that speaks the OpenAI chat completions API:
+ * OpenAI itself, or a local model behind Ollama, llama.cpp, vLLM or
+ * LM Studio (for Ollama, `baseUrl` is `http://localhost:11434/v1`).
+ */
+
+import type { ChatCompletionRequest, LLMProvider } from './provider';
+import { readServerSentEvents } from './sse';
+
+export interface OpenAICompatibleOptions {
+  /** The API root, up to and including the version, e.g. `https://api.openai.com/v1`. */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token; local servers usually need none. */
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+interface CompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private readonly options: OpenAICompatibleOptions;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.options = options;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const body = (await response.json()) as CompletionResponse;
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+
+  async *stream(request: ChatCompletionRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) throw new Error('LLM response has no body to stream');
+
+    for await (const event of readServerSentEvents(response.body)) {
+      if (event.data === '[DONE]') return;
+      const chunk = JSON.parse(event.data) as CompletionChunk;
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  private async post(request: ChatCompletionRequest, stream: boolean): Promise<Response> {
+    const { baseUrl, model, apiKey, fetch: fetchImpl = fetch } = this.options;
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (apiKey) headers.authorization = `Bearer ${apiKey}`;
+
+    const response = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        stream,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM request failed with status ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { buildChatPrompt, getCitedSources } from './prompt';
+import { MockLLMProvider } from './provider';
+import type { WikiSearchResult } from '@/types/wiki-chatbot';
+
+function result(slug: string, content: string, score = 1, type?: WikiSearchResult['type']): WikiSearchResult {
+  return { type, article: { slug, title: `Title ${slug}`, section: 'Basics', content }, score, matchedSections: [] };
+}
+
+const config = { maxContextLength: 1000, maxSources: 5 };
+
+describe('buildChatPrompt', () => {
+  it('numbers passages and records them as sources', () => {
+    const prompt = buildChatPrompt({
+      question: 'What is vibe coding?',
+      results: [result('intro', 'Vibe coding is programming by describing intent.'), result('guide', 'A tutorial.', 0.5, 'tutorial')],
+      config,
+      language: 'en',
+    });
+
+    const passages = prompt.messages[1].content;
+    expect(passages).toContain('[1] Title intro\nVibe coding is programming by describing intent.');
+    expect(passages).toContain('[2] Title guide\nA tutorial.');
+    expect(prompt.sources.map(source => [source.slug, source.type])).toEqual([
+      ['intro', 'article'],
+      ['guide', 'tutorial'],
+    ]);
+    expect(prompt.messages.at(-1)).toEqual({ role: 'user', content: 'What is vibe coding?' });
+  });
+
+  it('keeps passages within maxContextLength', () => {
+    const long = 'word '.repeat(120);
+    const prompt = buildChatPrompt({
+      question: 'question',
+      results: [result('a', long), result('b', long), result('c', long)],
+      config,
+      language: 'en',
+    });
+
+    const passageLength = prompt.messages[1].content.length - 'Wiki passages:\n\n'.length;
+    expect(passageLength).toBeLessThanOrEqual(config.maxContextLength - 'question'.length);
+    expect(prompt.sources.map(source => source.slug)).toEqual(['a', 'b']);
+    expect(prompt.messages[1].content.endsWith('word…')).toBe(true);
+  });
+
+  it('respects maxSources and leaves out the passages heading without results', () => {
+    const many = ['a', 'b', 'c'].map(slug => result(slug, 'short'));
+    expect(buildChatPrompt({ question: 'q', results: many, config: { ...config, maxSources: 2 }, language: 'en' }).sources).toHaveLength(2);
+
+    const empty = buildChatPrompt({ question: 'سؤال', results: [], config, language: 'ar' });
+    expect(empty.messages.map(message => message.role)).toEqual(['system', 'user']);
+  });
+
+  it('adds the most recent history that still fits', () => {
+    const prompt = buildChatPrompt({
+      question: 'and then?',
+      results: [],
+      history: [
+        { role: 'user', content: 'x'.repeat(985) },
+        { role: 'assistant', content: 'second' },
+        { role: 'user', content: 'third' },
+      ],
+      config,
+      language: 'en',
+    });
+
+    expect(prompt.messages.slice(1).map(message => message.content)).toEqual(['second', 'third', 'and then?']);
+  });
+});
+
+describe('buildChatPrompt passages', () => {
+  it('names the heading of a passage and links its anchor', () => {
+    const prompt = buildChatPrompt({
+      question: 'q',
+      results: [{ ...result('git', '**Stage** files, then `commit`.'), heading: 'Commits', anchor: 'commits' }],
+      config,
+      language: 'en',
+    });
+
+    expect(prompt.messages[1].content).toContain('[1] Title git › Commits\n');
+    expect(prompt.sources[0]).toMatchObject({ heading: 'Commits', anchor: 'commits', excerpt: 'Stage files, then commit.' });
+  });
+});
+
+describe('buildChatPrompt reader', () => {
+  it('tells the model about the reader in their language', () => {
+    const reader = {
+      level: 'beginner' as const,
+      currentPage: 'Git Basics',
+      completedTutorials: ['First Prompt'],
+      recentTopics: [],
+    };
+
+    const en = buildChatPrompt({ question: 'q', results: [], config, language: 'en', reader });
+    expect(en.messages[1]).toEqual({
+      role: 'system',
+      content: 'About the reader:\n- Level: beginner\n- Reading now: Git Basics\n- Finished tutorials: First Prompt',
+    });
+
+    const ar = buildChatPrompt({ question: 'q', results: [], config, language: 'ar', reader: { level: 'advanced' } });
+    expect(ar.messages[1].content).toBe('عن القارئ:\n- المستوى: متقدم');
+
+    expect(buildChatPrompt({ question: 'q', results: [], config, language: 'en', reader: {} }).messages).toHaveLength(2);
+  });
+});
+
+describe('getCitedSources', () => {
+  it('returns cited sources once, in citation order, ignoring unknown numbers', () => {
+    const { sources } = buildChatPrompt({
+      question: 'q',
+      results: [result('a', 'one'), result('b', 'two')],
+      config,
+      language: 'en',
+    });
+
+    expect(getCitedSources('See [2], then [1] and [2] again, not [7].', sources).map(source => source.slug)).toEqual(['b', 'a']);
+    expect(getCitedSources('No citations.', sources)).toEqual([]);
+  });
+});
+
+describe('MockLLMProvider', () => {
+  it('cites every passage in the prompt', async () => {
+    const { messages } = buildChatPrompt({
+      question: 'q',
+      results: [result('a', 'one'), result('b', 'two')],
+      config,
+      language: 'en',
+    });
+    const provider = new MockLLMProvider();
+
+    const answer = await provider.complete({ messages });
+    expect(answer).toBe('Relevant wiki pages:\n- Title a [1]\n- Title b [2]');
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream({ messages })) chunks.push(chunk);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(answer);
+  });
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController();
+    const provider = new MockLLMProvider({ reply: () => 'one two three' });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream({ messages: [], signal: controller.signal })) {
+      chunks.push(chunk);
+      controller.abort();
+    }
+    expect(chunks).toEqual(['one ']);
+  });
+});
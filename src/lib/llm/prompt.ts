@@ -0,0 +1,154 @@
+/**
+ * Prompt assembly for the wiki chatbot: retrieved passages are numbered and
+ * packed into the prompt within `ChatbotConfig.maxContextLength`, and the
+ * model is told to cite them as `[n]`.
+ */
+
+import type { DifficultyLevel } from '@/types';
+import type { ChatbotConfig, ChatMessage, ChatSource, WikiSearchResult } from '@/types/wiki-chatbot';
+import { toPlainText } from '@/lib/markdown-sections';
+import type { LLMMessage } from './provider';
+
+/** What the model is told about the person asking. */
+export interface ChatReader {
+  level?: DifficultyLevel;
+  /** Title of the page the reader has open. */
+  currentPage?: string;
+  /** Titles of the tutorials they finished. */
+  completedTutorials?: string[];
+  recentTopics?: string[];
+}
+
+export interface ChatPromptInput {
+  question: string;
+  /** Search results, best first. */
+  results: WikiSearchResult[];
+  /** Earlier turns, oldest first. */
+  history?: Pick<ChatMessage, 'role' | 'content'>[];
+  config: Pick<ChatbotConfig, 'maxContextLength' | 'maxSources'>;
+  language: 'ar' | 'en';
+  reader?: ChatReader;
+}
+
+export interface ChatPrompt {
+  messages: LLMMessage[];
+  /** The passages in the prompt; `[n]` in an answer cites `sources[n - 1]`. */
+  sources: ChatSource[];
+}
+
+// A passage cut shorter than this is left out rather than sent as a fragment
+const MIN_PASSAGE_LENGTH = 200;
+const EXCERPT_LENGTH = 150;
+
+const INSTRUCTIONS = {
+  ar: 'أنت مساعد Vibe Wiki. أجب باللغة العربية اعتمادًا على مقاطع الويكي المرقّمة فقط، واذكر رقم كل مقطع تعتمد عليه بين قوسين مربعين مثل [1]. إذا لم تكن الإجابة في المقاطع فقل ذلك بوضوح.',
+  en: 'You are the Vibe Wiki assistant. Answer in English using only the numbered wiki passages, and cite every passage you rely on in square brackets, like [1]. If the passages do not contain the answer, say so.',
+};
+
+// Lists about the reader are cut to this many entries
+const MAX_READER_ITEMS = 5;
+
+const READER_LABELS = {
+  ar: {
+    heading: 'عن القارئ:',
+    level: 'المستوى',
+    currentPage: 'يقرأ الآن',
+    completedTutorials: 'أنهى الدروس',
+    recentTopics: 'مواضيع حديثة',
+    levels: { beginner: 'مبتدئ', intermediate: 'متوسط', advanced: 'متقدم' },
+  },
+  en: {
+    heading: 'About the reader:',
+    level: 'Level',
+    currentPage: 'Reading now',
+    completedTutorials: 'Finished tutorials',
+    recentTopics: 'Recent topics',
+    levels: { beginner: 'beginner', intermediate: 'intermediate', advanced: 'advanced' },
+  },
+};
+
+const PASSAGES_HEADING = {
+  ar: 'مقاطع من الويكي:',
+  en: 'Wiki passages:',
+};
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.search(/\s\S*$/);
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function describeReader(reader: ChatReader, language: 'ar' | 'en'): string | null {
+  const labels = READER_LABELS[language];
+  const lines: string[] = [];
+  const list = (items: string[]) => items.slice(0, MAX_READER_ITEMS).join(language === 'ar' ? '، ' : ', ');
+
+  if (reader.level) lines.push(`- ${labels.level}: ${labels.levels[reader.level]}`);
+  if (reader.currentPage) lines.push(`- ${labels.currentPage}: ${reader.currentPage}`);
+  if (reader.completedTutorials?.length) lines.push(`- ${labels.completedTutorials}: ${list(reader.completedTutorials)}`);
+  if (reader.recentTopics?.length) lines.push(`- ${labels.recentTopics}: ${list(reader.recentTopics)}`);
+
+  return lines.length > 0 ? `${labels.heading}\n${lines.join('\n')}` : null;
+}
+
+/**
+ * Build the messages for a question. The question is always sent; the
+ * best passages, then the most recent history, fill the rest of
+ * `maxContextLength` characters. The fixed instructions and the note about
+ * the reader do not count.
+ */
+export function buildChatPrompt({ question, results, history = [], config, language, reader }: ChatPromptInput): ChatPrompt {
+  let budget = config.maxContextLength - question.length;
+  const passages: string[] = [];
+  const sources: ChatSource[] = [];
+
+  for (const result of results.slice(0, config.maxSources)) {
+    const content = result.article.content.trim();
+    const title = result.heading ? `${result.article.title} › ${result.heading}` : result.article.title;
+    const header = `[${sources.length + 1}] ${title}\n`;
+    const room = budget - header.length - 2;
+    if (room < Math.min(MIN_PASSAGE_LENGTH, content.length)) break;
+
+    const body = truncate(content, room);
+    passages.push(header + body);
+    budget -= header.length + body.length + 2;
+    sources.push({
+      type: result.type ?? 'article',
+      id: result.article.slug,
+      slug: result.article.slug,
+      title: result.article.title,
+      excerpt: truncate(toPlainText(content), EXCERPT_LENGTH),
+      relevanceScore: result.score,
+      heading: result.heading,
+      anchor: result.anchor,
+    });
+  }
+
+  const turns: LLMMessage[] = [];
+  for (const message of [...history].reverse()) {
+    if (message.role === 'system' || message.content.length > budget) break;
+    turns.unshift({ role: message.role, content: message.content });
+    budget -= message.content.length;
+  }
+
+  const messages: LLMMessage[] = [{ role: 'system', content: INSTRUCTIONS[language] }];
+  const aboutReader = reader && describeReader(reader, language);
+  if (aboutReader) messages.push({ role: 'system', content: aboutReader });
+  if (passages.length > 0) {
+    messages.push({ role: 'system', content: `${PASSAGES_HEADING[language]}\n\n${passages.join('\n\n')}` });
+  }
+  messages.push(...turns, { role: 'user', content: question });
+
+  return { messages, sources };
+}
+
+/** The sources an answer cites as `[n]`, in the order they are first cited. */
+export function getCitedSources(answer: string, sources: ChatSource[]): ChatSource[] {
+  const cited = new Set<ChatSource>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const source = sources[Number(match[1]) - 1];
+    if (source) cited.add(source);
+  }
+  return Array.from(cited);
+}
@@ -0,0 +1,69 @@
+/**
+ * The chat completion interface every language model backend implements,
+ * and a deterministic mock used when no model is configured and in tests.
+ */
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Aborts the request, and ends a stream early. */
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Resolve with the whole answer. */
+  complete(request: ChatCompletionRequest): Promise<string>;
+  /** Yield the answer in chunks as the model produces them. */
+  stream(request: ChatCompletionRequest): AsyncIterable<string>;
+}
+
+/** Matches the passage headers written by `buildChatPrompt`: `[1] Title`. */
+const PASSAGE_HEADER = /^\[(\d+)\] (.+)$/gm;
+
+export interface MockLLMProviderOptions {
+  /** Build the answer; defaults to a list of the passages in the prompt, each cited. */
+  reply?: (messages: LLMMessage[]) => string;
+}
+
+/**
+ * Answers without a model. The default reply lists the numbered passages
+ * found in the prompt, so answers are deterministic and cite their sources.
+ * Streams one word at a time.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  private readonly reply: (messages: LLMMessage[]) => string;
+
+  constructor(options: MockLLMProviderOptions = {}) {
+    this.reply = options.reply ?? defaultMockReply;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    return this.reply(request.messages);
+  }
+
+  async *stream(request: ChatCompletionRequest): AsyncIterable<string> {
+    for (const chunk of this.reply(request.messages).match(/\S+\s*|\s+/g) ?? []) {
+      if (request.signal?.aborted) return;
+      yield chunk;
+    }
+  }
+}
+
+function defaultMockReply(messages: LLMMessage[]): string {
+  const passages = messages.flatMap(message =>
+    Array.from(message.content.matchAll(PASSAGE_HEADER), match => `- ${match[2]} [${match[1]}]`)
+  );
+  return passages.length > 0
+    ? `Relevant wiki pages:\n${passages.join('\n')}`
+    : 'The wiki has no pages about this yet.';
+}
@@ -0,0 +1,57 @@
+/**
+ * Server-sent events: writing them from route handlers and reading them
+ * from a response body, whether the stream comes from a model API or from
+ * `/api/chat`.
+ */
+
+export interface ServerSentEvent {
+  /** `message` when the event has no `event:` field. */
+  event: string;
+  data: string;
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  const lines = JSON.stringify(data).split('\n').map(line => `data: ${line}`);
+  return `event: ${event}\n${lines.join('\n')}\n\n`;
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith(':')) continue;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Yield the events in `body` as they arrive. Events split across chunks
+ * are joined before they are parsed.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = parseEvent(block);
+        if (event) yield event;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
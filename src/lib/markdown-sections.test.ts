@@ -0,0 +1,37 @@
+/**
+ * Tests for markdown-sections.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getArticleBody, getHeadingAnchors, parseMarkdownWithHeadings, toHeadingText } from '@/lib/markdown-sections';
+
+describe('parseMarkdownWithHeadings', () => {
+  it('should ignore headings in code, including fences nested by mistake', () => {
+    const sections = parseMarkdownWithHeadings('## A\n\n```md\n## code\n   ```ts\n## still code\n```\n\n## B');
+    expect(sections.map((section) => section.text)).toEqual(['A', 'B']);
+  });
+});
+
+describe('getArticleBody', () => {
+  it('should drop the leading title the page shows in its header', () => {
+    expect(getArticleBody('\n# Title\n\nIntro\n\n## Part')).toBe('Intro\n\n## Part');
+    expect(getArticleBody('Intro\n\n# Later')).toBe('Intro\n\n# Later');
+  });
+});
+
+describe('toHeadingText', () => {
+  it('should keep list numbers and code, and drop formatting and images', () => {
+    expect(toHeadingText('1. ابدأ بالسياق')).toBe('1. ابدأ بالسياق');
+    expect(toHeadingText('Run `npm *i*` with **care** ![icon](i.png) [docs](https://x.dev) ##')).toBe(
+      'Run npm *i* with care  docs'
+    );
+    expect(toHeadingText('snake_case &amp; \\*stars\\*')).toBe('snake_case & *stars*');
+  });
+});
+
+describe('getHeadingAnchors', () => {
+  it('should number repeated headings at any level', () => {
+    const sections = parseMarkdownWithHeadings('Intro\n\n## Setup\n\n#### Setup\n\n## 2. Setup\n\n### Setup');
+    expect(getHeadingAnchors(sections)).toEqual(['', 'setup', 'setup-1', '2-setup', 'setup-2']);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Markdown Sections
+ *
+ * Shared heading-based splitting of article Markdown, used by the article
+ * renderer (diagram placement), the search index and chat retrieval
+ * (per-heading anchors). Has no server-only imports, so it is safe to use
+ * in client components.
+ */
+
+import GithubSlugger from "github-slugger";
+
+export type MarkdownSection = {
+  type: "heading" | "content";
+  level: number;
+  text: string;
+  content?: string;
+  startIndex: number;
+  endIndex: number;
+};
+
+// An opening or closing code fence: up to three spaces, then ``` or ~~~
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+// Per CommonMark, a fence closes with the same character, at least as many
+// times, and no info string, so "```ts" inside a ``` block is just text
+function isClosingFence([, marker, info]: RegExpMatchArray, opening: string): boolean {
+  return marker[0] === opening[0] && marker.length >= opening.length && !info.trim();
+}
+
+/**
+ * Split Markdown into sections at each heading (H1-H6). Text before the
+ * first heading becomes a level-0 "content" section. Headings inside
+ * fenced code blocks are ignored.
+ */
+export function parseMarkdownWithHeadings(content: string): MarkdownSection[] {
+  const lines = content.split("\n");
+  const sections: MarkdownSection[] = [];
+
+  let currentSection: MarkdownSection | null = null;
+  let currentContent = "";
+  let codeFence = "";
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch && !codeFence && !(fenceMatch[1][0] === "`" && fenceMatch[2].includes("`"))) {
+      codeFence = fenceMatch[1];
+    } else if (fenceMatch && isClosingFence(fenceMatch, codeFence)) {
+      codeFence = "";
+    }
+    // Lines like "# install deps" inside fenced code are comments, not headings
+    const headingMatch = codeFence ? null : line.match(/^ {0,3}(#{1,6})\s+(.+)$/);
+
+    if (headingMatch) {
+      // Save previous section
+      if (currentSection) {
+        sections.push({
+          ...currentSection,
+          endIndex: index - 1,
+          content: currentContent.trim(),
+        });
+      }
+
+      // Start new section
+      currentSection = {
+        type: "heading",
+        level: headingMatch[1].length,
+        text: headingMatch[2].trim(),
+        startIndex: index,
+        endIndex: index,
+      };
+      currentContent = "";
+    } else {
+      if (currentSection) {
+        currentContent += line + "\n";
+      } else if (line.trim()) {
+        // Content before first heading
+        currentSection = {
+          type: "content",
+          level: 0,
+          text: "Introduction",
+          startIndex: 0,
+          endIndex: index,
+        };
+        currentContent = line + "\n";
+      }
+    }
+  }
+
+  // Save last section
+  if (currentSection) {
+    sections.push({
+      ...currentSection,
+      endIndex: lines.length - 1,
+      content: currentContent.trim(),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Reduce Markdown to readable text for snippets: drops fenced code,
+ * images, HTML tags and inline formatting.
+ */
+export function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/(```|~~~)[\s\S]*?\1/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[`*_~|]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The Markdown an article page renders: the content without a leading
+ * `# Title` line, which the page shows in its header instead.
+ */
+export function getArticleBody(content: string): string {
+  return content.trim().replace(/^#\s+[^\n]+\n+/, "").trim();
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0" };
+
+function resolveInline(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, "$1")
+    .replace(/<\/?[A-Za-z][^>]*>/g, "")
+    .replace(/\*+|~~|(?<![\p{L}\p{N}])_+|_+(?![\p{L}\p{N}])/gu, "")
+    .replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] !== "#") return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return String.fromCodePoint(code);
+    });
+}
+
+// A backslash-escaped character is literal text, never formatting
+function inlineText(markdown: string): string {
+  return markdown
+    .split(/\\([!-/:-@[-`{-~])/)
+    .map((part, index) => (index % 2 === 1 ? part : resolveInline(part)))
+    .join("");
+}
+
+/**
+ * The text a heading renders as: inline Markdown is resolved, code spans
+ * are kept verbatim and images are dropped. Unlike `toPlainText`, a leading
+ * "1." stays, since it is part of the heading.
+ */
+export function toHeadingText(markdown: string): string {
+  return markdown
+    .replace(/\s+#+\s*$/, "")
+    .split(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/)
+    .map((part, index) => {
+      // split() yields [text, fence, code, text, fence, code, ...]
+      if (index % 3 === 1) return "";
+      if (index % 3 === 2) return part;
+      return inlineText(part);
+    })
+    .join("")
+    .trim();
+}
+
+/**
+ * Anchor ids for the headings in `sections`, as rehype-slug assigns them
+ * on the rendered page: GitHub slugs of the heading text, with "-1", "-2"
+ * appended to repeats. Every heading counts, whatever its level, so pass
+ * all the sections of one article body. Content sections get "".
+ */
+export function getHeadingAnchors(sections: MarkdownSection[]): string[] {
+  const slugger = new GithubSlugger();
+  return sections.map((section) => (section.type === "heading" ? slugger.slug(toHeadingText(section.text)) : ""));
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { bundleFiles, formatFileDiagnostic, normalizePath } from './module-bundler';
+import type { ExerciseFile } from '@/types';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (body: string) => () => Promise<unknown>;
+
+async function run(files: ExerciseFile[], entry: string): Promise<unknown> {
+  const { code, diagnostics } = await bundleFiles(files, entry);
+  expect(diagnostics).toEqual([]);
+  return new AsyncFunction(code)();
+}
+
+describe('normalizePath', () => {
+  it('removes leading slashes and dot segments', () => {
+    expect(normalizePath('./src/lib/../app/page.ts')).toBe('src/app/page.ts');
+    expect(normalizePath('/README.md')).toBe('README.md');
+  });
+});
+
+describe('bundleFiles', () => {
+  it('resolves relative imports with and without extensions', async () => {
+    const files: ExerciseFile[] = [
+      { path: 'src/index.ts', content: "import { add } from './lib/math';\nimport { double } from './lib/double.js';\nreturn double(add(1, 2));" },
+      { path: 'src/lib/math.ts', content: 'export const add = (a: number, b: number): number => a + b;' },
+      { path: 'src/lib/double.js', content: "import { add } from '../lib/math';\nexport function double(n) { return add(n, n); }" },
+    ];
+
+    expect(await run(files, 'src/index.ts')).toBe(6);
+  });
+
+  it('resolves the @/ alias, index files and JSON', async () => {
+    const files: ExerciseFile[] = [
+      { path: 'app/page.ts', content: "import { site } from '@/config';\nimport data from '@/data/users.json';\nreturn `${site.name}: ${data.length}`;" },
+      { path: 'src/config/index.ts', content: "export const site = { name: 'Vibe' };" },
+      { path: 'src/data/users.json', content: '[{ "id": 1 }, { "id": 2 }]' },
+    ];
+
+    expect(await run(files, 'app/page.ts')).toBe('Vibe: 2');
+  });
+
+  it('runs each module once and supports cycles back to the entry', async () => {
+    const files: ExerciseFile[] = [
+      { path: 'main.ts', content: "import { count } from './counter';\nimport { count as again } from './counter';\nexport const name = 'main';\nreturn [count(), again()];" },
+      { path: 'counter.ts', content: "import * as main from './main';\nlet calls = 0;\nexport function count() { calls += 1; return `${main.name}:${calls}`; }" },
+    ];
+
+    expect(await run(files, 'main.ts')).toEqual(['main:1', 'main:2']);
+  });
+
+  it('keeps top-level await and entry functions in scope', async () => {
+    const files: ExerciseFile[] = [
+      { path: 'index.ts', content: "import { wait } from './wait';\nexport async function greet(name: string) { await wait(); return `Hi ${name}`; }" },
+      { path: 'wait.ts', content: 'export const wait = () => Promise.resolve();' },
+    ];
+    const { code } = await bundleFiles(files, 'index.ts');
+
+    expect(await new AsyncFunction(`${code}\nreturn await greet('Sam');`)()).toBe('Hi Sam');
+  });
+
+  it('fails at run time for packages and missing files', async () => {
+    await expect(run([{ path: 'index.ts', content: "import React from 'react';\nconsole.log(React);" }], 'index.ts')).rejects.toThrow(
+      'Cannot import "react" in a code block'
+    );
+    await expect(run([{ path: 'src/index.ts', content: "import './missing';" }], 'src/index.ts')).rejects.toThrow(
+      'Cannot find module "./missing" from "src/index.ts"'
+    );
+  });
+
+  it('reports syntax errors per file', async () => {
+    const { diagnostics } = await bundleFiles(
+      [
+        { path: 'index.ts', content: "import './broken';" },
+        { path: 'broken.ts', content: 'const x: = 1;' },
+        { path: 'data.json', content: '{ oops' },
+      ],
+      'index.ts'
+    );
+
+    expect(diagnostics.map(diagnostic => diagnostic.path)).toEqual(['broken.ts', 'data.json']);
+    expect(formatFileDiagnostic(diagnostics[0])).toBe('broken.ts: Line 1, Col 10: Type expected. (TS1110)');
+  });
+
+  it('rejects an entry that is not in the project', async () => {
+    await expect(bundleFiles([{ path: 'a.ts', content: '' }], 'b.ts')).rejects.toThrow('Entry file "b.ts" is not part of the project');
+  });
+});
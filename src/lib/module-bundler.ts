@@ -0,0 +1,129 @@
+/**
+ * Module Bundler
+ *
+ * Turns the files of a multi-file exercise into one script for the code
+ * sandbox. Every file is compiled to CommonJS and wrapped in a module
+ * function; a small loader resolves `import`s between them at run time:
+ * relative paths (`./utils`, `../lib/math`), the `@/` alias for `src/`, and
+ * the usual extensions and `index` files. Packages cannot be imported.
+ *
+ * The entry file runs last, as the body of the sandbox's async function, so
+ * it keeps top-level `await` and its functions stay in scope for graders.
+ *
+ * @module module-bundler
+ */
+
+import type { ExerciseFile } from '@/types';
+import { formatDiagnostic, transpileModule, type TypeScriptDiagnostic } from './typescript-compiler';
+
+export interface FileDiagnostic extends TypeScriptDiagnostic {
+  path: string;
+}
+
+export interface BundleResult {
+  code: string;
+  /** Syntax errors in any file; the bundle should not be run when there are any. */
+  diagnostics: FileDiagnostic[];
+}
+
+/** Extensions tried, in order, when an import has none. */
+export const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.json'];
+
+/** Normalize a project path: no leading `./` or `/`, no `.` or `..` segments. */
+export function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+export function formatFileDiagnostic(diagnostic: FileDiagnostic): string {
+  return `${diagnostic.path}: ${formatDiagnostic(diagnostic)}`;
+}
+
+// Kept as plain JavaScript, like the sandbox worker, so it runs unchanged
+const LOADER_SOURCE = `var __cache = {};
+var __resolve = function (from, name) {
+  var base;
+  if (name.indexOf("@/") === 0) {
+    base = "src/" + name.slice(2);
+  } else if (name.charAt(0) === ".") {
+    base = from.split("/").slice(0, -1).join("/") + "/" + name;
+  } else {
+    throw new Error("Cannot import \\"" + name + "\\" in a code block");
+  }
+  var parts = [];
+  base.split("/").forEach(function (part) {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  });
+  base = parts.join("/");
+  var candidates = [base].concat(__extensions.map(function (extension) { return base + extension; }),
+    __extensions.map(function (extension) { return base + "/index" + extension; }));
+  for (var i = 0; i < candidates.length; i++) {
+    if (Object.prototype.hasOwnProperty.call(__modules, candidates[i])) return candidates[i];
+  }
+  throw new Error("Cannot find module \\"" + name + "\\" from \\"" + from + "\\"");
+};
+var __requireFrom = function (from) {
+  return function (name) {
+    var path = __resolve(from, name);
+    if (!__cache[path]) {
+      var module = { exports: {} };
+      __cache[path] = module;
+      __modules[path](module.exports, module, __requireFrom(path));
+    }
+    return __cache[path].exports;
+  };
+};`;
+
+async function compileFile(file: ExerciseFile): Promise<{ code: string; diagnostics: FileDiagnostic[] }> {
+  if (file.path.endsWith('.json')) {
+    try {
+      return { code: `module.exports = ${JSON.stringify(JSON.parse(file.content))};`, diagnostics: [] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { code: '', diagnostics: [{ path: file.path, line: 1, column: 1, message, code: 0, category: 'error' }] };
+    }
+  }
+
+  const { code, diagnostics } = await transpileModule(file.content, file.path);
+  return { code, diagnostics: diagnostics.map(diagnostic => ({ ...diagnostic, path: file.path })) };
+}
+
+/**
+ * Bundle `files` into a script that runs `entry`. Throws if `entry` is not
+ * one of the files.
+ */
+export async function bundleFiles(files: ExerciseFile[], entry: string): Promise<BundleResult> {
+  const entryPath = normalizePath(entry);
+  const normalized = files.map(file => ({ ...file, path: normalizePath(file.path) }));
+  const entryFile = normalized.find(file => file.path === entryPath);
+  if (!entryFile) throw new Error(`Entry file "${entry}" is not part of the project`);
+
+  const compiled = await Promise.all(normalized.map(compileFile));
+  const diagnostics = compiled.flatMap(result => result.diagnostics);
+  const entryCode = compiled[normalized.indexOf(entryFile)].code;
+
+  const modules = normalized
+    .map((file, index) =>
+      // The entry is cached before it runs; the placeholder only lets other files resolve it
+      file === entryFile
+        ? `${JSON.stringify(file.path)}: function () {}`
+        : `${JSON.stringify(file.path)}: function (exports, module, require) {\n${compiled[index].code}\n}`
+    );
+
+  const code = [
+    `var __extensions = ${JSON.stringify(RESOLVE_EXTENSIONS)};`,
+    `var __modules = {\n${modules.join(',\n')}\n};`,
+    LOADER_SOURCE,
+    'var exports = {}, module = { exports: exports };',
+    `__cache[${JSON.stringify(entryPath)}] = module;`,
+    `var require = __requireFrom(${JSON.stringify(entryPath)});`,
+    entryCode,
+  ].join('\n');
+
+  return { code, diagnostics };
+}
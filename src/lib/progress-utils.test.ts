@@ -28,6 +28,8 @@ import {
   isArticleCompleted,
   isPathCompleted,
   getRecommendedContent,
+  getContinueReadingArticle,
+  getSkillLevel,
 } from '@/lib/progress-utils';
 
 describe('generateUserId', () => {
@@ -640,6 +642,14 @@ describe('isTutorialCompleted', () => {
   });
 });
 
+describe('getSkillLevel', () => {
+  it('should rise with the points earned', () => {
+    expect(getSkillLevel({ totalPoints: 0 })).toBe('beginner');
+    expect(getSkillLevel({ totalPoints: 501 })).toBe('intermediate');
+    expect(getSkillLevel({ totalPoints: 2001 })).toBe('advanced');
+  });
+});
+
 describe('isArticleCompleted', () => {
   it('should return true for completed article', () => {
     const progress = createEmptyProgress();
@@ -738,3 +748,32 @@ describe('getRecommendedContent', () => {
     expect(recommended.articles).toHaveLength(3);
   });
 });
+
+describe('getContinueReadingArticle', () => {
+  const sections = [
+    { name: 'one', articles: [{ slug: 'a', title: 'A' }, { slug: 'b', title: 'B' }] },
+    { name: 'two', articles: [{ slug: 'c', title: 'C' }, { slug: 'd', title: 'D' }] },
+  ];
+
+  it('should return null when nothing has been read', () => {
+    expect(getContinueReadingArticle(createEmptyProgress(), sections)).toBeNull();
+  });
+
+  it('should return the next unread article after the last completed one', () => {
+    const progress = { ...createEmptyProgress(), completedArticles: ['a', 'c'] };
+
+    expect(getContinueReadingArticle(progress, sections)).toEqual({ slug: 'd', title: 'D' });
+  });
+
+  it('should wrap around to earlier unread articles', () => {
+    const progress = { ...createEmptyProgress(), completedArticles: ['a', 'd'] };
+
+    expect(getContinueReadingArticle(progress, sections)?.slug).toBe('b');
+  });
+
+  it('should return null when every article has been read', () => {
+    const progress = { ...createEmptyProgress(), completedArticles: ['a', 'b', 'c', 'd'] };
+
+    expect(getContinueReadingArticle(progress, sections)).toBeNull();
+  });
+});
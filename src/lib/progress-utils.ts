@@ -8,6 +8,8 @@ import type {
   LearningPath,
   Tutorial,
   WikiArticle,
+  NavSection,
+  DifficultyLevel,
 } from '@/types';
 
 // Storage keys
@@ -18,6 +20,8 @@ const ACTIVITY_KEY = 'vibe-wiki-activity-log';
  * Generate a unique user ID
  */
 export function generateUserId(): string {
+  if (typeof window === 'undefined') return 'anonymous';
+
   let userId = localStorage.getItem('vibe-wiki-user-id');
   if (!userId) {
     userId = `user_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
@@ -50,6 +54,8 @@ export function createEmptyProgress(): UserProgress {
  * Load user progress from localStorage
  */
 export function loadProgress(): UserProgress {
+  if (typeof window === 'undefined') return createEmptyProgress();
+
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (!stored) {
@@ -414,6 +420,8 @@ export function logActivity(activity: ProgressActivity): void {
  * Load activities
  */
 export function loadActivities(): ProgressActivity[] {
+  if (typeof window === 'undefined') return [];
+
   try {
     const stored = localStorage.getItem(ACTIVITY_KEY);
     if (!stored) return [];
@@ -657,6 +665,15 @@ export function isPathCompleted(pathId: string, progress: UserProgress): boolean
   return progress.completedPaths.includes(pathId);
 }
 
+/**
+ * Estimate the user's skill level from the points they have earned
+ */
+export function getSkillLevel(progress: Pick<UserProgress, 'totalPoints'>): DifficultyLevel {
+  if (progress.totalPoints > 2000) return 'advanced';
+  if (progress.totalPoints > 500) return 'intermediate';
+  return 'beginner';
+}
+
 /**
  * Get recommended content based on progress
  */
@@ -689,3 +706,22 @@ export function getRecommendedContent(
     paths: recommendedPaths,
   };
 }
+
+/**
+ * Find the article to continue reading: the first unread article after the
+ * most recently completed one, in sidebar order.
+ * Returns null when nothing has been read yet or everything has been read.
+ */
+export function getContinueReadingArticle(
+  progress: UserProgress,
+  sections: NavSection[]
+): Pick<WikiArticle, 'slug' | 'title'> | null {
+  const lastCompleted = progress.completedArticles[progress.completedArticles.length - 1];
+  if (!lastCompleted) return null;
+
+  const articles = sections.flatMap((section) => section.articles);
+  const start = articles.findIndex((a) => a.slug === lastCompleted) + 1;
+  const ordered = [...articles.slice(start), ...articles.slice(0, start)];
+
+  return ordered.find((a) => !progress.completedArticles.includes(a.slug)) ?? null;
+}
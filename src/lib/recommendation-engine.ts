@@ -14,6 +14,7 @@ import {
 import { calculatePathProgress } from './learning-path-utils';
 import { calculateTutorialTime } from './tutorial-utils';
 import { calculateReadingTime } from './article-utils';
+import { getSkillLevel } from './progress-utils';
 
 /**
  * Recommendation reasons for transparency
@@ -163,10 +164,7 @@ export function buildUserProfile(
   });
 
   // Determine skill level based on progress
-  const totalPoints = progress.totalPoints;
-  let skillLevel: 'beginner' | 'intermediate' | 'advanced' = 'beginner';
-  if (totalPoints > 500) skillLevel = 'intermediate';
-  if (totalPoints > 2000) skillLevel = 'advanced';
+  const skillLevel = getSkillLevel(progress);
 
   // Extract interests from tags
   const tagCounts: Record<string, number> = {};
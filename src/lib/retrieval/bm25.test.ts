@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildBm25Index, searchBm25, toTerms } from './bm25';
+import type { ContentChunk } from './chunker';
+
+function chunk(id: string, text: string, overrides: Partial<ContentChunk> = {}): ContentChunk {
+  return { id, type: 'article', slug: id, title: '', section: '', heading: '', anchor: '', text, ...overrides };
+}
+
+describe('searchBm25', () => {
+  const index = buildBm25Index([
+    chunk('a', 'Cursor is an AI code editor. The editor runs AI chat.'),
+    chunk('b', 'Git tracks changes to code.'),
+    chunk('c', 'Prompts for the editor', { title: 'Cursor Prompts' }),
+    chunk('d', 'تعلم البرمجة بالذكاء الاصطناعي'),
+  ]);
+
+  it('ranks chunks by term frequency, rarity and field', () => {
+    const hits = searchBm25(index, toTerms('cursor editor'));
+
+    expect(hits.map(hit => hit.chunk.id)).toEqual(['c', 'a']);
+    expect(hits[0].matchedFields).toEqual(['title', 'content']);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const [best] = searchBm25(index, toTerms('code git'));
+    expect(best.chunk.id).toBe('b');
+  });
+
+  it('matches Arabic spelling variants', () => {
+    expect(searchBm25(index, toTerms('البرمجه')).map(hit => hit.chunk.id)).toEqual(['d']);
+  });
+
+  it('treats regular expression characters as text and honours the limit', () => {
+    expect(searchBm25(index, toTerms('(cursor) [editor]*'), 1).map(hit => hit.chunk.id)).toEqual(['c']);
+    expect(searchBm25(index, toTerms('(((')).length).toBe(0);
+  });
+});
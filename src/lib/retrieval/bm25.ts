@@ -0,0 +1,107 @@
+/**
+ * BM25 ranking over content chunks. Every field goes through the shared
+ * text normalizer, so Arabic spelling variants and English plurals meet
+ * the query in the same form (see text-normalizer).
+ */
+
+import { tokenize } from '@/lib/text-normalizer';
+import type { ContentChunk } from './chunker';
+
+export type ChunkField = 'title' | 'heading' | 'section' | 'content';
+
+export interface Bm25Index {
+  chunks: ContentChunk[];
+  /** term → chunk index → weighted term frequency */
+  postings: Map<string, Map<number, number>>;
+  /** Which fields of each chunk contain each term. */
+  fields: Map<string, ChunkField[]>[];
+  lengths: number[];
+  averageLength: number;
+}
+
+export interface Bm25Hit {
+  chunk: ContentChunk;
+  score: number;
+  matchedFields: ChunkField[];
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+// How much one occurrence of a term counts. The title is indexed on every
+// chunk of a page, so it lifts all of them and the body decides between them.
+const FIELD_WEIGHTS: Record<ChunkField, number> = {
+  title: 3,
+  heading: 2,
+  section: 1,
+  content: 1,
+};
+
+/** Normalized, stemmed terms of `text`, without repeats. */
+export function toTerms(text: string): string[] {
+  return Array.from(new Set(tokenize(text).map(token => token.term)));
+}
+
+export function buildBm25Index(chunks: ContentChunk[]): Bm25Index {
+  const postings = new Map<string, Map<number, number>>();
+  const fields: Map<string, ChunkField[]>[] = [];
+  const lengths: number[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const chunkFields = new Map<string, ChunkField[]>();
+    let length = 0;
+
+    const texts: Record<ChunkField, string> = {
+      title: chunk.title,
+      heading: chunk.heading,
+      section: chunk.section,
+      content: chunk.text,
+    };
+    for (const field of Object.keys(texts) as ChunkField[]) {
+      for (const { term } of tokenize(texts[field])) {
+        const termPostings = postings.get(term) ?? new Map<number, number>();
+        termPostings.set(index, (termPostings.get(index) ?? 0) + FIELD_WEIGHTS[field]);
+        postings.set(term, termPostings);
+
+        const termFields = chunkFields.get(term) ?? [];
+        if (!termFields.includes(field)) termFields.push(field);
+        chunkFields.set(term, termFields);
+        length += FIELD_WEIGHTS[field];
+      }
+    }
+
+    fields.push(chunkFields);
+    lengths.push(length);
+  });
+
+  const averageLength = lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0;
+  return { chunks, postings, fields, lengths, averageLength };
+}
+
+/**
+ * Rank chunks for already-normalized `terms` (see `toTerms`), best first.
+ * Chunks that match no term are left out.
+ */
+export function searchBm25(index: Bm25Index, terms: string[], limit = Infinity): Bm25Hit[] {
+  const scores = new Map<number, number>();
+  const total = index.chunks.length;
+
+  for (const term of new Set(terms)) {
+    const termPostings = index.postings.get(term);
+    if (!termPostings) continue;
+
+    const idf = Math.log(1 + (total - termPostings.size + 0.5) / (termPostings.size + 0.5));
+    termPostings.forEach((frequency, chunk) => {
+      const norm = K1 * (1 - B + (B * index.lengths[chunk]) / index.averageLength);
+      scores.set(chunk, (scores.get(chunk) ?? 0) + (idf * frequency * (K1 + 1)) / (frequency + norm));
+    });
+  }
+
+  return Array.from(scores, ([chunk, score]) => ({
+    chunk: index.chunks[chunk],
+    score,
+    matchedFields: Array.from(new Set(terms.flatMap(term => index.fields[chunk].get(term) ?? []))),
+  }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
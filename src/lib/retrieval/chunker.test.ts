@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { chunkArticle, chunkLearningPath, chunkTutorial, MAX_CHUNK_LENGTH, splitIntoPassages } from './chunker';
+import type { LearningPath, Tutorial, WikiArticle } from '@/types';
+
+const article: WikiArticle = {
+  slug: 'git-basics',
+  title: 'Git Basics',
+  section: 'Getting Started',
+  description: 'Version control for beginners.',
+  content: [
+    'Git records every change.',
+    '## Making a Commit',
+    'Stage files first.',
+    '```bash\ngit add .\n\n# commit\ngit commit -m "msg"\n```',
+    '#### Amending',
+    'Use --amend to fix the last commit.',
+    '## Branches & Merging',
+    'Branches let you work in parallel.',
+  ].join('\n\n'),
+};
+
+describe('chunkArticle', () => {
+  it('splits at H2/H3 headings with rehype-slug anchors', () => {
+    const chunks = chunkArticle(article);
+
+    expect(chunks.map(chunk => [chunk.heading, chunk.anchor])).toEqual([
+      ['', ''],
+      ['Making a Commit', 'making-a-commit'],
+      ['Branches & Merging', 'branches--merging'],
+    ]);
+    expect(chunks.map(chunk => chunk.id)).toEqual(['article:git-basics#0', 'article:git-basics#1', 'article:git-basics#2']);
+  });
+
+  it('numbers repeated headings like rehype-slug and keeps list numbers', () => {
+    const chunks = chunkArticle({
+      slug: 'steps',
+      title: 'Steps',
+      section: 'Guides',
+      content: ['# Steps', '## 1. Setup', 'First.', '## Notes', 'One.', '#### Notes', 'Deeper.', '## Notes', 'Two.'].join('\n\n'),
+    });
+
+    expect(chunks.map(chunk => [chunk.heading, chunk.anchor])).toEqual([
+      ['1. Setup', '1-setup'],
+      ['Notes', 'notes'],
+      ['Notes', 'notes-2'],
+    ]);
+  });
+
+  it('opens with the description and keeps deeper headings and code in their parent passage', () => {
+    const [intro, commit] = chunkArticle(article);
+
+    expect(intro.text).toBe('Version control for beginners.\n\nGit records every change.');
+    expect(commit.text).toContain('git add .\n\n# commit');
+    expect(commit.text).toContain('#### Amending\n\nUse --amend to fix the last commit.');
+  });
+});
+
+describe('splitIntoPassages', () => {
+  it('groups paragraphs up to the passage length', () => {
+    const paragraph = 'word '.repeat(70).trim();
+    const passages = splitIntoPassages([paragraph, paragraph, paragraph, paragraph].join('\n\n'));
+
+    expect(passages).toHaveLength(2);
+    expect(passages.every(passage => passage.length <= MAX_CHUNK_LENGTH)).toBe(true);
+  });
+
+  it('cuts a long paragraph at sentence ends', () => {
+    const sentence = `${'كلمة '.repeat(30).trim()}. `;
+    const passages = splitIntoPassages(sentence.repeat(12).trim());
+
+    expect(passages.length).toBeGreaterThan(1);
+    expect(passages.every(passage => passage.endsWith('.'))).toBe(true);
+  });
+});
+
+describe('chunkTutorial', () => {
+  it('indexes the overview and every step in order', () => {
+    const tutorial: Tutorial = {
+      id: 'tutorial-hooks',
+      slug: 'hooks',
+      title: 'React Hooks',
+      description: 'State in function components.',
+      section: 'React',
+      difficulty: 'beginner',
+      estimatedMinutes: 20,
+      learningObjectives: ['Use useState'],
+      steps: [
+        {
+          id: 's2',
+          title: 'Effects',
+          content: 'Run side effects.',
+          order: 2,
+          exercise: {
+            id: 'e1',
+            title: 'Fetch data',
+            description: 'Load a user.',
+            instruction: 'Call fetch in useEffect.',
+            starterCode: '',
+            language: 'javascript',
+          },
+        },
+        { id: 's1', title: 'State', content: 'Call useState.', order: 1, codeExample: { language: 'jsx', code: 'useState(0)' } },
+      ],
+    };
+
+    const chunks = chunkTutorial(tutorial);
+
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['', 'State', 'Effects']);
+    expect(chunks[0].text).toBe('State in function components.\n- Use useState');
+    expect(chunks[1].text).toBe('Call useState.\n\n```jsx\nuseState(0)\n```');
+    expect(chunks[2].text).toContain('Fetch data: Load a user.\n\nCall fetch in useEffect.');
+    expect(chunks.every(chunk => chunk.type === 'tutorial' && chunk.anchor === '')).toBe(true);
+  });
+});
+
+describe('chunkLearningPath', () => {
+  it('lists the items of a path in order', () => {
+    const path: LearningPath = {
+      id: 'path-web',
+      slug: 'web',
+      title: 'Web Apps',
+      description: 'From zero to deployed.',
+      difficulty: 'beginner',
+      estimatedMinutes: 60,
+      targetAudience: ['New developers'],
+      learningObjectives: ['Deploy an app'],
+      category: 'Web',
+      items: [
+        { id: 'i2', type: 'tutorial', slug: 'deploy', title: 'Deploy', estimatedMinutes: 30, order: 2 },
+        { id: 'i1', type: 'article', slug: 'intro', title: 'Intro', description: 'Start here', estimatedMinutes: 30, order: 1 },
+      ],
+    };
+
+    const [chunk] = chunkLearningPath(path);
+
+    expect(chunk).toMatchObject({ id: 'path:web#0', type: 'path', section: 'Web' });
+    expect(chunk.text).toBe('From zero to deployed.\n- New developers\n- Deploy an app\n1. Intro - Start here\n2. Deploy');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Splits wiki content into passages for retrieval. Articles are cut at
+ * their H2/H3 headings, then into groups of paragraphs, so a chat answer
+ * can quote and link the part of a page it used. Tutorials become one
+ * passage for the overview and one per step; a learning path is a single
+ * passage listing its items.
+ */
+
+import {
+  getArticleBody,
+  getHeadingAnchors,
+  parseMarkdownWithHeadings,
+  toHeadingText,
+} from '@/lib/markdown-sections';
+import type { ChatSource } from '@/types/wiki-chatbot';
+import type { LearningPath, Tutorial, WikiArticle } from '@/types';
+
+export interface ContentChunk {
+  /** `<type>:<slug>#<n>`, unique across the index. */
+  id: string;
+  type: ChatSource['type'];
+  slug: string;
+  /** Title of the article, tutorial or path. */
+  title: string;
+  section: string;
+  /** Heading the passage sits under; empty for the text before the first one. */
+  heading: string;
+  /** rehype-slug id of `heading`, for `/wiki/<slug>#<anchor>`. */
+  anchor: string;
+  /** The passage as Markdown. */
+  text: string;
+}
+
+/** Paragraphs are grouped into passages of at most this many characters. */
+export const MAX_CHUNK_LENGTH = 800;
+
+// Deeper headings stay inside their H2/H3 parent passage
+const MAX_ANCHOR_LEVEL = 3;
+
+/**
+ * Split Markdown at blank lines, keeping fenced code blocks whole.
+ */
+function splitParagraphs(markdown: string): string[] {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let inCodeFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeFence = !inCodeFence;
+    if (!inCodeFence && line.trim() === '') {
+      if (current.length > 0) paragraphs.push(current.join('\n'));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) paragraphs.push(current.join('\n'));
+
+  return paragraphs;
+}
+
+/**
+ * Cut a paragraph longer than `MAX_CHUNK_LENGTH` at sentence ends. Code
+ * blocks are never cut.
+ */
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= MAX_CHUNK_LENGTH || /^\s*(```|~~~)/.test(paragraph)) return [paragraph];
+  return paragraph.split(/(?<=[.!?؟])\s+/);
+}
+
+/**
+ * Group paragraphs greedily into passages of up to `MAX_CHUNK_LENGTH`.
+ */
+export function splitIntoPassages(markdown: string): string[] {
+  const passages: string[] = [];
+  let current = '';
+
+  for (const paragraph of splitParagraphs(markdown)) {
+    splitLongParagraph(paragraph).forEach((piece, index) => {
+      // Sentences of one paragraph are rejoined with a space
+      const separator = index === 0 ? '\n\n' : ' ';
+      if (current && current.length + separator.length + piece.length > MAX_CHUNK_LENGTH) {
+        passages.push(current);
+        current = piece;
+      } else {
+        current = current ? current + separator + piece : piece;
+      }
+    });
+  }
+  if (current) passages.push(current);
+
+  return passages.map(passage => passage.trim()).filter(Boolean);
+}
+
+function numberChunks(chunks: Omit<ContentChunk, 'id'>[]): ContentChunk[] {
+  return chunks.map((chunk, index) => ({ id: `${chunk.type}:${chunk.slug}#${index}`, ...chunk }));
+}
+
+/**
+ * Passages of an article. The description, if any, opens the first one.
+ */
+export function chunkArticle(article: WikiArticle): ContentChunk[] {
+  const base = { type: 'article' as const, slug: article.slug, title: article.title, section: article.section };
+  const groups: { heading: string; anchor: string; markdown: string }[] = [];
+
+  const sections = parseMarkdownWithHeadings(getArticleBody(article.content));
+  const anchors = getHeadingAnchors(sections);
+
+  sections.forEach((section, index) => {
+    const content = section.content ?? '';
+    const last = groups[groups.length - 1];
+
+    if (section.type !== 'heading') {
+      groups.push({ heading: '', anchor: '', markdown: content });
+    } else if (section.level > MAX_ANCHOR_LEVEL && last) {
+      last.markdown += `\n\n${'#'.repeat(section.level)} ${section.text}\n\n${content}`;
+    } else {
+      groups.push({ heading: toHeadingText(section.text), anchor: anchors[index], markdown: content });
+    }
+  });
+
+  if (article.description) {
+    if (groups[0]?.heading === '') {
+      groups[0].markdown = `${article.description}\n\n${groups[0].markdown}`;
+    } else {
+      groups.unshift({ heading: '', anchor: '', markdown: article.description });
+    }
+  }
+
+  return numberChunks(
+    groups.flatMap(({ heading, anchor, markdown }) =>
+      splitIntoPassages(markdown).map(text => ({ ...base, heading, anchor, text }))
+    )
+  );
+}
+
+/**
+ * Passages of a tutorial: an overview with the description and learning
+ * objectives, then each step with its code example and exercise.
+ */
+export function chunkTutorial(tutorial: Tutorial): ContentChunk[] {
+  const base = { type: 'tutorial' as const, slug: tutorial.slug, title: tutorial.title, section: tutorial.section, anchor: '' };
+  const overview = [tutorial.description, ...tutorial.learningObjectives.map(objective => `- ${objective}`)].join('\n');
+
+  const steps = [...tutorial.steps]
+    .sort((a, b) => a.order - b.order)
+    .flatMap(step => {
+      const parts = [step.content];
+      if (step.codeExample) {
+        parts.push(`\`\`\`${step.codeExample.language}\n${step.codeExample.code}\n\`\`\``);
+      }
+      if (step.exercise) {
+        parts.push(`${step.exercise.title}: ${step.exercise.description}\n\n${step.exercise.instruction}`);
+      }
+      return splitIntoPassages(parts.join('\n\n')).map(text => ({ ...base, heading: step.title, text }));
+    });
+
+  return numberChunks([{ ...base, heading: '', text: overview }, ...steps]);
+}
+
+/**
+ * A learning path as one passage: its description, audience and items in order.
+ */
+export function chunkLearningPath(path: LearningPath): ContentChunk[] {
+  const items = [...path.items]
+    .sort((a, b) => a.order - b.order)
+    .map((item, index) => `${index + 1}. ${item.title}${item.description ? ` - ${item.description}` : ''}`);
+  const text = [
+    path.description,
+    ...path.targetAudience.map(audience => `- ${audience}`),
+    ...path.learningObjectives.map(objective => `- ${objective}`),
+    ...items,
+  ].join('\n');
+
+  return numberChunks([
+    { type: 'path', slug: path.slug, title: path.title, section: path.category ?? '', heading: '', anchor: '', text },
+  ]);
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildContentIndex, getContentIndex, MAX_CHUNKS_PER_DOCUMENT, retrievePassages, toTerms } from './index';
+import type { LearningPath, Tutorial, WikiArticle } from '@/types';
+
+const articles: WikiArticle[] = [
+  {
+    slug: 'cursor-ide',
+    title: 'Cursor IDE',
+    section: 'Tools',
+    content: 'Cursor is an editor.\n\n## Chat\n\nAsk Cursor to edit code.\n\n## Rules\n\nCursor rules guide the editor.\n\n## Pricing\n\nCursor has a free tier.',
+  },
+  { slug: 'git', title: 'Git', section: 'Basics', content: 'Git tracks code.' },
+];
+
+const tutorials: Tutorial[] = [
+  {
+    id: 'tutorial-v0',
+    slug: 'v0-advanced',
+    title: 'v0',
+    description: 'Generate interfaces.',
+    section: 'Tools',
+    difficulty: 'advanced',
+    estimatedMinutes: 30,
+    learningObjectives: [],
+    steps: [{ id: 's1', title: 'Theming', content: 'Apply a Tailwind theme to generated components.', order: 1 }],
+  },
+];
+
+const paths: LearningPath[] = [
+  {
+    id: 'path-tools',
+    slug: 'tools',
+    title: 'Tools Tour',
+    description: 'Every editor in the wiki.',
+    difficulty: 'beginner',
+    estimatedMinutes: 60,
+    targetAudience: [],
+    learningObjectives: [],
+    items: [{ id: 'i1', type: 'article', slug: 'cursor-ide', title: 'Cursor IDE', estimatedMinutes: 10, order: 1 }],
+  },
+];
+
+describe('retrievePassages', () => {
+  const index = buildContentIndex(articles, tutorials, paths);
+
+  it('returns passages with their heading and anchor', () => {
+    const [best] = retrievePassages(index, toTerms('edit code chat'), 1);
+
+    expect(best).toMatchObject({
+      type: 'article',
+      article: { slug: 'cursor-ide', title: 'Cursor IDE', content: 'Ask Cursor to edit code.' },
+      heading: 'Chat',
+      anchor: 'chat',
+    });
+  });
+
+  it('finds tutorial steps and learning paths by their content', () => {
+    expect(retrievePassages(index, toTerms('tailwind theme'), 5)[0]).toMatchObject({ type: 'tutorial', heading: 'Theming' });
+    expect(retrievePassages(index, toTerms('tour'), 5)[0]).toMatchObject({ type: 'path', article: { slug: 'tools' } });
+  });
+
+  it('limits passages per page', () => {
+    const results = retrievePassages(index, toTerms('cursor'), 10);
+    const fromCursor = results.filter(result => result.article.slug === 'cursor-ide');
+
+    expect(fromCursor).toHaveLength(MAX_CHUNKS_PER_DOCUMENT);
+    expect(results.map(result => result.article.slug)).toContain('tools');
+  });
+});
+
+describe('getContentIndex', () => {
+  it('reuses the index for the same content', () => {
+    const index = getContentIndex(articles, tutorials, paths);
+
+    expect(getContentIndex(articles, tutorials, paths)).toBe(index);
+    expect(getContentIndex(articles, [], paths)).not.toBe(index);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Retrieval for the wiki chatbot: articles, tutorials and learning paths
+ * are split into passages (chunker), ranked with BM25 (bm25) and, when an
+ * embedding model is configured, re-ranked by similarity (rerank).
+ */
+
+export * from './chunker';
+export * from './bm25';
+export * from './rerank';
+
+import type { LearningPath, Tutorial, WikiArticle } from '@/types';
+import type { WikiSearchResult } from '@/types/wiki-chatbot';
+import { chunkArticle, chunkLearningPath, chunkTutorial } from './chunker';
+import { buildBm25Index, searchBm25, type Bm25Hit, type Bm25Index } from './bm25';
+
+/** At most this many passages of one page are returned, so results cover several pages. */
+export const MAX_CHUNKS_PER_DOCUMENT = 2;
+
+export function buildContentIndex(articles: WikiArticle[], tutorials: Tutorial[], paths: LearningPath[]): Bm25Index {
+  return buildBm25Index([
+    ...articles.flatMap(chunkArticle),
+    ...tutorials.flatMap(chunkTutorial),
+    ...paths.flatMap(chunkLearningPath),
+  ]);
+}
+
+// The content arrays are built once per process, so the index is too
+const indexCache = new WeakMap<WikiArticle[], { tutorials: Tutorial[]; paths: LearningPath[]; index: Bm25Index }>();
+
+/**
+ * The index for this content, built on first use and reused while the
+ * same arrays are passed in.
+ */
+export function getContentIndex(articles: WikiArticle[], tutorials: Tutorial[], paths: LearningPath[]): Bm25Index {
+  const cached = indexCache.get(articles);
+  if (cached && cached.tutorials === tutorials && cached.paths === paths) return cached.index;
+
+  const index = buildContentIndex(articles, tutorials, paths);
+  indexCache.set(articles, { tutorials, paths, index });
+  return index;
+}
+
+function toSearchResult({ chunk, score, matchedFields }: Bm25Hit): WikiSearchResult {
+  return {
+    type: chunk.type,
+    article: { slug: chunk.slug, title: chunk.title, section: chunk.section, content: chunk.text },
+    heading: chunk.heading || undefined,
+    anchor: chunk.anchor || undefined,
+    score,
+    matchedSections: matchedFields,
+  };
+}
+
+/**
+ * The best passages for `terms`, at most `MAX_CHUNKS_PER_DOCUMENT` per page.
+ */
+export function retrievePassages(index: Bm25Index, terms: string[], limit: number): WikiSearchResult[] {
+  const perDocument = new Map<string, number>();
+  const results: WikiSearchResult[] = [];
+
+  for (const hit of searchBm25(index, terms)) {
+    const key = `${hit.chunk.type}:${hit.chunk.slug}`;
+    const count = perDocument.get(key) ?? 0;
+    if (count >= MAX_CHUNKS_PER_DOCUMENT) continue;
+
+    perDocument.set(key, count + 1);
+    results.push(toSearchResult(hit));
+    if (results.length === limit) break;
+  }
+
+  return results;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cosineSimilarity, rerankWithEmbeddings } from './rerank';
+import type { EmbeddingProvider } from '@/lib/llm';
+import type { WikiSearchResult } from '@/types/wiki-chatbot';
+
+function result(slug: string, score: number): WikiSearchResult {
+  return { article: { slug, title: slug, section: '', content: `${slug} passage` }, score, matchedSections: [] };
+}
+
+// Vectors by the first word of each text
+const VECTORS: Record<string, number[]> = {
+  question: [1, 0],
+  a: [0, 1],
+  b: [1, 0],
+};
+
+const provider: EmbeddingProvider = {
+  name: 'fake',
+  embed: vi.fn(async (texts: string[]) => texts.map(text => VECTORS[text.split(/\s/)[0]])),
+};
+
+describe('cosineSimilarity', () => {
+  it('compares direction and handles zero vectors', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('rerankWithEmbeddings', () => {
+  it('moves passages similar to the query up', async () => {
+    const reranked = await rerankWithEmbeddings('question', [result('a', 2), result('b', 1.5)], provider);
+
+    expect(reranked.map(item => item.article.slug)).toEqual(['b', 'a']);
+    expect(reranked[0].score).toBeCloseTo(0.5 * 0.75 + 0.5);
+  });
+
+  it('keeps the keyword order when similarity has no weight', async () => {
+    const reranked = await rerankWithEmbeddings('question', [result('a', 2), result('b', 1.5)], provider, { weight: 0 });
+    expect(reranked.map(item => item.article.slug)).toEqual(['a', 'b']);
+  });
+
+  it('does not call the model without results', async () => {
+    vi.mocked(provider.embed).mockClear();
+    await expect(rerankWithEmbeddings('question', [], provider)).resolves.toEqual([]);
+    expect(provider.embed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Optional re-ranking of retrieved passages by embedding similarity, for
+ * when an embedding model is available (e.g. a local one behind Ollama).
+ */
+
+import type { EmbeddingProvider } from '@/lib/llm';
+import type { WikiSearchResult } from '@/types/wiki-chatbot';
+
+export interface RerankOptions {
+  /** Share of the final score that comes from similarity, 0 to 1. */
+  weight?: number;
+  signal?: AbortSignal;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Reorder `results` by a blend of their keyword score (scaled to the best
+ * one) and the cosine similarity of their passage to `query`.
+ */
+export async function rerankWithEmbeddings(
+  query: string,
+  results: WikiSearchResult[],
+  provider: EmbeddingProvider,
+  { weight = 0.5, signal }: RerankOptions = {}
+): Promise<WikiSearchResult[]> {
+  if (results.length === 0) return results;
+
+  const [queryVector, ...vectors] = await provider.embed(
+    [query, ...results.map(result => `${result.article.title}\n${result.article.content}`)],
+    signal
+  );
+  const topScore = Math.max(...results.map(result => result.score));
+
+  return results
+    .map((result, index) => ({
+      ...result,
+      score: (1 - weight) * (topScore > 0 ? result.score / topScore : 0) + weight * cosineSimilarity(queryVector, vectors[index]),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { CLIScenario, ScenarioSession, applyMutation, checkPasses } from './scenario-engine';
+import { VirtualFileSystem } from './shell';
+
+const scenario: CLIScenario = {
+  id: 'demo',
+  title: 'Demo',
+  article: 'demo-article',
+  tool: 'claude',
+  fixture: { name: 'app', files: { 'src/old.js': 'var x = 1;\n' } },
+  steps: [
+    {
+      id: 'scan',
+      title: 'Scan',
+      instruction: 'Scan the project',
+      branches: [{ command: 'claude scan', run: true }],
+    },
+    {
+      id: 'convert',
+      title: 'Convert',
+      instruction: 'Convert src/old.js',
+      branches: [
+        {
+          pattern: '^claude refactor (?<file>\\S+) --to-typescript$',
+          output: 'Converted {{file}}',
+          mutations: [
+            { op: 'write', path: 'src/new.ts', content: 'export const x = 1;\n' },
+            { op: 'remove', path: 'src/old.js' },
+          ],
+        },
+        { pattern: '^claude refactor', output: 'Which file? ({{input}})', completes: false },
+      ],
+      checks: [
+        { type: 'exists', path: 'src/new.ts', message: 'src/new.ts is missing' },
+        { type: 'missing', path: 'src/old.js', message: 'src/old.js is still there' },
+      ],
+    },
+    {
+      id: 'review',
+      title: 'Review',
+      instruction: 'Review the result',
+      branches: [{ command: 'claude review src/new.ts', output: 'Looks good' }],
+    },
+  ],
+  completionMessage: 'All done',
+};
+
+describe('ScenarioSession', () => {
+  let fileSystem: VirtualFileSystem;
+  let session: ScenarioSession;
+  const run = vi.fn((input: string) => `ran ${input}`);
+
+  beforeEach(() => {
+    fileSystem = VirtualFileSystem.fromFixture(scenario.fixture!);
+    session = new ScenarioSession(scenario, fileSystem);
+    run.mockClear();
+  });
+
+  it('starts at the first step', () => {
+    expect(session.currentStep?.id).toBe('scan');
+    expect(session.isComplete).toBe(false);
+  });
+
+  it('returns null for input the current step does not expect', () => {
+    expect(session.respond('ls', run)).toBeNull();
+    expect(session.respond('claude review src/new.ts', run)).toBeNull();
+    expect(session.currentStep?.id).toBe('scan');
+  });
+
+  it('runs the command normally for run branches', () => {
+    const reply = session.respond('claude   scan', run);
+
+    expect(run).toHaveBeenCalledWith('claude   scan');
+    expect(reply).toEqual({ output: 'ran claude   scan', success: true, completedStepId: 'scan' });
+    expect(session.currentStep?.id).toBe('convert');
+  });
+
+  it('keeps the step open for wrong-turn branches', () => {
+    session.respond('claude scan', run);
+    const reply = session.respond('claude refactor', run);
+
+    expect(reply).toEqual({ output: 'Which file? (claude refactor)', success: true });
+    expect(session.currentStep?.id).toBe('convert');
+  });
+
+  it('applies mutations and fills named groups', () => {
+    session.respond('claude scan', run);
+    const reply = session.respond('claude refactor src/old.js --to-typescript', run);
+
+    expect(reply?.output).toBe('Converted src/old.js');
+    expect(reply?.completedStepId).toBe('convert');
+    expect(fileSystem.readFile('src/new.ts')).toBe('export const x = 1;\n');
+    expect(fileSystem.exists('src/old.js')).toBe(false);
+  });
+
+  it('does not complete a step while its checks fail', () => {
+    const blocked = new ScenarioSession(
+      { ...scenario, steps: [{ ...scenario.steps[1], branches: [{ command: 'claude refactor', output: 'Done' }] }] },
+      fileSystem
+    );
+
+    expect(blocked.respond('claude refactor', run)).toEqual({
+      output: 'Done\n\n✗ src/new.ts is missing\n✗ src/old.js is still there',
+      success: false,
+    });
+    expect(blocked.currentStep?.id).toBe('convert');
+  });
+
+  it('fails the command and undoes its mutations when one cannot be applied', () => {
+    const moving = new ScenarioSession(
+      {
+        ...scenario,
+        steps: [
+          {
+            ...scenario.steps[1],
+            branches: [
+              {
+                command: 'claude rename',
+                output: 'Renamed',
+                mutations: [
+                  { op: 'write', path: 'src/NOTES.md', content: 'Renamed old.js\n' },
+                  { op: 'move', path: 'src/old.js', to: 'src/new.ts' },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      fileSystem
+    );
+    fileSystem.remove('src/old.js');
+
+    expect(moving.respond('claude rename', run)).toEqual({
+      output: 'Renamed\n\n✗ move src/old.js: No such file or directory',
+      success: false,
+    });
+    expect(moving.currentStep?.id).toBe('convert');
+    expect(fileSystem.exists('src/NOTES.md')).toBe(false);
+  });
+
+  it('appends the completion message after the last step', () => {
+    session.respond('claude scan', run);
+    session.respond('claude refactor src/old.js --to-typescript', run);
+    const reply = session.respond('claude review src/new.ts', run);
+
+    expect(reply?.output).toBe('Looks good\n\nAll done');
+    expect(session.isComplete).toBe(true);
+    expect(session.completedSteps).toEqual(['scan', 'convert', 'review']);
+    expect(session.respond('claude scan', run)).toBeNull();
+  });
+
+  it('jumps to the step named by goto', () => {
+    const branching = new ScenarioSession(
+      {
+        ...scenario,
+        steps: [
+          { ...scenario.steps[0], branches: [{ command: 'claude scan', goto: 'review' }] },
+          ...scenario.steps.slice(1),
+        ],
+      },
+      fileSystem
+    );
+
+    branching.respond('claude scan', run);
+    expect(branching.currentStep?.id).toBe('review');
+  });
+
+  it('records a step revisited through goto once', () => {
+    const looping = new ScenarioSession(
+      {
+        ...scenario,
+        steps: [
+          { ...scenario.steps[0], branches: [{ command: 'claude scan', goto: 'scan' }, { command: 'claude done' }] },
+        ],
+      },
+      fileSystem
+    );
+
+    looping.respond('claude scan', run);
+    looping.respond('claude scan', run);
+    looping.respond('claude done', run);
+    expect(looping.completedSteps).toEqual(['scan']);
+  });
+});
+
+describe('applyMutation and checkPasses', () => {
+  it('creates parent directories, appends and moves', () => {
+    const fileSystem = VirtualFileSystem.fromFixture({ name: 'app', files: {} });
+
+    applyMutation(fileSystem, { op: 'write', path: 'a/b/c.txt', content: 'one\n' });
+    applyMutation(fileSystem, { op: 'append', path: 'a/b/c.txt', content: 'two\n' });
+    applyMutation(fileSystem, { op: 'move', path: 'a/b/c.txt', to: 'c.txt' });
+    applyMutation(fileSystem, { op: 'remove', path: 'not-there' });
+
+    expect(checkPasses(fileSystem, { type: 'contains', path: 'c.txt', text: 'two', message: '' })).toBe(true);
+    expect(checkPasses(fileSystem, { type: 'missing', path: 'a/b/c.txt', message: '' })).toBe(true);
+    expect(checkPasses(fileSystem, { type: 'contains', path: 'a', text: '', message: '' })).toBe(false);
+  });
+});
+
+describe('repository scenarios', () => {
+  it('can be completed by typing each step hint', () => {
+    const file = path.join(process.cwd(), 'content', '10-claude-copilot-cli', '02-claude-cli-commands-detailed.scenario.json');
+    const refactor = JSON.parse(fs.readFileSync(file, 'utf8')) as CLIScenario;
+    const session = new ScenarioSession(refactor, VirtualFileSystem.fromFixture(refactor.fixture!));
+
+    for (const step of refactor.steps) {
+      const reply = session.respond(step.hint!, () => '');
+      expect(reply?.completedStepId).toBe(step.id);
+    }
+    expect(session.isComplete).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * CLI Scenario Engine
+ *
+ * Drives a scripted, multi-turn session in a CLI playground. A scenario is
+ * declared as JSON next to the article it accompanies (see
+ * `loadScenarios` in content-loader) and lists steps; each step has the
+ * commands the learner is expected to type, the response for each branch,
+ * the file changes the simulated AI applies, and the checks that must hold
+ * before the step counts as done.
+ *
+ * Completed step ids double as tutorial step ids, with the scenario id as
+ * the tutorial id, so progress is stored with `markTutorialStepCompleted`.
+ *
+ * @example
+ * ```ts
+ * const session = new ScenarioSession(scenario, fs);
+ * const reply = session.respond('claude refactor src/utils.js', runNormally);
+ * if (reply?.completedStepId) completeTutorialStep(scenario.id, reply.completedStepId);
+ * ```
+ *
+ * @module scenario-engine
+ */
+
+import type { CLITool } from '@/types';
+import { dirname, type ProjectFixture, type VirtualFileSystem } from '@/lib/shell';
+
+export type FileMutation =
+  | { op: 'write' | 'append'; path: string; content: string }
+  | { op: 'mkdir' | 'remove'; path: string }
+  | { op: 'move'; path: string; to: string };
+
+export interface ScenarioCheck {
+  /** `exists`/`missing` test the path; `contains` also needs `text`. */
+  type: 'exists' | 'missing' | 'contains';
+  path: string;
+  text?: string;
+  /** Shown when the check fails. */
+  message: string;
+}
+
+export interface ScenarioBranch {
+  /** Matches the input exactly, ignoring repeated whitespace. */
+  command?: string;
+  /** Regular expression tested against the trimmed input. */
+  pattern?: string;
+  /**
+   * Response text. `{{input}}` and `{{name}}` (named groups of `pattern`)
+   * are replaced.
+   */
+  output?: string;
+  /** Run the input as the playground normally would, before `output`. */
+  run?: boolean;
+  mutations?: FileMutation[];
+  /** Set to false for a "wrong turn" reply that keeps the step open. */
+  completes?: boolean;
+  /** Step to continue with instead of the next one. */
+  goto?: string;
+}
+
+export interface ScenarioStep {
+  id: string;
+  title: string;
+  instruction: string;
+  hint?: string;
+  branches: ScenarioBranch[];
+  checks?: ScenarioCheck[];
+}
+
+export interface CLIScenario {
+  id: string;
+  title: string;
+  /** Slug of the article the scenario is shown with. */
+  article: string;
+  tool: CLITool;
+  description?: string;
+  fixture?: ProjectFixture;
+  steps: ScenarioStep[];
+  completionMessage?: string;
+}
+
+export interface ScenarioReply {
+  output: string;
+  success: boolean;
+  completedStepId?: string;
+}
+
+function normalizeCommand(input: string): string {
+  return input.trim().replace(/\s+/g, ' ');
+}
+
+function matchBranch(branch: ScenarioBranch, input: string): Record<string, string> | null {
+  const trimmed = input.trim();
+  if (branch.command !== undefined) {
+    return normalizeCommand(branch.command) === normalizeCommand(trimmed) ? {} : null;
+  }
+  if (branch.pattern !== undefined) {
+    const match = new RegExp(branch.pattern).exec(trimmed);
+    return match ? { ...match.groups } : null;
+  }
+  return null;
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+export function applyMutation(fs: VirtualFileSystem, mutation: FileMutation): void {
+  switch (mutation.op) {
+    case 'write':
+    case 'append':
+      fs.mkdir(dirname(fs.resolve(mutation.path)), { recursive: true });
+      fs.writeFile(mutation.path, mutation.content, { append: mutation.op === 'append' });
+      break;
+    case 'mkdir':
+      fs.mkdir(mutation.path, { recursive: true });
+      break;
+    case 'remove':
+      if (fs.exists(mutation.path)) fs.remove(mutation.path, { recursive: true });
+      break;
+    case 'move':
+      fs.move(mutation.path, mutation.to);
+      break;
+  }
+}
+
+export function checkPasses(fs: VirtualFileSystem, check: ScenarioCheck): boolean {
+  switch (check.type) {
+    case 'exists':
+      return fs.exists(check.path);
+    case 'missing':
+      return !fs.exists(check.path);
+    case 'contains':
+      return fs.stat(check.path)?.type === 'file' && fs.readFile(check.path).includes(check.text ?? '');
+  }
+}
+
+export class ScenarioSession {
+  private stepIndex = 0;
+  private readonly completed: string[] = [];
+
+  constructor(
+    readonly scenario: CLIScenario,
+    private readonly fs: VirtualFileSystem
+  ) {}
+
+  get currentStep(): ScenarioStep | undefined {
+    return this.scenario.steps[this.stepIndex];
+  }
+
+  get completedSteps(): string[] {
+    return [...this.completed];
+  }
+
+  get isComplete(): boolean {
+    return this.currentStep === undefined;
+  }
+
+  /**
+   * Handle one line of input. Returns null when no branch of the current
+   * step matches, so the playground can run the command as usual.
+   */
+  respond(input: string, run: (input: string) => string): ScenarioReply | null {
+    const step = this.currentStep;
+    if (!step) return null;
+
+    let branch: ScenarioBranch | undefined;
+    let groups: Record<string, string> | null = null;
+    for (const candidate of step.branches) {
+      groups = matchBranch(candidate, input);
+      if (groups) {
+        branch = candidate;
+        break;
+      }
+    }
+    if (!branch || !groups) return null;
+
+    const parts: string[] = [];
+    if (branch.run) parts.push(run(input));
+    if (branch.output) parts.push(fillTemplate(branch.output, { ...groups, input: input.trim() }));
+    const before = branch.mutations?.length ? this.fs.snapshot() : null;
+    for (const mutation of branch.mutations ?? []) {
+      try {
+        applyMutation(this.fs, mutation);
+      } catch (error) {
+        // A mutation the learner's file tree no longer allows (moving a file
+        // they deleted) fails the command, and undoes the ones before it
+        if (before) this.fs.restore(before);
+        const message = error instanceof Error ? error.message : String(error);
+        parts.push(`✗ ${mutation.op} ${mutation.path}: ${message}`);
+        return { output: parts.filter(Boolean).join('\n\n'), success: false };
+      }
+    }
+
+    if (branch.completes === false) {
+      return { output: parts.filter(Boolean).join('\n\n'), success: true };
+    }
+
+    const failures = (step.checks ?? []).filter(check => !checkPasses(this.fs, check));
+    if (failures.length > 0) {
+      parts.push(failures.map(check => `✗ ${check.message}`).join('\n'));
+      return { output: parts.filter(Boolean).join('\n\n'), success: false };
+    }
+
+    if (!this.completed.includes(step.id)) this.completed.push(step.id);
+    const target = branch.goto ? this.scenario.steps.findIndex(s => s.id === branch.goto) : -1;
+    this.stepIndex = target >= 0 ? target : this.stepIndex + 1;
+
+    if (this.isComplete && this.scenario.completionMessage) {
+      parts.push(this.scenario.completionMessage);
+    }
+
+    return { output: parts.filter(Boolean).join('\n\n'), success: true, completedStepId: step.id };
+  }
+}
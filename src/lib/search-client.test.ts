@@ -0,0 +1,155 @@
+/**
+ * Tests for search-client.ts
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { buildSearchIndex } from '@/lib/search-index-builder';
+import { loadSearchIndex, searchLoadedIndex, searchLoadedSections, SEARCH_INDEX_URL } from '@/lib/search-client';
+import type { WikiArticle } from '@/types';
+
+const articles: WikiArticle[] = [
+  {
+    slug: 'react-hooks',
+    title: 'هوكس React للمبتدئين',
+    section: 'الواجهات',
+    difficulty: 'beginner',
+    content: 'مقدمة عن المكونات.\n\n## useState\n\nتخزين الحالة داخل المكون.\n\n## useEffect\n\nتشغيل التأثيرات الجانبية بعد الرسم.',
+  },
+  {
+    slug: 'programming-basics',
+    title: 'أساسيات البرمجة',
+    section: 'المقدمة',
+    difficulty: 'beginner',
+    content: 'البرمجة هي كتابة تعليمات للحاسوب.\n\n```js\nconsole.log(1);\n```',
+  },
+  {
+    slug: 'advanced-patterns',
+    title: 'أنماط متقدمة',
+    section: 'المقدمة',
+    difficulty: 'advanced',
+    content: 'أنماط متقدمة في البرمجه مع React وإدارة الحالة على نطاق واسع.',
+  },
+];
+
+const index = buildSearchIndex(articles);
+
+describe('searchLoadedIndex', () => {
+  it('should return EnhancedSearchResult fields', () => {
+    const [result] = searchLoadedIndex(index, { query: 'هوكس' });
+
+    expect(result.item.slug).toBe('react-hooks');
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.score).toBeLessThan(1);
+    expect(result.highlightedTitle.filter((p) => p.matches).map((p) => p.text)).toEqual(['هوكس']);
+    expect(result.sections).toEqual([]);
+  });
+
+  it('should attach matching sections with deep links', () => {
+    const [result] = searchLoadedIndex(index, { query: 'useEffect' });
+
+    expect(result.sections).toHaveLength(1);
+    expect(result.sections[0]).toMatchObject({
+      articleTitle: 'هوكس React للمبتدئين',
+      heading: 'useEffect',
+      href: '/wiki/react-hooks#useeffect',
+    });
+    expect(result.sections[0].highlightedHeading).toEqual([{ text: 'useEffect', matches: true }]);
+  });
+
+  it('should match Arabic spelling variants and rank title matches first', () => {
+    const results = searchLoadedIndex(index, { query: 'البرمجة' });
+
+    expect(results.map((r) => r.item.slug)).toEqual(['programming-basics', 'advanced-patterns']);
+    expect(results[1].highlightedContent.some((p) => p.matches && p.text === 'البرمجه')).toBe(true);
+  });
+
+  it('should use the best matching section as the snippet', () => {
+    const [result] = searchLoadedIndex(index, { query: 'التأثيرات' });
+
+    expect(result.item.content).toBe('تشغيل التأثيرات الجانبية بعد الرسم.');
+  });
+
+  it('should match prefixes while typing', () => {
+    expect(searchLoadedIndex(index, { query: 'useEff' })[0]?.item.slug).toBe('react-hooks');
+  });
+
+  it('should prefer articles matching every term of a mixed query', () => {
+    const results = searchLoadedIndex(index, { query: 'React واسع' });
+
+    expect(results[0].item.slug).toBe('advanced-patterns');
+  });
+
+  it('should apply filters, sorting and limits', () => {
+    expect(searchLoadedIndex(index, { query: '', filters: { difficulty: 'advanced' } }).map((r) => r.item.slug)).toEqual([
+      'advanced-patterns',
+    ]);
+    expect(searchLoadedIndex(index, { query: '', filters: { hasCode: true } }).map((r) => r.item.slug)).toEqual([
+      'programming-basics',
+    ]);
+    expect(searchLoadedIndex(index, { query: '', sortBy: 'title', limit: 1 })[0].item.slug).toBe('programming-basics');
+  });
+
+  it('should return nothing for unknown terms', () => {
+    expect(searchLoadedIndex(index, { query: 'xyznonexistent' })).toEqual([]);
+  });
+});
+
+describe('searchLoadedSections', () => {
+  const sectionIndex = buildSearchIndex([
+    {
+      slug: 'state',
+      title: 'إدارة الحالة',
+      section: 'الواجهات',
+      content: '## المتاجر\n\nالحالة العامة تُحفظ في متجر واحد، والحالة المحلية في المكون.\n\n## الحالة المشتقة\n\nقيم تُحسب من غيرها.',
+    },
+    {
+      slug: 'cursor-setup',
+      title: 'تجهيز Cursor',
+      section: 'الأدوات',
+      difficulty: 'advanced',
+      content: '## تثبيت `Cursor` على [macOS](https://cursor.com)\n\nحمّل المثبّت.',
+    },
+  ]);
+
+  it('should rank heading matches above body matches', () => {
+    const results = searchLoadedSections(sectionIndex, { query: 'الحالة' });
+
+    expect(results.map((r) => r.heading)).toEqual(['الحالة المشتقة', 'المتاجر']);
+    expect(results[0].href).toBe('/wiki/state#الحالة-المشتقة');
+    expect(results[1].highlightedSnippet.some((p) => p.matches && p.text === 'الحالة')).toBe(true);
+  });
+
+  it('should use rehype-slug ids for headings with inline Markdown', () => {
+    const [result] = searchLoadedSections(sectionIndex, { query: 'macOS' });
+
+    expect(result.heading).toBe('تثبيت Cursor على macOS');
+    expect(result.anchor).toBe('تثبيت-cursor-على-macos');
+  });
+
+  it('should apply article filters and limits', () => {
+    expect(searchLoadedSections(sectionIndex, { query: 'تثبيت', filters: { difficulty: 'beginner' } })).toEqual([]);
+    expect(searchLoadedSections(sectionIndex, { query: 'الحالة', limit: 1 })).toHaveLength(1);
+    expect(searchLoadedSections(sectionIndex, { query: '' })).toEqual([]);
+  });
+});
+
+describe('loadSearchIndex', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fetch the index once and retry after a failure', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 500 })
+      .mockResolvedValue({ ok: true, json: async () => index });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(loadSearchIndex()).rejects.toThrow('500');
+    await expect(loadSearchIndex()).resolves.toBe(index);
+    await loadSearchIndex();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledWith(SEARCH_INDEX_URL);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Client Search
+ *
+ * Browser-side search over the prebuilt index (see search-index-builder).
+ * The index is fetched on first use instead of bundling article content,
+ * and results use the same `EnhancedSearchResult` shape as the server-side
+ * Fuse search in enhanced-search.
+ *
+ * @example
+ * ```ts
+ * const results = await searchArticlesClient({ query: 'البرمجة', limit: 8 });
+ * ```
+ *
+ * @module search-client
+ */
+
+import { tokenize } from '@/lib/text-normalizer';
+import type { EnhancedSearchResult, HighlightedText, SearchOptions } from '@/lib/enhanced-search';
+import type { PrebuiltSearchIndex, SearchIndexDocument } from '@/types';
+
+export const SEARCH_INDEX_URL = '/search-index.json';
+
+// Partial words (prefix matches) count for less than whole terms
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+// Sections whose heading contains a query term rank above body-only matches
+const HEADING_MATCH_BOOST = 3;
+
+const MAX_SECTIONS_PER_ARTICLE = 3;
+
+/**
+ * An "Article › Section" hit that links straight to a heading.
+ */
+export interface SectionSearchResult {
+  slug: string;
+  articleTitle: string;
+  /** rehype-slug id of the heading. */
+  anchor: string;
+  heading: string;
+  level: number;
+  /** `/wiki/<slug>#<anchor>` */
+  href: string;
+  score: number;
+  highlightedHeading: HighlightedText[];
+  highlightedSnippet: HighlightedText[];
+}
+
+export interface ClientSearchResult extends EnhancedSearchResult {
+  /** Best matching headings of the article, best first. */
+  sections: SectionSearchResult[];
+}
+
+interface SectionMatch {
+  section: number;
+  score: number;
+  matchedTerms: Set<number>;
+}
+
+interface DocumentMatch {
+  doc: number;
+  score: number;
+  /** Matching sections, best first. */
+  sections: SectionMatch[];
+}
+
+let indexPromise: Promise<PrebuiltSearchIndex> | null = null;
+
+/**
+ * Fetch the prebuilt index once; later calls share the same promise.
+ * A failed request is not cached, so the next call retries.
+ */
+export function loadSearchIndex(): Promise<PrebuiltSearchIndex> {
+  if (!indexPromise) {
+    indexPromise = fetch(SEARCH_INDEX_URL)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load search index: ${response.status}`);
+        }
+        return response.json() as Promise<PrebuiltSearchIndex>;
+      })
+      .catch(error => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+function uniqueTerms(text: string): string[] {
+  return Array.from(new Set(tokenize(text).map(token => token.term)));
+}
+
+/**
+ * Postings for a query term: exact matches plus, for terms of two or more
+ * letters, index terms that start with it (so results update while typing).
+ */
+function findPostings(index: PrebuiltSearchIndex, queryTerm: string): Array<{ postings: number[]; weight: number }> {
+  const found: Array<{ postings: number[]; weight: number }> = [];
+
+  for (const term in index.terms) {
+    if (term === queryTerm) {
+      found.push({ postings: index.terms[term], weight: 1 });
+    } else if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+      found.push({ postings: index.terms[term], weight: PREFIX_MATCH_WEIGHT });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Score every section containing a query term. A section whose heading
+ * matches is boosted so "Article › Section" hits rank above body matches.
+ */
+function matchSections(index: PrebuiltSearchIndex, queryTerms: string[]): SectionMatch[] {
+  const matches = new Map<number, SectionMatch>();
+  const totalSections = index.sections.length;
+
+  queryTerms.forEach((queryTerm, termIndex) => {
+    for (const { postings, weight } of findPostings(index, queryTerm)) {
+      const idf = Math.log(1 + totalSections / (postings.length / 2));
+
+      for (let i = 0; i < postings.length; i += 2) {
+        const section = postings[i];
+        const match = matches.get(section) ?? { section, score: 0, matchedTerms: new Set<number>() };
+        match.score += weight * idf * Math.log(1 + postings[i + 1]);
+        match.matchedTerms.add(termIndex);
+        matches.set(section, match);
+      }
+    }
+  });
+
+  for (const match of matches.values()) {
+    const heading = index.sections[match.section].heading;
+    if (heading && tokenize(heading).some(token => queryTerms.some(term => token.term.startsWith(term)))) {
+      match.score *= HEADING_MATCH_BOOST;
+    }
+  }
+
+  return Array.from(matches.values()).sort((a, b) => b.score - a.score);
+}
+
+function matchDocuments(index: PrebuiltSearchIndex, sectionMatches: SectionMatch[], termCount: number): DocumentMatch[] {
+  const documents = new Map<number, DocumentMatch & { matchedTerms: Set<number> }>();
+
+  for (const match of sectionMatches) {
+    const doc = index.sections[match.section].doc;
+    const documentMatch = documents.get(doc) ?? { doc, score: 0, sections: [], matchedTerms: new Set<number>() };
+    documentMatch.score += match.score;
+    documentMatch.sections.push(match);
+    match.matchedTerms.forEach(term => documentMatch.matchedTerms.add(term));
+    documents.set(doc, documentMatch);
+  }
+
+  // Prefer articles that match every query term
+  return Array.from(documents.values()).map(({ matchedTerms, ...match }) => ({
+    ...match,
+    score: match.score * (matchedTerms.size / termCount) ** 2,
+  }));
+}
+
+// Fuse's convention: 0 is a perfect match, values closer to 1 are weaker
+function toResultScore(rawScore: number): number {
+  return 1 / (1 + rawScore);
+}
+
+function matchesFilters(document: SearchIndexDocument, filters: SearchOptions['filters']): boolean {
+  if (!filters) return true;
+  if (filters.section && document.section !== filters.section) return false;
+  if (filters.difficulty && document.difficulty !== filters.difficulty) return false;
+  if (filters.hasCode && !document.hasCode) return false;
+  if (filters.minReadingTime && document.readingTime < filters.minReadingTime) return false;
+  if (filters.maxReadingTime && document.readingTime > filters.maxReadingTime) return false;
+  return true;
+}
+
+/**
+ * Split `text` into highlighted parts: every word whose term starts with
+ * one of the query terms is marked.
+ */
+function highlightTerms(text: string, queryTerms: string[]): HighlightedText[] {
+  const parts: HighlightedText[] = [];
+  let lastIndex = 0;
+
+  for (const token of tokenize(text)) {
+    if (token.start < lastIndex || !queryTerms.some(term => token.term.startsWith(term))) continue;
+
+    if (token.start > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, token.start), matches: false });
+    }
+    parts.push({ text: text.slice(token.start, token.end), matches: true });
+    lastIndex = token.end;
+  }
+
+  if (lastIndex < text.length || parts.length === 0) {
+    parts.push({ text: text.slice(lastIndex), matches: false });
+  }
+
+  return parts;
+}
+
+function toSectionResult(
+  index: PrebuiltSearchIndex,
+  match: SectionMatch,
+  queryTerms: string[],
+  termCount: number
+): SectionSearchResult {
+  const section = index.sections[match.section];
+  const document = index.documents[section.doc];
+
+  return {
+    slug: document.slug,
+    articleTitle: document.title,
+    anchor: section.anchor,
+    heading: section.heading,
+    level: section.level,
+    href: `/wiki/${document.slug}#${section.anchor}`,
+    score: toResultScore(match.score * (match.matchedTerms.size / termCount) ** 2),
+    highlightedHeading: highlightTerms(section.heading, queryTerms),
+    highlightedSnippet: highlightTerms(section.snippet, queryTerms),
+  };
+}
+
+/**
+ * Search an already loaded index for articles. Each result carries its
+ * best matching sections; scores follow Fuse's convention (lower is better).
+ */
+export function searchLoadedIndex(index: PrebuiltSearchIndex, options: SearchOptions): ClientSearchResult[] {
+  const queryTerms = uniqueTerms(options.query);
+
+  const matches: DocumentMatch[] = queryTerms.length > 0
+    ? matchDocuments(index, matchSections(index, queryTerms), queryTerms.length)
+    : index.documents.map((_, doc) => ({
+        doc,
+        score: 0,
+        sections: [{ section: index.sections.findIndex(section => section.doc === doc), score: 0, matchedTerms: new Set<number>() }],
+      }));
+
+  const results = matches
+    .filter(match => matchesFilters(index.documents[match.doc], options.filters))
+    .map(match => ({
+      match,
+      document: index.documents[match.doc],
+      score: queryTerms.length > 0 ? toResultScore(match.score) : 0,
+    }));
+
+  const direction = options.sortOrder === 'desc' ? -1 : 1;
+  results.sort((a, b) => {
+    switch (options.sortBy) {
+      case 'title':
+        return direction * a.document.title.localeCompare(b.document.title);
+      case 'readingTime':
+        return direction * (a.document.readingTime - b.document.readingTime);
+      case 'relevance':
+      default:
+        return direction * (a.score - b.score);
+    }
+  });
+
+  const limited = options.limit ? results.slice(0, options.limit) : results;
+
+  return limited.map(({ match, document, score }) => {
+    const snippet = index.sections[match.sections[0].section]?.snippet ?? '';
+    const highlightedTitle = highlightTerms(document.title, queryTerms);
+    const highlightedContent = highlightTerms(snippet, queryTerms);
+
+    return {
+      item: {
+        slug: document.slug,
+        title: document.title,
+        section: document.section,
+        difficulty: document.difficulty,
+        content: snippet,
+      },
+      score,
+      highlightedTitle,
+      highlightedContent,
+      matchHighlights: Array.from(
+        new Set(
+          [...highlightedTitle, ...highlightedContent]
+            .filter(part => part.matches && part.text.length >= 3)
+            .map(part => part.text)
+        )
+      ),
+      sections: match.sections
+        .filter(section => index.sections[section.section].anchor)
+        .slice(0, MAX_SECTIONS_PER_ARTICLE)
+        .map(section => toSectionResult(index, section, queryTerms, queryTerms.length)),
+    };
+  });
+}
+
+/**
+ * Search an already loaded index for "Article › Section" hits across all
+ * articles, best first. Filters apply to the parent article; `sortBy` is
+ * ignored since section hits are always ranked by relevance.
+ */
+export function searchLoadedSections(index: PrebuiltSearchIndex, options: SearchOptions): SectionSearchResult[] {
+  const queryTerms = uniqueTerms(options.query);
+  if (queryTerms.length === 0) return [];
+
+  const results = matchSections(index, queryTerms)
+    .filter(match => {
+      const section = index.sections[match.section];
+      return section.anchor && matchesFilters(index.documents[section.doc], options.filters);
+    })
+    .map(match => toSectionResult(index, match, queryTerms, queryTerms.length))
+    .sort((a, b) => a.score - b.score);
+
+  return options.limit ? results.slice(0, options.limit) : results;
+}
+
+/**
+ * Load the prebuilt index if needed and search it.
+ */
+export async function searchArticlesClient(options: SearchOptions): Promise<ClientSearchResult[]> {
+  return searchLoadedIndex(await loadSearchIndex(), options);
+}
+
+/**
+ * Load the prebuilt index if needed and return "Article › Section" hits.
+ */
+export async function searchSectionsClient(options: SearchOptions): Promise<SectionSearchResult[]> {
+  return searchLoadedSections(await loadSearchIndex(), options);
+}
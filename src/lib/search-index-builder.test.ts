@@ -0,0 +1,111 @@
+/**
+ * Tests for search-index-builder.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import rehypeSlug from 'rehype-slug';
+import remarkGfm from 'remark-gfm';
+import { getArticleBody } from '@/lib/markdown-sections';
+import { buildSearchIndex, toPlainText, SEARCH_INDEX_VERSION } from '@/lib/search-index-builder';
+import type { WikiArticle } from '@/types';
+
+const articles: WikiArticle[] = [
+  {
+    slug: 'intro',
+    title: 'مقدمة في البرمجة',
+    section: 'المقدمة',
+    difficulty: 'beginner',
+    content: 'نص تمهيدي عن **البرمجة**.\n\n## تثبيت الأدوات\n\nثبّت Node.js ثم شغّل:\n\n```bash\nnpm install\n```\n\n### React Hooks\n\nاستخدم hooks مع React.',
+  },
+  {
+    slug: 'git',
+    title: 'ما هو Git؟',
+    section: 'الأدوات',
+    content: '## الأوامر الأساسية\n\nاستخدم [git commit](https://git-scm.com) لحفظ التغييرات.',
+  },
+];
+
+describe('toPlainText', () => {
+  it('should strip code fences, links, images and formatting', () => {
+    const text = toPlainText('## عنوان\n\n![صورة](a.png) **غامق** و [رابط](https://x.y)\n\n```js\nconst a = 1;\n```\n- عنصر');
+    expect(text).toBe('عنوان غامق و رابط عنصر');
+  });
+});
+
+describe('buildSearchIndex', () => {
+  const index = buildSearchIndex(articles);
+
+  it('should describe each article without its body', () => {
+    expect(index.version).toBe(SEARCH_INDEX_VERSION);
+    expect(index.documents).toHaveLength(2);
+    expect(index.documents[0]).toMatchObject({ slug: 'intro', difficulty: 'beginner', hasCode: true });
+    expect(index.documents[1].hasCode).toBe(false);
+    expect(JSON.stringify(index.documents)).not.toContain('نص تمهيدي');
+  });
+
+  it('should split articles into sections with rehype-slug anchors', () => {
+    const intro = index.sections.filter((s) => s.doc === 0);
+    expect(intro.map((s) => s.anchor)).toEqual(['', 'تثبيت-الأدوات', 'react-hooks']);
+    expect(intro[1].snippet).toBe('ثبّت Node.js ثم شغّل:');
+
+    // Articles that start with a heading still get an article-level section
+    const git = index.sections.filter((s) => s.doc === 1);
+    expect(git.map((s) => s.anchor)).toEqual(['', 'الأوامر-الأساسية']);
+    expect(git[1].heading).toBe('الأوامر الأساسية');
+  });
+
+  it('should give headings the ids rehype-slug renders on the article page', () => {
+    const content = [
+      '# عنوان المقال',
+      '## 1. ابدأ بالسياق',
+      '## Setup',
+      '### Options',
+      '## Setup',
+      '#### Setup',
+      '## Step `npm i` & **more** [docs](https://x.dev)',
+      '```ts',
+      '## not a heading',
+      '   ```ts',
+      '## still code',
+      '```',
+      '## Setup ##',
+    ].join('\n\n');
+
+    const html = renderToStaticMarkup(
+      createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], rehypePlugins: [rehypeSlug] }, getArticleBody(content))
+    );
+    const renderedIds = Array.from(html.matchAll(/<h([1-6]) id="([^"]*)"/g))
+      .filter(([, level]) => Number(level) <= 3)
+      .map(([, , id]) => id);
+
+    const built = buildSearchIndex([{ slug: 'anchors', title: 'Anchors', section: 'Test', content }]);
+    const anchors = built.sections.map((section) => section.anchor).filter(Boolean);
+
+    expect(renderedIds).toEqual(['1-ابدأ-بالسياق', 'setup', 'options', 'setup-1', 'step-npm-i--more-docs', 'setup-3']);
+    expect(anchors).toEqual(renderedIds);
+    expect(built.sections[1].heading).toBe('1. ابدأ بالسياق');
+  });
+
+  it('should index normalized, stemmed terms with field weights', () => {
+    const postings = index.terms['برمج'];
+    const sections = postings.filter((_, i) => i % 2 === 0);
+    const titleSection = index.sections.findIndex((s) => s.doc === 0);
+
+    expect(sections).toContain(titleSection);
+    expect(postings[postings.indexOf(titleSection) + 1]).toBeGreaterThan(10);
+    expect(index.terms['hook']).toBeDefined();
+    expect(index.terms['npm']).toBeDefined();
+  });
+
+  it('should fold H4 and deeper headings into their parent section', () => {
+    const built = buildSearchIndex([
+      { ...articles[1], content: '## Setup\n\nfirst\n\n#### Windows\n\nchoco install git' },
+    ]);
+
+    expect(built.sections.map((s) => s.anchor)).toEqual(['', 'setup']);
+    expect(built.terms['choco']).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Search Index Builder
+ *
+ * Precomputes a compact inverted index over every article at build time
+ * (see `src/app/search-index.json/route.ts`). Articles are split at their
+ * headings so results can deep-link to `/wiki/<slug>#<heading-id>`, with
+ * the ids rehype-slug gives those headings on the article page; terms
+ * go through the same normalizer as queries (see text-normalizer).
+ *
+ * @module search-index-builder
+ */
+
+import { calculateReadingTime } from "@/lib/article-utils";
+import {
+  getArticleBody,
+  getHeadingAnchors,
+  parseMarkdownWithHeadings,
+  toHeadingText,
+  toPlainText,
+} from "@/lib/markdown-sections";
+import { tokenize } from "@/lib/text-normalizer";
+import type { PrebuiltSearchIndex, SearchIndexSection, WikiArticle } from "@/types";
+
+export { toPlainText };
+
+export const SEARCH_INDEX_VERSION = 1;
+
+const SNIPPET_LENGTH = 160;
+
+// Deeper headings are folded into their H2/H3 parent section
+const MAX_ANCHOR_LEVEL = 3;
+
+// How much one occurrence of a term adds to a section's weight
+const FIELD_WEIGHTS = {
+  title: 10,
+  heading: 5,
+  section: 2,
+  body: 1,
+};
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}...`;
+}
+
+/**
+ * Build the inverted index for `articles`.
+ */
+export function buildSearchIndex(articles: WikiArticle[]): PrebuiltSearchIndex {
+  const sections: SearchIndexSection[] = [];
+  const postings = new Map<string, Map<number, number>>();
+
+  const addTerms = (text: string, sectionIndex: number, weight: number) => {
+    for (const { term } of tokenize(text)) {
+      const termPostings = postings.get(term) ?? new Map<number, number>();
+      termPostings.set(sectionIndex, (termPostings.get(sectionIndex) ?? 0) + weight);
+      postings.set(term, termPostings);
+    }
+  };
+
+  const documents = articles.map((article, doc) => {
+    const parsed = parseMarkdownWithHeadings(getArticleBody(article.content));
+    const anchors = getHeadingAnchors(parsed);
+    const firstSection = sections.length;
+
+    // Article-level fields are indexed on the first section, so make sure
+    // there is one even when the article starts with a heading.
+    if (parsed[0]?.type !== "content") {
+      sections.push({ doc, anchor: "", heading: "", level: 0, snippet: truncate(article.description ?? "", SNIPPET_LENGTH) });
+    }
+
+    parsed.forEach((section, sectionIndex) => {
+      const isHeading = section.type === "heading";
+
+      if (isHeading && section.level > MAX_ANCHOR_LEVEL && sections.length > firstSection) {
+        addTerms(section.text, sections.length - 1, FIELD_WEIGHTS.body);
+        addTerms(section.content ?? "", sections.length - 1, FIELD_WEIGHTS.body);
+        return;
+      }
+
+      const index = sections.length;
+      sections.push({
+        doc,
+        anchor: anchors[sectionIndex],
+        heading: isHeading ? toHeadingText(section.text) : "",
+        level: section.level,
+        snippet: truncate(toPlainText(section.content ?? ""), SNIPPET_LENGTH),
+      });
+
+      if (isHeading) {
+        addTerms(section.text, index, FIELD_WEIGHTS.heading);
+      }
+      addTerms(section.content ?? "", index, FIELD_WEIGHTS.body);
+    });
+
+    addTerms(article.title, firstSection, FIELD_WEIGHTS.title);
+    addTerms(article.section, firstSection, FIELD_WEIGHTS.section);
+    if (article.description) {
+      addTerms(article.description, firstSection, FIELD_WEIGHTS.body);
+    }
+
+    return {
+      slug: article.slug,
+      title: article.title,
+      section: article.section,
+      difficulty: article.difficulty,
+      readingTime: calculateReadingTime(article.content),
+      hasCode: Boolean(article.codeBlocks?.length) || /```|~~~/.test(article.content),
+    };
+  });
+
+  const terms: Record<string, number[]> = {};
+  for (const term of Array.from(postings.keys()).sort()) {
+    terms[term] = Array.from(postings.get(term)!).flat();
+  }
+
+  return { version: SEARCH_INDEX_VERSION, documents, sections, terms };
+}
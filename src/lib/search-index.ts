@@ -5,6 +5,7 @@
  *
  * Basic Search:
  *   - Simple fuzzy search across title, content, and section
+ *   - Fields and queries are normalized and stemmed (see text-normalizer)
  *   - Use `searchArticles(query)` for basic functionality
  *
  * Enhanced Search (recommended):
@@ -18,7 +19,9 @@
  */
 
 import { allArticles } from '@/lib/article-utils';
+import { analyzeText } from '@/lib/text-normalizer';
 import Fuse from 'fuse.js';
+import type { WikiArticle } from '@/types';
 
 // ============================================
 // Basic Search (Backward Compatible)
@@ -34,6 +37,10 @@ const options = {
   includeScore: true,
   includeMatches: true,
   minMatchCharLength: 3,
+  getFn: (article: WikiArticle, path: string | string[]) => {
+    const value = Fuse.config.getFn(article, path);
+    return typeof value === 'string' ? analyzeText(value).text : value;
+  },
 };
 
 export const searchIndex = new Fuse(allArticles, options);
@@ -52,7 +59,7 @@ export const searchIndex = new Fuse(allArticles, options);
  */
 export const searchArticles = (query: string) => {
   if (!query) return [];
-  return searchIndex.search(query);
+  return searchIndex.search(analyzeText(query).text);
 };
 
 export type SearchResult = ReturnType<typeof searchArticles>[number];
@@ -63,8 +70,7 @@ export type SearchResult = ReturnType<typeof searchArticles>[number];
 
 // Re-export enhanced search functionality from the dedicated module
 export {
-  searchArticles as searchArticlesBasic,
-  searchArticlesEnhanced,
+  searchArticles as searchArticlesEnhanced,
   getAvailableSections,
   getReadingTimeRange,
   type SearchFilters,
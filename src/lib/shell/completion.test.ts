@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { completeLine, editDistance, suggestCommands } from './completion';
+import type { CommandMetadata } from './manual';
+import { VirtualFileSystem } from './virtual-fs';
+
+const commands: CommandMetadata[] = [
+  { command: 'claude ask', description: 'Ask', category: 'basic' },
+  { command: 'claude analyze', description: 'Analyze', category: 'basic' },
+  { command: 'claude config set', description: 'Configure', category: 'advanced' },
+  {
+    command: 'claude refactor',
+    description: 'Refactor',
+    category: 'intermediate',
+    flags: [
+      { flag: '--to-typescript', description: 'Convert to TypeScript' },
+      { flag: '--dry-run', description: 'Preview' },
+    ],
+  },
+];
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and swaps', () => {
+    expect(editDistance('grep', 'grep')).toBe(0);
+    expect(editDistance('cat', 'cats')).toBe(1);
+    expect(editDistance('mkdir', 'mkdr')).toBe(1);
+    expect(editDistance('sl', 'ls')).toBe(1);
+    expect(editDistance('', 'pwd')).toBe(3);
+  });
+});
+
+describe('suggestCommands', () => {
+  const names = commands.map(cmd => cmd.command);
+
+  it('suggests close commands, ignoring arguments', () => {
+    expect(suggestCommands('claude anlyze src/', names)).toEqual(['claude analyze']);
+    expect(suggestCommands('sl', ['cd', 'ls', 'pwd'])).toEqual(['ls']);
+  });
+
+  it('suggests commands the input is a prefix of', () => {
+    expect(suggestCommands('claude a', names)).toEqual(['claude ask', 'claude analyze']);
+  });
+
+  it('returns nothing for unrelated input', () => {
+    expect(suggestCommands('frobnicate', names)).toEqual([]);
+    expect(suggestCommands('  ', names)).toEqual([]);
+  });
+});
+
+describe('completeLine', () => {
+  const fs = VirtualFileSystem.fromFixture({
+    name: 'demo',
+    files: { 'src/index.ts': '', 'src/internal/a.ts': '', 'README.md': '', '.env': '' },
+  });
+
+  it('completes commands and subcommands one word at a time', () => {
+    expect(completeLine('cl', commands)).toEqual({ line: 'claude ', options: [] });
+    expect(completeLine('claude con', commands)).toEqual({ line: 'claude config ', options: [] });
+    expect(completeLine('claude config ', commands)).toEqual({ line: 'claude config set ', options: [] });
+  });
+
+  it('extends to the common prefix and lists ambiguous matches', () => {
+    expect(completeLine('claude a', commands)).toEqual({ line: 'claude a', options: ['ask', 'analyze'] });
+    expect(completeLine('claude an', commands).line).toBe('claude analyze ');
+  });
+
+  it('completes flags of the matched command', () => {
+    expect(completeLine('claude refactor src --to', commands).line).toBe('claude refactor src --to-typescript ');
+    expect(completeLine('claude refactor -', commands).options).toEqual(['--to-typescript', '--dry-run']);
+  });
+
+  it('completes paths in the virtual filesystem', () => {
+    expect(completeLine('claude analyze sr', commands, fs).line).toBe('claude analyze src/');
+    expect(completeLine('claude analyze src/in', commands, fs)).toEqual({
+      line: 'claude analyze src/in',
+      options: ['src/index.ts', 'src/internal/'],
+    });
+    expect(completeLine('claude analyze ', commands, fs).options).toEqual(['README.md', 'src/']);
+    expect(completeLine('claude analyze .e', commands, fs).line).toBe('claude analyze .env ');
+  });
+
+  it('leaves input it cannot complete unchanged', () => {
+    expect(completeLine('git st', commands, fs)).toEqual({ line: 'git st', options: [] });
+    expect(completeLine('claude analyze missing/', commands, fs)).toEqual({
+      line: 'claude analyze missing/',
+      options: [],
+    });
+  });
+});
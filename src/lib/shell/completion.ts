@@ -0,0 +1,137 @@
+/**
+ * Command Completion
+ *
+ * Tab completion and "did you mean" suggestions for the CLI playgrounds.
+ * Commands are described by their metadata (see `CommandMetadata`), so the
+ * same list drives completion, suggestions, man pages and the quick
+ * reference. Multi-word commands such as `claude config set` complete one
+ * word at a time, which is how subcommands are offered.
+ *
+ * @example
+ * ```ts
+ * completeLine('claude ana', commands, fs); // { line: 'claude analyze ', options: [] }
+ * suggestCommands('claude anlyze', ['claude analyze', 'claude ask']); // ['claude analyze']
+ * ```
+ *
+ * @module shell-completion
+ */
+
+import type { CommandMetadata } from './manual';
+import type { VirtualFileSystem } from './virtual-fs';
+
+export interface Completion {
+  /** The input with the word being typed completed as far as it is unambiguous. */
+  line: string;
+  /** Every candidate when more than one matches, to show below the input. */
+  options: string[];
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of two adjacent characters each cost one, so `sl` is one edit
+ * away from `ls`.
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * Commands the input probably meant, closest first. Only as many leading
+ * words of the input as the command has are compared, so arguments do not
+ * count against it; commands the input is a prefix of always qualify.
+ */
+export function suggestCommands(input: string, commands: string[], limit = 3): string[] {
+  const words = input.trim().toLowerCase().split(/\s+/);
+  const typed = words.join(' ');
+  if (!typed) return [];
+
+  return commands
+    .map((command, index) => {
+      const head = words.slice(0, command.split(' ').length).join(' ');
+      const distance = command.toLowerCase().startsWith(typed) ? 0 : editDistance(head, command.toLowerCase());
+      return { command, index, distance };
+    })
+    .filter(({ command, distance }) => distance <= Math.max(1, Math.floor(command.length / 4)))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)
+    .slice(0, limit)
+    .map(({ command }) => command);
+}
+
+function commonPrefix(values: string[]): string {
+  return values.reduce((prefix, value) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length] === value[length]) length++;
+    return prefix.slice(0, length);
+  });
+}
+
+function completePath(fs: VirtualFileSystem, partial: string): string[] {
+  const slash = partial.lastIndexOf('/');
+  const directory = partial.slice(0, slash + 1);
+  const base = partial.slice(slash + 1);
+
+  let entries;
+  try {
+    entries = fs.isDirectory(directory || '.') ? fs.readdir(directory || '.') : [];
+  } catch {
+    return [];
+  }
+
+  return entries
+    .filter(node => node.name.startsWith(base) && (base.startsWith('.') || !node.name.startsWith('.')))
+    .map(node => `${directory}${node.name}${node.type === 'directory' ? '/' : ''}`);
+}
+
+/**
+ * Complete the last word of `input`: the next word of a command while
+ * one is being typed, a flag of the matched command after `-`, and a path
+ * in the virtual filesystem otherwise.
+ */
+export function completeLine(input: string, commands: CommandMetadata[], fs?: VirtualFileSystem): Completion {
+  const start = input.search(/\S+$/);
+  const before = start === -1 ? input : input.slice(0, start);
+  const current = start === -1 ? '' : input.slice(start);
+  const typed = before.trim() ? before.trim().split(/\s+/) : [];
+
+  // Longest command whose words have all been typed
+  const matched = commands
+    .filter(cmd => {
+      const words = cmd.command.split(' ');
+      return words.length <= typed.length && words.every((word, i) => word === typed[i]);
+    })
+    .sort((a, b) => b.command.split(' ').length - a.command.split(' ').length)[0];
+
+  let candidates: string[];
+  if (current.startsWith('-') && matched) {
+    candidates = (matched.flags ?? []).map(({ flag }) => flag).filter(flag => flag.startsWith(current));
+  } else {
+    const nextWords = commands.flatMap(cmd => {
+      const words = cmd.command.split(' ');
+      const continues = words.length > typed.length && typed.every((word, i) => word === words[i]);
+      return continues && words[typed.length].startsWith(current) ? [words[typed.length]] : [];
+    });
+    candidates = Array.from(new Set(nextWords));
+    if (candidates.length === 0 && matched && fs) candidates = completePath(fs, current);
+  }
+
+  if (candidates.length === 0) return { line: input, options: [] };
+  if (candidates.length === 1) {
+    const [only] = candidates;
+    return { line: before + only + (only.endsWith('/') ? '' : ' '), options: [] };
+  }
+  return { line: before + commonPrefix(candidates), options: candidates };
+}
@@ -0,0 +1,112 @@
+import { ProjectFixture } from './virtual-fs';
+
+/**
+ * The small Next.js project every playground starts in unless it is given
+ * its own fixture.
+ */
+export const DEFAULT_PROJECT_FIXTURE: ProjectFixture = {
+  name: 'vibe-wiki',
+  files: {
+    'README.md': `# Vibe Wiki
+
+An interactive wiki for AI coding education.
+
+## Getting Started
+
+1. Install dependencies: npm install
+2. Run dev server: npm run dev
+3. Open http://localhost:3000
+`,
+    'package.json': `{
+  "name": "vibe-wiki",
+  "version": "0.1.0",
+  "private": true,
+  "scripts": {
+    "dev": "next dev",
+    "build": "next build",
+    "test": "vitest"
+  },
+  "dependencies": {
+    "next": "16.1.3",
+    "react": "19.2.3",
+    "react-dom": "19.2.3"
+  },
+  "devDependencies": {
+    "tailwindcss": "^4",
+    "typescript": "^5",
+    "vitest": "^4.0.17"
+  }
+}
+`,
+    'tsconfig.json': `{
+  "compilerOptions": {
+    "target": "ES2017",
+    "strict": true,
+    "jsx": "react-jsx",
+    "paths": { "@/*": ["./src/*"] }
+  }
+}
+`,
+    'next.config.ts': `import type { NextConfig } from "next";
+
+const nextConfig: NextConfig = {};
+
+export default nextConfig;
+`,
+    '.gitignore': `node_modules/
+.next/
+`,
+    'src/app/layout.tsx': `import "./globals.css";
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`,
+    'src/app/page.tsx': `import { Counter } from "@/components/Counter";
+
+export default function Home() {
+  return (
+    <main>
+      <h1>Vibe Wiki</h1>
+      <Counter />
+    </main>
+  );
+}
+`,
+    'src/app/globals.css': `@import "tailwindcss";
+`,
+    'src/components/Counter.tsx': `"use client";
+
+import { useState } from "react";
+
+export function Counter() {
+  const [count, setCount] = useState(0);
+  // TODO: add a reset button
+  return <button onClick={() => setCount(count + 1)}>Clicked {count} times</button>;
+}
+`,
+    'src/lib/utils.ts': `export function slugify(text: string): string {
+  // TODO: handle non-Latin characters
+  return text.toLowerCase().trim().replace(/\\s+/g, "-");
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+`,
+    'tests/utils.test.ts': `import { describe, expect, it } from "vitest";
+import { slugify } from "../src/lib/utils";
+
+describe("slugify", () => {
+  it("joins words with dashes", () => {
+    expect(slugify("Hello World")).toBe("hello-world");
+  });
+});
+`,
+    'public/': '',
+  },
+};
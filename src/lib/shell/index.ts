@@ -0,0 +1,7 @@
+export * from './virtual-fs';
+export * from './parser';
+export * from './interpreter';
+export * from './fixtures';
+export * from './project-analysis';
+export * from './completion';
+export * from './manual';
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Shell } from './interpreter';
+import { VirtualFileSystem } from './virtual-fs';
+import { DEFAULT_PROJECT_FIXTURE } from './fixtures';
+import { summarizeProject } from './project-analysis';
+
+describe('Shell', () => {
+  let fs: VirtualFileSystem;
+  let shell: Shell;
+
+  const run = (input: string) => shell.run(input).output;
+
+  beforeEach(() => {
+    fs = VirtualFileSystem.fromFixture(
+      {
+        name: 'demo',
+        files: {
+          'README.md': '# Demo\n\nTODO: write docs\n',
+          'notes.txt': 'one\ntwo\nthree\nfour\n',
+          '.env': 'SECRET=1\n',
+          'src/index.ts': 'export const a = 1;\n// TODO: more\n',
+          'src/util.ts': 'export const b = 2;\n',
+        },
+      },
+      { now: () => new Date(2026, 0, 5, 9, 30) }
+    );
+    shell = new Shell(fs);
+  });
+
+  describe('navigation', () => {
+    it('prints and changes the working directory', () => {
+      expect(run('pwd')).toBe('/home/user/demo');
+      expect(run('cd src && pwd')).toBe('/home/user/demo/src');
+      expect(run('cd')).toBe('');
+      expect(run('pwd')).toBe('/home/user');
+      expect(run('cd -')).toBe('/home/user/demo/src');
+      expect(shell.env.PWD).toBe('/home/user/demo/src');
+    });
+
+    it('reports bad directories', () => {
+      const result = shell.run('cd missing');
+      expect(result.output).toBe('cd: missing: No such file or directory');
+      expect(result.exitCode).toBe(1);
+    });
+  });
+
+  describe('ls', () => {
+    it('lists visible entries with directories marked', () => {
+      expect(run('ls')).toBe('README.md  notes.txt  src/');
+      expect(run('ls src')).toBe('index.ts  util.ts');
+    });
+
+    it('prints one entry per line into pipes, files and with -1', () => {
+      expect(run('ls | grep src')).toBe('src/');
+      expect(run('ls | wc -l')).toBe('3');
+      run('ls > files.txt');
+      expect(fs.readFile('files.txt')).toBe('README.md\nfiles.txt\nnotes.txt\nsrc/\n');
+      expect(run('ls -1 src')).toBe('index.ts\nutil.ts');
+    });
+
+    it('shows hidden entries and long format with -la', () => {
+      const lines = run('ls -la').split('\n');
+      expect(lines[0]).toMatch(/^total \d+$/);
+      expect(lines[1]).toMatch(/^drwxr-xr-x +\d+ user user +4096 Jan  5 09:30 \.\/$/);
+      expect(lines.some(line => line.endsWith(' .env'))).toBe(true);
+      expect(lines.find(line => line.endsWith(' README.md'))).toMatch(/^-rw-r--r-- +1 user user +\d+ /);
+    });
+
+    it('reports missing paths', () => {
+      expect(shell.run('ls nope')).toEqual({
+        output: "ls: cannot access 'nope': No such file or directory",
+        exitCode: 2,
+      });
+    });
+  });
+
+  describe('files', () => {
+    it('creates, moves and removes files and directories', () => {
+      run('mkdir -p docs/guides && touch docs/guides/intro.md');
+      expect(run('ls docs/guides')).toBe('intro.md');
+
+      run('mv docs/guides/intro.md docs/start.md');
+      expect(run('ls docs')).toBe('guides/  start.md');
+
+      expect(run('rm docs')).toBe("rm: cannot remove 'docs': Is a directory");
+      run('rm -r docs');
+      expect(fs.exists('docs')).toBe(false);
+    });
+
+    it('reports errors in the coreutils format', () => {
+      expect(run('cat missing.txt')).toBe('cat: missing.txt: No such file or directory');
+      expect(run('mkdir src')).toBe("mkdir: cannot create directory 'src': File exists");
+      expect(run('mkdir')).toBe('mkdir: missing operand');
+      expect(run('rm -f missing.txt')).toBe('');
+    });
+  });
+
+  describe('redirects and pipes', () => {
+    it('writes and appends output to files', () => {
+      run('echo first > out.txt');
+      run('echo second >> out.txt');
+      expect(fs.readFile('out.txt')).toBe('first\nsecond\n');
+      expect(run('cat out.txt')).toBe('first\nsecond');
+    });
+
+    it('reads input redirects', () => {
+      expect(run('wc -l < notes.txt')).toBe('4');
+    });
+
+    it('pipes output between commands', () => {
+      expect(run('cat notes.txt | grep o | tail -n 2')).toBe('two\nfour');
+      expect(run('cat notes.txt | head -2')).toBe('one\ntwo');
+    });
+
+    it('shows errors even when output is piped', () => {
+      expect(run('cat missing.txt | wc -l')).toBe('cat: missing.txt: No such file or directory\n0');
+    });
+  });
+
+  describe('lists', () => {
+    it('runs && only after success and || only after failure', () => {
+      expect(run('cat missing.txt && echo never')).toBe('cat: missing.txt: No such file or directory');
+      expect(run('cat missing.txt || echo fallback')).toContain('fallback');
+      expect(run('echo a; echo b')).toBe('a\nb');
+    });
+
+    it('exposes the last exit status as $?', () => {
+      run('grep nothing notes.txt');
+      expect(run('echo $?')).toBe('1');
+    });
+  });
+
+  describe('variables and quoting', () => {
+    it('expands variables outside single quotes', () => {
+      run('export NAME=world');
+      expect(run('echo "hello $NAME" \'$NAME\' ${NAME}!')).toBe('hello world $NAME world!');
+      expect(run('echo $HOME')).toBe('/home/user');
+    });
+
+    it('sets shell variables with NAME=value', () => {
+      run('GREETING="hi there"');
+      expect(run('echo $GREETING')).toBe('hi there');
+    });
+
+    it('drops unquoted words that expand to nothing', () => {
+      expect(run('echo a $UNSET b')).toBe('a b');
+      expect(run('echo "$UNSET" | wc -c')).toBe('1');
+    });
+
+    it('expands ~ and globs', () => {
+      expect(run('echo ~')).toBe('/home/user');
+      expect(run('echo src/*.ts')).toBe('src/index.ts src/util.ts');
+      expect(run('echo *.md')).toBe('README.md');
+      expect(run('echo "*.md" *.none')).toBe('*.md *.none');
+    });
+  });
+
+  describe('grep', () => {
+    it('searches files and stdin', () => {
+      expect(run('grep -n TODO README.md')).toBe('3:TODO: write docs');
+      expect(run('grep -i todo src/index.ts')).toBe('// TODO: more');
+      expect(run('grep -c o notes.txt')).toBe('3');
+      expect(run('grep -v o notes.txt')).toBe('three');
+    });
+
+    it('searches directories recursively', () => {
+      expect(run('grep -rn TODO .')).toBe('README.md:3:TODO: write docs\nsrc/index.ts:2:// TODO: more');
+      expect(run('grep -rl export src')).toBe('src/index.ts\nsrc/util.ts');
+    });
+
+    it('treats special characters in the pattern as a regular expression', () => {
+      expect(run('grep "^t" notes.txt')).toBe('two\nthree');
+      expect(run('grep "(" notes.txt')).toBe('grep: Invalid regular expression: (');
+    });
+  });
+
+  it('lists its commands in help', () => {
+    const help = run('help');
+    expect(help.split('\n')[0]).toBe('Available commands:');
+    expect(help).toMatch(/ {2}grep \[-inrvcl\] pattern \[file\]\.\.\. +Search for lines matching a pattern/);
+  });
+
+  it('reports unknown commands and syntax errors', () => {
+    expect(shell.run('frobnicate')).toEqual({ output: 'bash: frobnicate: command not found', exitCode: 127 });
+    expect(shell.run('ls |').exitCode).toBe(2);
+  });
+
+  it('suggests close command names', () => {
+    expect(shell.run('sl')).toEqual({ output: 'bash: sl: command not found\nDid you mean: ls', exitCode: 127 });
+  });
+});
+
+describe('summarizeProject', () => {
+  it('reflects the files in the tree', () => {
+    const fs = VirtualFileSystem.fromFixture(DEFAULT_PROJECT_FIXTURE);
+    const before = summarizeProject(fs);
+
+    expect(before.fileCount).toBe(fs.walk().length);
+    expect(before.framework).toBe('Next.js 16');
+    expect(before.styling).toBe('Tailwind CSS 4');
+    expect(before.languages[0].language).toBe('TypeScript');
+    expect(before.entries.find(entry => entry.name === 'src')).toMatchObject({ type: 'directory', fileCount: 5 });
+
+    new Shell(fs).run('touch src/lib/new.ts && rm -r tests');
+    const after = summarizeProject(fs);
+    expect(after.fileCount).toBe(before.fileCount);
+    expect(after.typeScriptFileCount).toBe(before.typeScriptFileCount);
+    expect(after.entries.some(entry => entry.name === 'tests')).toBe(false);
+  });
+});
@@ -0,0 +1,694 @@
+/**
+ * Shell Interpreter
+ *
+ * Runs parsed command lines against a VirtualFileSystem. Commands are
+ * plain functions from arguments and stdin to stdout/stderr, so pipes and
+ * redirects work the same for every command. Standard error is written to
+ * the terminal as it happens; standard output of the last command in a
+ * pipeline follows it unless redirected.
+ *
+ * @example
+ * ```ts
+ * const shell = new Shell(VirtualFileSystem.fromFixture(DEFAULT_PROJECT_FIXTURE));
+ * shell.run('grep -rn TODO src | head -n 3').output;
+ * ```
+ *
+ * @module shell-interpreter
+ */
+
+import { suggestCommands } from './completion';
+import { parseCommandLine, Pipeline, SimpleCommand, Word } from './parser';
+import { FsNode, VirtualFileSystem } from './virtual-fs';
+
+export interface CommandContext {
+  args: string[];
+  stdin: string;
+  fs: VirtualFileSystem;
+  env: Record<string, string>;
+  /** False when stdout goes to a pipe or a file, as with `isatty(1)`. */
+  isTerminal: boolean;
+}
+
+export interface CommandOutput {
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+}
+
+export interface ShellCommand {
+  description: string;
+  usage: string;
+  run: (context: CommandContext) => CommandOutput;
+}
+
+export interface ShellResult {
+  output: string;
+  exitCode: number;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Split `-la`-style flags from operands. Everything after `--` is an
+ * operand. Returns the first unsupported flag, if any.
+ */
+function parseFlags(args: string[], allowed: string): { flags: Set<string>; operands: string[]; invalid?: string } {
+  const flags = new Set<string>();
+  const operands: string[] = [];
+  let onlyOperands = false;
+
+  for (const arg of args) {
+    if (onlyOperands || !arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+    } else if (arg === '--') {
+      onlyOperands = true;
+    } else {
+      for (const flag of arg.slice(1)) {
+        if (!allowed.includes(flag)) return { flags, operands, invalid: flag };
+        flags.add(flag);
+      }
+    }
+  }
+
+  return { flags, operands };
+}
+
+function invalidOption(command: string, flag: string): CommandOutput {
+  return { stderr: `${command}: invalid option -- '${flag}'\n`, exitCode: 2 };
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Read each operand (or stdin when there are none), collecting errors as
+ * `command: file: message` lines.
+ */
+function readInputs(
+  command: string,
+  operands: string[],
+  { fs, stdin }: CommandContext
+): { inputs: Array<{ name: string; content: string }>; stderr: string } {
+  if (operands.length === 0) {
+    return { inputs: [{ name: '(standard input)', content: stdin }], stderr: '' };
+  }
+
+  const inputs: Array<{ name: string; content: string }> = [];
+  let stderr = '';
+  for (const operand of operands) {
+    try {
+      inputs.push({ name: operand, content: operand === '-' ? stdin : fs.readFile(operand) });
+    } catch (error) {
+      stderr += `${command}: ${operand}: ${errorMessage(error)}\n`;
+    }
+  }
+  return { inputs, stderr };
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function formatTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${MONTHS[date.getMonth()]} ${String(date.getDate()).padStart(2, ' ')} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Directories are marked with a trailing `/`, as with `ls -F`
+function displayName(node: FsNode, name = node.name): string {
+  return node.type === 'directory' ? `${name}/` : name;
+}
+
+function nodeSize(node: FsNode): number {
+  return node.type === 'directory' ? 4096 : new TextEncoder().encode(node.content).length;
+}
+
+// Like GNU ls, names share a line only on the terminal; `-1`, pipes and
+// redirects get one per line
+function listEntries(entries: Array<{ name: string; node: FsNode }>, long: boolean, onePerLine: boolean): string {
+  if (entries.length === 0) return '';
+  if (!long) return `${entries.map(({ name, node }) => displayName(node, name)).join(onePerLine ? '\n' : '  ')}\n`;
+
+  const width = Math.max(...entries.map(({ node }) => String(nodeSize(node)).length));
+  const total = entries.reduce((sum, { node }) => sum + Math.ceil(nodeSize(node) / 1024) * 4, 0);
+  const lines = entries.map(({ name, node }) => {
+    const mode = node.type === 'directory' ? 'drwxr-xr-x' : '-rw-r--r--';
+    const links = node.type === 'directory' ? node.children.size + 2 : 1;
+    const size = String(nodeSize(node)).padStart(width, ' ');
+    return `${mode} ${String(links).padStart(2, ' ')} user user ${size} ${formatTime(node.modifiedAt)} ${displayName(node, name)}`;
+  });
+  return `total ${total}\n${lines.join('\n')}\n`;
+}
+
+function ls(context: CommandContext): CommandOutput {
+  const { flags, operands, invalid } = parseFlags(context.args, 'laA1');
+  if (invalid) return invalidOption('ls', invalid);
+
+  const { fs } = context;
+  const long = flags.has('l');
+  const onePerLine = flags.has('1') || !context.isTerminal;
+  const targets = operands.length > 0 ? operands : ['.'];
+  const files: Array<{ name: string; node: FsNode }> = [];
+  const directories: Array<{ name: string; node: FsNode }> = [];
+  let stderr = '';
+
+  for (const target of targets) {
+    const node = fs.stat(target);
+    if (!node) {
+      stderr += `ls: cannot access '${target}': No such file or directory\n`;
+    } else if (node.type === 'directory') {
+      directories.push({ name: target, node });
+    } else {
+      files.push({ name: target, node });
+    }
+  }
+
+  const sections: string[] = [];
+  if (files.length > 0) sections.push(listEntries(files, long, onePerLine));
+
+  for (const { name, node } of directories) {
+    let entries = fs.readdir(name).map(child => ({ name: child.name, node: child }));
+    if (!flags.has('a') && !flags.has('A')) {
+      entries = entries.filter(entry => !entry.name.startsWith('.'));
+    }
+    if (flags.has('a')) {
+      const parent = fs.stat(`${fs.resolve(name)}/..`) ?? node;
+      entries = [{ name: '.', node }, { name: '..', node: parent }, ...entries];
+    }
+    const listing = listEntries(entries, long, onePerLine);
+    sections.push(targets.length > 1 ? `${name}:\n${listing}` : listing);
+  }
+
+  return { stdout: sections.join('\n'), stderr, exitCode: stderr ? 2 : 0 };
+}
+
+function cd({ args, fs, env }: CommandContext): CommandOutput {
+  if (args.length > 1) return { stderr: 'cd: too many arguments\n', exitCode: 1 };
+
+  const target = args[0] === undefined ? env.HOME : args[0] === '-' ? env.OLDPWD : args[0];
+  if (!target) return { stderr: 'cd: OLDPWD not set\n', exitCode: 1 };
+
+  try {
+    const previous = fs.cwd;
+    fs.chdir(target);
+    env.OLDPWD = previous;
+    env.PWD = fs.cwd;
+    return { stdout: args[0] === '-' ? `${fs.cwd}\n` : '' };
+  } catch (error) {
+    return { stderr: `cd: ${target}: ${errorMessage(error)}\n`, exitCode: 1 };
+  }
+}
+
+function cat(context: CommandContext): CommandOutput {
+  const { flags, operands, invalid } = parseFlags(context.args, 'n');
+  if (invalid) return invalidOption('cat', invalid);
+
+  const { inputs, stderr } = readInputs('cat', operands, context);
+  let stdout = inputs.map(input => input.content).join('');
+  if (flags.has('n')) {
+    stdout = splitLines(stdout).map((line, i) => `${String(i + 1).padStart(6, ' ')}\t${line}\n`).join('');
+  }
+  return { stdout, stderr, exitCode: stderr ? 1 : 0 };
+}
+
+function echo({ args }: CommandContext): CommandOutput {
+  const noNewline = args[0] === '-n';
+  const text = (noNewline ? args.slice(1) : args).join(' ');
+  return { stdout: noNewline ? text : `${text}\n` };
+}
+
+function mkdir(context: CommandContext): CommandOutput {
+  const { flags, operands, invalid } = parseFlags(context.args, 'p');
+  if (invalid) return invalidOption('mkdir', invalid);
+  if (operands.length === 0) return { stderr: 'mkdir: missing operand\n', exitCode: 1 };
+
+  let stderr = '';
+  for (const operand of operands) {
+    try {
+      context.fs.mkdir(operand, { recursive: flags.has('p') });
+    } catch (error) {
+      stderr += `mkdir: cannot create directory '${operand}': ${errorMessage(error)}\n`;
+    }
+  }
+  return { stderr, exitCode: stderr ? 1 : 0 };
+}
+
+function touch({ args, fs }: CommandContext): CommandOutput {
+  if (args.length === 0) return { stderr: 'touch: missing file operand\n', exitCode: 1 };
+
+  let stderr = '';
+  for (const operand of args) {
+    try {
+      fs.touch(operand);
+    } catch (error) {
+      stderr += `touch: cannot touch '${operand}': ${errorMessage(error)}\n`;
+    }
+  }
+  return { stderr, exitCode: stderr ? 1 : 0 };
+}
+
+function rm(context: CommandContext): CommandOutput {
+  const { flags, operands, invalid } = parseFlags(context.args, 'rRf');
+  if (invalid) return invalidOption('rm', invalid);
+
+  const force = flags.has('f');
+  if (operands.length === 0) {
+    return force ? {} : { stderr: 'rm: missing operand\n', exitCode: 1 };
+  }
+
+  let stderr = '';
+  for (const operand of operands) {
+    if (force && !context.fs.exists(operand)) continue;
+    try {
+      context.fs.remove(operand, { recursive: flags.has('r') || flags.has('R') });
+    } catch (error) {
+      stderr += `rm: cannot remove '${operand}': ${errorMessage(error)}\n`;
+    }
+  }
+  return { stderr, exitCode: stderr ? 1 : 0 };
+}
+
+function mv({ args, fs }: CommandContext): CommandOutput {
+  if (args.length < 2) return { stderr: 'mv: missing destination file operand\n', exitCode: 1 };
+
+  const sources = args.slice(0, -1);
+  const destination = args[args.length - 1];
+  if (sources.length > 1 && !fs.isDirectory(destination)) {
+    return { stderr: `mv: target '${destination}' is not a directory\n`, exitCode: 1 };
+  }
+
+  let stderr = '';
+  for (const source of sources) {
+    try {
+      fs.move(source, destination);
+    } catch (error) {
+      stderr += `mv: cannot move '${source}' to '${destination}': ${errorMessage(error)}\n`;
+    }
+  }
+  return { stderr, exitCode: stderr ? 1 : 0 };
+}
+
+function grep(context: CommandContext): CommandOutput {
+  const { flags, operands, invalid } = parseFlags(context.args, 'inrvcl');
+  if (invalid) return invalidOption('grep', invalid);
+  if (operands.length === 0) return { stderr: 'Usage: grep [-inrvcl] PATTERN [FILE]...\n', exitCode: 2 };
+
+  const [pattern, ...paths] = operands;
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags.has('i') ? 'i' : '');
+  } catch {
+    return { stderr: `grep: Invalid regular expression: ${pattern}\n`, exitCode: 2 };
+  }
+
+  let stderr = '';
+  let inputs: Array<{ name: string; content: string }>;
+  if (flags.has('r')) {
+    inputs = [];
+    for (const path of paths.length > 0 ? paths : ['.']) {
+      try {
+        const prefix = path.replace(/\/+$/, '');
+        const base = context.fs.resolve(path);
+        for (const { path: filePath, file } of context.fs.walk(path)) {
+          const name = context.fs.isDirectory(path) ? `${prefix}${filePath.slice(base.length)}` : path;
+          inputs.push({ name: name.replace(/^\.\//, ''), content: file.content });
+        }
+      } catch (error) {
+        stderr += `grep: ${path}: ${errorMessage(error)}\n`;
+      }
+    }
+  } else {
+    ({ inputs, stderr } = readInputs('grep', paths, context));
+  }
+
+  const showNames = flags.has('r') || inputs.length > 1;
+  const out: string[] = [];
+  let matched = false;
+
+  for (const { name, content } of inputs) {
+    const prefix = showNames ? `${name}:` : '';
+    const lines = splitLines(content);
+    const hits = lines
+      .map((line, index) => ({ line, number: index + 1 }))
+      .filter(({ line }) => regex.test(line) !== flags.has('v'));
+
+    if (hits.length > 0) matched = true;
+    if (flags.has('l')) {
+      if (hits.length > 0) out.push(name);
+    } else if (flags.has('c')) {
+      out.push(`${prefix}${hits.length}`);
+    } else {
+      for (const { line, number } of hits) {
+        out.push(`${prefix}${flags.has('n') ? `${number}:` : ''}${line}`);
+      }
+    }
+  }
+
+  return { stdout: out.map(line => `${line}\n`).join(''), stderr, exitCode: stderr ? 2 : matched ? 0 : 1 };
+}
+
+/**
+ * `head`/`tail` share option parsing: `-n N`, `-nN` and `-N`.
+ */
+function headOrTail(command: 'head' | 'tail') {
+  return (context: CommandContext): CommandOutput => {
+    let count = 10;
+    const operands: string[] = [];
+
+    for (let i = 0; i < context.args.length; i++) {
+      const arg = context.args[i];
+      let value: string | undefined;
+      if (arg === '-n') {
+        value = context.args[++i];
+      } else if (arg.startsWith('-n')) {
+        value = arg.slice(2);
+      } else if (/^-\d+$/.test(arg)) {
+        value = arg.slice(1);
+      } else {
+        operands.push(arg);
+        continue;
+      }
+
+      if (value === undefined || !/^\d+$/.test(value)) {
+        return { stderr: `${command}: invalid number of lines: '${value ?? ''}'\n`, exitCode: 1 };
+      }
+      count = Number(value);
+    }
+
+    const { inputs, stderr } = readInputs(command, operands, context);
+    const stdout = inputs
+      .map(({ name, content }) => {
+        const lines = splitLines(content);
+        const selected = command === 'head' ? lines.slice(0, count) : lines.slice(Math.max(0, lines.length - count));
+        const body = selected.map(line => `${line}\n`).join('');
+        return inputs.length > 1 ? `==> ${name} <==\n${body}` : body;
+      })
+      .join(inputs.length > 1 ? '\n' : '');
+    return { stdout, stderr, exitCode: stderr ? 1 : 0 };
+  };
+}
+
+function wc(context: CommandContext): CommandOutput {
+  const { flags, operands, invalid } = parseFlags(context.args, 'lwc');
+  if (invalid) return invalidOption('wc', invalid);
+
+  const selected = flags.size > 0 ? flags : new Set(['l', 'w', 'c']);
+  const { inputs, stderr } = readInputs('wc', operands, context);
+  const rows = inputs.map(({ name, content }) => {
+    const counts: number[] = [];
+    if (selected.has('l')) counts.push((content.match(/\n/g) ?? []).length);
+    if (selected.has('w')) counts.push(content.split(/\s+/).filter(Boolean).length);
+    if (selected.has('c')) counts.push(new TextEncoder().encode(content).length);
+    return [counts.join(' '), operands.length > 0 ? name : ''].filter(Boolean).join(' ');
+  });
+  return { stdout: rows.map(row => `${row}\n`).join(''), stderr, exitCode: stderr ? 1 : 0 };
+}
+
+function env({ env: variables }: CommandContext): CommandOutput {
+  return {
+    stdout: Object.entries(variables)
+      .map(([name, value]) => `${name}=${value}\n`)
+      .join(''),
+  };
+}
+
+function exportCommand(context: CommandContext): CommandOutput {
+  const { args, env: variables } = context;
+  if (args.length === 0) return env(context);
+
+  let stderr = '';
+  for (const arg of args) {
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg : arg.slice(0, separator);
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      stderr += `export: \`${arg}': not a valid identifier\n`;
+    } else if (separator !== -1) {
+      variables[name] = arg.slice(separator + 1);
+    }
+  }
+  return { stderr, exitCode: stderr ? 1 : 0 };
+}
+
+export const BUILTIN_COMMANDS: Record<string, ShellCommand> = {
+  cd: { description: 'Change the working directory', usage: 'cd [dir]', run: cd },
+  pwd: { description: 'Print the working directory', usage: 'pwd', run: ({ fs }) => ({ stdout: `${fs.cwd}\n` }) },
+  ls: { description: 'List directory contents', usage: 'ls [-laA] [path]...', run: ls },
+  cat: { description: 'Print file contents', usage: 'cat [-n] [file]...', run: cat },
+  echo: { description: 'Print text', usage: 'echo [-n] [text]...', run: echo },
+  mkdir: { description: 'Create directories', usage: 'mkdir [-p] dir...', run: mkdir },
+  touch: { description: 'Create empty files', usage: 'touch file...', run: touch },
+  rm: { description: 'Remove files or directories', usage: 'rm [-rf] path...', run: rm },
+  mv: { description: 'Move or rename files', usage: 'mv source... dest', run: mv },
+  grep: { description: 'Search for lines matching a pattern', usage: 'grep [-inrvcl] pattern [file]...', run: grep },
+  head: { description: 'Print the first lines of input', usage: 'head [-n N] [file]...', run: headOrTail('head') },
+  tail: { description: 'Print the last lines of input', usage: 'tail [-n N] [file]...', run: headOrTail('tail') },
+  wc: { description: 'Count lines, words and bytes', usage: 'wc [-lwc] [file]...', run: wc },
+  env: { description: 'Print environment variables', usage: 'env', run: env },
+  export: { description: 'Set environment variables', usage: 'export NAME=value...', run: exportCommand },
+};
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+const VARIABLE = /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*)|(\?))/g;
+
+function escapeGlob(text: string): string {
+  return text.replace(/[\\*?[]/g, '\\$&');
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      source += (pattern[++i] ?? '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+const hasGlob = (pattern: string) => /(^|[^\\])[*?]/.test(pattern);
+const unescapeGlob = (pattern: string) => pattern.replace(/\\(.)/g, '$1');
+
+export class Shell {
+  readonly env: Record<string, string>;
+  private readonly commands: Record<string, ShellCommand>;
+  private lastExitCode = 0;
+
+  constructor(
+    readonly fs: VirtualFileSystem,
+    env: Record<string, string> = {},
+    commands: Record<string, ShellCommand> = BUILTIN_COMMANDS
+  ) {
+    this.env = { HOME: fs.home, USER: 'user', SHELL: '/bin/bash', PWD: fs.cwd, ...env };
+    this.commands = {
+      ...commands,
+      help: { description: 'Show available commands', usage: 'help', run: () => ({ stdout: this.helpText() }) },
+    };
+  }
+
+  private helpText(): string {
+    const width = Math.max(...this.commandNames.map(name => this.commands[name].usage.length));
+    const lines = this.commandNames.map(name => {
+      const { usage, description } = this.commands[name];
+      return `  ${usage.padEnd(width, ' ')}  ${description}`;
+    });
+    return `Available commands:\n${lines.join('\n')}\n`;
+  }
+
+  get commandNames(): string[] {
+    return Object.keys(this.commands).sort();
+  }
+
+  getCommand(name: string): ShellCommand | undefined {
+    return Object.prototype.hasOwnProperty.call(this.commands, name) ? this.commands[name] : undefined;
+  }
+
+  /**
+   * Run a full command line. Syntax errors are reported like bash does,
+   * with exit status 2.
+   */
+  run(input: string): ShellResult {
+    let list;
+    try {
+      list = parseCommandLine(input);
+    } catch (error) {
+      this.lastExitCode = 2;
+      return { output: `bash: ${errorMessage(error)}`, exitCode: 2 };
+    }
+
+    let output = '';
+    list.pipelines.forEach((pipeline, index) => {
+      const operator = list.operators[index - 1];
+      if (operator === '&&' && this.lastExitCode !== 0) return;
+      if (operator === '||' && this.lastExitCode === 0) return;
+      output += this.runPipeline(pipeline);
+    });
+
+    return { output: output.replace(/\n$/, ''), exitCode: this.lastExitCode };
+  }
+
+  private runPipeline(pipeline: Pipeline): string {
+    let terminal = '';
+    let stdin = '';
+
+    pipeline.commands.forEach((command, index) => {
+      const isLast = index === pipeline.commands.length - 1;
+      const result = this.runCommand(command, stdin, isLast);
+      terminal += result.stderr ?? '';
+      stdin = result.stdout ?? '';
+      if (isLast) {
+        terminal += stdin;
+        this.lastExitCode = result.exitCode ?? 0;
+      }
+    });
+
+    return terminal;
+  }
+
+  private runCommand(command: SimpleCommand, pipedInput: string, isLast: boolean): CommandOutput {
+    let args: string[];
+    try {
+      args = command.words.flatMap(word => this.expandWord(word));
+    } catch (error) {
+      return { stderr: `bash: ${errorMessage(error)}\n`, exitCode: 1 };
+    }
+
+    const assignments = command.assignments.map(({ name, value }) => [name, this.expandText(value)] as const);
+    if (args.length === 0) {
+      // `NAME=value` on its own sets a shell variable
+      for (const [name, value] of assignments) this.env[name] = value;
+    }
+
+    let stdin = pipedInput;
+    const outputs: Array<{ path: string; append: boolean }> = [];
+    for (const redirect of command.redirects) {
+      const target = this.expandText(redirect.target);
+      if (redirect.operator === '<') {
+        try {
+          stdin = this.fs.readFile(target);
+        } catch (error) {
+          return { stderr: `bash: ${target}: ${errorMessage(error)}\n`, exitCode: 1 };
+        }
+      } else {
+        // Like bash, `>` truncates the file before the command runs
+        try {
+          if (redirect.operator === '>') this.fs.writeFile(target, '');
+          else this.fs.writeFile(target, '', { append: true });
+        } catch (error) {
+          return { stderr: `bash: ${target}: ${errorMessage(error)}\n`, exitCode: 1 };
+        }
+        outputs.push({ path: target, append: redirect.operator === '>>' });
+      }
+    }
+
+    if (args.length === 0) return {};
+
+    const [name, ...rest] = args;
+    const handler = this.getCommand(name);
+    if (!handler) {
+      const suggestions = suggestCommands(name, this.commandNames);
+      const hint = suggestions.length > 0 ? `Did you mean: ${suggestions.join(', ')}\n` : '';
+      return { stderr: `bash: ${name}: command not found\n${hint}`, exitCode: 127 };
+    }
+
+    const env = assignments.length > 0 ? { ...this.env, ...Object.fromEntries(assignments) } : this.env;
+    const result = handler.run({ args: rest, stdin, fs: this.fs, env, isTerminal: isLast && outputs.length === 0 });
+
+    // Commands such as `cd` and `export` change the shell's own environment
+    if (env !== this.env) {
+      for (const [key, value] of Object.entries(env)) {
+        if (!assignments.some(([assigned]) => assigned === key)) this.env[key] = value;
+      }
+    }
+
+    if (outputs.length === 0) return result;
+
+    // Only the last `>`/`>>` receives output; earlier ones are just created
+    const { path } = outputs[outputs.length - 1];
+    this.fs.writeFile(path, result.stdout ?? '', { append: true });
+    return { ...result, stdout: '' };
+  }
+
+  private expandParts(word: Word): { text: string; pattern: string; quoted: boolean } {
+    let text = '';
+    let pattern = '';
+    let quoted = false;
+
+    word.forEach((part, index) => {
+      let value = part.text;
+      if (part.quote !== 'single') {
+        if (part.quote === 'none' && index === 0 && (value === '~' || value.startsWith('~/'))) {
+          value = this.env.HOME + value.slice(1);
+        }
+        value = value.replace(VARIABLE, (_, braced: string, plain: string, status: string) =>
+          status ? String(this.lastExitCode) : (this.env[braced ?? plain] ?? '')
+        );
+      }
+      if (part.quote !== 'none') quoted = true;
+      text += value;
+      pattern += part.quote === 'none' ? value.replace(/\\/g, '\\\\') : escapeGlob(value);
+    });
+
+    return { text, pattern, quoted };
+  }
+
+  private expandText(word: Word): string {
+    return this.expandParts(word).text;
+  }
+
+  /**
+   * Expand variables, `~` and globs. A word that expands to nothing is
+   * dropped unless it was quoted; a glob with no matches stays as written.
+   */
+  private expandWord(word: Word): string[] {
+    const { text, pattern, quoted } = this.expandParts(word);
+    if (text === '' && !quoted) return [];
+    if (!hasGlob(pattern)) return [text];
+
+    const matches = this.glob(pattern);
+    return matches.length > 0 ? matches : [text];
+  }
+
+  private glob(pattern: string): string[] {
+    const absolute = pattern.startsWith('/');
+    const segments = pattern.split('/').filter(Boolean);
+    let candidates = [absolute ? '/' : ''];
+
+    for (const segment of segments) {
+      const next: string[] = [];
+      for (const candidate of candidates) {
+        const base = candidate === '' ? '.' : candidate;
+        if (!hasGlob(segment)) {
+          const path = `${candidate}${candidate && !candidate.endsWith('/') ? '/' : ''}${unescapeGlob(segment)}`;
+          if (this.fs.exists(path)) next.push(path);
+          continue;
+        }
+        if (!this.fs.isDirectory(base)) continue;
+
+        const regex = globToRegExp(segment);
+        for (const child of this.fs.readdir(base)) {
+          // Hidden files only match patterns that start with a dot
+          if (child.name.startsWith('.') && !segment.startsWith('.')) continue;
+          if (regex.test(child.name)) {
+            next.push(`${candidate}${candidate && !candidate.endsWith('/') ? '/' : ''}${child.name}`);
+          }
+        }
+      }
+      candidates = next;
+    }
+
+    return candidates.filter(Boolean).sort();
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { CommandMetadata, formatManPage, groupByCategory, manualEntry } from './manual';
+
+const grep: CommandMetadata = {
+  command: 'grep',
+  description: 'Search file contents',
+  category: 'intermediate',
+  flags: [
+    { flag: '-i', description: 'Ignore case' },
+    { flag: '-rn', description: 'Recursive, with line numbers' },
+  ],
+  examples: ['grep -rn TODO src'],
+};
+
+describe('formatManPage', () => {
+  it('renders the sections from the metadata', () => {
+    expect(formatManPage(grep)).toBe(
+      [
+        'NAME',
+        '       grep - Search file contents',
+        '',
+        'SYNOPSIS',
+        '       grep [OPTION]...',
+        '',
+        'DESCRIPTION',
+        '       Search file contents.',
+        '       Level: Intermediate',
+        '',
+        'OPTIONS',
+        '       -i   Ignore case',
+        '       -rn  Recursive, with line numbers',
+        '',
+        'EXAMPLES',
+        '       grep -rn TODO src',
+      ].join('\n')
+    );
+  });
+
+  it('omits options and examples when there are none', () => {
+    const page = formatManPage({ command: 'pwd', description: 'Print working directory', category: 'basic' });
+    expect(page).toContain('SYNOPSIS\n       pwd\n');
+    expect(page).not.toContain('OPTIONS');
+    expect(page).not.toContain('EXAMPLES');
+  });
+});
+
+describe('manualEntry', () => {
+  const commands: CommandMetadata[] = [grep, { command: 'claude config set', description: 'Configure', category: 'advanced' }];
+
+  it('looks up commands including subcommands', () => {
+    expect(manualEntry(['claude', 'config', 'set'], commands)).toMatchObject({ found: true });
+    expect(manualEntry(['grep'], commands).output).toMatch(/^NAME\n {7}grep/);
+  });
+
+  it('reports missing entries like man does', () => {
+    expect(manualEntry(['nope'], commands)).toEqual({ output: 'No manual entry for nope', found: false });
+    expect(manualEntry([], commands).output).toMatch(/^What manual page do you want\?/);
+  });
+});
+
+describe('groupByCategory', () => {
+  it('orders groups from basic to advanced and skips empty ones', () => {
+    const groups = groupByCategory([
+      { command: 'c', description: '', category: 'advanced' },
+      { command: 'a', description: '', category: 'basic' },
+      { command: 'b', description: '', category: 'basic' },
+    ]);
+    expect(groups.map(group => [group.category, group.commands.map(cmd => cmd.command)])).toEqual([
+      ['basic', ['a', 'b']],
+      ['advanced', ['c']],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Command Manual
+ *
+ * Metadata describing a playground command and the `man` page and quick
+ * reference groups generated from it.
+ *
+ * @module shell-manual
+ */
+
+export type CommandCategory = 'basic' | 'intermediate' | 'advanced';
+
+export interface CommandFlag {
+  flag: string;
+  description: string;
+}
+
+export interface CommandMetadata {
+  /** The command as typed, including subcommands (`claude config set`). */
+  command: string;
+  description: string;
+  category: CommandCategory;
+  flags?: CommandFlag[];
+  /** Complete command lines; the first one is run from the quick reference. */
+  examples?: string[];
+}
+
+export const CATEGORY_LABELS: Record<CommandCategory, string> = {
+  basic: 'Basic',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+function indent(lines: string[]): string {
+  return lines.map(line => `       ${line}`).join('\n');
+}
+
+/**
+ * Render a man page in the usual NAME/SYNOPSIS/DESCRIPTION layout.
+ */
+export function formatManPage(metadata: CommandMetadata): string {
+  const flags = metadata.flags ?? [];
+  const width = Math.max(0, ...flags.map(({ flag }) => flag.length));
+  const sections: Array<[string, string[]]> = [
+    ['NAME', [`${metadata.command} - ${metadata.description}`]],
+    ['SYNOPSIS', [flags.length > 0 ? `${metadata.command} [OPTION]...` : metadata.command]],
+    ['DESCRIPTION', [`${metadata.description}.`, `Level: ${CATEGORY_LABELS[metadata.category]}`]],
+  ];
+  if (flags.length > 0) {
+    sections.push(['OPTIONS', flags.map(({ flag, description }) => `${flag.padEnd(width, ' ')}  ${description}`)]);
+  }
+  if (metadata.examples?.length) {
+    sections.push(['EXAMPLES', metadata.examples]);
+  }
+
+  return sections.map(([title, lines]) => `${title}\n${indent(lines)}`).join('\n\n');
+}
+
+/**
+ * Output of `man <name>`; `name` may include subcommands.
+ */
+export function manualEntry(args: string[], commands: CommandMetadata[]): { output: string; found: boolean } {
+  if (args.length === 0) {
+    return { output: "What manual page do you want?\nFor example, try 'man man'.", found: false };
+  }
+
+  const name = args.join(' ');
+  const metadata = commands.find(cmd => cmd.command === name);
+  if (!metadata) return { output: `No manual entry for ${name}`, found: false };
+  return { output: formatManPage(metadata), found: true };
+}
+
+/**
+ * Commands grouped by category in basic → advanced order, skipping empty
+ * groups, for the quick reference panel.
+ */
+export function groupByCategory<T extends CommandMetadata>(commands: T[]): Array<{ category: CommandCategory; commands: T[] }> {
+  return (Object.keys(CATEGORY_LABELS) as CommandCategory[])
+    .map(category => ({ category, commands: commands.filter(cmd => cmd.category === category) }))
+    .filter(group => group.commands.length > 0);
+}
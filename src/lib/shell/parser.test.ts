@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { parseCommandLine, Word } from './parser';
+
+const text = (word: Word) => word.map(part => part.text).join('');
+
+describe('parseCommandLine', () => {
+  it('splits words on whitespace', () => {
+    const list = parseCommandLine('ls  -la   src');
+    expect(list.pipelines).toHaveLength(1);
+    expect(list.pipelines[0].commands[0].words.map(text)).toEqual(['ls', '-la', 'src']);
+  });
+
+  it('keeps quoted text together and records the quoting', () => {
+    const [command] = parseCommandLine(`echo "hello world" 'a $B' c\\ d`).pipelines[0].commands;
+    expect(command.words.map(text)).toEqual(['echo', 'hello world', 'a $B', 'c d']);
+    expect(command.words[1]).toEqual([{ text: 'hello world', quote: 'double' }]);
+    expect(command.words[2]).toEqual([{ text: 'a $B', quote: 'single' }]);
+  });
+
+  it('keeps empty quoted words', () => {
+    const [command] = parseCommandLine('echo ""').pipelines[0].commands;
+    expect(command.words).toHaveLength(2);
+  });
+
+  it('parses pipes, lists and redirects', () => {
+    const list = parseCommandLine('cat a.txt | grep x > out.txt && echo ok || echo fail; ls >> log');
+    expect(list.operators).toEqual(['&&', '||', ';']);
+    expect(list.pipelines[0].commands).toHaveLength(2);
+    expect(list.pipelines[0].commands[1].redirects).toEqual([
+      { operator: '>', target: [{ text: 'out.txt', quote: 'none' }] },
+    ]);
+    expect(list.pipelines[3].commands[0].redirects[0].operator).toBe('>>');
+  });
+
+  it('does not need spaces around operators', () => {
+    const list = parseCommandLine('echo hi>out.txt&&cat out.txt|wc -l');
+    expect(list.pipelines[0].commands[0].words.map(text)).toEqual(['echo', 'hi']);
+    expect(list.pipelines[1].commands.map(command => text(command.words[0]))).toEqual(['cat', 'wc']);
+  });
+
+  it('treats operators inside quotes as text', () => {
+    const [command] = parseCommandLine('echo "a | b > c"').pipelines[0].commands;
+    expect(command.words.map(text)).toEqual(['echo', 'a | b > c']);
+    expect(command.redirects).toEqual([]);
+  });
+
+  it('reads leading NAME=value words as assignments', () => {
+    const [command] = parseCommandLine('GREETING="hi there" echo x=1').pipelines[0].commands;
+    expect(command.assignments.map(({ name, value }) => [name, text(value)])).toEqual([['GREETING', 'hi there']]);
+    expect(command.words.map(text)).toEqual(['echo', 'x=1']);
+  });
+
+  it('ignores comments and a trailing semicolon', () => {
+    const list = parseCommandLine('ls; # list files');
+    expect(list.pipelines).toHaveLength(1);
+    expect(list.operators).toEqual([]);
+  });
+
+  it('returns no pipelines for blank input', () => {
+    expect(parseCommandLine('   ').pipelines).toEqual([]);
+  });
+
+  it('reports syntax errors', () => {
+    expect(() => parseCommandLine('ls |')).toThrow("syntax error near unexpected token `newline'");
+    expect(() => parseCommandLine('&& ls')).toThrow("syntax error near unexpected token `&&'");
+    expect(() => parseCommandLine('echo >')).toThrow('syntax error');
+    expect(() => parseCommandLine('ls &&')).toThrow('syntax error');
+    expect(() => parseCommandLine('echo "open')).toThrow('unexpected EOF');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Shell Parser
+ *
+ * Turns a command line into a list of pipelines. Supports single and
+ * double quotes, backslash escapes, `|`, `>`, `>>`, `<`, `&&`, `||`, `;`,
+ * `NAME=value` prefixes and `#` comments. Words are kept as quoted parts so
+ * that `$VAR`, `~` and globs can be expanded when the command runs, after
+ * earlier commands on the line have had their effect.
+ *
+ * @module shell-parser
+ */
+
+export type QuoteKind = 'none' | 'single' | 'double';
+
+export interface WordPart {
+  text: string;
+  quote: QuoteKind;
+}
+
+export type Word = WordPart[];
+
+export type RedirectOperator = '>' | '>>' | '<';
+
+export interface Redirect {
+  operator: RedirectOperator;
+  target: Word;
+}
+
+export interface SimpleCommand {
+  assignments: Array<{ name: string; value: Word }>;
+  words: Word[];
+  redirects: Redirect[];
+}
+
+export interface Pipeline {
+  commands: SimpleCommand[];
+}
+
+export type ListOperator = '&&' | '||' | ';';
+
+export interface CommandList {
+  /** `operators[i]` joins `pipelines[i]` and `pipelines[i + 1]`. */
+  pipelines: Pipeline[];
+  operators: ListOperator[];
+}
+
+type Operator = ListOperator | RedirectOperator | '|';
+
+type Token = { type: 'word'; word: Word } | { type: 'operator'; operator: Operator };
+
+const OPERATORS: Operator[] = ['&&', '||', '>>', '|', '>', '<', ';'];
+
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let word: Word | null = null;
+  let i = 0;
+
+  const append = (text: string, quote: QuoteKind) => {
+    word ??= [];
+    const last = word[word.length - 1];
+    if (last && last.quote === quote) {
+      last.text += text;
+    } else {
+      word.push({ text, quote });
+    }
+  };
+
+  const endWord = () => {
+    if (word) tokens.push({ type: 'word', word });
+    word = null;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === ' ' || char === '\t' || char === '\n') {
+      endWord();
+      i++;
+      continue;
+    }
+
+    if (char === '#' && word === null) {
+      break;
+    }
+
+    const operator = OPERATORS.find(op => input.startsWith(op, i));
+    if (operator) {
+      endWord();
+      tokens.push({ type: 'operator', operator });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (i + 1 < input.length) append(input[i + 1], 'single');
+      i += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new Error('unexpected EOF while looking for matching `\'\'');
+      append(input.slice(i + 1, end), 'single');
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      let text = '';
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        // Inside double quotes a backslash only escapes \ " $ and `
+        if (input[i] === '\\' && '\\"$`'.includes(input[i + 1] ?? '')) {
+          // An escaped $ must survive expansion, so keep it literal
+          if (input[i + 1] === '$') {
+            if (text) append(text, 'double');
+            append('$', 'single');
+            text = '';
+          } else {
+            text += input[i + 1];
+          }
+          i += 2;
+        } else {
+          text += input[i++];
+        }
+      }
+      if (i >= input.length) throw new Error('unexpected EOF while looking for matching `"\'');
+      append(text, 'double');
+      // Keep `""` as an (empty) word
+      word ??= [];
+      i++;
+      continue;
+    }
+
+    append(char, 'none');
+    i++;
+  }
+
+  endWord();
+  return tokens;
+}
+
+function describe(token: Token | undefined): string {
+  if (!token) return 'newline';
+  return token.type === 'operator' ? token.operator : token.word.map(part => part.text).join('');
+}
+
+function syntaxError(token: Token | undefined): Error {
+  return new Error(`syntax error near unexpected token \`${describe(token)}'`);
+}
+
+/**
+ * Parse a command line. Throws with a bash-style message on syntax errors.
+ */
+export function parseCommandLine(input: string): CommandList {
+  const tokens = tokenize(input);
+  const list: CommandList = { pipelines: [], operators: [] };
+  let pipeline: Pipeline = { commands: [] };
+  let command: SimpleCommand = { assignments: [], words: [], redirects: [] };
+  let i = 0;
+
+  const isEmpty = (cmd: SimpleCommand) =>
+    cmd.words.length === 0 && cmd.assignments.length === 0 && cmd.redirects.length === 0;
+
+  const endCommand = (token: Token | undefined) => {
+    if (isEmpty(command)) throw syntaxError(token);
+    pipeline.commands.push(command);
+    command = { assignments: [], words: [], redirects: [] };
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if (token.type === 'word') {
+      const first = token.word[0];
+      const match = command.words.length === 0 && first.quote === 'none' ? ASSIGNMENT.exec(first.text) : null;
+      if (match) {
+        const rest = first.text.slice(match[0].length);
+        const value: Word = rest ? [{ text: rest, quote: 'none' }, ...token.word.slice(1)] : token.word.slice(1);
+        command.assignments.push({ name: match[1], value });
+      } else {
+        command.words.push(token.word);
+      }
+      i++;
+      continue;
+    }
+
+    const { operator } = token;
+    if (operator === '>' || operator === '>>' || operator === '<') {
+      const target = tokens[i + 1];
+      if (target?.type !== 'word') throw syntaxError(target);
+      command.redirects.push({ operator, target: target.word });
+      i += 2;
+      continue;
+    }
+
+    endCommand(token);
+    if (operator !== '|') {
+      list.pipelines.push(pipeline);
+      list.operators.push(operator);
+      pipeline = { commands: [] };
+    }
+    i++;
+  }
+
+  if (!isEmpty(command)) {
+    pipeline.commands.push(command);
+  } else if (pipeline.commands.length > 0 || (list.operators.length > 0 && list.operators[list.operators.length - 1] !== ';')) {
+    // A line may end with `;` but not with `|`, `&&` or `||`
+    throw syntaxError(undefined);
+  }
+
+  if (pipeline.commands.length > 0) {
+    list.pipelines.push(pipeline);
+  } else if (list.operators[list.operators.length - 1] === ';') {
+    list.operators.pop();
+  }
+
+  return list;
+}
@@ -0,0 +1,121 @@
+import { VirtualFileSystem } from './virtual-fs';
+
+export interface ProjectSummary {
+  /** Absolute path that was analyzed. */
+  root: string;
+  fileCount: number;
+  totalLines: number;
+  /** Top-level entries with the number of files below each directory. */
+  entries: Array<{ name: string; type: 'file' | 'directory'; fileCount: number }>;
+  /** Files per language, most common first. */
+  languages: Array<{ language: string; fileCount: number }>;
+  typeScriptFileCount: number;
+  configFileCount: number;
+  framework?: string;
+  styling?: string;
+}
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  css: 'CSS',
+  md: 'Markdown',
+  json: 'JSON',
+  py: 'Python',
+  html: 'HTML',
+};
+
+// package.json dependency -> display name, in detection order
+const FRAMEWORKS: Array<[string, string]> = [
+  ['next', 'Next.js'],
+  ['nuxt', 'Nuxt'],
+  ['@remix-run/react', 'Remix'],
+  ['vue', 'Vue'],
+  ['svelte', 'Svelte'],
+  ['react', 'React'],
+  ['express', 'Express'],
+];
+
+const STYLING: Array<[string, string]> = [
+  ['tailwindcss', 'Tailwind CSS'],
+  ['styled-components', 'styled-components'],
+  ['sass', 'Sass'],
+];
+
+function extension(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1) : '';
+}
+
+function isConfigFile(path: string): boolean {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return (
+    name.startsWith('.') ||
+    /\.config\.[cm]?[jt]s$/.test(name) ||
+    /^(package|tsconfig|jsconfig)\.json$/.test(name) ||
+    /\.(ya?ml|toml)$/.test(name)
+  );
+}
+
+function readDependencies(fs: VirtualFileSystem, root: string): Record<string, string> {
+  try {
+    const pkg = JSON.parse(fs.readFile(`${root}/package.json`)) as {
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    return { ...pkg.devDependencies, ...pkg.dependencies };
+  } catch {
+    return {};
+  }
+}
+
+function detect(dependencies: Record<string, string>, candidates: Array<[string, string]>): string | undefined {
+  const found = candidates.find(([dependency]) => dependency in dependencies);
+  if (!found) return undefined;
+
+  const major = /\d+/.exec(dependencies[found[0]])?.[0];
+  return major ? `${found[1]} ${major}` : found[1];
+}
+
+/**
+ * Summarize the files below `path`, for the `analyze` and `scan` commands
+ * of the simulated AI CLIs.
+ */
+export function summarizeProject(fs: VirtualFileSystem, path = '.'): ProjectSummary {
+  const root = fs.resolve(path);
+  const files = fs.walk(root);
+  const languageCounts = new Map<string, number>();
+
+  for (const { path: filePath } of files) {
+    const language = LANGUAGES[extension(filePath)];
+    if (language) languageCounts.set(language, (languageCounts.get(language) ?? 0) + 1);
+  }
+
+  const entries = fs.isDirectory(root)
+    ? fs.readdir(root).map(node => ({
+        name: node.name,
+        type: node.type,
+        fileCount: node.type === 'file' ? 1 : fs.walk(`${root}/${node.name}`).length,
+      }))
+    : [];
+
+  const dependencies = readDependencies(fs, root);
+
+  return {
+    root,
+    fileCount: files.length,
+    totalLines: files.reduce((sum, { file }) => sum + file.content.split('\n').filter(Boolean).length, 0),
+    entries,
+    languages: Array.from(languageCounts, ([language, fileCount]) => ({ language, fileCount })).sort(
+      (a, b) => b.fileCount - a.fileCount || a.language.localeCompare(b.language)
+    ),
+    typeScriptFileCount: files.filter(({ path: filePath }) => /\.tsx?$/.test(filePath)).length,
+    configFileCount: files.filter(({ path: filePath }) => isConfigFile(filePath)).length,
+    framework: detect(dependencies, FRAMEWORKS),
+    styling: detect(dependencies, STYLING),
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VirtualFileSystem } from './virtual-fs';
+import { DEFAULT_PROJECT_FIXTURE } from './fixtures';
+
+describe('VirtualFileSystem', () => {
+  let fs: VirtualFileSystem;
+
+  beforeEach(() => {
+    fs = VirtualFileSystem.fromFixture({
+      name: 'demo',
+      files: {
+        'README.md': '# Demo\n',
+        'src/index.ts': 'export {};\n',
+        'assets/': '',
+      },
+    });
+  });
+
+  describe('fromFixture', () => {
+    it('creates the project under the home directory and enters it', () => {
+      expect(fs.cwd).toBe('/home/user/demo');
+      expect(fs.readFile('README.md')).toBe('# Demo\n');
+      expect(fs.readFile('src/index.ts')).toBe('export {};\n');
+    });
+
+    it('creates directories for keys ending in a slash', () => {
+      expect(fs.isDirectory('assets')).toBe(true);
+      expect(fs.readdir('assets')).toEqual([]);
+    });
+
+    it('seeds the default project', () => {
+      const fs = VirtualFileSystem.fromFixture(DEFAULT_PROJECT_FIXTURE);
+      expect(fs.cwd).toBe('/home/user/vibe-wiki');
+      expect(fs.readdir('.').map(node => node.name)).toContain('src');
+    });
+  });
+
+  describe('resolve', () => {
+    it('normalizes relative paths, dots and the home directory', () => {
+      expect(fs.resolve('src/../README.md')).toBe('/home/user/demo/README.md');
+      expect(fs.resolve('./src/.')).toBe('/home/user/demo/src');
+      expect(fs.resolve('~')).toBe('/home/user');
+      expect(fs.resolve('~/demo/src')).toBe('/home/user/demo/src');
+      expect(fs.resolve('/../..')).toBe('/');
+    });
+  });
+
+  describe('files', () => {
+    it('writes and appends', () => {
+      fs.writeFile('notes.txt', 'one\n');
+      fs.writeFile('notes.txt', 'two\n', { append: true });
+      expect(fs.readFile('notes.txt')).toBe('one\ntwo\n');
+    });
+
+    it('reports missing files and directories', () => {
+      expect(() => fs.readFile('missing.txt')).toThrow('No such file or directory');
+      expect(() => fs.readFile('src')).toThrow('Is a directory');
+      expect(() => fs.writeFile('nope/file.txt', '')).toThrow('No such file or directory');
+    });
+
+    it('touch creates empty files and keeps existing content', () => {
+      fs.touch('empty.txt');
+      fs.touch('README.md');
+      expect(fs.readFile('empty.txt')).toBe('');
+      expect(fs.readFile('README.md')).toBe('# Demo\n');
+    });
+  });
+
+  describe('mkdir', () => {
+    it('requires parents unless recursive', () => {
+      expect(() => fs.mkdir('a/b')).toThrow('No such file or directory');
+      fs.mkdir('a/b', { recursive: true });
+      expect(fs.isDirectory('a/b')).toBe(true);
+    });
+
+    it('refuses to recreate an existing directory unless recursive', () => {
+      expect(() => fs.mkdir('src')).toThrow('File exists');
+      expect(() => fs.mkdir('src', { recursive: true })).not.toThrow();
+      expect(() => fs.mkdir('README.md/x', { recursive: true })).toThrow('Not a directory');
+    });
+  });
+
+  describe('remove', () => {
+    it('needs recursive for directories', () => {
+      expect(() => fs.remove('src')).toThrow('Is a directory');
+      fs.remove('src', { recursive: true });
+      expect(fs.exists('src')).toBe(false);
+    });
+
+    it('refuses to remove the working directory', () => {
+      expect(() => fs.remove('.', { recursive: true })).toThrow('Device or resource busy');
+    });
+  });
+
+  describe('move', () => {
+    it('renames files', () => {
+      fs.move('README.md', 'README.txt');
+      expect(fs.exists('README.md')).toBe(false);
+      expect(fs.readFile('README.txt')).toBe('# Demo\n');
+    });
+
+    it('moves into an existing directory', () => {
+      fs.move('README.md', 'assets');
+      expect(fs.readFile('assets/README.md')).toBe('# Demo\n');
+    });
+
+    it('refuses to move a directory into itself', () => {
+      expect(() => fs.move('src', 'src/nested')).toThrow('Invalid argument');
+    });
+  });
+
+  describe('snapshot', () => {
+    it('restores the tree and working directory', () => {
+      const snapshot = fs.snapshot();
+      fs.writeFile('README.md', 'changed');
+      fs.move('src', 'lib');
+      fs.chdir('lib');
+
+      fs.restore(snapshot);
+      expect(fs.readFile('README.md')).toBe('# Demo\n');
+      expect(fs.isDirectory('src')).toBe(true);
+      expect(fs.exists('lib')).toBe(false);
+      expect(fs.cwd).toBe('/home/user/demo');
+    });
+  });
+
+  describe('chdir', () => {
+    it('changes the working directory', () => {
+      fs.chdir('src');
+      expect(fs.cwd).toBe('/home/user/demo/src');
+      fs.chdir('..');
+      expect(fs.cwd).toBe('/home/user/demo');
+    });
+
+    it('rejects files and missing paths', () => {
+      expect(() => fs.chdir('README.md')).toThrow('Not a directory');
+      expect(() => fs.chdir('missing')).toThrow('No such file or directory');
+    });
+  });
+
+  describe('walk', () => {
+    it('lists every file below a directory', () => {
+      expect(fs.walk().map(entry => entry.path)).toEqual([
+        '/home/user/demo/README.md',
+        '/home/user/demo/src/index.ts',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Virtual Filesystem
+ *
+ * A small in-memory POSIX-like tree for the CLI playgrounds. Paths use
+ * `/`, `~` expands to the home directory, and errors carry the same
+ * messages as coreutils ("No such file or directory", ...), so commands can
+ * print them as `cmd: path: message`.
+ *
+ * @module virtual-fs
+ */
+
+export interface FileNode {
+  type: 'file';
+  name: string;
+  content: string;
+  modifiedAt: Date;
+}
+
+export interface DirectoryNode {
+  type: 'directory';
+  name: string;
+  children: Map<string, FsNode>;
+  modifiedAt: Date;
+}
+
+export type FsNode = FileNode | DirectoryNode;
+
+/**
+ * Declarative description of a playground project. Keys of `files` are
+ * paths relative to the project root; keys ending in `/` are (possibly
+ * empty) directories and their value is ignored.
+ */
+export interface ProjectFixture {
+  /** Project directory name, created under the home directory. */
+  name: string;
+  files: Record<string, string>;
+  /** Extra environment variables for the shell. */
+  env?: Record<string, string>;
+}
+
+export interface VirtualFileSystemOptions {
+  home?: string;
+  /** Clock for modification times; injectable for tests. */
+  now?: () => Date;
+}
+
+/** The tree and working directory at one point, for `restore`. */
+export interface FileSystemSnapshot {
+  root: DirectoryNode;
+  cwd: string;
+}
+
+export const DEFAULT_HOME = '/home/user';
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+export function basename(path: string): string {
+  const parts = splitPath(path);
+  return parts[parts.length - 1] ?? '/';
+}
+
+export function dirname(path: string): string {
+  const parts = splitPath(path);
+  return parts.length <= 1 ? '/' : `/${parts.slice(0, -1).join('/')}`;
+}
+
+function cloneNode<T extends FsNode>(node: T): T {
+  if (node.type === 'file') return { ...node };
+  const children = new Map(Array.from(node.children, ([name, child]) => [name, cloneNode(child)]));
+  return { ...node, children };
+}
+
+export class VirtualFileSystem {
+  readonly home: string;
+  private root: DirectoryNode;
+  private currentDirectory: string;
+  private now: () => Date;
+
+  constructor(options: VirtualFileSystemOptions = {}) {
+    this.home = options.home ?? DEFAULT_HOME;
+    this.now = options.now ?? (() => new Date());
+    this.root = { type: 'directory', name: '/', children: new Map(), modifiedAt: this.now() };
+    this.mkdir(this.home, { recursive: true });
+    this.currentDirectory = this.home;
+  }
+
+  /**
+   * Build a filesystem holding `fixture` under `~/<name>`, with that
+   * directory as the working directory.
+   */
+  static fromFixture(fixture: ProjectFixture, options: VirtualFileSystemOptions = {}): VirtualFileSystem {
+    const fs = new VirtualFileSystem(options);
+    const projectRoot = `${fs.home}/${fixture.name}`;
+    fs.mkdir(projectRoot, { recursive: true });
+
+    for (const [path, content] of Object.entries(fixture.files)) {
+      const target = `${projectRoot}/${path}`;
+      if (path.endsWith('/')) {
+        fs.mkdir(target, { recursive: true });
+      } else {
+        fs.mkdir(dirname(target), { recursive: true });
+        fs.writeFile(target, content);
+      }
+    }
+
+    fs.chdir(projectRoot);
+    return fs;
+  }
+
+  get cwd(): string {
+    return this.currentDirectory;
+  }
+
+  /**
+   * Copy the tree, so a series of changes can be undone with `restore`.
+   */
+  snapshot(): FileSystemSnapshot {
+    return { root: cloneNode(this.root), cwd: this.currentDirectory };
+  }
+
+  restore(snapshot: FileSystemSnapshot): void {
+    this.root = cloneNode(snapshot.root);
+    this.currentDirectory = snapshot.cwd;
+  }
+
+  /**
+   * Absolute, normalized form of `path` (resolves `~`, `.` and `..`).
+   */
+  resolve(path: string): string {
+    let absolute = path;
+    if (path === '~' || path.startsWith('~/')) {
+      absolute = this.home + path.slice(1);
+    } else if (!path.startsWith('/')) {
+      absolute = `${this.currentDirectory}/${path}`;
+    }
+
+    const parts: string[] = [];
+    for (const part of splitPath(absolute)) {
+      if (part === '..') {
+        parts.pop();
+      } else if (part !== '.') {
+        parts.push(part);
+      }
+    }
+    return `/${parts.join('/')}`;
+  }
+
+  stat(path: string): FsNode | undefined {
+    let node: FsNode = this.root;
+    for (const part of splitPath(this.resolve(path))) {
+      if (node.type !== 'directory') return undefined;
+      const child = node.children.get(part);
+      if (!child) return undefined;
+      node = child;
+    }
+    return node;
+  }
+
+  exists(path: string): boolean {
+    return this.stat(path) !== undefined;
+  }
+
+  isDirectory(path: string): boolean {
+    return this.stat(path)?.type === 'directory';
+  }
+
+  private getDirectory(path: string): DirectoryNode {
+    const node = this.stat(path);
+    if (!node) throw new Error('No such file or directory');
+    if (node.type !== 'directory') throw new Error('Not a directory');
+    return node;
+  }
+
+  private getParent(path: string): DirectoryNode {
+    return this.getDirectory(dirname(this.resolve(path)));
+  }
+
+  readFile(path: string): string {
+    const node = this.stat(path);
+    if (!node) throw new Error('No such file or directory');
+    if (node.type === 'directory') throw new Error('Is a directory');
+    return node.content;
+  }
+
+  writeFile(path: string, content: string, options: { append?: boolean } = {}): void {
+    const absolute = this.resolve(path);
+    const parent = this.getParent(absolute);
+    const name = basename(absolute);
+    const existing = parent.children.get(name);
+
+    if (existing?.type === 'directory') throw new Error('Is a directory');
+
+    const now = this.now();
+    parent.children.set(name, {
+      type: 'file',
+      name,
+      content: options.append && existing ? existing.content + content : content,
+      modifiedAt: now,
+    });
+    parent.modifiedAt = now;
+  }
+
+  /**
+   * Create an empty file, or update the modification time of an existing one.
+   */
+  touch(path: string): void {
+    const node = this.stat(path);
+    if (node) {
+      node.modifiedAt = this.now();
+    } else {
+      this.writeFile(path, '');
+    }
+  }
+
+  mkdir(path: string, options: { recursive?: boolean } = {}): void {
+    const parts = splitPath(this.resolve(path));
+    let node = this.root;
+
+    parts.forEach((part, index) => {
+      const isLast = index === parts.length - 1;
+      const child = node.children.get(part);
+
+      if (child) {
+        if (child.type !== 'directory') throw new Error('Not a directory');
+        if (isLast && !options.recursive) throw new Error('File exists');
+        node = child;
+        return;
+      }
+
+      if (!isLast && !options.recursive) throw new Error('No such file or directory');
+
+      const created: DirectoryNode = { type: 'directory', name: part, children: new Map(), modifiedAt: this.now() };
+      node.children.set(part, created);
+      node.modifiedAt = created.modifiedAt;
+      node = created;
+    });
+  }
+
+  /**
+   * Directory entries sorted by name (byte order, as with `LC_ALL=C`), or
+   * the node itself for a file.
+   */
+  readdir(path: string): FsNode[] {
+    const node = this.stat(path);
+    if (!node) throw new Error('No such file or directory');
+    if (node.type === 'file') return [node];
+    return Array.from(node.children.values()).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  }
+
+  remove(path: string, options: { recursive?: boolean } = {}): void {
+    const absolute = this.resolve(path);
+    if (absolute === '/') throw new Error('Permission denied');
+
+    const node = this.stat(absolute);
+    if (!node) throw new Error('No such file or directory');
+    if (node.type === 'directory' && !options.recursive) throw new Error('Is a directory');
+    if (node.type === 'directory' && (this.currentDirectory + '/').startsWith(absolute + '/')) {
+      throw new Error('Device or resource busy');
+    }
+
+    const parent = this.getParent(absolute);
+    parent.children.delete(node.name);
+    parent.modifiedAt = this.now();
+  }
+
+  /**
+   * Move or rename. Moving onto an existing directory moves into it.
+   */
+  move(from: string, to: string): void {
+    const source = this.resolve(from);
+    const node = this.stat(source);
+    if (!node) throw new Error('No such file or directory');
+
+    let target = this.resolve(to);
+    if (this.isDirectory(target)) {
+      target = `${target === '/' ? '' : target}/${node.name}`;
+    }
+    if (target === source) return;
+    if (node.type === 'directory' && (target + '/').startsWith(source + '/')) {
+      throw new Error('Invalid argument');
+    }
+    if (this.stat(target)?.type === 'directory') throw new Error('Is a directory');
+
+    const targetParent = this.getParent(target);
+    const sourceParent = this.getParent(source);
+    sourceParent.children.delete(node.name);
+    node.name = basename(target);
+    targetParent.children.set(node.name, node);
+    sourceParent.modifiedAt = targetParent.modifiedAt = this.now();
+  }
+
+  chdir(path: string): void {
+    const absolute = this.resolve(path);
+    this.getDirectory(absolute);
+    this.currentDirectory = absolute;
+  }
+
+  /**
+   * Every file below `path` (depth first, sorted), with absolute paths.
+   */
+  walk(path: string = this.currentDirectory): Array<{ path: string; file: FileNode }> {
+    const start = this.resolve(path);
+    const node = this.stat(start);
+    if (!node) throw new Error('No such file or directory');
+
+    const files: Array<{ path: string; file: FileNode }> = [];
+    const visit = (current: FsNode, currentPath: string) => {
+      if (current.type === 'file') {
+        files.push({ path: currentPath, file: current });
+        return;
+      }
+      for (const child of this.readdir(currentPath)) {
+        visit(child, `${currentPath === '/' ? '' : currentPath}/${child.name}`);
+      }
+    };
+    visit(node, start);
+    return files;
+  }
+}
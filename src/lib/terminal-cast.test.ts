@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { CastRecorder, TerminalCast, castDuration, formatCast, parseCast, screenAt } from './terminal-cast';
+
+const cast: TerminalCast = {
+  version: 1,
+  tool: 'bash',
+  title: 'Listing files',
+  events: [
+    [0, 'o', 'Welcome'],
+    [2, 'i', 'ls'],
+    [2, 'o', 'README.md  src/'],
+    [5, 'i', 'pwd'],
+    [5, 'o', '/home/user/demo'],
+  ],
+};
+
+describe('CastRecorder', () => {
+  it('records input and output relative to the start', () => {
+    let now = 1000;
+    const recorder = new CastRecorder({ tool: 'claude', prompt: 'claude', now: () => now });
+
+    now = 2500;
+    recorder.input('claude scan');
+    recorder.output('Scanning...');
+    recorder.output('');
+    now = 4250;
+    recorder.input('clear');
+
+    expect(recorder.eventCount).toBe(3);
+    expect(recorder.toCast()).toEqual({
+      version: 1,
+      tool: 'claude',
+      prompt: 'claude',
+      events: [
+        [1.5, 'i', 'claude scan'],
+        [1.5, 'o', 'Scanning...'],
+        [3.25, 'i', 'clear'],
+      ],
+    });
+  });
+});
+
+describe('parseCast and formatCast', () => {
+  it('round-trips a cast with one event per line', () => {
+    const text = formatCast(cast);
+    expect(text).toContain('\n    [2,"i","ls"],\n');
+    expect(parseCast(text)).toEqual(cast);
+  });
+
+  it('rejects malformed casts', () => {
+    expect(() => parseCast('{')).toThrow(/^Invalid cast: /);
+    expect(() => parseCast('[]')).toThrow('expected a JSON object');
+    expect(() => parseCast('{"version":2,"tool":"bash","events":[]}')).toThrow('unsupported version');
+    expect(() => parseCast('{"version":1,"tool":"zsh","events":[]}')).toThrow('tool must be one of');
+    expect(() => parseCast('{"version":1,"tool":"bash","events":[[1,"x","ls"]]}')).toThrow('event 0');
+    expect(() => parseCast('{"version":1,"tool":"bash","events":[[2,"i","a"],[1,"i","b"]]}')).toThrow('event 1');
+  });
+});
+
+describe('screenAt', () => {
+  it('shows the events up to the given time', () => {
+    expect(castDuration(cast)).toBe(5);
+    expect(screenAt(cast, 0).entries).toEqual([{ output: 'Welcome' }]);
+    expect(screenAt(cast, 3).entries).toEqual([{ output: 'Welcome' }, { command: 'ls', output: 'README.md  src/' }]);
+    expect(screenAt(cast, 10).entries).toHaveLength(3);
+  });
+
+  it('types out upcoming input only when asked', () => {
+    // "pwd" takes 0.15s to type, so it starts at 4.85s
+    expect(screenAt(cast, 4.8, { typing: true }).pending).toBe('');
+    expect(screenAt(cast, 4.9, { typing: true }).pending).toBe('p');
+    expect(screenAt(cast, 4.9).pending).toBe('');
+  });
+
+  it('starts over after clear', () => {
+    const cleared: TerminalCast = { ...cast, events: [...cast.events, [6, 'i', 'clear'], [7, 'i', 'ls'], [7, 'o', 'x']] };
+    expect(screenAt(cleared, 7).entries).toEqual([{ command: 'ls', output: 'x' }]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Terminal Casts
+ *
+ * A small asciicast-style format for recorded CLI playground sessions.
+ * A cast is a JSON object whose `events` are `[seconds, "i" | "o", text]`
+ * tuples: `i` is a command line the learner entered, `o` is the output it
+ * produced. Casts are embedded in Markdown with a ```cast fence and played
+ * back by `CastPlayer`.
+ *
+ * @example
+ * ```ts
+ * const recorder = new CastRecorder({ tool: 'claude' });
+ * recorder.input('claude scan');
+ * recorder.output('[Claude] Scanning project...');
+ * const markdown = '```cast\n' + formatCast(recorder.toCast()) + '\n```';
+ * ```
+ *
+ * @module terminal-cast
+ */
+
+import type { CLITool } from '@/types';
+
+export type CastEventType = 'i' | 'o';
+
+/** `[seconds since the start, "i" (input) | "o" (output), text]` */
+export type CastEvent = [number, CastEventType, string];
+
+export interface TerminalCast {
+  version: 1;
+  tool: CLITool;
+  title?: string;
+  /** Prompt shown before input lines; defaults to the tool's prompt. */
+  prompt?: string;
+  events: CastEvent[];
+}
+
+export interface CastScreenEntry {
+  command?: string;
+  output: string;
+}
+
+export interface CastScreen {
+  entries: CastScreenEntry[];
+  /** Input being typed at the prompt, before its event is reached. */
+  pending: string;
+}
+
+const CAST_TOOLS: CLITool[] = ['claude', 'copilot', 'opencode', 'bash'];
+
+/** Characters per second for the typing effect during playback. */
+export const TYPING_RATE = 20;
+
+export interface CastRecorderOptions {
+  tool: CLITool;
+  title?: string;
+  prompt?: string;
+  /** Clock in milliseconds; injectable for tests. */
+  now?: () => number;
+}
+
+export class CastRecorder {
+  private readonly events: CastEvent[] = [];
+  private readonly now: () => number;
+  private readonly startedAt: number;
+
+  constructor(private readonly options: CastRecorderOptions) {
+    this.now = options.now ?? (() => Date.now());
+    this.startedAt = this.now();
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  input(command: string): void {
+    this.record('i', command);
+  }
+
+  output(text: string): void {
+    if (text) this.record('o', text);
+  }
+
+  toCast(): TerminalCast {
+    const { tool, title, prompt } = this.options;
+    return {
+      version: 1,
+      tool,
+      ...(title ? { title } : {}),
+      ...(prompt ? { prompt } : {}),
+      events: this.events.map(event => [...event] as CastEvent),
+    };
+  }
+
+  private record(type: CastEventType, text: string): void {
+    const seconds = Math.round(this.now() - this.startedAt) / 1000;
+    this.events.push([seconds, type, text]);
+  }
+}
+
+/**
+ * Parse and validate cast JSON, e.g. the body of a ```cast fence.
+ */
+export function parseCast(source: string): TerminalCast {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`Invalid cast: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Invalid cast: expected a JSON object');
+  }
+  const cast = data as Record<string, unknown>;
+  if (cast.version !== 1) throw new Error('Invalid cast: unsupported version');
+  if (!CAST_TOOLS.includes(cast.tool as CLITool)) {
+    throw new Error(`Invalid cast: tool must be one of ${CAST_TOOLS.join(', ')}`);
+  }
+  for (const key of ['title', 'prompt']) {
+    if (cast[key] !== undefined && typeof cast[key] !== 'string') {
+      throw new Error(`Invalid cast: ${key} must be a string`);
+    }
+  }
+  if (!Array.isArray(cast.events)) throw new Error('Invalid cast: events must be an array');
+
+  let previous = 0;
+  cast.events.forEach((event, index) => {
+    const valid =
+      Array.isArray(event) &&
+      event.length === 3 &&
+      typeof event[0] === 'number' &&
+      event[0] >= previous &&
+      (event[1] === 'i' || event[1] === 'o') &&
+      typeof event[2] === 'string';
+    if (!valid) throw new Error(`Invalid cast: event ${index} must be [seconds, "i" | "o", text] in time order`);
+    previous = event[0];
+  });
+
+  return data as TerminalCast;
+}
+
+/**
+ * Serialize a cast with one event per line, which keeps ```cast fences
+ * readable and diffable.
+ */
+export function formatCast(cast: TerminalCast): string {
+  const header = JSON.stringify({ ...cast, events: [] }, null, 2);
+  if (cast.events.length === 0) return header;
+  const events = cast.events.map(event => `    ${JSON.stringify(event)}`).join(',\n');
+  return header.replace('"events": []', `"events": [\n${events}\n  ]`);
+}
+
+export function castDuration(cast: TerminalCast): number {
+  return cast.events.length > 0 ? cast.events[cast.events.length - 1][0] : 0;
+}
+
+/**
+ * What the terminal shows `time` seconds into the cast. With `typing`,
+ * an upcoming input is typed out at `TYPING_RATE` just before its event,
+ * starting no earlier than the previous event.
+ */
+export function screenAt(cast: TerminalCast, time: number, options: { typing?: boolean } = {}): CastScreen {
+  const entries: CastScreenEntry[] = [];
+  let index = 0;
+
+  for (; index < cast.events.length && cast.events[index][0] <= time; index++) {
+    const [, type, text] = cast.events[index];
+    if (type === 'i') {
+      if (text.trim() === 'clear') entries.length = 0;
+      else entries.push({ command: text, output: '' });
+    } else {
+      const last = entries[entries.length - 1];
+      if (last) last.output = last.output ? `${last.output}\n${text}` : text;
+      else entries.push({ output: text });
+    }
+  }
+
+  let pending = '';
+  const next = cast.events[index];
+  if (options.typing && next?.[1] === 'i') {
+    const previousTime = index > 0 ? cast.events[index - 1][0] : 0;
+    const start = Math.max(previousTime, next[0] - next[2].length / TYPING_RATE);
+    if (time >= start && next[0] > start) {
+      pending = next[2].slice(0, Math.floor(((time - start) / (next[0] - start)) * next[2].length));
+    }
+  }
+
+  return { entries, pending };
+}
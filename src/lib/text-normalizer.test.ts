@@ -0,0 +1,99 @@
+/**
+ * Tests for text-normalizer.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeText, normalizeText, stemTerm, toSourceRanges, tokenize } from '@/lib/text-normalizer';
+
+describe('normalizeText', () => {
+  it('should strip diacritics and tatweel', () => {
+    expect(normalizeText('البَرْمَجَة')).toBe('البرمجه');
+    expect(normalizeText('بـــرمجة')).toBe('برمجه');
+  });
+
+  it('should unify alef variants, alef maqsura and taa marbuta', () => {
+    expect(normalizeText('أإآٱ')).toBe('اااا');
+    expect(normalizeText('مستوى')).toBe('مستوي');
+    expect(normalizeText('البرمجة')).toBe(normalizeText('البرمجه'));
+  });
+
+  it('should convert Arabic-Indic digits and lowercase Latin text', () => {
+    expect(normalizeText('الإصدار ٣ من React')).toBe('الاصدار 3 من react');
+  });
+});
+
+describe('stemTerm', () => {
+  it('should strip the definite article and attached prepositions', () => {
+    expect(stemTerm('البرمجه')).toBe('برمج');
+    expect(stemTerm('بالذكاء')).toBe('ذكاء');
+    expect(stemTerm('والمطور')).toBe('مطور');
+  });
+
+  it('should strip common suffixes', () => {
+    expect(stemTerm('المطورين')).toBe('مطور');
+    expect(stemTerm('مطورون')).toBe('مطور');
+    expect(stemTerm('ملفات')).toBe('ملف');
+  });
+
+  it('should keep short words intact', () => {
+    expect(stemTerm('الم')).toBe('الم');
+    expect(stemTerm('كود')).toBe('كود');
+  });
+
+  it('should remove English plural endings', () => {
+    expect(stemTerm('hooks')).toBe('hook');
+    expect(stemTerm('libraries')).toBe('library');
+    expect(stemTerm('class')).toBe('class');
+    expect(stemTerm('nextjs')).toBe('nextjs');
+  });
+});
+
+describe('tokenize', () => {
+  it('should reduce spelling variants to the same term', () => {
+    const [a] = tokenize('البرمجة');
+    const [b] = tokenize('البرمجه');
+    const [c] = tokenize('برمجة');
+
+    expect(a.term).toBe(b.term);
+    expect(a.term).toBe(c.term);
+  });
+
+  it('should handle mixed Arabic and English queries', () => {
+    expect(tokenize('هوكس React').map((t) => t.term)).toEqual(['هوكس', 'react']);
+  });
+
+  it('should split words that mix scripts', () => {
+    const tokens = tokenize('الـReact');
+
+    expect(tokens.map((t) => t.normalized)).toEqual(['ال', 'react']);
+    expect(tokens.every((t) => t.start === 0 && t.end === 8)).toBe(true);
+  });
+
+  it('should drop punctuation and keep source offsets', () => {
+    const tokens = tokenize('ما هو Cursor؟');
+
+    expect(tokens.map((t) => t.term)).toEqual(['ما', 'هو', 'cursor']);
+    expect(tokens[2]).toMatchObject({ start: 6, end: 12 });
+  });
+});
+
+describe('analyzeText and toSourceRanges', () => {
+  it('should join terms with single spaces', () => {
+    expect(analyzeText('تعلّم   البرمجة!').text).toBe('تعلم برمج');
+  });
+
+  it('should map ranges in the analyzed text back to whole source words', () => {
+    const source = 'مقدمة في البَرمجة';
+    const analyzed = analyzeText(source);
+    const start = analyzed.text.indexOf('برمج');
+
+    expect(toSourceRanges(analyzed, [[start, start + 3]])).toEqual([[9, source.length - 1]]);
+  });
+
+  it('should merge overlapping ranges', () => {
+    const analyzed = analyzeText('React hooks');
+
+    expect(toSourceRanges(analyzed, [[0, 1], [3, 4], [6, 7]])).toEqual([[0, 4], [6, 10]]);
+    expect(toSourceRanges(analyzeText(''), [[0, 1]])).toEqual([]);
+  });
+});
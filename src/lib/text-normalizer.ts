@@ -0,0 +1,188 @@
+/**
+ * Text Normalizer
+ *
+ * Normalization and light stemming shared by the search index, enhanced
+ * search and the chatbot keyword extractor, so "البرمجه", "البرمجة" and
+ * "بَرْمَجَة" all reduce to the same term.
+ *
+ * Pipeline for every word:
+ *   1. normalize: strip diacritics and tatweel, unify alef variants
+ *      (أ/إ/آ/ٱ → ا), ى → ي, ة → ه, Arabic-Indic digits → ASCII, lowercase
+ *   2. split mixed-script words ("الـReact" → "ال", "react")
+ *   3. light stem: Arabic prefixes (ال, وال, بال, ...) and suffixes
+ *      (ات, ون, ين, ه, ...); English plural "s"
+ *
+ * @module text-normalizer
+ */
+
+export interface Token {
+  /** Normalized and stemmed term used for matching. */
+  term: string;
+  /** Normalized term before stemming (useful for stop-word checks). */
+  normalized: string;
+  /** Start offset of the source word in the original text. */
+  start: number;
+  /** End offset (exclusive) of the source word in the original text. */
+  end: number;
+}
+
+export interface AnalyzedText {
+  /** Terms joined by single spaces; this is what gets indexed or searched. */
+  text: string;
+  tokens: Token[];
+  /** Offset of each token inside `text`. */
+  offsets: number[];
+}
+
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670]/g;
+const TATWEEL = /\u0640/g;
+const ALEF_VARIANTS = /[\u0622\u0623\u0625\u0671]/g;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+
+// Letters, digits, diacritics and tatweel; Arabic punctuation (، ؛ ؟) is excluded.
+const WORD_PATTERN = /[a-z0-9_\u0621-\u063A\u0640-\u0669\u0670-\u06D3]+/gi;
+const SCRIPT_RUN_PATTERN = /[\u0621-\u064A\u0671-\u06D3]+|[a-z0-9_]+/g;
+const ARABIC_PATTERN = /[\u0621-\u064A\u0671-\u06D3]/;
+
+const ARABIC_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+const ARABIC_SUFFIXES = ['ها', 'ان', 'ات', 'ون', 'ين', 'يه', 'ه', 'ي'];
+const MIN_ARABIC_STEM_LENGTH = 3;
+
+/**
+ * Normalize Arabic orthography and case without stemming.
+ *
+ * @example
+ * normalizeText('البَرْمَجَة') // 'البرمجه'
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(ALEF_VARIANTS, 'ا')
+    .replace(/\u0649/g, '\u064A')
+    .replace(/\u0629/g, '\u0647')
+    .replace(ARABIC_INDIC_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .toLowerCase();
+}
+
+function stemArabic(word: string): string {
+  let stem = word;
+
+  for (const prefix of ARABIC_PREFIXES) {
+    if (stem.startsWith(prefix) && stem.length - prefix.length >= MIN_ARABIC_STEM_LENGTH) {
+      stem = stem.slice(prefix.length);
+      break;
+    }
+  }
+
+  for (const suffix of ARABIC_SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= MIN_ARABIC_STEM_LENGTH) {
+      stem = stem.slice(0, -suffix.length);
+    }
+  }
+
+  return stem;
+}
+
+function stemEnglish(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is|js)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Light-stem a single normalized term, choosing the rules by script.
+ *
+ * @example
+ * stemTerm('البرمجه') // 'برمج'
+ * stemTerm('hooks')   // 'hook'
+ */
+export function stemTerm(term: string): string {
+  return ARABIC_PATTERN.test(term) ? stemArabic(term) : stemEnglish(term);
+}
+
+/**
+ * Split text into normalized, stemmed tokens that keep the offsets of the
+ * words they came from.
+ *
+ * @example
+ * tokenize('هوكس React').map(t => t.term) // ['هوكس', 'react']
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const start = word.index ?? 0;
+    const end = start + word[0].length;
+
+    for (const run of normalizeText(word[0]).matchAll(SCRIPT_RUN_PATTERN)) {
+      tokens.push({ term: stemTerm(run[0]), normalized: run[0], start, end });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokenize `text` and join the terms into a single searchable string.
+ * Apply this to both indexed fields and queries so they meet in the same form.
+ */
+export function analyzeText(text: string): AnalyzedText {
+  const tokens = tokenize(text);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const token of tokens) {
+    offsets.push(offset);
+    offset += token.term.length + 1;
+  }
+
+  return { text: tokens.map((token) => token.term).join(' '), tokens, offsets };
+}
+
+function tokenAt(analyzed: AnalyzedText, index: number): Token {
+  let low = 0;
+  let high = analyzed.offsets.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (analyzed.offsets[mid] <= index) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return analyzed.tokens[low];
+}
+
+/**
+ * Map inclusive `[start, end]` ranges in `analyzed.text` (e.g. Fuse match
+ * indices) back to whole-word inclusive ranges in the original text.
+ */
+export function toSourceRanges(
+  analyzed: AnalyzedText,
+  ranges: ReadonlyArray<readonly [number, number]>
+): Array<[number, number]> {
+  if (analyzed.tokens.length === 0) return [];
+
+  const mapped = ranges
+    .map(([start, end]): [number, number] => [tokenAt(analyzed, start).start, tokenAt(analyzed, end).end - 1])
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of mapped) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+  }
+
+  return merged;
+}
@@ -3,12 +3,14 @@ import type { Exercise, Tutorial, DifficultyLevel } from "@/types";
 import {
   validateTutorial,
   validateExercise,
+  getExerciseEntryFile,
   createTutorial,
   createTutorialStep,
   createExercise,
   calculateTutorialTime,
   getTutorialExercises,
   hasPrerequisite,
+  getMissingPrerequisites,
   getTutorialsByDifficulty,
   getTutorialsByTag,
   generateCertificateData,
@@ -157,6 +159,75 @@ describe("tutorial-utils", () => {
       expect(result.valid).toBe(false);
       expect(result.errors).toContain("Exercise must have starter code");
     });
+
+    it("should reject incomplete test cases and invalid entry points", () => {
+      const exercise: Exercise = {
+        id: "ex-1",
+        title: "Exercise",
+        description: "Description",
+        instruction: "Instruction",
+        starterCode: "function add(a, b) {}",
+        language: "javascript",
+        entryPoint: "add(",
+        testCases: [
+          { description: "adds", input: [1, 2], expectedOutput: 3 },
+          { description: "", expectedOutput: undefined },
+        ],
+      };
+
+      const result = validateExercise(exercise);
+      expect(result.errors).toEqual([
+        "Test case 2 must have a description",
+        "Test case 2 must have an expected output",
+        "Exercise entry point must be a function name",
+      ]);
+    });
+
+    it("should accept a multi-file exercise without starter code", () => {
+      const exercise: Exercise = {
+        id: "ex-project",
+        title: "Project",
+        description: "Description",
+        instruction: "Instruction",
+        starterCode: "",
+        language: "typescript",
+        entryFile: "src/app/page.ts",
+        files: [
+          { path: "src/lib/math.ts", content: "export const add = (a: number, b: number) => a + b;", readOnly: true },
+          { path: "src/app/page.ts", content: "import { add } from '@/lib/math';" },
+        ],
+      };
+
+      expect(validateExercise(exercise)).toEqual({ valid: true, errors: [] });
+      expect(getExerciseEntryFile(exercise)?.path).toBe("src/app/page.ts");
+      expect(getExerciseEntryFile({ ...exercise, entryFile: undefined })?.path).toBe("src/app/page.ts");
+    });
+
+    it("should reject invalid project files", () => {
+      const exercise: Exercise = {
+        id: "ex-project",
+        title: "Project",
+        description: "Description",
+        instruction: "Instruction",
+        starterCode: "",
+        language: "typescript",
+        entryFile: "src/index.ts",
+        files: [
+          { path: "src/a.ts", content: "", readOnly: true },
+          { path: "./src/a.ts", content: "", readOnly: true },
+          { path: "", content: "" },
+        ],
+      };
+
+      expect(validateExercise(exercise).errors).toEqual([
+        "Duplicate file path: ./src/a.ts",
+        "File 3 must have a valid path",
+        "Entry file src/index.ts is not one of the exercise files",
+      ]);
+      expect(validateExercise({ ...exercise, files: [] }).errors).toEqual([
+        "Exercise files must be a non-empty array",
+      ]);
+    });
   });
 
   describe("createTutorial", () => {
@@ -382,6 +453,34 @@ describe("tutorial-utils", () => {
     });
   });
 
+  describe("getMissingPrerequisites", () => {
+    const base: Tutorial = {
+      id: "t1",
+      slug: "test",
+      title: "Test",
+      description: "A".repeat(50),
+      section: "Test",
+      difficulty: "beginner",
+      estimatedMinutes: 30,
+      learningObjectives: ["Learn"],
+      steps: [{ id: "s1", title: "Step 1", content: "Content", order: 0 }],
+    };
+    const basics: Tutorial = { ...base, id: "basics-id", slug: "basics" };
+    const git: Tutorial = { ...base, id: "git-id", slug: "git" };
+    const tutorial: Tutorial = { ...base, id: "advanced-id", slug: "advanced", prerequisites: ["basics", "git"] };
+
+    it("should return prerequisites that are not completed, matched by id", () => {
+      const missing = getMissingPrerequisites(tutorial, [basics, git, tutorial], (id) => id === "basics-id");
+
+      expect(missing.map((t) => t.slug)).toEqual(["git"]);
+    });
+
+    it("should return nothing when every prerequisite is completed", () => {
+      expect(getMissingPrerequisites(tutorial, [basics, git], () => true)).toEqual([]);
+      expect(getMissingPrerequisites(basics, [basics, git], () => false)).toEqual([]);
+    });
+  });
+
   describe("getTutorialsByDifficulty", () => {
     it("should filter tutorials by difficulty", () => {
       const tutorials: Tutorial[] = [
@@ -2,9 +2,11 @@ import type {
   Tutorial,
   TutorialStep,
   Exercise,
+  ExerciseFile,
   DifficultyLevel,
   InteractiveExample,
 } from "@/types";
+import { normalizePath } from "./module-bundler";
 
 /**
  * Validates a tutorial object to ensure it has all required fields and valid data.
@@ -122,12 +124,26 @@ export function validateExercise(exercise: Exercise): {
   if (!exercise.instruction || typeof exercise.instruction !== "string") {
     errors.push("Exercise must have valid instructions");
   }
-  if (!exercise.starterCode || typeof exercise.starterCode !== "string") {
+  if (exercise.files === undefined && (!exercise.starterCode || typeof exercise.starterCode !== "string")) {
     errors.push("Exercise must have starter code");
   }
+  if (exercise.files !== undefined) {
+    errors.push(...validateExerciseFiles(exercise));
+  }
   if (!exercise.language || typeof exercise.language !== "string") {
     errors.push("Exercise must have a valid language");
   }
+  exercise.testCases?.forEach((testCase, index) => {
+    if (!testCase.description || typeof testCase.description !== "string") {
+      errors.push(`Test case ${index + 1} must have a description`);
+    }
+    if (testCase.expectedOutput === undefined) {
+      errors.push(`Test case ${index + 1} must have an expected output`);
+    }
+  });
+  if (exercise.entryPoint !== undefined && !/^[A-Za-z_$][\w$]*$/.test(exercise.entryPoint)) {
+    errors.push("Exercise entry point must be a function name");
+  }
 
   return {
     valid: errors.length === 0,
@@ -135,6 +151,53 @@ export function validateExercise(exercise: Exercise): {
   };
 }
 
+function validateExerciseFiles(exercise: Exercise): string[] {
+  const errors: string[] = [];
+  const files = exercise.files ?? [];
+
+  if (!Array.isArray(files) || files.length === 0) {
+    return ["Exercise files must be a non-empty array"];
+  }
+
+  const seen = new Set<string>();
+  files.forEach((file, index) => {
+    if (!file.path || typeof file.path !== "string" || !normalizePath(file.path)) {
+      errors.push(`File ${index + 1} must have a valid path`);
+      return;
+    }
+    if (typeof file.content !== "string") {
+      errors.push(`File ${file.path} must have content`);
+    }
+    const path = normalizePath(file.path);
+    if (seen.has(path)) {
+      errors.push(`Duplicate file path: ${file.path}`);
+    }
+    seen.add(path);
+  });
+
+  if (!files.some((file) => !file.readOnly)) {
+    errors.push("Exercise must have at least one editable file");
+  }
+  if (exercise.entryFile !== undefined && !seen.has(normalizePath(exercise.entryFile))) {
+    errors.push(`Entry file ${exercise.entryFile} is not one of the exercise files`);
+  }
+
+  return errors;
+}
+
+/**
+ * Gets the file a multi-file exercise runs: `entryFile`, or the first
+ * editable file.
+ */
+export function getExerciseEntryFile(exercise: Exercise): ExerciseFile | undefined {
+  const files = exercise.files ?? [];
+  if (exercise.entryFile !== undefined) {
+    const entry = normalizePath(exercise.entryFile);
+    return files.find((file) => normalizePath(file.path) === entry);
+  }
+  return files.find((file) => !file.readOnly);
+}
+
 /**
  * Factory function to create a tutorial with required fields.
  */
@@ -231,6 +294,20 @@ export function hasPrerequisite(
   return tutorial.prerequisites?.includes(prerequisiteSlug) ?? false;
 }
 
+/**
+ * Gets the prerequisite tutorials of `tutorial` that are not completed yet.
+ * Prerequisites are slugs; completion is checked by tutorial id.
+ */
+export function getMissingPrerequisites(
+  tutorial: Tutorial,
+  catalog: Tutorial[],
+  isCompleted: (tutorialId: string) => boolean
+): Tutorial[] {
+  return catalog.filter(
+    (candidate) => hasPrerequisite(tutorial, candidate.slug) && !isCompleted(candidate.id)
+  );
+}
+
 /**
  * Gets tutorials by difficulty level.
  */
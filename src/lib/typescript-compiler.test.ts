@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { formatDiagnostic, transpileTypeScript, typeCheckTypeScript } from './typescript-compiler';
+
+const LIB_DIR = path.join(process.cwd(), 'node_modules', 'typescript', 'lib');
+const readLib = vi.fn(async (fileName: string) => fs.readFileSync(path.join(LIB_DIR, fileName), 'utf8'));
+
+describe('transpileTypeScript', () => {
+  it('strips types and keeps async code', async () => {
+    const { code, diagnostics } = await transpileTypeScript(
+      'interface User { id: number }\nasync function fetchUser(id: number): Promise<User> { return { id }; }\nreturn (await fetchUser(1)).id;'
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(code).not.toMatch(/interface|: number|Promise<User>/);
+    expect(code).toContain('async function fetchUser(id)');
+    expect(code).toContain('return (await fetchUser(1)).id;');
+  });
+
+  it('turns exports into something the sandbox can run', async () => {
+    const { code } = await transpileTypeScript('export const answer: number = 42;\nreturn answer;');
+    const run = new Function(code);
+
+    expect(run()).toBe(42);
+  });
+
+  it('reports syntax errors with line numbers', async () => {
+    const { diagnostics } = await transpileTypeScript('const a = 1;\nconst b: = 2;');
+
+    expect(diagnostics[0]).toMatchObject({ line: 2, column: 10, category: 'error', code: 1110 });
+    expect(formatDiagnostic(diagnostics[0])).toBe('Line 2, Col 10: Type expected. (TS1110)');
+  });
+});
+
+describe('typeCheckTypeScript', () => {
+  it('reports type errors in the snippet', async () => {
+    const diagnostics = await typeCheckTypeScript(
+      'function double(n: number): number {\n  return n * 2;\n}\nconst result: string = double(2);',
+      { readLib }
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        line: 4,
+        column: 7,
+        message: "Type 'number' is not assignable to type 'string'.",
+        code: 2322,
+        category: 'error',
+      },
+    ]);
+  }, 30000);
+
+  it('accepts top-level await, return and the browser globals', async () => {
+    const diagnostics = await typeCheckTypeScript(
+      'const name = (await fetch("/api")).statusText;\nconsole.log(name.toUpperCase());\nreturn name;',
+      { readLib }
+    );
+
+    expect(diagnostics).toEqual([]);
+  }, 30000);
+
+  it('loads each library file once', async () => {
+    await typeCheckTypeScript('const x: number = 1;', { readLib });
+    const loaded = readLib.mock.calls.map(([fileName]) => fileName);
+
+    expect(loaded).toContain('lib.es2022.d.ts');
+    expect(loaded).toContain('lib.es5.d.ts');
+    expect(new Set(loaded).size).toBe(loaded.length);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * TypeScript Compiler
+ *
+ * In-browser TypeScript support for runnable code blocks. The `typescript`
+ * package is loaded on first use. `transpileTypeScript` strips types and
+ * reports syntax errors; `typeCheckTypeScript` runs the full checker
+ * against the standard library declarations, which are fetched from
+ * `/api/typescript-lib` and cached for the session.
+ *
+ * Snippets are checked as modules and run as the body of an async
+ * function (see code-sandbox), so top-level `await` and `return` are
+ * allowed.
+ *
+ * @module typescript-compiler
+ */
+
+import type * as TS from 'typescript';
+
+export interface TypeScriptDiagnostic {
+  /** 1-based position in the snippet. */
+  line: number;
+  column: number;
+  message: string;
+  code: number;
+  category: 'error' | 'warning';
+}
+
+export interface TranspileResult {
+  /** JavaScript ready for `runInSandbox`. */
+  code: string;
+  /** Syntax errors; the code should not be run when there are any. */
+  diagnostics: TypeScriptDiagnostic[];
+}
+
+export interface TypeCheckOptions {
+  /** Reads a standard library file such as `lib.es2022.d.ts`. */
+  readLib?: (fileName: string) => Promise<string>;
+}
+
+const SNIPPET_FILE = 'snippet.ts';
+const ROOT_LIBS = ['lib.es2022.d.ts', 'lib.dom.d.ts'];
+
+// "'return' can only be used within a function body" — snippets run inside one
+const IGNORED_DIAGNOSTICS = new Set([1108]);
+
+// Compiled modules expect CommonJS globals; imports cannot work in the sandbox
+const MODULE_PRELUDE =
+  'var exports = {}, module = { exports: exports }, require = function (name) { throw new Error("Cannot import \\"" + name + "\\" in a code block"); };';
+
+let typescript: Promise<typeof TS> | null = null;
+const libSources = new Map<string, Promise<string>>();
+const libFiles = new Map<string, TS.SourceFile>();
+
+function loadTypeScript(): Promise<typeof TS> {
+  typescript ??= import('typescript').then(module => ('default' in module ? module.default : module) as typeof TS);
+  return typescript;
+}
+
+async function fetchLib(fileName: string): Promise<string> {
+  const response = await fetch(`/api/typescript-lib/${fileName}`);
+  if (!response.ok) throw new Error(`Could not load ${fileName} (${response.status})`);
+  return response.text();
+}
+
+function toDiagnostics(
+  ts: typeof TS,
+  diagnostics: readonly TS.Diagnostic[],
+  fileName = SNIPPET_FILE
+): TypeScriptDiagnostic[] {
+  return diagnostics
+    .filter(diagnostic => !IGNORED_DIAGNOSTICS.has(diagnostic.code))
+    .filter(diagnostic => diagnostic.file === undefined || diagnostic.file.fileName === fileName)
+    .map(diagnostic => {
+      const { line, character } =
+        diagnostic.file && diagnostic.start !== undefined
+          ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+          : { line: 0, character: 0 };
+      return {
+        line: line + 1,
+        column: character + 1,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        code: diagnostic.code,
+        category: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+      } satisfies TypeScriptDiagnostic;
+    })
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export function formatDiagnostic(diagnostic: TypeScriptDiagnostic): string {
+  return `Line ${diagnostic.line}, Col ${diagnostic.column}: ${diagnostic.message} (TS${diagnostic.code})`;
+}
+
+/**
+ * Compile one module of a multi-file project to CommonJS. The result
+ * expects `exports`, `module` and `require` to be provided by the caller.
+ */
+export async function transpileModule(source: string, fileName: string): Promise<TranspileResult> {
+  const ts = await loadTypeScript();
+  const output = ts.transpileModule(source, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.CommonJS,
+      esModuleInterop: true,
+    },
+  });
+
+  return {
+    code: output.outputText.replace(/\n\/\/# sourceMappingURL=.*$/, ''),
+    diagnostics: toDiagnostics(ts, output.diagnostics ?? [], fileName),
+  };
+}
+
+export async function transpileTypeScript(source: string): Promise<TranspileResult> {
+  const { code, diagnostics } = await transpileModule(source, SNIPPET_FILE);
+  return { code: `${MODULE_PRELUDE}\n${code}`, diagnostics };
+}
+
+/**
+ * Load `fileName` and every library it references with
+ * `/// <reference lib="..." />`.
+ */
+async function loadLibs(ts: typeof TS, fileNames: string[], readLib: (fileName: string) => Promise<string>) {
+  await Promise.all(
+    fileNames.map(async fileName => {
+      if (!libSources.has(fileName)) {
+        const source = readLib(fileName);
+        libSources.set(fileName, source);
+        source.catch(() => libSources.delete(fileName));
+      }
+      const text = await libSources.get(fileName)!;
+      const references = ts.preProcessFile(text, true, true).libReferenceDirectives;
+      await loadLibs(
+        ts,
+        references.map(ref => `lib.${ref.fileName.toLowerCase()}.d.ts`),
+        readLib
+      );
+    })
+  );
+}
+
+export async function typeCheckTypeScript(
+  source: string,
+  { readLib = fetchLib }: TypeCheckOptions = {}
+): Promise<TypeScriptDiagnostic[]> {
+  const ts = await loadTypeScript();
+  await loadLibs(ts, ROOT_LIBS, readLib);
+
+  const libText = new Map<string, string>();
+  for (const [fileName, text] of libSources) libText.set(fileName, await text);
+  const baseName = (fileName: string) => fileName.slice(fileName.lastIndexOf('/') + 1);
+
+  const options: TS.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleDetection: ts.ModuleDetectionKind.Force,
+    lib: ROOT_LIBS,
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    types: [],
+  };
+
+  const host: TS.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (fileName === SNIPPET_FILE) return ts.createSourceFile(fileName, source, languageVersion, true);
+      const name = baseName(fileName);
+      const text = libText.get(name);
+      if (text === undefined) return undefined;
+      if (!libFiles.has(name)) libFiles.set(name, ts.createSourceFile(fileName, text, languageVersion));
+      return libFiles.get(name);
+    },
+    getDefaultLibFileName: () => 'lib.d.ts',
+    getDefaultLibLocation: () => '',
+    writeFile: () => {},
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => fileName === SNIPPET_FILE || libText.has(baseName(fileName)),
+    readFile: fileName => (fileName === SNIPPET_FILE ? source : libText.get(baseName(fileName))),
+  };
+
+  const program = ts.createProgram([SNIPPET_FILE], options, host);
+  return toDiagnostics(ts, ts.getPreEmitDiagnostics(program));
+}
@@ -233,7 +233,7 @@ describe('Wiki Chatbot Utilities', () => {
   describe('extractKeywords', () => {
     it('should extract Arabic keywords', () => {
       const keywords = extractKeywords('أريد معرفة عن Cursor IDE', 'ar');
-      expect(keywords).toContain('معرفة');
+      expect(keywords).toContain('معرف');
       expect(keywords).toContain('cursor');
     });
 
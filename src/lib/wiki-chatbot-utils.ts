@@ -1,6 +1,8 @@
 /**
  * Wiki Chatbot Utilities
- * Core functions for AI-powered chatbot with RAG (Retrieval Augmented Generation)
+ * Core functions for AI-powered chatbot with RAG (Retrieval Augmented Generation).
+ * Answers from a language model are generated by `/api/chat` (see `src/lib/llm`);
+ * `generateResponse` fills fixed templates and works without one.
  */
 
 import type {
@@ -17,6 +19,8 @@ import type {
   SuggestedResponse,
 } from '../types/wiki-chatbot';
 import type { WikiArticle, Tutorial, LearningPath, DifficultyLevel } from '../types';
+import { normalizeText, tokenize } from './text-normalizer';
+import { getContentIndex, retrievePassages, toTerms } from './retrieval';
 
 // Default chatbot configuration
 export const DEFAULT_CONFIG: ChatbotConfig = {
@@ -236,14 +240,13 @@ export function extractKeywords(text: string, language: 'ar' | 'en'): string[] {
     'to', 'for', 'of', 'with', 'by', 'from', 'how', 'what', 'where', 'when'
   ]);
 
-  const stopWords = language === 'ar' ? arStopWords : enStopWords;
+  const stopWords = new Set(Array.from(language === 'ar' ? arStopWords : enStopWords, normalizeText));
 
-  // Tokenize and filter
-  const words = text
-    .toLowerCase()
-    .replace(/[^\w\s\u0600-\u06FF]/g, ' ')
-    .split(/\s+/)
-    .filter((word) => word.length > 2 && !stopWords.has(word));
+  // Tokenize (normalized and stemmed, see text-normalizer) and filter
+  const words = tokenize(text)
+    .filter((token) => !stopWords.has(token.normalized))
+    .map((token) => token.term)
+    .filter((term) => term.length > 2);
 
   // Remove duplicates while preserving order
   return Array.from(new Set(words));
@@ -273,7 +276,9 @@ export function parseQuery(
 }
 
 /**
- * Search wiki content with fuzzy matching
+ * Find the passages that best answer `query`: articles (split at their
+ * headings), tutorial steps and learning paths, ranked with BM25 (see
+ * `src/lib/retrieval`). Each result is one passage.
  */
 export function searchWikiContent(
   query: ParsedQuery,
@@ -282,95 +287,18 @@ export function searchWikiContent(
   paths: LearningPath[],
   maxResults: number = 5
 ): WikiSearchResult[] {
-  const results: WikiSearchResult[] = [];
-  const queryTerms = [
-    ...query.keywords,
-    ...query.entities.map((e) => e.value.toLowerCase()),
-  ];
-
-  // Search in articles
-  wikiArticles.forEach((article) => {
-    let score = 0;
-    const matchedSections: string[] = [];
-
-    // Check title match
-    const titleLower = article.title.toLowerCase();
-    queryTerms.forEach((term) => {
-      if (titleLower.includes(term)) {
-        score += 0.5;
-        matchedSections.push('title');
-      }
-    });
-
-    // Check section match
-    const sectionLower = article.section.toLowerCase();
-    queryTerms.forEach((term) => {
-      if (sectionLower.includes(term)) {
-        score += 0.3;
-        matchedSections.push('section');
-      }
-    });
-
-    // Check content match
-    const contentLower = article.content.toLowerCase();
-    queryTerms.forEach((term) => {
-      const count = (contentLower.match(new RegExp(term, 'g')) || []).length;
-      if (count > 0) {
-        score += Math.min(count * 0.1, 0.5);
-        matchedSections.push('content');
-      }
-    });
-
-    if (score > 0) {
-      results.push({
-        article: {
-          slug: article.slug,
-          title: article.title,
-          section: article.section,
-          content: article.content,
-        },
-        score,
-        matchedSections,
-      });
-    }
-  });
-
-  // Search in tutorials
-  tutorials.forEach((tutorial) => {
-    let score = 0;
-    const matchedSections: string[] = [];
-
-    const titleLower = tutorial.title.toLowerCase();
-    queryTerms.forEach((term) => {
-      if (titleLower.includes(term)) {
-        score += 0.5;
-        matchedSections.push('title');
-      }
-    });
-
-    const descLower = tutorial.description.toLowerCase();
-    queryTerms.forEach((term) => {
-      if (descLower.includes(term)) {
-        score += 0.3;
-        matchedSections.push('description');
-      }
-    });
-
-    if (score > 0) {
-      results.push({
-        article: {
-          slug: tutorial.slug,
-          title: tutorial.title,
-          section: tutorial.section,
-          content: tutorial.description,
-        },
-        score,
-        matchedSections,
-      });
-    }
-  });
+  // Keywords are already normalized terms; entity values are raw text
+  const terms = [...query.keywords, ...query.entities.flatMap((entity) => toTerms(entity.value))];
+  return retrievePassages(getContentIndex(wikiArticles, tutorials, paths), terms, maxResults);
+}
 
-  return results.sort((a, b) => b.score - a.score).slice(0, maxResults);
+/**
+ * Link to the page a source comes from, at the cited heading for articles.
+ */
+export function getChatSourceHref(source: ChatSource): string {
+  if (source.type === 'tutorial') return `/tutorials/${source.slug}`;
+  if (source.type === 'path') return `/paths/${source.slug}`;
+  return `/wiki/${source.slug}${source.anchor ? `#${source.anchor}` : ''}`;
 }
 
 /**
@@ -384,12 +312,14 @@ export function generateResponse(
   language: 'ar' | 'en'
 ): ChatbotResponse {
   const sources: ChatSource[] = searchResults.slice(0, config.maxSources).map((result) => ({
-    type: 'article',
+    type: result.type ?? 'article',
     id: result.article.slug,
     slug: result.article.slug,
     title: result.article.title,
     excerpt: result.article.content.slice(0, 150) + '...',
     relevanceScore: result.score,
+    heading: result.heading,
+    anchor: result.anchor,
   }));
 
   let message = '';
@@ -106,6 +106,9 @@ export interface EventMetadata {
   hintsUsed?: number;
   attempts?: number;
   completed?: boolean;
+  score?: number; // percentage of test cases passed
+  testsPassed?: number;
+  testsTotal?: number;
 
   // Contribution-specific
   contributionType?: 'article' | 'tutorial' | 'example' | 'path';
@@ -24,6 +24,8 @@ export interface WikiArticle {
   codeBlocks?: CodeBlock[];
   visualAssets?: string[]; // SVG file references for diagrams (legacy)
   diagrams?: ArticleDiagram[]; // Enhanced diagram support with metadata
+  difficulty?: DifficultyLevel;
+  tags?: string[];
 }
 
 export interface CodeBlock {
@@ -37,6 +39,12 @@ export interface WikiSection {
   articles: WikiArticle[];
 }
 
+// Lightweight section listing for client navigation (no article bodies)
+export interface NavSection {
+  name: string;
+  articles: Pick<WikiArticle, 'slug' | 'title'>[];
+}
+
 // Tutorial and Exercise types
 export type DifficultyLevel = "beginner" | "intermediate" | "advanced";
 
@@ -51,12 +59,23 @@ export interface Exercise {
   hints?: string[];
   solution?: string;
   testCases?: TestCase[];
+  entryPoint?: string; // Function called with each test case's input
+  files?: ExerciseFile[]; // Multi-file project; replaces starterCode
+  entryFile?: string; // Path of the file that runs (defaults to the first editable file)
+}
+
+export interface ExerciseFile {
+  path: string; // Project-relative, e.g. "src/lib/math.ts"
+  content: string;
+  readOnly?: boolean;
+  solution?: string; // Content of this file in the solution
 }
 
 export interface TestCase {
   description: string;
   input?: unknown;
   expectedOutput: unknown;
+  required?: boolean; // Optional cases count toward the score only (default true)
 }
 
 export interface TutorialStep {
@@ -83,6 +102,9 @@ export interface Tutorial {
   author?: string;
 }
 
+// Simulated command-line tools available in CLI playgrounds
+export type CLITool = "claude" | "copilot" | "opencode" | "bash";
+
 // Interactive example types
 export interface InteractiveExample {
   id: string;
@@ -378,6 +400,13 @@ export type {
   AggregationPeriod,
 } from './analytics';
 
+// Search index types - re-exported from search.ts
+export type {
+  SearchIndexDocument,
+  SearchIndexSection,
+  PrebuiltSearchIndex,
+} from './search';
+
 // User Testing types - re-exported from user-testing.ts
 export type {
   TesterRole,
@@ -0,0 +1,36 @@
+/**
+ * Search Index Types for Vibe Wiki
+ * Shape of the prebuilt inverted index served as a static JSON file
+ */
+
+import type { DifficultyLevel } from './index';
+
+// One entry per article, without the article body
+export interface SearchIndexDocument {
+  slug: string;
+  title: string;
+  section: string;
+  difficulty?: DifficultyLevel;
+  readingTime: number;
+  hasCode: boolean;
+}
+
+// One entry per heading (plus the text before the first heading)
+export interface SearchIndexSection {
+  /** Position of the article in `documents`. */
+  doc: number;
+  /** rehype-slug id of the heading; empty for the text before the first heading. */
+  anchor: string;
+  heading: string;
+  level: number;
+  /** Plain-text start of the section, used for result snippets. */
+  snippet: string;
+}
+
+export interface PrebuiltSearchIndex {
+  version: number;
+  documents: SearchIndexDocument[];
+  sections: SearchIndexSection[];
+  /** Stemmed term → flat postings: [sectionIndex, weight, sectionIndex, weight, ...]. */
+  terms: Record<string, number[]>;
+}
@@ -12,6 +12,8 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   sources?: ChatSource[];
+  /** The reader's rating of an assistant answer, once given. */
+  feedback?: Pick<ChatbotFeedback, 'rating' | 'helpful' | 'issue'>;
 }
 
 // Source citations for RAG (Retrieval Augmented Generation)
@@ -22,6 +24,9 @@ export interface ChatSource {
   title: string;
   excerpt: string;
   relevanceScore: number;
+  /** Heading of the cited passage, and its anchor on an article page. */
+  heading?: string;
+  anchor?: string;
 }
 
 // Suggested responses for quick user actions
@@ -52,12 +57,18 @@ export interface ChatContext {
 
 // Search result for RAG
 export interface WikiSearchResult {
+  /** What the result links to; articles when missing. */
+  type?: ChatSource['type'];
+  /** The page the passage comes from; `content` is the passage itself. */
   article: {
     slug: string;
     title: string;
     section: string;
     content: string;
   };
+  /** Heading the passage sits under, and its anchor on an article page. */
+  heading?: string;
+  anchor?: string;
   score: number;
   matchedSections: string[];
 }
@@ -117,6 +128,27 @@ export interface ChatbotAnalytics {
   topTopics: Array<{ topic: string; count: number }>;
   satisfiedUsers: number;
   escalatedToHuman: number;
+  averageRating: number | null;
+  unansweredQueries: UnansweredQuery[];
+}
+
+// A question the wiki had nothing to answer with
+export interface UnansweredQuery {
+  query: string;
+  count: number;
+  lastAskedAt: Date;
+}
+
+// One question as logged by the chat route
+export interface ChatQueryRecord {
+  id: string;
+  conversationId?: string;
+  query: string;
+  intent: ChatIntent;
+  topics: string[];
+  language: 'ar' | 'en';
+  resultCount: number;
+  timestamp: Date;
 }
 
 // Feedback on chatbot responses